@@ -17,6 +17,8 @@ import WhyDecadePage from "@/pages/why-decade";
 import InteractionShowcasePage from "@/pages/interaction-showcase";
 import { AchievementsPage } from "@/pages/achievements";
 import AnalyticsPage from "@/pages/analytics";
+import GamesPage from "@/pages/games";
+import StorePage from "@/pages/store";
 
 import Checkout from "@/pages/checkout";
 import Subscribe from "@/pages/subscribe";
@@ -44,6 +46,8 @@ function Router() {
       <ProtectedRoute path="/progress" component={MyProgressPage} />
       <ProtectedRoute path="/achievements" component={AchievementsPage} />
       <ProtectedRoute path="/analytics" component={AnalyticsPage} />
+      <ProtectedRoute path="/games" component={GamesPage} />
+      <ProtectedRoute path="/store" component={StorePage} />
       <ProtectedRoute path="/settings" component={SettingsPage} />
       <ProtectedRoute path="/pricing" component={PricingPage} />
       <ProtectedRoute path="/checkout" component={Checkout} />
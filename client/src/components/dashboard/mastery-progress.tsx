@@ -3,7 +3,6 @@ import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useMicroInteractions } from '@/hooks/use-micro-interactions';
-import { DECA_CATEGORIES, PI_CATEGORIES } from '@shared/schema';
 import { ProgressRing } from '@/components/ui/progress-ring';
 
 interface CategoryProgress {
@@ -32,20 +32,6 @@ export default function PerformanceChart({
 }: PerformanceChartProps) {
   const isMobile = useIsMobile();
   
-  // If no data or empty data, show placeholder message
-  if (!data || data.length === 0) {
-    return (
-      <Card className={className}>
-        <CardHeader>
-          <CardTitle>{title}</CardTitle>
-        </CardHeader>
-        <CardContent className="flex justify-center items-center h-[200px]">
-          <p className="text-muted-foreground">No performance data available yet</p>
-        </CardContent>
-      </Card>
-    );
-  }
-
   // Adjust dimensions for mobile
   if (isMobile) {
     width = window.innerWidth - 48; // full width minus padding
@@ -75,12 +61,26 @@ export default function PerformanceChart({
     () =>
       scaleLinear<number>({
         range: [innerHeight, 0],
-        domain: [0, Math.max(...data.map(yAccessor)) * 1.1], // Add 10% padding to the top
+        domain: [0, Math.max(...data.map(yAccessor), 1) * 1.1], // Add 10% padding to the top
         nice: true,
       }),
     [innerHeight, data]
   );
 
+  // If no data or empty data, show placeholder message (after the hooks, which must run on every render)
+  if (!data || data.length === 0) {
+    return (
+      <Card className={className}>
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+        </CardHeader>
+        <CardContent className="flex justify-center items-center h-[200px]">
+          <p className="text-muted-foreground">No performance data available yet</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className={className}>
       <CardHeader>
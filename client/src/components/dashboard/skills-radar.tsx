@@ -5,7 +5,6 @@ import { Line, LineRadial } from '@visx/shape';
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { PI_CATEGORIES } from '@shared/schema';
 
 interface SkillData {
   category: string;
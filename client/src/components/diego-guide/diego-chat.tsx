@@ -6,10 +6,12 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Send, X, Loader2, Info, Star, BookOpen, Award, Sparkles } from 'lucide-react';
 import DiegoAvatar from './diego-avatar';
 import { apiRequest } from '@/lib/queryClient';
+import { readEventStream } from '@/lib/event-stream';
 import { useAuth } from '@/hooks/use-auth';
 import { useMicroInteractions } from '@/hooks/use-micro-interactions';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useToast } from '@/hooks/use-toast';
+import type { ChatMessage as StoredChatMessage } from '@shared/schema';
 
 // Define available chat message types
 interface ChatMessage {
@@ -18,6 +20,14 @@ interface ChatMessage {
   timestamp: Date;
   emotion?: 'happy' | 'excited' | 'thinking' | 'neutral';
   isExitMessage?: boolean;
+  isStreaming?: boolean; // Still receiving tokens
+}
+
+// A conversation as sent by /api/chat/conversations
+interface DiegoConversation {
+  id: number;
+  messages: StoredChatMessage[];
+  closed: boolean;
 }
 
 interface DiegoChatProps {
@@ -32,68 +42,85 @@ const PROMPT_SUGGESTIONS = [
   { icon: <BookOpen className="h-3 w-3" />, text: "DECA events", value: "What are the main DECA event categories I can prepare for?" },
   { icon: <Award className="h-3 w-3" />, text: "Performance Indicators", value: "What are Performance Indicators in DECA and why are they important?" },
   { icon: <Sparkles className="h-3 w-3" />, text: "Study tips", value: "What are your top 3 tips for DECA competition success?" },
+  { icon: <BookOpen className="h-3 w-3" />, text: "What to study", value: "Based on my results so far, what should I study tonight?" },
 ];
 
 export default function DiegoChat({ isOpen, onClose }: DiegoChatProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversationId, setConversationId] = useState<number | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [diegoEmotion, setDiegoEmotion] = useState<'happy' | 'excited' | 'thinking' | 'neutral'>('happy');
   const [shouldExitChat, setShouldExitChat] = useState(false);
   const [exitCountdown, setExitCountdown] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
   const { user } = useAuth();
   const { triggerAnimation } = useMicroInteractions();
   const { toast } = useToast();
   
-  // Track the number of questions asked in the current session
-  const [questionCount, setQuestionCount] = useState(0);
-  const [unrelatedCount, setUnrelatedCount] = useState(0);
-  
-  // Load chat history from localStorage
-  useEffect(() => {
-    if (isOpen) {
-      const savedMessages = localStorage.getItem('diegoChat');
-      if (savedMessages) {
-        try {
-          const parsedMessages = JSON.parse(savedMessages).map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp)
-          }));
-          setMessages(parsedMessages);
-        } catch (e) {
-          console.error('Error parsing saved messages:', e);
-          // If there's an error, start fresh
-          addInitialGreeting();
-        }
-      } else {
-        // No saved messages, add initial greeting
-        addInitialGreeting();
-      }
-    }
-  }, [isOpen]);
-
-  // Add initial greeting if there are no messages
-  const addInitialGreeting = () => {
+  // The greeting opens every conversation; it isn't stored on the server
+  const getInitialGreeting = (): ChatMessage => {
     const timeOfDay = new Date().getHours() < 12 ? 'morning' : new Date().getHours() < 18 ? 'afternoon' : 'evening';
     
-    setMessages([
-      {
-        role: 'assistant',
-        content: `Good ${timeOfDay}${user?.username ? ', ' + user.username : ''}! 🐬 I'm Diego, your friendly dolphin assistant for DecA(I)de. How can I help you with your DECA preparation today?`,
-        timestamp: new Date(),
-        emotion: 'excited'
-      }
-    ]);
+    return {
+      role: 'assistant',
+      content: `Good ${timeOfDay}${user?.username ? ', ' + user.username : ''}! 🐬 I'm Diego, your friendly dolphin assistant for DecA(I)de. How can I help you with your DECA preparation today?`,
+      timestamp: new Date(),
+      emotion: 'excited'
+    };
   };
   
-  // Save chat history to localStorage when messages change
+  // Closing the chat cancels a reply that is still streaming
   useEffect(() => {
-    if (messages.length > 0) {
-      localStorage.setItem('diegoChat', JSON.stringify(messages));
-    }
-  }, [messages]);
+    if (isOpen) return;
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsLoading(false);
+    setIsStreaming(false);
+  }, [isOpen]);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Pick up the latest open conversation from the server, or start fresh
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const loadConversation = async () => {
+      try {
+        const response = await apiRequest('GET', '/api/chat/conversations');
+        const conversations: DiegoConversation[] = await response.json();
+        const latest = conversations.find(conversation => !conversation.closed);
+        if (cancelled) return;
+
+        setConversationId(latest?.id ?? null);
+        setMessages([
+          getInitialGreeting(),
+          ...(latest?.messages || []).map(message => ({
+            role: message.role,
+            content: message.content,
+            timestamp: new Date(message.createdAt),
+            emotion: message.role === 'user' ? undefined : message.isUnrelated ? 'neutral' as const : 'happy' as const
+          }))
+        ]);
+      } catch (e) {
+        console.error('Error loading chat history:', e);
+        // If there's an error, start fresh
+        if (!cancelled) {
+          setConversationId(null);
+          setMessages([getInitialGreeting()]);
+        }
+      }
+    };
+
+    loadConversation();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
   
   useEffect(() => {
     if (isOpen && inputRef.current) {
@@ -137,67 +164,75 @@ export default function DiegoChat({ isOpen, onClose }: DiegoChatProps) {
     setIsLoading(true);
     setDiegoEmotion('thinking');
     
+    const controller = new AbortController();
+    requestRef.current = controller;
+    
     try {
-      // Increment question count
-      const newQuestionCount = questionCount + 1;
-      setQuestionCount(newQuestionCount);
-      
-      // Send message to API
-      const response = await apiRequest('POST', '/api/chat/diego', {
-        message: input,
-        questionCount: newQuestionCount,
-        unrelatedCount
+      // Send message to API; the server keeps the conversation and its context and streams the reply back
+      const response = await fetch('/api/chat/diego', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({ message: input, conversationId }),
+        credentials: 'include',
+        signal: controller.signal
       });
       
       if (!response.ok) {
         throw new Error('Failed to get a response from Diego');
       }
       
-      const data = await response.json();
+      // Diego's reply grows in place as tokens arrive
+      let data: any = null;
+      await readEventStream(response, (event, payload) => {
+        if (event === 'token') {
+          setIsStreaming(true);
+          setMessages(prev => {
+            const last = prev[prev.length - 1];
+            if (last?.role === 'assistant' && last.isStreaming) {
+              return [...prev.slice(0, -1), { ...last, content: last.content + payload.text }];
+            }
+            return [...prev, { role: 'assistant', content: payload.text, timestamp: new Date(), emotion: 'happy', isStreaming: true }];
+          });
+        } else if (event === 'done') {
+          data = payload;
+        } else if (event === 'error') {
+          throw new Error(payload.message || 'Failed to get a response from Diego');
+        }
+      });
+      if (!data) {
+        throw new Error('Diego stopped replying');
+      }
       
-      // Check if the server indicates we should exit
-      if (data.shouldExit) {
-        const exitMessage: ChatMessage = {
+      // Check if the server indicates we should exit. The conversation is closed, so the next one starts fresh.
+      setConversationId(data.shouldExit ? null : data.conversationId ?? null);
+      const emotion = data.shouldExit || data.isUnrelated ? 'neutral' : 'happy';
+      setMessages(prev => {
+        const reply: ChatMessage = {
           role: 'assistant',
           content: data.response,
           timestamp: new Date(),
-          emotion: 'neutral',
-          isExitMessage: true
+          emotion,
+          isExitMessage: data.shouldExit || undefined
         };
-        
-        setMessages(prev => [...prev, exitMessage]);
+        const last = prev[prev.length - 1];
+        return last?.isStreaming ? [...prev.slice(0, -1), { ...reply, timestamp: last.timestamp }] : [...prev, reply];
+      });
+      setDiegoEmotion(emotion);
+      
+      if (data.shouldExit) {
         triggerAnimation('stars');
-        setDiegoEmotion('neutral');
         
         // Set a timer to close the chat after 5 seconds
         setShouldExitChat(true);
         setExitCountdown(5);
-        
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if the AI flagged this as an unrelated question
-      if (data.isUnrelated) {
-        const newUnrelatedCount = unrelatedCount + 1;
-        setUnrelatedCount(newUnrelatedCount);
-        setDiegoEmotion('neutral');
-      } else {
-        setDiegoEmotion('happy');
       }
       
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: data.response,
-        timestamp: new Date(),
-        emotion: data.isUnrelated ? 'neutral' : 'happy'
-      }]);
-      
-      // Animation disabled for chat messages
-      
     } catch (error) {
+      // Closing the chat cancels the request; there's nothing to report
+      if (controller.signal.aborted) return;
+
       console.error('Error sending message to Diego:', error);
-      setMessages(prev => [...prev, {
+      setMessages(prev => [...prev.filter(message => !message.isStreaming), {
         role: 'assistant',
         content: "Sorry, I'm having trouble connecting to my dolphin brain right now. Try asking me again in a moment!",
         timestamp: new Date(),
@@ -211,7 +246,11 @@ export default function DiegoChat({ isOpen, onClose }: DiegoChatProps) {
         variant: "destructive"
       });
     } finally {
-      setIsLoading(false);
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
     }
   };
 
@@ -227,16 +266,14 @@ export default function DiegoChat({ isOpen, onClose }: DiegoChatProps) {
   };
   
   const handleClearChat = () => {
-    // Keep only the initial greeting
+    // Keep only the initial greeting; the next message starts a new conversation
     const initialGreeting = messages.length > 0 ? [messages[0]] : [];
     setMessages(initialGreeting);
-    setQuestionCount(0);
-    setUnrelatedCount(0);
-    localStorage.setItem('diegoChat', JSON.stringify(initialGreeting));
+    setConversationId(null);
     
     toast({
       title: "Chat Cleared",
-      description: "Your conversation with Diego has been reset.",
+      description: "Your next message starts a new conversation with Diego.",
       variant: "default"
     });
   };
@@ -270,8 +307,9 @@ export default function DiegoChat({ isOpen, onClose }: DiegoChatProps) {
                 variant="ghost" 
                 size="sm" 
                 onClick={handleClearChat} 
+                disabled={isLoading}
                 aria-label="Clear chat"
-                title="Clear chat history"
+                title="Start a new conversation"
                 className="h-8 w-8 p-0"
               >
                 <Sparkles className="h-4 w-4" />
@@ -324,7 +362,7 @@ export default function DiegoChat({ isOpen, onClose }: DiegoChatProps) {
                 </motion.div>
               ))}
               
-              {isLoading && (
+              {isLoading && !isStreaming && (
                 <motion.div 
                   className="flex justify-start"
                   initial={{ opacity: 0, y: 10 }}
@@ -26,6 +26,7 @@ export default function DiegoCompanion() {
   const [isLoading, setIsLoading] = useState(false);
   const [diegoEmotion, setDiegoEmotion] = useState<'neutral' | 'happy' | 'thinking' | 'excited' | 'confused'>('neutral');
   const [unrelatedCount, setUnrelatedCount] = useState(0);
+  const [conversationId, setConversationId] = useState<number | null>(null);
   const [hasClosed, setHasClosed] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -67,7 +68,8 @@ export default function DiegoCompanion() {
     
     try {
       const response = await apiRequest('POST', '/api/chat/diego', {
-        message: userMessage.content
+        message: userMessage.content,
+        conversationId
       });
       
       if (!response.ok) {
@@ -75,6 +77,8 @@ export default function DiegoCompanion() {
       }
       
       const data = await response.json();
+      // Diego closes the conversation when he leaves, so the next chat starts a new one
+      setConversationId(data.shouldExit ? null : data.conversationId ?? null);
       
       // Set emotion based on response type
       if (data.shouldExit) {
@@ -0,0 +1,127 @@
+import { COMPETITION_LEVELS, type CompetitionLevel } from '@shared/blueprint';
+
+export const BOARD_SIZE = 8;
+export const TRAY_SIZE = 3;
+// Lines to clear before the next level
+export const LINES_PER_LEVEL = 5;
+
+// Each cell holds the color class of the block in it
+export type Board = (string | null)[][];
+
+export interface Piece {
+  id: number;
+  cells: [number, number][]; // [row, col] offsets from the piece's top-left
+  color: string;
+}
+
+export type PowerUp = 'bomb' | 'reroll';
+
+export const POWER_UPS: Record<PowerUp, { label: string; description: string }> = {
+  bomb: { label: 'Bomb', description: 'Clear a 3x3 area of the board' },
+  reroll: { label: 'Reroll', description: 'Swap your pieces for new ones' },
+};
+
+const COLORS = ['bg-sky-500', 'bg-emerald-500', 'bg-amber-400', 'bg-rose-500', 'bg-violet-500', 'bg-orange-500'];
+
+// Shapes by size: small ones keep early levels forgiving, large and awkward ones show up as the level rises
+const SHAPES: { cells: [number, number][]; tier: 1 | 2 | 3 }[] = [
+  { tier: 1, cells: [[0, 0]] },
+  { tier: 1, cells: [[0, 0], [0, 1]] },
+  { tier: 1, cells: [[0, 0], [1, 0]] },
+  { tier: 1, cells: [[0, 0], [0, 1], [1, 0], [1, 1]] },
+  { tier: 1, cells: [[0, 0], [0, 1], [0, 2]] },
+  { tier: 1, cells: [[0, 0], [1, 0], [2, 0]] },
+  { tier: 2, cells: [[0, 0], [1, 0], [1, 1]] },
+  { tier: 2, cells: [[0, 1], [1, 0], [1, 1]] },
+  { tier: 2, cells: [[0, 0], [0, 1], [0, 2], [0, 3]] },
+  { tier: 2, cells: [[0, 0], [1, 0], [2, 0], [3, 0]] },
+  { tier: 2, cells: [[0, 0], [0, 1], [0, 2], [1, 1]] },
+  { tier: 2, cells: [[0, 0], [1, 0], [2, 0], [2, 1]] },
+  { tier: 3, cells: [[0, 0], [0, 1], [0, 2], [1, 0], [1, 1], [1, 2], [2, 0], [2, 1], [2, 2]] },
+  { tier: 3, cells: [[0, 0], [0, 1], [0, 2], [0, 3], [0, 4]] },
+  { tier: 3, cells: [[0, 0], [1, 0], [2, 0], [3, 0], [4, 0]] },
+  { tier: 3, cells: [[0, 0], [0, 1], [0, 2], [1, 0], [2, 0]] },
+  { tier: 3, cells: [[0, 1], [1, 0], [1, 1], [1, 2], [2, 1]] },
+  { tier: 3, cells: [[0, 0], [0, 1], [1, 1], [1, 2]] },
+];
+
+export function createBoard(): Board {
+  return Array.from({ length: BOARD_SIZE }, () => Array<string | null>(BOARD_SIZE).fill(null));
+}
+
+export function getLevel(linesCleared: number): number {
+  return 1 + Math.floor(linesCleared / LINES_PER_LEVEL);
+}
+
+// Questions get harder with the level: District, then Association, then ICDC
+export function getQuestionLevel(level: number): CompetitionLevel {
+  return COMPETITION_LEVELS[Math.min(Math.floor((level - 1) / 2), COMPETITION_LEVELS.length - 1)];
+}
+
+function shapeWeight(tier: number, level: number): number {
+  if (tier === 1) return Math.max(1, 6 - level);
+  if (tier === 2) return 3;
+  return Math.min(5, level - 1);
+}
+
+// Deal a new tray, drawing larger shapes more often at higher levels
+export function dealPieces(level: number, firstId: number): Piece[] {
+  const weighted = SHAPES.map(shape => ({ shape, weight: shapeWeight(shape.tier, level) })).filter(s => s.weight > 0);
+  const total = weighted.reduce((sum, s) => sum + s.weight, 0);
+
+  return Array.from({ length: TRAY_SIZE }, (_, idx) => {
+    let roll = Math.random() * total;
+    const { shape } = weighted.find(s => (roll -= s.weight) < 0) ?? weighted[0];
+    return {
+      id: firstId + idx,
+      cells: shape.cells,
+      color: COLORS[Math.floor(Math.random() * COLORS.length)],
+    };
+  });
+}
+
+export function canPlace(board: Board, piece: Piece, row: number, col: number): boolean {
+  // Off-board cells read as undefined, so only empty on-board cells pass
+  return piece.cells.every(([r, c]) => board[row + r]?.[col + c] === null);
+}
+
+export function canPlaceAnywhere(board: Board, piece: Piece): boolean {
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (canPlace(board, piece, row, col)) return true;
+    }
+  }
+  return false;
+}
+
+export interface Placement {
+  board: Board;
+  linesCleared: number;
+}
+
+// Place the piece, then clear every full row and column
+export function placePiece(board: Board, piece: Piece, row: number, col: number): Placement {
+  const next = board.map(cells => [...cells]);
+  for (const [r, c] of piece.cells) {
+    next[row + r][col + c] = piece.color;
+  }
+
+  const fullRows = next.map((cells, r) => (cells.every(Boolean) ? r : -1)).filter(r => r >= 0);
+  const fullCols = Array.from({ length: BOARD_SIZE }, (_, c) => c).filter(c => next.every(cells => cells[c]));
+
+  for (const r of fullRows) next[r].fill(null);
+  for (const c of fullCols) next.forEach(cells => (cells[c] = null));
+
+  return { board: next, linesCleared: fullRows.length + fullCols.length };
+}
+
+// Clear the 3x3 area around a cell
+export function dropBomb(board: Board, row: number, col: number): Board {
+  return board.map((cells, r) => cells.map((cell, c) => (Math.abs(r - row) <= 1 && Math.abs(c - col) <= 1 ? null : cell)));
+}
+
+// Points for a placement: one per block, with cleared lines worth more when several clear at once and at higher levels
+export function scorePlacement(piece: Piece, linesCleared: number, level: number): number {
+  const lineBonus = linesCleared > 0 ? linesCleared * linesCleared * 10 : 0;
+  return piece.cells.length + lineBonus * level;
+}
@@ -0,0 +1,468 @@
+import { useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { useGameQuestionBuffer, type GameQuestion } from '@/hooks/use-game-question-buffer';
+import { useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import { Bomb, CheckCircle2, Loader2, Play, RotateCcw, Shuffle, XCircle } from 'lucide-react';
+import { findExamCluster } from '@shared/blueprint';
+import {
+  BOARD_SIZE,
+  POWER_UPS,
+  canPlace,
+  canPlaceAnywhere,
+  createBoard,
+  dealPieces,
+  dropBomb,
+  getLevel,
+  getQuestionLevel,
+  placePiece,
+  scorePlacement,
+  type Board,
+  type Piece,
+  type PowerUp,
+} from './deca-bloc-engine';
+
+type GamePhase = 'ready' | 'playing' | 'question' | 'over';
+
+interface GameStats {
+  score: number;
+  linesCleared: number;
+  questionsAnswered: number;
+  questionsCorrect: number;
+  streak: number; // Correct answers in a row
+  streakBest: number;
+}
+
+interface SaveResult {
+  pointsEarned: number;
+  experienceGained: number;
+}
+
+const EMPTY_STATS: GameStats = {
+  score: 0,
+  linesCleared: 0,
+  questionsAnswered: 0,
+  questionsCorrect: 0,
+  streak: 0,
+  streakBest: 0,
+};
+
+const NO_POWER_UPS: Record<PowerUp, number> = { bomb: 0, reroll: 0 };
+
+function PiecePreview({ piece, selected, disabled, onSelect }: {
+  piece: Piece;
+  selected: boolean;
+  disabled: boolean;
+  onSelect: () => void;
+}) {
+  const rows = Math.max(...piece.cells.map(([r]) => r)) + 1;
+  const cols = Math.max(...piece.cells.map(([, c]) => c)) + 1;
+  const filled = new Set(piece.cells.map(([r, c]) => `${r}-${c}`));
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      disabled={disabled}
+      className={cn(
+        'flex h-28 items-center justify-center rounded-lg border-2 p-2 transition-colors disabled:opacity-40',
+        selected ? 'border-primary bg-primary/10' : 'border-transparent hover:bg-muted'
+      )}
+    >
+      <div className="grid gap-0.5" style={{ gridTemplateColumns: `repeat(${cols}, 1rem)` }}>
+        {Array.from({ length: rows * cols }, (_, idx) => {
+          const key = `${Math.floor(idx / cols)}-${idx % cols}`;
+          return <div key={key} className={cn('h-4 w-4 rounded-sm', filled.has(key) && piece.color)} />;
+        })}
+      </div>
+    </button>
+  );
+}
+
+// A block puzzle where clearing lines brings up a DECA question, and correct answers earn power-ups
+export function DECABlocGame() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const cluster = findExamCluster(user?.selectedCluster) ?? 'Business Administration Core';
+
+  const [phase, setPhase] = useState<GamePhase>('ready');
+  const [board, setBoard] = useState<Board>(createBoard);
+  const [tray, setTray] = useState<(Piece | null)[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [bombArmed, setBombArmed] = useState(false);
+  const [hoverCell, setHoverCell] = useState<[number, number] | null>(null);
+  const [stats, setStats] = useState<GameStats>(EMPTY_STATS);
+  const [powerUps, setPowerUps] = useState<Record<PowerUp, number>>(NO_POWER_UPS);
+  const [question, setQuestion] = useState<GameQuestion | null>(null);
+  const [answer, setAnswer] = useState<string | null>(null);
+  const [reward, setReward] = useState<PowerUp | null>(null);
+  const nextPieceIdRef = useRef(1);
+  const startedAtRef = useRef(0);
+
+  const level = getLevel(stats.linesCleared);
+  const questions = useGameQuestionBuffer({
+    cluster,
+    difficulty: getQuestionLevel(level),
+    enabled: phase !== 'ready',
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (finalStats: GameStats) => {
+      const response = await apiRequest('POST', '/api/games/deca-bloc/save', {
+        finalScore: finalStats.score,
+        linesCleared: finalStats.linesCleared,
+        questionsAnswered: finalStats.questionsAnswered,
+        questionsCorrect: finalStats.questionsCorrect,
+        streakBest: finalStats.streakBest,
+        totalPlayTime: Math.round((Date.now() - startedAtRef.current) / 1000)
+      });
+      return response.json() as Promise<SaveResult>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/games/deca-bloc/history'] });
+    },
+    onError: () => {
+      toast({
+        title: 'Game Not Saved',
+        description: 'Your score could not be saved.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const deal = (forLevel: number) => {
+    const pieces = dealPieces(forLevel, nextPieceIdRef.current);
+    nextPieceIdRef.current += pieces.length;
+    return pieces;
+  };
+
+  const startGame = () => {
+    setBoard(createBoard());
+    setTray(deal(1));
+    setStats(EMPTY_STATS);
+    setPowerUps(NO_POWER_UPS);
+    setSelectedId(null);
+    setBombArmed(false);
+    setQuestion(null);
+    saveMutation.reset();
+    startedAtRef.current = Date.now();
+    setPhase('playing');
+  };
+
+  const endGame = (finalStats: GameStats) => {
+    setPhase('over');
+    setSelectedId(null);
+    setBombArmed(false);
+    saveMutation.mutate(finalStats);
+  };
+
+  // The game ends once no piece fits and there are no power-ups left to make room
+  const isStuck = (nextBoard: Board, nextTray: (Piece | null)[], nextPowerUps: Record<PowerUp, number>) =>
+    nextPowerUps.bomb + nextPowerUps.reroll === 0 &&
+    !nextTray.some(piece => piece && canPlaceAnywhere(nextBoard, piece));
+
+  // Refill an empty tray and end the game if nothing more can be played
+  const settle = (nextBoard: Board, nextTray: (Piece | null)[], nextStats: GameStats, nextPowerUps: Record<PowerUp, number>, checkStuck = true) => {
+    const refilled = nextTray.every(piece => !piece) ? deal(getLevel(nextStats.linesCleared)) : nextTray;
+    setBoard(nextBoard);
+    setTray(refilled);
+    setStats(nextStats);
+    setPowerUps(nextPowerUps);
+
+    if (checkStuck && isStuck(nextBoard, refilled, nextPowerUps)) {
+      endGame(nextStats);
+    }
+  };
+
+  const handleCellClick = (row: number, col: number) => {
+    if (phase !== 'playing') return;
+
+    if (bombArmed) {
+      setBombArmed(false);
+      settle(dropBomb(board, row, col), tray, stats, { ...powerUps, bomb: powerUps.bomb - 1 });
+      return;
+    }
+
+    const piece = tray.find(p => p?.id === selectedId);
+    if (!piece || !canPlace(board, piece, row, col)) return;
+
+    const placement = placePiece(board, piece, row, col);
+    const nextStats = {
+      ...stats,
+      score: stats.score + scorePlacement(piece, placement.linesCleared, level),
+      linesCleared: stats.linesCleared + placement.linesCleared,
+    };
+    setSelectedId(null);
+
+    // Clearing lines brings up a question, when one is ready; the game never waits for one
+    const nextQuestion = placement.linesCleared > 0 ? questions.take() : undefined;
+    if (nextQuestion) {
+      setQuestion(nextQuestion);
+      setAnswer(null);
+      setReward(null);
+      setPhase('question');
+    }
+
+    settle(placement.board, tray.map(p => (p?.id === piece.id ? null : p)), nextStats, powerUps, !nextQuestion);
+  };
+
+  const handleAnswer = (letter: string) => {
+    if (!question || answer) return;
+
+    const correct = letter === question.correctAnswer;
+    const streak = correct ? stats.streak + 1 : 0;
+    setAnswer(letter);
+    setStats({
+      ...stats,
+      questionsAnswered: stats.questionsAnswered + 1,
+      questionsCorrect: stats.questionsCorrect + (correct ? 1 : 0),
+      streak,
+      streakBest: Math.max(stats.streakBest, streak),
+    });
+
+    if (correct) {
+      const earned: PowerUp = Math.random() < 0.5 ? 'bomb' : 'reroll';
+      setReward(earned);
+      setPowerUps({ ...powerUps, [earned]: powerUps[earned] + 1 });
+    }
+  };
+
+  const continuePlaying = () => {
+    setQuestion(null);
+    setPhase('playing');
+    if (isStuck(board, tray, powerUps)) {
+      endGame(stats);
+    }
+  };
+
+  const rerollPieces = () => {
+    if (phase !== 'playing' || powerUps.reroll === 0) return;
+    setSelectedId(null);
+    settle(board, deal(level), stats, { ...powerUps, reroll: powerUps.reroll - 1 });
+  };
+
+  const selectedPiece = tray.find(p => p?.id === selectedId) ?? null;
+  const preview = useMemo(() => {
+    if (!hoverCell || phase !== 'playing') return null;
+    const [row, col] = hoverCell;
+
+    if (bombArmed) {
+      const cells = new Set<string>();
+      for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = col - 1; c <= col + 1; c++) cells.add(`${r}-${c}`);
+      }
+      return { cells, valid: true };
+    }
+    if (!selectedPiece) return null;
+
+    return {
+      cells: new Set(selectedPiece.cells.map(([r, c]) => `${row + r}-${col + c}`)),
+      valid: canPlace(board, selectedPiece, row, col),
+    };
+  }, [hoverCell, phase, bombArmed, selectedPiece, board]);
+
+  const noFit = phase === 'playing' && !tray.some(piece => piece && canPlaceAnywhere(board, piece));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>DECA Bloc</CardTitle>
+            <CardDescription>
+              Place blocks to fill rows and columns. Clearing a line brings up a {cluster} question; answer it right to earn a power-up.
+            </CardDescription>
+          </div>
+          {phase !== 'ready' && (
+            <Badge variant="outline">
+              {questions.ready > 0 ? `${questions.ready} questions ready` : 'Preparing questions...'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-4 gap-2 text-center">
+          {[
+            { label: 'Score', value: stats.score },
+            { label: 'Level', value: level },
+            { label: 'Lines', value: stats.linesCleared },
+            { label: 'Streak', value: stats.streak },
+          ].map(stat => (
+            <div key={stat.label} className="rounded-lg bg-muted p-2">
+              <div className="text-xs uppercase tracking-wide text-muted-foreground">{stat.label}</div>
+              <div className="text-xl font-semibold">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-6 md:flex-row">
+          <div
+            className="grid aspect-square w-full max-w-md gap-1 rounded-lg bg-slate-200 p-1 dark:bg-slate-800"
+            style={{ gridTemplateColumns: `repeat(${BOARD_SIZE}, minmax(0, 1fr))` }}
+            onMouseLeave={() => setHoverCell(null)}
+          >
+            {board.map((cells, row) => cells.map((cell, col) => {
+              const inPreview = preview?.cells.has(`${row}-${col}`);
+              return (
+                <button
+                  key={`${row}-${col}`}
+                  type="button"
+                  aria-label={`Row ${row + 1}, column ${col + 1}`}
+                  onClick={() => handleCellClick(row, col)}
+                  onMouseEnter={() => setHoverCell([row, col])}
+                  className={cn(
+                    'aspect-square rounded-sm transition-colors',
+                    cell ?? 'bg-white dark:bg-slate-900',
+                    inPreview && (preview?.valid ? 'ring-2 ring-inset ring-primary opacity-70' : 'ring-2 ring-inset ring-destructive')
+                  )}
+                />
+              );
+            }))}
+          </div>
+
+          <div className="flex-1 space-y-4">
+            {phase === 'ready' && (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Blocks get bigger and questions move from District to ICDC level as you clear more lines.
+                </p>
+                <Button onClick={startGame}>
+                  <Play className="mr-2 h-4 w-4" />
+                  Start Game
+                </Button>
+              </div>
+            )}
+
+            {phase === 'playing' && (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  {tray.map((piece, idx) => piece ? (
+                    <PiecePreview
+                      key={piece.id}
+                      piece={piece}
+                      selected={piece.id === selectedId}
+                      disabled={!canPlaceAnywhere(board, piece)}
+                      onSelect={() => {
+                        setBombArmed(false);
+                        setSelectedId(piece.id === selectedId ? null : piece.id);
+                      }}
+                    />
+                  ) : (
+                    <div key={`used-${idx}`} className="h-28 rounded-lg border-2 border-dashed" />
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Power-ups</p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant={bombArmed ? 'default' : 'outline'}
+                      size="sm"
+                      disabled={powerUps.bomb === 0}
+                      title={POWER_UPS.bomb.description}
+                      onClick={() => {
+                        setSelectedId(null);
+                        setBombArmed(!bombArmed);
+                      }}
+                    >
+                      <Bomb className="mr-2 h-4 w-4" />
+                      {POWER_UPS.bomb.label} ({powerUps.bomb})
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={powerUps.reroll === 0}
+                      title={POWER_UPS.reroll.description}
+                      onClick={rerollPieces}
+                    >
+                      <Shuffle className="mr-2 h-4 w-4" />
+                      {POWER_UPS.reroll.label} ({powerUps.reroll})
+                    </Button>
+                  </div>
+                  {bombArmed && <p className="text-sm text-muted-foreground">Click a cell to clear the 3x3 area around it.</p>}
+                  {noFit && !bombArmed && <p className="text-sm text-muted-foreground">None of your pieces fit. Use a power-up to make room.</p>}
+                </div>
+
+                <Button variant="ghost" size="sm" onClick={() => endGame(stats)}>
+                  End Game
+                </Button>
+              </>
+            )}
+
+            {phase === 'question' && question && (
+              <div className="space-y-3">
+                <Badge variant="secondary">{question.topic}</Badge>
+                <p className="font-medium">{question.question}</p>
+                <div className="space-y-2">
+                  {Object.entries(question.options).map(([letter, text]) => (
+                    <Button
+                      key={letter}
+                      variant="outline"
+                      disabled={!!answer}
+                      onClick={() => handleAnswer(letter)}
+                      className={cn(
+                        'h-auto w-full justify-start whitespace-normal text-left',
+                        answer && letter === question.correctAnswer && 'border-green-500 bg-green-50 dark:bg-green-950',
+                        answer === letter && letter !== question.correctAnswer && 'border-red-500 bg-red-50 dark:bg-red-950'
+                      )}
+                    >
+                      <span className="mr-2 font-semibold">{letter}.</span>
+                      {text}
+                    </Button>
+                  ))}
+                </div>
+
+                {answer && (
+                  <div className="space-y-3">
+                    {answer === question.correctAnswer ? (
+                      <p className="flex items-center gap-2 text-sm font-medium text-green-600">
+                        <CheckCircle2 className="h-4 w-4" />
+                        Correct! You earned a {reward ? POWER_UPS[reward].label : 'power-up'}.
+                      </p>
+                    ) : (
+                      <p className="flex items-center gap-2 text-sm font-medium text-red-600">
+                        <XCircle className="h-4 w-4" />
+                        Not quite. The answer is {question.correctAnswer}.
+                      </p>
+                    )}
+                    {question.explanation && <p className="text-sm text-muted-foreground">{question.explanation}</p>}
+                    <Button onClick={continuePlaying}>Keep Playing</Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {phase === 'over' && (
+              <div className="space-y-3">
+                <p className="text-lg font-semibold">Game over</p>
+                <p className="text-sm text-muted-foreground">
+                  {stats.linesCleared} lines cleared, {stats.questionsCorrect} of {stats.questionsAnswered} questions correct, best streak {stats.streakBest}.
+                </p>
+                {saveMutation.isPending && (
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Saving your game...
+                  </p>
+                )}
+                {saveMutation.data && (
+                  <p className="text-sm">
+                    +{saveMutation.data.pointsEarned} points, +{saveMutation.data.experienceGained} XP
+                  </p>
+                )}
+                <Button onClick={startGame}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Play Again
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
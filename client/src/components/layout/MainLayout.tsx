@@ -18,7 +18,9 @@ import {
   IconX,
   IconLogOut,
   IconTrophy,
-  IconTrendingUp
+  IconTrendingUp,
+  IconGamepad,
+  IconShoppingBag
 } from '@/components/ui/icons';
 
 interface MainLayoutProps {
@@ -39,9 +41,11 @@ export function MainLayout({ children }: MainLayoutProps) {
     { icon: <IconUsers className="w-5 h-5" />, label: 'Roleplay', href: '/roleplay', tutorialId: 'roleplay' },
     { icon: <IconClipboard className="w-5 h-5" />, label: 'Written Events', href: '/written-events', tutorialId: 'written-events' },
     { icon: <IconActivity className="w-5 h-5" />, label: 'Performance Indicators', href: '/performance-indicators', tutorialId: 'performance-indicators' },
+    { icon: <IconGamepad className="w-5 h-5" />, label: 'DECA Bloc', href: '/games', tutorialId: 'games' },
     { icon: <IconBook className="w-5 h-5" />, label: 'My Progress', href: '/progress', tutorialId: 'my-progress' },
     { icon: <IconTrendingUp className="w-5 h-5" />, label: 'Analytics', href: '/analytics', tutorialId: 'analytics' },
     { icon: <IconTrophy className="w-5 h-5" />, label: 'Achievements', href: '/achievements', tutorialId: 'achievements' },
+    { icon: <IconShoppingBag className="w-5 h-5" />, label: 'Store', href: '/store', tutorialId: 'store' },
     { icon: <IconSettings className="w-5 h-5" />, label: 'Settings', href: '/settings', tutorialId: 'settings' },
   ];
 
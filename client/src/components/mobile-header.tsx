@@ -33,6 +33,8 @@ export default function MobileHeader() {
         return "Written Events";
       case "/progress":
         return "My Progress";
+      case "/games":
+        return "DECA Bloc";
       case "/settings":
         return "Settings";
       case "/why-decade":
@@ -0,0 +1,47 @@
+import { Flag } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface QuestionNavigatorProps {
+  questionIds: number[];
+  currentIndex: number;
+  answers: Record<number, string>;
+  flagged: number[];
+  onSelect: (index: number) => void;
+}
+
+// Grid of every question in the exam, showing which are answered and which are flagged for review
+export function QuestionNavigator({ questionIds, currentIndex, answers, flagged, onSelect }: QuestionNavigatorProps) {
+  const answeredCount = questionIds.filter(id => answers[id]).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span>{answeredCount} of {questionIds.length} answered</span>
+        <span className="flex items-center gap-1">
+          <Flag className="h-3 w-3 text-amber-500" />
+          {flagged.length} flagged for review
+        </span>
+      </div>
+      <div className="grid grid-cols-10 gap-1.5">
+        {questionIds.map((id, index) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => onSelect(index)}
+            className={cn(
+              'relative h-8 rounded text-xs font-medium border transition-colors',
+              answers[id] ? 'bg-primary/15 border-primary/30 text-primary' : 'bg-muted/30 border-muted text-muted-foreground',
+              index === currentIndex && 'ring-2 ring-primary'
+            )}
+            aria-label={`Question ${index + 1}${flagged.includes(id) ? ', flagged' : ''}`}
+          >
+            {index + 1}
+            {flagged.includes(id) && (
+              <Flag className="absolute -top-1 -right-1 h-3 w-3 text-amber-500 fill-amber-500" />
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -14,41 +14,28 @@ import { useToast } from '@/hooks/use-toast';
 import { useNotifications } from '@/components/notifications/notification-provider';
 import { Sparkles, Settings, Target, Brain, Zap, ChevronRight, Loader2, Award, BookOpen, Users } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
-import { getRandomPIsForRoleplay, isTeamEvent, PIWithArea, getInstructionalAreasForCluster, getClusterFromEvent } from '@shared/deca-utils';
+import { isTeamEvent } from '@shared/deca-events';
+import type { PIWithArea } from '@shared/deca-utils';
+import type { GeneratedScenario, RoleplaySettings } from './roleplay-types';
 
-interface RoleplaySettings {
-  duration: number;
-  includeObjections: boolean;
-  realTimeMode: boolean;
-  focusArea?: string;
+// Draw PIs for the event from the server's PI registry
+async function fetchRoleplayPIs(event: string, instructionalArea?: string): Promise<PIWithArea[]> {
+  const params = new URLSearchParams({ event });
+  if (instructionalArea) params.set('area', instructionalArea);
+
+  const res = await fetch(`/api/pis/roleplay?${params}`, { credentials: 'include' });
+  if (!res.ok) throw new Error('Failed to load performance indicators');
+  return res.json();
 }
 
-interface GeneratedScenario {
-  id: string;
-  title: string;
-  description: string;
-  difficulty: string;
-  estimatedTime: number;
-  objectives: string[];
-  character: {
-    name: string;
-    role: string;
-    personality: string;
-    background: string;
-  };
-  context: {
-    company: string;
-    industry: string;
-    situation: string;
-    challenges: string[];
-  };
-  evaluationCriteria: string[];
-  performanceIndicators?: PIWithArea[];
+interface EnhancedRoleplayGeneratorProps {
+  // Called with the generated scenario and the chosen settings to start a practice session
+  onStartSession?: (scenario: GeneratedScenario, settings: RoleplaySettings) => void;
 }
 
-export function EnhancedRoleplayGenerator() {
+export function EnhancedRoleplayGenerator({ onStartSession }: EnhancedRoleplayGeneratorProps = {}) {
   const [settings, setSettings] = useState<RoleplaySettings>({
-    duration: 15,
+    duration: 10,
     includeObjections: true,
     realTimeMode: false,
   });
@@ -67,6 +54,13 @@ export function EnhancedRoleplayGenerator() {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
+  // Instructional areas covered by the user's event
+  const { data: instructionalAreas = [] } = useQuery<string[]>({
+    queryKey: [`/api/pis/areas?event=${encodeURIComponent(user?.selectedEvent || '')}`],
+    enabled: !!user?.selectedEvent,
+    staleTime: Infinity,
+  });
+
   const difficultyColors = {
     easy: 'bg-green-100 text-green-800',
     medium: 'bg-yellow-100 text-yellow-800',
@@ -97,7 +91,7 @@ export function EnhancedRoleplayGenerator() {
       console.log('Generating PIs for event:', user.selectedEvent);
       console.log('Selected instructional area:', selectedInstructionalArea);
       
-      const pis = getRandomPIsForRoleplay(user.selectedEvent, selectedInstructionalArea || undefined);
+      const pis = await fetchRoleplayPIs(user.selectedEvent, selectedInstructionalArea || undefined);
       console.log('Generated PIs:', pis);
       
       setSelectedPIs(pis);
@@ -135,40 +129,36 @@ export function EnhancedRoleplayGenerator() {
     setIsGenerating(true);
     
     try {
-      // First generate PIs if none are selected
-      let pisToUse = selectedPIs;
-      if (pisToUse.length === 0) {
-        pisToUse = getRandomPIsForRoleplay(user.selectedEvent, selectedInstructionalArea || undefined);
-        setSelectedPIs(pisToUse);
-      }
-
+      // The server draws the scenario's PIs for the user's event, preferring the chosen instructional area
       const response = await fetch('/api/roleplay/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...settings,
-          customInstructions: customInstructions.trim() || undefined,
-          performanceIndicators: pisToUse.map(pi => pi.pi),
-          userEvent: user?.selectedEvent
-        })
+          focusArea: selectedInstructionalArea || undefined,
+          customInstructions: customInstructions.trim() || undefined
+        }),
+        credentials: 'include'
       });
 
       if (!response.ok) {
         throw new Error('Failed to generate scenario');
       }
 
-      const scenario = await response.json();
+      const scenario: GeneratedScenario = await response.json();
+      const scenarioPIs = scenario.performanceIndicators || [];
       // If the scenario has PIs, update the selected PIs state
-      if (scenario.performanceIndicators && scenario.performanceIndicators.length > 0) {
-        setSelectedPIs(scenario.performanceIndicators);
+      if (scenarioPIs.length > 0) {
+        setSelectedPIs(scenarioPIs);
       }
       setGeneratedScenario(scenario);
+      onStartSession?.(scenario, settings);
       
       // Show success notification
       addNotification({
         type: 'success',
         title: 'Scenario Generated!',
-        message: `${scenario.title} is ready to practice with ${pisToUse.length} Performance Indicators`,
+        message: `${scenario.title} is ready to practice with ${scenarioPIs.length} Performance Indicators`,
         duration: 5000
       });
       
@@ -294,11 +284,64 @@ export function EnhancedRoleplayGenerator() {
                 onChange={(e) => setSelectedInstructionalArea(e.target.value)}
               >
                 <option value="">Random selection</option>
-                {user?.selectedEvent && getInstructionalAreasForCluster(getClusterFromEvent(user.selectedEvent)).map((area) => (
+                {instructionalAreas.map((area) => (
                   <option key={area} value={area}>{area}</option>
                 ))}
               </select>
             </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Presentation Time</Label>
+                <span className="text-sm font-medium">{settings.duration} minutes</span>
+              </div>
+              <Slider
+                value={[settings.duration]}
+                onValueChange={([duration]) => setSettings({ ...settings, duration })}
+                min={5}
+                max={20}
+                step={1}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="real-time-mode">Live Judge Conversation</Label>
+                <p className="text-sm text-muted-foreground">
+                  Talk with an AI judge who asks follow-up and closing questions
+                </p>
+              </div>
+              <Switch
+                id="real-time-mode"
+                checked={settings.realTimeMode}
+                onCheckedChange={(checked) => setSettings({ ...settings, realTimeMode: checked })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="include-objections">Include Objections</Label>
+                <p className="text-sm text-muted-foreground">
+                  The judge pushes back on your ideas in character
+                </p>
+              </div>
+              <Switch
+                id="include-objections"
+                checked={settings.includeObjections}
+                onCheckedChange={(checked) => setSettings({ ...settings, includeObjections: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="custom-instructions">Custom Instructions (Optional)</Label>
+              <Textarea
+                id="custom-instructions"
+                value={customInstructions}
+                onChange={(e) => setCustomInstructions(e.target.value)}
+                placeholder="e.g. Set the scenario at a sports team or make the judge skeptical about costs"
+                maxLength={500}
+              />
+            </div>
           </div>
 
           {/* Generate Button */}
@@ -360,6 +403,26 @@ export function EnhancedRoleplayGenerator() {
                     <span className="text-sm font-medium">{piData.pi}</span>
                   </div>
                 ))}
+                {onStartSession && (
+                  <Button
+                    onClick={handleGenerateScenario}
+                    disabled={isGenerating}
+                    size="lg"
+                    className="w-full mt-4"
+                  >
+                    {isGenerating ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Generating Scenario...
+                      </>
+                    ) : (
+                      <>
+                        <Sparkles className="mr-2 h-4 w-4" />
+                        Start Practice Session
+                      </>
+                    )}
+                  </Button>
+                )}
               </CardContent>
             </Card>
           </motion.div>
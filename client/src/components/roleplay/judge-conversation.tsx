@@ -0,0 +1,229 @@
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useAudioRecorder } from '@/hooks/use-audio-recorder';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2, Mic, Square, Send, Flag, Award, UserCircle } from 'lucide-react';
+import type { GeneratedScenario } from './roleplay-types';
+
+interface JudgeSessionView {
+  id: number;
+  status: 'presenting' | 'closing' | 'completed';
+  includeObjections: boolean;
+  character: { name: string; role: string; personality: string };
+  closingQuestionsAsked: number;
+  messages: { role: 'judge' | 'student'; content: string }[];
+  transcript: string;
+}
+
+interface JudgeConversationProps {
+  scenario: GeneratedScenario;
+  includeObjections: boolean;
+  // Called with the labeled transcript of every turn once the judge has closed the meeting
+  onComplete: (transcript: string) => void;
+}
+
+async function postJSON(url: string, body: unknown): Promise<JudgeSessionView> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: 'include'
+  });
+  if (!response.ok) throw new Error('Judge request failed');
+  return response.json();
+}
+
+export function JudgeConversation({ scenario, includeObjections, onComplete }: JudgeConversationProps) {
+  const [session, setSession] = useState<JudgeSessionView | null>(null);
+  const [draft, setDraft] = useState('');
+  const recorder = useAudioRecorder();
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const startMutation = useMutation({
+    mutationFn: () => postJSON('/api/roleplay/judge', { scenario, includeObjections }),
+    onSuccess: setSession,
+    onError: () => {
+      toast({
+        title: 'Judge Unavailable',
+        description: 'Unable to start the conversation. Please try again.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: (turn: { content: string; finished?: boolean }) =>
+      postJSON(`/api/roleplay/judge/${session!.id}/messages`, turn),
+    onSuccess: (updated) => {
+      setSession(updated);
+      setDraft('');
+    },
+    onError: () => {
+      toast({
+        title: 'Message Not Sent',
+        description: 'The judge did not respond. Please try again.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  // Dictated turns are transcribed into the draft so they can be checked before sending
+  const transcribeMutation = useMutation({
+    mutationFn: async (audio: Blob) => {
+      const formData = new FormData();
+      formData.append('audio', audio, 'turn.webm');
+      const response = await fetch('/api/transcribe-audio', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to transcribe audio');
+      return response.json() as Promise<{ transcription: string }>;
+    },
+    onSuccess: ({ transcription }) => {
+      setDraft(current => (current ? `${current} ${transcription}` : transcription));
+      recorder.reset();
+    },
+    onError: () => {
+      recorder.reset();
+      toast({
+        title: 'Transcription Failed',
+        description: 'Type your reply instead.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  useEffect(() => {
+    startMutation.mutate();
+  }, []);
+
+  useEffect(() => {
+    if (recorder.status === 'stopped' && recorder.audio && !transcribeMutation.isPending) {
+      transcribeMutation.mutate(recorder.audio);
+    }
+  }, [recorder.status, recorder.audio]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [session?.messages.length]);
+
+  if (!session) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex flex-col items-center gap-3 text-muted-foreground">
+          {startMutation.isError ? (
+            <Button onClick={() => startMutation.mutate()}>Try Again</Button>
+          ) : (
+            <>
+              <Loader2 className="h-6 w-6 animate-spin" />
+              Your judge is joining the meeting...
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const busy = sendMutation.isPending || transcribeMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-4">
+          <span className="flex items-center gap-2">
+            <UserCircle className="h-5 w-5" />
+            {session.character.name}
+          </span>
+          <Badge variant={session.status === 'completed' ? 'default' : 'secondary'}>
+            {session.status === 'presenting' && 'Presenting'}
+            {session.status === 'closing' && `Closing question ${session.closingQuestionsAsked}`}
+            {session.status === 'completed' && 'Meeting over'}
+          </Badge>
+        </CardTitle>
+        <CardDescription>{session.character.role}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-h-[420px] overflow-y-auto space-y-3 pr-1">
+          {session.messages.map((message, idx) => (
+            <div key={idx} className={`flex ${message.role === 'student' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] rounded-lg px-4 py-2 text-sm ${
+                  message.role === 'student' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                }`}
+              >
+                {message.content}
+              </div>
+            </div>
+          ))}
+          {sendMutation.isPending && (
+            <div className="flex justify-start">
+              <div className="rounded-lg px-4 py-2 bg-muted">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {session.status === 'completed' ? (
+          <Button className="w-full" size="lg" onClick={() => onComplete(session.transcript)}>
+            <Award className="mr-2 h-4 w-4" />
+            Grade This Conversation
+          </Button>
+        ) : (
+          <div className="space-y-3">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={session.status === 'closing' ? 'Answer the judge...' : 'Speak to the judge...'}
+              className="min-h-[100px]"
+              disabled={busy}
+            />
+            <div className="flex flex-wrap justify-between gap-2">
+              {recorder.status === 'recording' ? (
+                <Button variant="destructive" onClick={recorder.stop}>
+                  <Square className="mr-2 h-4 w-4" />
+                  Stop ({recorder.elapsed}s)
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={recorder.start} disabled={busy}>
+                  {transcribeMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Mic className="mr-2 h-4 w-4" />
+                  )}
+                  Speak
+                </Button>
+              )}
+              <div className="flex gap-2">
+                {session.status === 'presenting' && (
+                  <Button
+                    variant="outline"
+                    onClick={() => sendMutation.mutate({ content: draft.trim(), finished: true })}
+                    disabled={busy || recorder.status === 'recording'}
+                  >
+                    <Flag className="mr-2 h-4 w-4" />
+                    Finish Presenting
+                  </Button>
+                )}
+                <Button
+                  onClick={() => sendMutation.mutate({ content: draft.trim() })}
+                  disabled={!draft.trim() || busy || recorder.status === 'recording'}
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  Send
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { ClipboardCheck, Loader2, Save } from 'lucide-react';
+import {
+  PI_MAX_SCORE,
+  SKILL_MAX_SCORE,
+  TWENTY_FIRST_CENTURY_SKILLS,
+  getRoleplayMaxScore,
+} from '@shared/roleplay-rubric';
+import type { GeneratedScenario, RoleplayGrading, RoleplayHistoryEntry } from './roleplay-types';
+
+interface JudgeScoreFormProps {
+  scenario: GeneratedScenario;
+  cluster: string;
+  notes: string;
+  onSaved: (grading: RoleplayGrading) => void;
+  onCancel: () => void;
+}
+
+function ScoreInput({ id, label, max, value, onChange }: {
+  id: string;
+  label: string;
+  max: number;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Label htmlFor={id} className="text-sm font-normal">{label}</Label>
+      <div className="flex items-center gap-2 shrink-0">
+        <Input
+          id={id}
+          type="number"
+          inputMode="numeric"
+          min={0}
+          max={max}
+          step={1}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-20"
+        />
+        <span className="text-sm text-muted-foreground">/ {max}</span>
+      </div>
+    </div>
+  );
+}
+
+function isValidScore(value: string, max: number) {
+  const score = Number(value);
+  return value !== '' && Number.isInteger(score) && score >= 0 && score <= max;
+}
+
+// The judge sheet's evaluation form, for a chapter judge to enter scores by hand
+export function JudgeScoreForm({ scenario, cluster, notes, onSaved, onCancel }: JudgeScoreFormProps) {
+  const indicators = scenario.performanceIndicators || [];
+  const [piScores, setPIScores] = useState<string[]>(() => indicators.map(() => ''));
+  const [skillScores, setSkillScores] = useState<string[]>(() => TWENTY_FIRST_CENTURY_SKILLS.map(() => ''));
+  const [comments, setComments] = useState('');
+  const { toast } = useToast();
+
+  const complete =
+    piScores.every(score => isValidScore(score, PI_MAX_SCORE)) &&
+    skillScores.every(score => isValidScore(score, SKILL_MAX_SCORE));
+  const total = [...piScores, ...skillScores].reduce((sum, score) => sum + (Number(score) || 0), 0);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/roleplay/judge-scores', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scenario,
+          cluster,
+          piScores: piScores.map(Number),
+          skillScores: skillScores.map(Number),
+          comments: comments.trim(),
+          notes: notes || undefined
+        }),
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to save judge scores');
+      return response.json() as Promise<RoleplayHistoryEntry>;
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/roleplay/history'] });
+      onSaved(JSON.parse(entry.aiGradingFeedback!));
+    },
+    onError: () => {
+      toast({
+        title: 'Scores Not Saved',
+        description: 'Check every score is filled in and try again.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const updateScore = (setScores: typeof setPIScores, index: number) => (value: string) =>
+    setScores(scores => scores.map((score, idx) => (idx === index ? value : score)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Judge's Evaluation Form
+        </CardTitle>
+        <CardDescription>
+          Enter the scores from the judge sheet: 0-{PI_MAX_SCORE} for each performance indicator and 0-{SKILL_MAX_SCORE} for each 21st Century Skill.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label className="uppercase tracking-wide">Performance Indicators</Label>
+          {indicators.map((pi, idx) => (
+            <ScoreInput
+              key={pi.code || idx}
+              id={`pi-score-${idx}`}
+              label={pi.pi}
+              max={PI_MAX_SCORE}
+              value={piScores[idx]}
+              onChange={updateScore(setPIScores, idx)}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <Label className="uppercase tracking-wide">21st Century Skills</Label>
+          {TWENTY_FIRST_CENTURY_SKILLS.map((skill, idx) => (
+            <ScoreInput
+              key={skill}
+              id={`skill-score-${idx}`}
+              label={skill}
+              max={SKILL_MAX_SCORE}
+              value={skillScores[idx]}
+              onChange={updateScore(setSkillScores, idx)}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="judge-comments">Judge Comments</Label>
+          <Textarea
+            id="judge-comments"
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            placeholder="What went well and what to work on..."
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="font-medium">
+            Total: {total} / {getRoleplayMaxScore(indicators.length)}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} disabled={saveMutation.isPending}>
+              Back
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!complete || saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save Scores
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Award, Target, Brain } from 'lucide-react';
+import { getGradingPercent, type RoleplayGrading, type RubricScore } from './roleplay-types';
+
+function scoreColor(percent: number) {
+  return percent >= 80 ? 'text-green-600' : percent >= 60 ? 'text-yellow-600' : 'text-red-600';
+}
+
+function RubricRow({ label, item }: { label: string; item: RubricScore }) {
+  const percent = item.max_score > 0 ? (item.score / item.max_score) * 100 : 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-start justify-between gap-4">
+        <span className="text-sm font-medium">{label}</span>
+        <Badge variant="outline" className={scoreColor(percent)}>
+          {item.score}/{item.max_score}
+        </Badge>
+      </div>
+      <Progress value={percent} className="h-2" />
+      {item.rationale && <p className="text-sm text-muted-foreground">{item.rationale}</p>}
+    </div>
+  );
+}
+
+export function RoleplayGradingResults({ grading }: { grading: RoleplayGrading }) {
+  const percent = getGradingPercent(grading);
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Award className="h-5 w-5" />
+            Judge's Evaluation
+          </CardTitle>
+          <CardDescription>{grading.summary_feedback}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-4">
+            <span className={`text-4xl font-bold ${scoreColor(percent)}`}>{percent}%</span>
+            <span className="text-sm text-muted-foreground">
+              {grading.final_score.student_score} of {grading.final_score.max_possible_score} points
+            </span>
+          </div>
+          <Progress value={percent} className="h-3 mt-3" />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Performance Indicators
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {grading.evaluation.performance_indicators.map((pi, idx) => (
+            <RubricRow key={idx} label={pi.indicator} item={pi} />
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            21st Century Skills
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {grading.evaluation.twenty_first_century_skills.map((skill, idx) => (
+            <RubricRow key={idx} label={skill.skill} item={skill} />
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
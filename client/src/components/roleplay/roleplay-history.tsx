@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useQuery } from '@tanstack/react-query';
+import { History, Loader2, ChevronLeft, FileText, Mic, StickyNote } from 'lucide-react';
+import { RoleplayGradingResults } from './roleplay-grading-results';
+import { RoleplaySheetDownloads } from './roleplay-sheet-downloads';
+import { formatSeconds, type GeneratedScenario, type RoleplayGrading, type RoleplayHistoryEntry } from './roleplay-types';
+
+// Older entries store the scenario title as plain text rather than JSON
+function parseJSON<T>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function scenarioTitle(entry: RoleplayHistoryEntry): string {
+  return parseJSON<GeneratedScenario>(entry.scenario)?.title || entry.scenario;
+}
+
+function HistoryReplay({ entry, onBack }: { entry: RoleplayHistoryEntry; onBack: () => void }) {
+  const grading = parseJSON<RoleplayGrading>(entry.aiGradingFeedback);
+  const scenario = parseJSON<GeneratedScenario>(entry.scenario);
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" onClick={onBack}>
+        <ChevronLeft className="mr-2 h-4 w-4" />
+        All Sessions
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{scenarioTitle(entry)}</CardTitle>
+          <CardDescription>
+            {new Date(entry.completedAt).toLocaleString()} · {entry.cluster}
+            {entry.duration ? ` · ${formatSeconds(entry.duration)}` : ''}
+            {entry.gradedBy === 'judge' ? ' · Scored by a chapter judge' : ''}
+          </CardDescription>
+          {scenario?.performanceIndicators && <RoleplaySheetDownloads scenario={scenario} />}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {entry.audioKey && (
+            <div className="space-y-2">
+              <h4 className="flex items-center gap-2 text-sm font-medium">
+                <Mic className="h-4 w-4" />
+                Recording
+              </h4>
+              <audio controls preload="none" src={`/api/roleplay/history/${entry.id}/audio`} className="w-full" />
+            </div>
+          )}
+          {entry.transcript && (
+            <div className="space-y-2">
+              <h4 className="flex items-center gap-2 text-sm font-medium">
+                <FileText className="h-4 w-4" />
+                Transcript
+              </h4>
+              <p className="text-sm whitespace-pre-wrap text-muted-foreground">{entry.transcript}</p>
+            </div>
+          )}
+          {entry.notes && (
+            <div className="space-y-2">
+              <h4 className="flex items-center gap-2 text-sm font-medium">
+                <StickyNote className="h-4 w-4" />
+                Prep Notes
+              </h4>
+              <p className="text-sm whitespace-pre-wrap text-muted-foreground">{entry.notes}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {grading?.evaluation && <RoleplayGradingResults grading={grading} />}
+    </div>
+  );
+}
+
+export function RoleplayHistoryList() {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: history = [], isLoading } = useQuery<RoleplayHistoryEntry[]>({
+    queryKey: ['/api/roleplay/history'],
+  });
+
+  const selected = history.find(entry => entry.id === selectedId);
+  if (selected) {
+    return <HistoryReplay entry={selected} onBack={() => setSelectedId(null)} />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <History className="h-8 w-8 mx-auto mb-3" />
+          Completed roleplay sessions will appear here.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {history.map(entry => (
+        <Card
+          key={entry.id}
+          className="cursor-pointer transition-colors hover:border-primary/40"
+          onClick={() => setSelectedId(entry.id)}
+        >
+          <CardContent className="flex items-center justify-between gap-4 py-4">
+            <div>
+              <p className="font-medium">{scenarioTitle(entry)}</p>
+              <p className="text-sm text-muted-foreground">
+                {new Date(entry.completedAt).toLocaleDateString()} · {entry.cluster}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {entry.gradedBy === 'judge' && <Badge variant="outline">Judge</Badge>}
+              {entry.audioKey && <Mic className="h-4 w-4 text-muted-foreground" />}
+              {entry.score !== null && (
+                <Badge variant={entry.score >= 80 ? 'default' : entry.score >= 60 ? 'secondary' : 'destructive'}>
+                  {entry.score}%
+                </Badge>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,576 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useAudioRecorder } from '@/hooks/use-audio-recorder';
+import { useMutation } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { Clock, Mic, Square, RotateCcw, FileText, Loader2, Send, ChevronRight, Users } from 'lucide-react';
+import { RoleplayGradingResults } from './roleplay-grading-results';
+import { JudgeConversation } from './judge-conversation';
+import { JudgeScoreForm } from './judge-score-form';
+import { RoleplaySheetDownloads } from './roleplay-sheet-downloads';
+import {
+  formatSeconds,
+  getGradingPercent,
+  toGradingScenario,
+  type GeneratedScenario,
+  type RoleplayGrading,
+  type RoleplaySettings,
+} from './roleplay-types';
+
+// DECA gives participants 10 minutes to prepare before meeting the judge
+const PREP_SECONDS = 10 * 60;
+
+type SessionStage = 'prep' | 'respond' | 'review' | 'results';
+
+const STAGES: { id: SessionStage; label: string }[] = [
+  { id: 'prep', label: 'Prepare' },
+  { id: 'respond', label: 'Respond' },
+  { id: 'review', label: 'Review' },
+  { id: 'results', label: 'Results' },
+];
+
+interface RoleplaySessionProps {
+  scenario: GeneratedScenario;
+  settings: RoleplaySettings;
+  event: string;
+  cluster: string;
+  onExit: () => void;
+}
+
+function ScenarioSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <Label className="uppercase tracking-wide">{title}</Label>
+      {children}
+    </div>
+  );
+}
+
+function BulletList({ items }: { items: string[] }) {
+  return (
+    <ul className="list-disc pl-5 space-y-1 text-sm">
+      {items.map((item, idx) => (
+        <li key={idx}>{item}</li>
+      ))}
+    </ul>
+  );
+}
+
+// What the participant is handed: instructions, skills, PIs and the event situation
+function ScenarioCard({ scenario }: { scenario: GeneratedScenario }) {
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="space-y-3">
+        <div>
+          <CardTitle>{scenario.title}</CardTitle>
+          {!scenario.eventSituation && scenario.description && <CardDescription className="mt-1.5">{scenario.description}</CardDescription>}
+        </div>
+        <RoleplaySheetDownloads scenario={scenario} />
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {scenario.participantInstructions && scenario.participantInstructions.length > 0 && (
+          <ScenarioSection title="Participant Instructions">
+            <BulletList items={scenario.participantInstructions} />
+          </ScenarioSection>
+        )}
+        {scenario.evaluationCriteria.length > 0 && (
+          <ScenarioSection title="21st Century Skills">
+            <BulletList items={scenario.evaluationCriteria} />
+          </ScenarioSection>
+        )}
+        {scenario.performanceIndicators && scenario.performanceIndicators.length > 0 && (
+          <ScenarioSection title="Performance Indicators">
+            {scenario.performanceIndicators.map((pi, idx) => (
+              <div key={pi.code || idx} className="flex items-start gap-2">
+                <Badge variant="outline" className="mt-0.5">
+                  {idx + 1}
+                </Badge>
+                <span className="text-sm font-medium">{pi.pi}</span>
+              </div>
+            ))}
+          </ScenarioSection>
+        )}
+        {scenario.eventSituation ? (
+          <ScenarioSection title="Event Situation">
+            <p className="text-sm whitespace-pre-wrap">{scenario.eventSituation}</p>
+          </ScenarioSection>
+        ) : (
+          <>
+            {scenario.character && (
+              <div className="flex items-start gap-2 text-sm">
+                <Users className="h-4 w-4 mt-0.5 text-primary" />
+                <span>
+                  You will meet <span className="font-medium">{scenario.character.name}</span>, {scenario.character.role}
+                  {scenario.context ? ` at ${scenario.context.company}` : ''}.
+                </span>
+              </div>
+            )}
+            {scenario.context?.situation && <p className="text-sm">{scenario.context.situation}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// The judge's half of the scenario, kept back until the participant has been graded
+function JudgeMaterialsCard({ scenario }: { scenario: GeneratedScenario }) {
+  if (!scenario.judgeInstructions?.length && !scenario.judgeCharacterization) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Judge Materials
+        </CardTitle>
+        <CardDescription>What the judge knew going into your role-play</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {scenario.judgeInstructions && scenario.judgeInstructions.length > 0 && (
+          <ScenarioSection title="Judge Instructions">
+            <BulletList items={scenario.judgeInstructions} />
+          </ScenarioSection>
+        )}
+        {scenario.judgeCharacterization && (
+          <ScenarioSection title="Judge Characterization">
+            <p className="text-sm whitespace-pre-wrap">{scenario.judgeCharacterization}</p>
+          </ScenarioSection>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function RoleplaySession({ scenario, settings, event, cluster, onExit }: RoleplaySessionProps) {
+  const [stage, setStage] = useState<SessionStage>('prep');
+  const [prepRemaining, setPrepRemaining] = useState(PREP_SECONDS);
+  const [notes, setNotes] = useState('');
+  const [transcript, setTranscript] = useState('');
+  // Live judge conversations are timed from the first turn, since nothing is recorded
+  const [conversationStartedAt, setConversationStartedAt] = useState<number | null>(null);
+  const [conversationSeconds, setConversationSeconds] = useState(0);
+  const [grading, setGrading] = useState<RoleplayGrading | null>(null);
+  // Scored by a chapter member judging from the printed judge sheet instead of the AI grader
+  const [judgeScoring, setJudgeScoring] = useState(false);
+  const recorder = useAudioRecorder();
+  const { toast } = useToast();
+
+  const audioUrl = useMemo(() => (recorder.audio ? URL.createObjectURL(recorder.audio) : null), [recorder.audio]);
+  useEffect(() => () => {
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+  }, [audioUrl]);
+
+  // Count down the prep time and move on to the response when it runs out
+  useEffect(() => {
+    if (stage !== 'prep') return;
+    const timer = window.setInterval(() => {
+      setPrepRemaining(remaining => Math.max(remaining - 1, 0));
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [stage]);
+
+  useEffect(() => {
+    if (stage === 'prep' && prepRemaining === 0) {
+      toast({ title: 'Prep time is up', description: 'Start your response when you are ready.' });
+      setStage('respond');
+    }
+  }, [stage, prepRemaining, toast]);
+
+  useEffect(() => {
+    if (stage === 'respond' && conversationStartedAt === null) {
+      setConversationStartedAt(Date.now());
+    }
+  }, [stage, conversationStartedAt]);
+
+  useEffect(() => {
+    if (recorder.error) {
+      toast({ title: 'Recording Failed', description: recorder.error, variant: 'destructive' });
+    }
+  }, [recorder.error, toast]);
+
+  const transcribeMutation = useMutation({
+    mutationFn: async (audio: Blob) => {
+      const formData = new FormData();
+      formData.append('audio', audio, 'response.webm');
+
+      const response = await fetch('/api/transcribe-audio', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to transcribe audio');
+      return response.json() as Promise<{ transcription: string }>;
+    },
+    onSuccess: ({ transcription }) => {
+      setTranscript(transcription);
+      setStage('review');
+    },
+    onError: () => {
+      setStage('review');
+      toast({
+        title: 'Transcription Failed',
+        description: 'Type or paste your response below to have it graded.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const gradeMutation = useMutation({
+    mutationFn: async () => {
+      const gradeResponse = await fetch('/api/grade-response', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scenario: toGradingScenario(scenario, event), transcript }),
+        credentials: 'include'
+      });
+      if (!gradeResponse.ok) throw new Error('Failed to grade response');
+      const result: RoleplayGrading = await gradeResponse.json();
+
+      // Save the session with its recording so it can be replayed from history
+      const formData = new FormData();
+      formData.append('scenario', JSON.stringify(scenario));
+      formData.append('cluster', cluster);
+      if (scenario.character?.role) formData.append('role', scenario.character.role);
+      formData.append('score', String(getGradingPercent(result)));
+      formData.append('aiGradingFeedback', JSON.stringify(result));
+      formData.append('transcript', transcript);
+      formData.append('notes', notes);
+      formData.append('duration', String(settings.realTimeMode ? conversationSeconds : recorder.elapsed));
+      if (recorder.audio) formData.append('audio', recorder.audio, 'response.webm');
+
+      const saveResponse = await fetch('/api/roleplay/session', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+      if (!saveResponse.ok) {
+        toast({
+          title: 'Session Not Saved',
+          description: 'Your grade is below, but this session could not be added to your history.',
+          variant: 'destructive'
+        });
+      }
+
+      return result;
+    },
+    onSuccess: (result) => {
+      setGrading(result);
+      setStage('results');
+      queryClient.invalidateQueries({ queryKey: ['/api/roleplay/history'] });
+    },
+    onError: () => {
+      toast({
+        title: 'Grading Failed',
+        description: 'Unable to grade your response. Please try again.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const stageIndex = STAGES.findIndex(s => s.id === stage);
+
+  return (
+    <div className="space-y-6">
+      {/* Stage progress */}
+      <div className="flex items-center justify-center gap-2 flex-wrap">
+        {STAGES.map((s, idx) => (
+          <div key={s.id} className="flex items-center gap-2">
+            <Badge variant={idx === stageIndex ? 'default' : idx < stageIndex ? 'secondary' : 'outline'}>
+              {idx + 1}. {s.label}
+            </Badge>
+            {idx < STAGES.length - 1 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+          </div>
+        ))}
+      </div>
+
+      <AnimatePresence mode="wait">
+        {/* Prep: read the scenario and take notes against the clock */}
+        {stage === 'prep' && (
+          <motion.div
+            key="prep"
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 20 }}
+            className="space-y-6"
+          >
+            <ScenarioCard scenario={scenario} />
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <Clock className="h-5 w-5" />
+                    Prep Time
+                  </span>
+                  <span className={`font-mono text-2xl ${prepRemaining <= 60 ? 'text-red-600' : ''}`}>
+                    {formatSeconds(prepRemaining)}
+                  </span>
+                </CardTitle>
+                <Progress value={(prepRemaining / PREP_SECONDS) * 100} className="h-2" />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="roleplay-notes">Notes</Label>
+                  <Textarea
+                    id="roleplay-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Outline your response and how you will cover each performance indicator..."
+                    className="min-h-[200px]"
+                  />
+                </div>
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={onExit}>
+                    Cancel
+                  </Button>
+                  <Button onClick={() => setStage('respond')}>
+                    <Mic className="mr-2 h-4 w-4" />
+                    {settings.realTimeMode ? 'Meet the Judge' : "I'm Ready to Respond"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Respond live: a conversation with the AI judge */}
+        {stage === 'respond' && settings.realTimeMode && (
+          <motion.div
+            key="conversation"
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 20 }}
+            className="space-y-6"
+          >
+            <JudgeConversation
+              scenario={scenario}
+              includeObjections={settings.includeObjections}
+              onComplete={(conversationTranscript) => {
+                setTranscript(conversationTranscript);
+                setConversationSeconds(
+                  conversationStartedAt ? Math.round((Date.now() - conversationStartedAt) / 1000) : 0
+                );
+                setStage('review');
+              }}
+            />
+            {notes && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Your Notes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm whitespace-pre-wrap">{notes}</p>
+                </CardContent>
+              </Card>
+            )}
+          </motion.div>
+        )}
+
+        {/* Respond: record the presentation to the judge */}
+        {stage === 'respond' && !settings.realTimeMode && (
+          <motion.div
+            key="respond"
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 20 }}
+            className="space-y-6"
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <Mic className="h-5 w-5" />
+                    Your Response
+                  </span>
+                  <span className={`font-mono text-2xl ${recorder.status === 'recording' ? 'text-red-600' : ''}`}>
+                    {formatSeconds(recorder.elapsed)}
+                  </span>
+                </CardTitle>
+                <CardDescription>
+                  Present to {scenario.character?.name || 'the judge'} as you would at competition. Your notes stay below.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex justify-center gap-3">
+                  {recorder.status === 'idle' && (
+                    <Button size="lg" onClick={recorder.start}>
+                      <Mic className="mr-2 h-4 w-4" />
+                      Start Recording
+                    </Button>
+                  )}
+                  {recorder.status === 'recording' && (
+                    <Button size="lg" variant="destructive" onClick={recorder.stop}>
+                      <Square className="mr-2 h-4 w-4" />
+                      Stop Recording
+                    </Button>
+                  )}
+                  {recorder.status === 'stopped' && (
+                    <>
+                      <Button variant="outline" onClick={recorder.reset} disabled={transcribeMutation.isPending}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Record Again
+                      </Button>
+                      <Button
+                        onClick={() => recorder.audio && transcribeMutation.mutate(recorder.audio)}
+                        disabled={!recorder.audio || transcribeMutation.isPending}
+                      >
+                        {transcribeMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Transcribing...
+                          </>
+                        ) : (
+                          <>
+                            <FileText className="mr-2 h-4 w-4" />
+                            Transcribe Response
+                          </>
+                        )}
+                      </Button>
+                    </>
+                  )}
+                </div>
+                {recorder.status === 'stopped' && audioUrl && (
+                  <audio controls src={audioUrl} className="w-full" />
+                )}
+                {recorder.status === 'idle' && (
+                  <div className="flex flex-wrap justify-center">
+                    <Button variant="link" onClick={() => setStage('review')}>
+                      Type your response instead
+                    </Button>
+                    <Button
+                      variant="link"
+                      onClick={() => {
+                        setJudgeScoring(true);
+                        setStage('review');
+                      }}
+                    >
+                      Enter a chapter judge's scores
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            {notes && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Your Notes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm whitespace-pre-wrap">{notes}</p>
+                </CardContent>
+              </Card>
+            )}
+          </motion.div>
+        )}
+
+        {/* Review: a chapter judge enters the scores from their judge sheet */}
+        {stage === 'review' && judgeScoring && (
+          <motion.div
+            key="judge-scores"
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 20 }}
+          >
+            <JudgeScoreForm
+              scenario={scenario}
+              cluster={cluster}
+              notes={notes}
+              onSaved={(result) => {
+                setGrading(result);
+                setStage('results');
+              }}
+              onCancel={() => {
+                setJudgeScoring(false);
+                setStage('respond');
+              }}
+            />
+          </motion.div>
+        )}
+
+        {/* Review: check the transcript before it is graded */}
+        {stage === 'review' && !judgeScoring && (
+          <motion.div
+            key="review"
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 20 }}
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5" />
+                  Transcript
+                </CardTitle>
+                <CardDescription>
+                  {settings.realTimeMode
+                    ? 'Your full conversation with the judge is graded on the DECA rubric.'
+                    : 'Fix any words the transcription got wrong, then send your response to the judge.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Textarea
+                  value={transcript}
+                  onChange={(e) => setTranscript(e.target.value)}
+                  placeholder="Your response..."
+                  className="min-h-[250px]"
+                  readOnly={settings.realTimeMode}
+                />
+                <div className="flex justify-between">
+                  {settings.realTimeMode ? (
+                    <span />
+                  ) : (
+                    <Button variant="outline" onClick={() => setStage('respond')} disabled={gradeMutation.isPending}>
+                      Back
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => gradeMutation.mutate()}
+                    disabled={!transcript.trim() || gradeMutation.isPending}
+                  >
+                    {gradeMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Grading...
+                      </>
+                    ) : (
+                      <>
+                        <Send className="mr-2 h-4 w-4" />
+                        Grade My Response
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Results: the judge's rubric scores */}
+        {stage === 'results' && grading && (
+          <motion.div
+            key="results"
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 20 }}
+            className="space-y-6"
+          >
+            <RoleplayGradingResults grading={grading} />
+            <JudgeMaterialsCard scenario={scenario} />
+            <div className="flex justify-center">
+              <Button onClick={onExit}>
+                Practice Another Roleplay
+              </Button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
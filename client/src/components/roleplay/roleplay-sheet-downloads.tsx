@@ -0,0 +1,65 @@
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Loader2 } from 'lucide-react';
+import type { GeneratedScenario } from './roleplay-types';
+
+type RoleplaySheet = 'participant' | 'judge';
+
+const SHEET_LABELS: Record<RoleplaySheet, string> = {
+  participant: 'Participant Sheet',
+  judge: 'Judge Sheet',
+};
+
+// Printable PDFs for practicing with a chapter member as the judge
+export function RoleplaySheetDownloads({ scenario }: { scenario: GeneratedScenario }) {
+  const { toast } = useToast();
+
+  const downloadMutation = useMutation({
+    mutationFn: async (sheet: RoleplaySheet) => {
+      const response = await fetch(`/api/roleplay/sheets/${sheet}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scenario }),
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to download sheet');
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `roleplay-${sheet}.pdf`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: () => {
+      toast({
+        title: 'Download Failed',
+        description: 'Unable to create the sheet. Please try again.',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(SHEET_LABELS) as RoleplaySheet[]).map(sheet => (
+        <Button
+          key={sheet}
+          variant="outline"
+          size="sm"
+          onClick={() => downloadMutation.mutate(sheet)}
+          disabled={downloadMutation.isPending}
+        >
+          {downloadMutation.isPending && downloadMutation.variables === sheet ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          {SHEET_LABELS[sheet]}
+        </Button>
+      ))}
+    </div>
+  );
+}
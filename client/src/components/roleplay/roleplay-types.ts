@@ -0,0 +1,87 @@
+import type { PIWithArea } from '@shared/deca-utils';
+import type { RoleplayHistory } from '@shared/schema';
+
+export interface RoleplaySettings {
+  duration: number;
+  includeObjections: boolean;
+  realTimeMode: boolean; // Live conversation with the AI judge instead of a recorded presentation
+  focusArea?: string;
+}
+
+export interface GeneratedScenario {
+  id: string;
+  title: string;
+  description: string;
+  difficulty: string;
+  estimatedTime: number;
+  objectives: string[];
+  character: {
+    name: string;
+    role: string;
+    personality: string;
+    background: string;
+  } | null;
+  context: {
+    company: string;
+    industry: string;
+    situation: string;
+    challenges: string[];
+  } | null;
+  evaluationCriteria: string[];
+  performanceIndicators?: PIWithArea[];
+  // Sections of the official DECA role-play format
+  participantRole?: string;
+  participantInstructions?: string[];
+  eventSituation?: string;
+  judgeInstructions?: string[];
+  judgeCharacterization?: string;
+  judgeQuestions?: string[];
+}
+
+export interface RubricScore {
+  score: number;
+  max_score: number;
+  rationale: string;
+}
+
+// Response of /api/grade-response, following the DECA judge's evaluation form
+export interface RoleplayGrading {
+  evaluation: {
+    performance_indicators: (RubricScore & { indicator: string })[];
+    twenty_first_century_skills: (RubricScore & { skill: string })[];
+  };
+  final_score: {
+    student_score: number;
+    max_possible_score: number;
+  };
+  summary_feedback: string;
+}
+
+// A roleplayHistory row as sent by /api/roleplay/history
+export type RoleplayHistoryEntry = Omit<RoleplayHistory, 'completedAt'> & { completedAt: string };
+
+export function getGradingPercent(grading: RoleplayGrading): number {
+  const { student_score, max_possible_score } = grading.final_score;
+  return max_possible_score > 0 ? Math.round((student_score / max_possible_score) * 100) : 0;
+}
+
+// The scenario fields /api/grade-response puts in the judge's prompt. PIs keep their codes so scores map back to them.
+export function toGradingScenario(scenario: GeneratedScenario, event: string) {
+  return {
+    title: scenario.title,
+    event,
+    setting: scenario.context ? `${scenario.context.company} (${scenario.context.industry})` : '',
+    yourRole: scenario.participantRole || 'Participant',
+    situation: scenario.eventSituation || scenario.context?.situation || scenario.description,
+    clientInfo: scenario.character ? `${scenario.character.name}, ${scenario.character.role}` : '',
+    task: scenario.objectives.join('; '),
+    metadata: {
+      performance_indicators: (scenario.performanceIndicators || []).map(pi => `${pi.code} – ${pi.pi}`),
+    },
+  };
+}
+
+export function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
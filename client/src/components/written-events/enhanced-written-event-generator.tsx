@@ -8,10 +8,12 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useNotifications } from '@/components/notifications/notification-provider';
 import { useMutation } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
+import { WRITTEN_EVENT_GUIDELINES } from '@shared/written-events';
 import { 
   FileText, Upload, Send, CheckCircle, Clock, 
   AlertCircle, Loader2, Award, FileSearch, PenTool,
@@ -19,38 +21,46 @@ import {
 } from 'lucide-react';
 
 interface WrittenEventSettings {
-  eventType: 'executive-summary' | 'marketing-plan' | 'business-plan' | 'research-report';
+  eventCode: string;
   difficulty: 'beginner' | 'intermediate' | 'advanced' | 'competition';
   focusArea?: string;
   specificRequirements?: string;
 }
 
 interface GeneratedPrompt {
-  id: string;
+  id: number;
+  eventCode: string;
+  eventName: string;
   title: string;
   scenario: string;
   requirements: string[];
   evaluationCriteria: string[];
   tips: string[];
   estimatedTime: number;
+  pageLimit: number;
+  sections: { name: string; guidance: string }[];
   wordCount: { min: number; max: number };
 }
 
 interface FeedbackResult {
+  id: number;
   overallScore: number;
   strengths: string[];
   improvements: string[];
   detailedFeedback: {
     section: string;
     score: number;
+    points: number;
+    maxPoints: number;
     comments: string;
+    citations: string[];
   }[];
   suggestions: string[];
 }
 
 export function EnhancedWrittenEventGenerator() {
   const [settings, setSettings] = useState<WrittenEventSettings>({
-    eventType: 'executive-summary',
+    eventCode: 'IBP',
     difficulty: 'intermediate'
   });
   const [generatedPrompt, setGeneratedPrompt] = useState<GeneratedPrompt | null>(null);
@@ -62,12 +72,7 @@ export function EnhancedWrittenEventGenerator() {
   const { toast } = useToast();
   const { addNotification } = useNotifications();
 
-  const eventTypeDescriptions = {
-    'executive-summary': 'Concise 1-page summary of key business decisions and recommendations',
-    'marketing-plan': 'Comprehensive marketing strategy with target audience and tactics',
-    'business-plan': 'Complete business plan including financials and operations',
-    'research-report': 'In-depth analysis of industry trends and market opportunities'
-  };
+  const selectedGuideline = WRITTEN_EVENT_GUIDELINES[settings.eventCode];
 
   const generatePromptMutation = useMutation({
     mutationFn: async () => {
@@ -107,8 +112,8 @@ export function EnhancedWrittenEventGenerator() {
       } else {
         formData.append('content', documentContent);
       }
-      formData.append('promptId', generatedPrompt!.id);
-      formData.append('eventType', settings.eventType);
+      formData.append('promptId', String(generatedPrompt!.id));
+      formData.append('eventCode', generatedPrompt!.eventCode);
       
       const response = await fetch('/api/written-events/feedback', {
         method: 'POST',
@@ -237,35 +242,31 @@ export function EnhancedWrittenEventGenerator() {
                 className="space-y-6"
               >
                 <div className="space-y-2">
-                  <Label>Event Type</Label>
-                  <RadioGroup 
-                    value={settings.eventType} 
-                    onValueChange={(value) => setSettings({...settings, eventType: value as any})}
+                  <Label>Written Event</Label>
+                  <Select
+                    value={settings.eventCode}
+                    onValueChange={(value) => setSettings({...settings, eventCode: value})}
                   >
-                    <div className="grid grid-cols-1 gap-3">
-                      {(['executive-summary', 'marketing-plan', 'business-plan', 'research-report'] as const).map((type) => (
-                        <label
-                          key={type}
-                          htmlFor={type}
-                          className={`
-                            flex flex-col p-4 rounded-lg border-2 cursor-pointer transition-all
-                            ${settings.eventType === type ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'}
-                          `}
-                        >
-                          <RadioGroupItem value={type} id={type} className="sr-only" />
-                          <div className="flex items-center justify-between mb-1">
-                            <span className="font-medium capitalize">
-                              {type.replace('-', ' ')}
-                            </span>
-                            <FileText className="h-4 w-4 text-muted-foreground" />
-                          </div>
-                          <p className="text-sm text-muted-foreground">
-                            {eventTypeDescriptions[type]}
-                          </p>
-                        </label>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a written event" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(WRITTEN_EVENT_GUIDELINES).map((event) => (
+                        <SelectItem key={event.code} value={event.code}>
+                          {event.name} ({event.code})
+                        </SelectItem>
                       ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedGuideline && (
+                    <div className="flex items-start gap-2 p-3 rounded-lg border text-sm text-muted-foreground">
+                      <FileText className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <p>
+                        {selectedGuideline.pageLimit}-page limit with {selectedGuideline.sections.length} required sections:{' '}
+                        {selectedGuideline.sections.map((section) => section.name).join(', ')}
+                      </p>
                     </div>
-                  </RadioGroup>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -342,9 +343,9 @@ export function EnhancedWrittenEventGenerator() {
                       <span className="ml-2 font-medium">{generatedPrompt.estimatedTime} minutes</span>
                     </div>
                     <div>
-                      <span className="text-muted-foreground">Word Count:</span>
+                      <span className="text-muted-foreground">Page Limit:</span>
                       <span className="ml-2 font-medium">
-                        {generatedPrompt.wordCount.min}-{generatedPrompt.wordCount.max} words
+                        {generatedPrompt.pageLimit} pages ({generatedPrompt.wordCount.min}-{generatedPrompt.wordCount.max} words)
                       </span>
                     </div>
                   </div>
@@ -373,7 +374,7 @@ export function EnhancedWrittenEventGenerator() {
                     <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
                       <input
                         type="file"
-                        accept=".pdf,.doc,.docx,.txt"
+                        accept=".txt,.md"
                         onChange={handleFileUpload}
                         className="hidden"
                         id="file-upload"
@@ -384,7 +385,7 @@ export function EnhancedWrittenEventGenerator() {
                           Click to upload or drag and drop
                         </p>
                         <p className="text-xs text-muted-foreground mt-1">
-                          PDF, DOC, DOCX, or TXT (max 5MB)
+                          TXT or Markdown (max 5MB). For Word or PDF files, paste the text instead.
                         </p>
                       </label>
                     </div>
@@ -520,10 +521,19 @@ export function EnhancedWrittenEventGenerator() {
                     <div key={idx} className="bg-secondary/20 rounded-lg p-4">
                       <div className="flex items-center justify-between mb-2">
                         <h4 className="font-medium">{section.section}</h4>
-                        <Badge variant="outline">{section.score}/100</Badge>
+                        <Badge variant="outline">{section.points}/{section.maxPoints} pts</Badge>
                       </div>
                       <Progress value={section.score} className="h-2 mb-2" />
                       <p className="text-sm text-muted-foreground">{section.comments}</p>
+                      {section.citations.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                          {section.citations.map((quote, quoteIdx) => (
+                            <blockquote key={quoteIdx} className="border-l-2 border-primary/40 pl-3 text-xs italic text-muted-foreground">
+                              "{quote}"
+                            </blockquote>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
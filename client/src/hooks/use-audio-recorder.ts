@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+export type RecorderStatus = 'idle' | 'recording' | 'stopped';
+
+/**
+ * Hook that records microphone audio in the browser with MediaRecorder.
+ *
+ * @returns The recorder status, the finished recording, seconds recorded so far,
+ * the last error and controls to start, stop and discard a recording
+ */
+export function useAudioRecorder() {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [audio, setAudio] = useState<Blob | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const timerRef = useRef<number | null>(null);
+
+  const releaseMicrophone = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  const start = useCallback(async () => {
+    setError(null);
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setError('Audio recording is not supported in this browser');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.onstop = () => {
+        setAudio(new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' }));
+        setStatus('stopped');
+        releaseMicrophone();
+      };
+
+      const startedAt = Date.now();
+      setAudio(null);
+      setElapsed(0);
+      timerRef.current = window.setInterval(() => {
+        setElapsed(Math.floor((Date.now() - startedAt) / 1000));
+      }, 1000);
+
+      recorder.start();
+      setStatus('recording');
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      setError('Microphone access was denied');
+      releaseMicrophone();
+    }
+  }, [releaseMicrophone]);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.onstop = null;
+      recorderRef.current.stop();
+    }
+    releaseMicrophone();
+    setAudio(null);
+    setElapsed(0);
+    setStatus('idle');
+  }, [releaseMicrophone]);
+
+  // Release the microphone if the component unmounts mid-recording
+  useEffect(() => () => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.onstop = null;
+      recorderRef.current.stop();
+    }
+    releaseMicrophone();
+  }, [releaseMicrophone]);
+
+  return { status, audio, elapsed, error, start, stop, reset };
+}
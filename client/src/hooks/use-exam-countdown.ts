@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState } from 'react';
+
+function secondsUntil(deadline: number): number {
+  return Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+/**
+ * Hook that counts down to an exam deadline and calls `onTimeUp` once when it passes.
+ * The deadline comes from the server's remaining time, so reloading the page doesn't reset the clock.
+ *
+ * @param deadline Timestamp in ms, or null for an untimed test
+ * @returns Seconds left, or null without a deadline
+ */
+export function useExamCountdown(deadline: number | null, onTimeUp: () => void): number | null {
+  const [remaining, setRemaining] = useState(() => (deadline === null ? null : secondsUntil(deadline)));
+  const onTimeUpRef = useRef(onTimeUp);
+  onTimeUpRef.current = onTimeUp;
+
+  useEffect(() => {
+    if (deadline === null) {
+      setRemaining(null);
+      return;
+    }
+
+    let expired = false;
+    const tick = () => {
+      const seconds = secondsUntil(deadline);
+      setRemaining(seconds);
+      if (seconds === 0 && !expired) {
+        expired = true;
+        onTimeUpRef.current();
+      }
+    };
+
+    tick();
+    const timer = window.setInterval(tick, 1000);
+    return () => window.clearInterval(timer);
+  }, [deadline]);
+
+  return remaining;
+}
+
+export function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface GameQuestion {
+  id: string;
+  question: string;
+  options: Record<string, string>;
+  correctAnswer: string;
+  explanation?: string;
+  topic: string;
+}
+
+interface QuestionBufferOptions {
+  cluster: string;
+  difficulty: string;
+  enabled: boolean;
+  size?: number;
+}
+
+// Wait before asking again after a failed request, so an outage doesn't turn into a request loop
+const RETRY_DELAY_MS = 10_000;
+
+/**
+ * Hook that keeps a few DECA Bloc questions generated ahead of time, so the game never waits on the AI.
+ * Questions are fetched one at a time until `size` are ready, at the current difficulty.
+ *
+ * @returns The number of questions ready and `take`, which removes and returns the oldest one
+ * (undefined when none is ready yet)
+ */
+export function useGameQuestionBuffer({ cluster, difficulty, enabled, size = 3 }: QuestionBufferOptions) {
+  const bufferRef = useRef<GameQuestion[]>([]);
+  const fetchingRef = useRef(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const [ready, setReady] = useState(0);
+  const [retryAt, setRetryAt] = useState(0);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!enabled || fetchingRef.current || ready >= size) return;
+
+    const timer = window.setTimeout(async () => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      fetchingRef.current = true;
+      try {
+        const response = await fetch('/api/games/deca-bloc/question', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cluster, difficulty }),
+          credentials: 'include',
+          signal: controller.signal
+        });
+        if (!response.ok) throw new Error('Failed to generate question');
+
+        bufferRef.current.push(await response.json());
+        setReady(bufferRef.current.length);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error prefetching game question:', error);
+        setRetryAt(Date.now() + RETRY_DELAY_MS);
+      } finally {
+        fetchingRef.current = false;
+      }
+    }, Math.max(0, retryAt - Date.now()));
+
+    return () => window.clearTimeout(timer);
+  }, [enabled, ready, size, retryAt, cluster, difficulty]);
+
+  const take = useCallback((): GameQuestion | undefined => {
+    const question = bufferRef.current.shift();
+    setReady(bufferRef.current.length);
+    return question;
+  }, []);
+
+  return { ready, take };
+}
@@ -29,8 +29,9 @@ import {
   AreaChart,
   Area
 } from "recharts";
-import { Calendar, TrendingUp, Clock, Target, BookOpen, Users, Brain, Award } from "lucide-react";
-import { format, subDays, startOfWeek, endOfWeek } from "date-fns";
+import { Calendar, TrendingUp, TrendingDown, Clock, Target, BookOpen, Users, Brain, Award } from "lucide-react";
+import { format } from "date-fns";
+import type { PICoverage, PICoverageEntry } from "@shared/pi-registry";
 
 // Chart colors
 const COLORS = {
@@ -44,68 +45,92 @@ const COLORS = {
   gray: "#6B7280"
 };
 
+// The period each time range's growth is measured against
+const PREVIOUS_PERIOD_LABELS: Record<string, string> = {
+  day: "yesterday",
+  week: "last week",
+  month: "last month",
+  quarter: "last quarter",
+  year: "last year"
+};
+
+// Axis label of a bucket in the activity series
+function formatBucket(start: string, interval: string): string {
+  const date = new Date(start);
+  if (interval === "month") return format(date, "MMM");
+  if (interval === "week") return format(date, "MMM d");
+  return format(date, "EEE d");
+}
+
+// PIs grouped by instructional area, in the order the areas first appear
+function groupByArea(pis: PICoverageEntry[]): [string, PICoverageEntry[]][] {
+  const areas = new Map<string, PICoverageEntry[]>();
+  for (const pi of pis) areas.set(pi.instructionalArea, [...(areas.get(pi.instructionalArea) ?? []), pi]);
+  return Array.from(areas.entries());
+}
+
 export default function AnalyticsPage() {
   const [timeRange, setTimeRange] = useState("week");
   const [selectedEvent, setSelectedEvent] = useState("all");
 
   // Fetch analytics data
-  const { data: analyticsData, isLoading } = useQuery({
-    queryKey: ["/api/analytics", timeRange, selectedEvent],
+  const { data: analyticsData, isLoading } = useQuery<any>({
+    queryKey: [`/api/analytics?${new URLSearchParams({ timeRange, selectedEvent })}`],
   });
 
-  const { data: user } = useQuery({
+  const { data: user } = useQuery<any>({
     queryKey: ["/api/user"],
   });
 
-  // Process real data from API
-  const performanceData = analyticsData?.sessions ? 
-    analyticsData.sessions.slice(0, 7).map((session: any, index: number) => ({
-      day: format(new Date(session.completedAt), 'EEE'),
-      score: session.score || 0,
-      activities: 1
+  // PI coverage is per event, so there is none until the user picks one
+  const { data: coverage } = useQuery<PICoverage>({
+    queryKey: ["/api/user/pi-coverage"],
+    enabled: !!user?.selectedEvent,
+  });
+
+  // One point per day, week or month of the selected range; buckets without a scored activity leave a gap
+  const performanceData = analyticsData?.series ?
+    analyticsData.series.map((bucket: any) => ({
+      day: formatBucket(bucket.start, analyticsData.interval),
+      score: bucket.averageScore,
+      activities: bucket.activities
     })) : [];
 
   // Calculate activity distribution from real data
-  const activityDistribution = analyticsData ? [
-    { name: "Roleplay", value: analyticsData.roleplayCount || 0, color: COLORS.primary },
-    { name: "Practice Tests", value: analyticsData.testCount || 0, color: COLORS.secondary },
-    { name: "Written Events", value: analyticsData.writtenCount || 0, color: COLORS.warning },
-    { name: "Performance Indicators", value: analyticsData.completedPIs || 0, color: COLORS.purple },
+  const activityDistribution = analyticsData?.breakdown ? [
+    { name: "Roleplay", value: analyticsData.breakdown.roleplay, color: COLORS.primary },
+    { name: "Practice Tests", value: analyticsData.breakdown.test, color: COLORS.secondary },
+    { name: "Written Events", value: analyticsData.breakdown.written, color: COLORS.warning },
+    { name: "Other Practice", value: analyticsData.breakdown.other, color: COLORS.purple },
   ] : [];
 
-  // Calculate category progress from real data
-  const categoryProgress = analyticsData ? [
-    { category: "Business Management", completed: Math.round((analyticsData.completedPIs || 0) * 0.2), total: 100, color: COLORS.primary },
-    { category: "Marketing", completed: Math.round((analyticsData.completedPIs || 0) * 0.15), total: 80, color: COLORS.secondary },
-    { category: "Finance", completed: Math.round((analyticsData.completedPIs || 0) * 0.1), total: 60, color: COLORS.warning },
-    { category: "Hospitality", completed: Math.round((analyticsData.completedPIs || 0) * 0.18), total: 90, color: COLORS.danger },
-    { category: "Entrepreneurship", completed: Math.round((analyticsData.completedPIs || 0) * 0.14), total: 100, color: COLORS.purple },
-  ] : [];
+  // Mastered PIs of each instructional area of the user's event
+  const areaColors = Object.values(COLORS);
+  const categoryProgress = groupByArea(coverage?.pis ?? [])
+    .map(([category, pis], index) => ({
+      category,
+      completed: pis.filter(pi => pi.status === "mastered").length,
+      total: pis.length,
+      color: areaColors[index % areaColors.length],
+    }));
 
-  // Process streak data from sessions
-  const streakData = analyticsData?.sessions ? 
-    Array.from({ length: 4 }, (_, weekIndex) => {
-      const weekStart = subDays(new Date(), (3 - weekIndex) * 7);
-      const weekEnd = subDays(new Date(), (2 - weekIndex) * 7);
-      const weekSessions = analyticsData.sessions.filter((s: any) => {
-        const sessionDate = new Date(s.completedAt);
-        return sessionDate >= weekStart && sessionDate <= weekEnd;
-      });
-      return {
-        date: `Week ${weekIndex + 1}`,
-        days: weekSessions.length
-      };
-    }) : [];
-
-  // Mock skill radar data (would need skill assessment data from backend)
-  const skillRadarData = [
-    { skill: "Communication", A: 85, fullMark: 100 },
-    { skill: "Analysis", A: 78, fullMark: 100 },
-    { skill: "Problem Solving", A: 92, fullMark: 100 },
-    { skill: "Leadership", A: 70, fullMark: 100 },
-    { skill: "Teamwork", A: 88, fullMark: 100 },
-    { skill: "Decision Making", A: 82, fullMark: 100 },
-  ];
+  // Days with at least one activity in each bucket
+  const streakData = analyticsData?.series ?
+    analyticsData.series.map((bucket: any) => ({
+      date: formatBucket(bucket.start, analyticsData.interval),
+      days: bucket.activeDays
+    })) : [];
+
+  // Average mastery of the practiced PIs in each instructional area
+  const skillRadarData = groupByArea(coverage?.pis.filter(pi => pi.attempts > 0) ?? [])
+    .map(([skill, pis]) => ({
+      skill,
+      A: Math.round(pis.reduce((sum, pi) => sum + pi.masteryLevel, 0) / pis.length),
+      fullMark: 100,
+    }));
+  const rankedSkills = [...skillRadarData].sort((a, b) => b.A - a.A);
+  const strongestSkill = rankedSkills[0];
+  const focusSkill = rankedSkills.length > 1 ? rankedSkills[rankedSkills.length - 1] : undefined;
 
   const stats = {
     totalActivities: analyticsData?.totalActivities || 0,
@@ -113,7 +138,7 @@ export default function AnalyticsPage() {
     currentStreak: user?.streak || 0,
     totalPoints: user?.points || 0,
     completionRate: analyticsData?.completionRate || 0,
-    weeklyGrowth: analyticsData?.weeklyGrowth || 0,
+    growth: analyticsData?.growth?.activities ?? null,
   };
 
   return (
@@ -143,6 +168,7 @@ export default function AnalyticsPage() {
               <SelectItem value="day">Today</SelectItem>
               <SelectItem value="week">This Week</SelectItem>
               <SelectItem value="month">This Month</SelectItem>
+              <SelectItem value="quarter">This Quarter</SelectItem>
               <SelectItem value="year">This Year</SelectItem>
             </SelectContent>
           </Select>
@@ -156,6 +182,9 @@ export default function AnalyticsPage() {
               <SelectItem value="roleplay">Roleplay Only</SelectItem>
               <SelectItem value="tests">Tests Only</SelectItem>
               <SelectItem value="written">Written Events</SelectItem>
+              {user?.selectedEvent && (
+                <SelectItem value={user.selectedEvent}>{user.selectedEvent}</SelectItem>
+              )}
             </SelectContent>
           </Select>
         </div>
@@ -168,10 +197,20 @@ export default function AnalyticsPage() {
                 <div>
                   <p className="text-sm text-muted-foreground">Total Activities</p>
                   <p className="text-2xl font-bold">{stats.totalActivities}</p>
-                  <p className="text-xs text-green-600 mt-1">
-                    <TrendingUp className="h-3 w-3 inline mr-1" />
-                    {stats.weeklyGrowth}% from last week
-                  </p>
+                  {stats.growth === null ? (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      No activity {PREVIOUS_PERIOD_LABELS[timeRange]}
+                    </p>
+                  ) : (
+                    <p className={`text-xs mt-1 ${stats.growth < 0 ? "text-red-600" : "text-green-600"}`}>
+                      {stats.growth < 0 ? (
+                        <TrendingDown className="h-3 w-3 inline mr-1" />
+                      ) : (
+                        <TrendingUp className="h-3 w-3 inline mr-1" />
+                      )}
+                      {stats.growth > 0 ? "+" : ""}{stats.growth}% from {PREVIOUS_PERIOD_LABELS[timeRange]}
+                    </p>
+                  )}
                 </div>
                 <BookOpen className="h-8 w-8 text-primary opacity-20" />
               </div>
@@ -232,8 +271,8 @@ export default function AnalyticsPage() {
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
               <Card>
                 <CardHeader>
-                  <CardTitle>Weekly Performance</CardTitle>
-                  <CardDescription>Your scores and activities over the past week</CardDescription>
+                  <CardTitle>Performance Over Time</CardTitle>
+                  <CardDescription>Your average score and activities over the selected period</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
@@ -250,7 +289,8 @@ export default function AnalyticsPage() {
                         dataKey="score" 
                         stroke={COLORS.primary} 
                         strokeWidth={2}
-                        name="Score (%)"
+                        name="Average Score (%)"
+                        connectNulls
                       />
                       <Line 
                         yAxisId="right"
@@ -297,7 +337,7 @@ export default function AnalyticsPage() {
             <Card>
               <CardHeader>
                 <CardTitle>Streak History</CardTitle>
-                <CardDescription>Your consistency over the past month</CardDescription>
+                <CardDescription>Days you practiced in each period</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={200}>
@@ -324,7 +364,9 @@ export default function AnalyticsPage() {
             <Card>
               <CardHeader>
                 <CardTitle>Category Progress</CardTitle>
-                <CardDescription>Your completion rate across different DECA categories</CardDescription>
+                <CardDescription>
+                  {coverage ? `PIs you have mastered in each instructional area of ${coverage.eventName}` : "Select your event to track its PIs"}
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
@@ -333,7 +375,7 @@ export default function AnalyticsPage() {
                       <div className="flex items-center justify-between">
                         <span className="text-sm font-medium">{category.category}</span>
                         <span className="text-sm text-muted-foreground">
-                          {category.completed} / {category.total} completed
+                          {category.completed} / {category.total} mastered
                         </span>
                       </div>
                       <div className="relative">
@@ -404,69 +446,65 @@ export default function AnalyticsPage() {
             <Card>
               <CardHeader>
                 <CardTitle>Skill Assessment</CardTitle>
-                <CardDescription>Your proficiency across key DECA competencies</CardDescription>
+                <CardDescription>Your average PI mastery in each instructional area you have practiced</CardDescription>
               </CardHeader>
               <CardContent>
-                <ResponsiveContainer width="100%" height={400}>
-                  <RadarChart data={skillRadarData}>
-                    <PolarGrid stroke="#e0e0e0" />
-                    <PolarAngleAxis dataKey="skill" />
-                    <PolarRadiusAxis angle={90} domain={[0, 100]} />
-                    <Radar 
-                      name="Current Level" 
-                      dataKey="A" 
-                      stroke={COLORS.primary} 
-                      fill={COLORS.primary} 
-                      fillOpacity={0.6}
-                    />
-                    <Tooltip />
-                  </RadarChart>
-                </ResponsiveContainer>
+                {skillRadarData.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    Practice the PIs of your event to see your skills here
+                  </p>
+                ) : (
+                  <ResponsiveContainer width="100%" height={400}>
+                    <RadarChart data={skillRadarData}>
+                      <PolarGrid stroke="#e0e0e0" />
+                      <PolarAngleAxis dataKey="skill" />
+                      <PolarRadiusAxis angle={90} domain={[0, 100]} />
+                      <Radar 
+                        name="Current Level" 
+                        dataKey="A" 
+                        stroke={COLORS.primary} 
+                        fill={COLORS.primary} 
+                        fillOpacity={0.6}
+                      />
+                      <Tooltip />
+                    </RadarChart>
+                  </ResponsiveContainer>
+                )}
               </CardContent>
             </Card>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg">Strongest Skill</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center gap-2">
-                    <Brain className="h-5 w-5 text-green-500" />
-                    <span className="font-medium">Problem Solving</span>
-                  </div>
-                  <p className="text-2xl font-bold mt-2">92%</p>
-                  <p className="text-sm text-muted-foreground">Proficiency</p>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg">Most Improved</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center gap-2">
-                    <TrendingUp className="h-5 w-5 text-blue-500" />
-                    <span className="font-medium">Leadership</span>
-                  </div>
-                  <p className="text-2xl font-bold mt-2">+15%</p>
-                  <p className="text-sm text-muted-foreground">This month</p>
-                </CardContent>
-              </Card>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {strongestSkill && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">Strongest Skill</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center gap-2">
+                      <Brain className="h-5 w-5 text-green-500" />
+                      <span className="font-medium">{strongestSkill.skill}</span>
+                    </div>
+                    <p className="text-2xl font-bold mt-2">{strongestSkill.A}%</p>
+                    <p className="text-sm text-muted-foreground">Proficiency</p>
+                  </CardContent>
+                </Card>
+              )}
 
-              <Card>
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg">Focus Area</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center gap-2">
-                    <Target className="h-5 w-5 text-orange-500" />
-                    <span className="font-medium">Analysis</span>
-                  </div>
-                  <p className="text-2xl font-bold mt-2">78%</p>
-                  <p className="text-sm text-muted-foreground">Room to grow</p>
-                </CardContent>
-              </Card>
+              {focusSkill && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">Focus Area</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center gap-2">
+                      <Target className="h-5 w-5 text-orange-500" />
+                      <span className="font-medium">{focusSkill.skill}</span>
+                    </div>
+                    <p className="text-2xl font-bold mt-2">{focusSkill.A}%</p>
+                    <p className="text-sm text-muted-foreground">Room to grow</p>
+                  </CardContent>
+                </Card>
+              )}
             </div>
           </TabsContent>
 
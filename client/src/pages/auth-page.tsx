@@ -24,10 +24,10 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { 
-  DECA_EVENTS, 
+  EVENTS_BY_FORMAT, 
   DECA_CATEGORIES,
   EVENT_TYPE_GROUPS
-} from "@shared/schema";
+} from "@shared/deca-events";
 
 // Login form schema
 const loginSchema = z.object({
@@ -468,10 +468,10 @@ export default function AuthPage() {
                                   onValueChange={(value) => {
                                     field.onChange(value);
                                     // Find the selected event to set eventType
-                                    const selectedEvent = DECA_EVENTS[selectedEventFormat].find(event => event.code === value);
+                                    const selectedEvent = EVENTS_BY_FORMAT[selectedEventFormat].find(event => event.code === value);
                                     if (selectedEvent) {
-                                      registerForm.setValue('eventType', selectedEvent.type);
-                                      registerForm.setValue('instructionalArea', selectedEvent.category);
+                                      registerForm.setValue('eventType', selectedEvent.group);
+                                      registerForm.setValue('instructionalArea', selectedEvent.cluster);
                                     }
                                   }} 
                                   defaultValue={field.value}
@@ -483,7 +483,7 @@ export default function AuthPage() {
                                     {/* Group events by type */}
                                     {EVENT_TYPE_GROUPS.map(group => {
                                       // Only show events from the selected format and current group
-                                      const events = DECA_EVENTS[selectedEventFormat].filter(event => event.type === group);
+                                      const events = EVENTS_BY_FORMAT[selectedEventFormat].filter(event => event.group === group);
 
                                       // If no events in this group, skip
                                       if (events.length === 0) return null;
@@ -493,7 +493,7 @@ export default function AuthPage() {
                                           <h4 className="text-sm font-semibold mb-1">{group}</h4>
                                           {events.map(event => {
                                             // Get category color
-                                            const categoryColor = DECA_CATEGORIES[event.category as keyof typeof DECA_CATEGORIES]?.colorClass || "bg-gray-300";
+                                            const categoryColor = DECA_CATEGORIES[event.cluster]?.colorClass || "bg-gray-300";
 
                                             return (
                                               <SelectItem key={event.code} value={event.code} className="flex items-center">
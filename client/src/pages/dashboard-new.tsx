@@ -4,6 +4,7 @@ import { motion } from 'framer-motion';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { StatCard } from '@/components/ui/stat-card';
+import PerformanceChart from '@/components/dashboard/performance-chart';
 import { EnhancedCard, AnimatedHeading, MotionButton, StaggerContainer, FloatingIcon } from '@/components/animations/enhanced-effects';
 import { 
   IconBarChart, 
@@ -61,6 +62,7 @@ export default function DashboardNew() {
     piCount: number;
     streak: number;
     totalPoints: number;
+    weeklyProgress: { start: string; activities: number; averageScore: number | null }[];
   }
   
   interface Activity {
@@ -286,6 +288,15 @@ export default function DashboardNew() {
           initial="hidden"
           animate="visible"
         >
+          <motion.div variants={itemVariants}>
+            <PerformanceChart
+              title="Weekly Average Score"
+              data={(stats?.weeklyProgress || [])
+                .filter(week => week.averageScore !== null)
+                .map(week => ({ date: new Date(week.start), value: week.averageScore as number }))}
+            />
+          </motion.div>
+
           <motion.div variants={itemVariants}>
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-lg font-semibold">Continue Learning</h2>
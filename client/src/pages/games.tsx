@@ -0,0 +1,59 @@
+import { MainLayout } from '@/components/layout/MainLayout';
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DECABlocGame } from '@/components/games/deca-bloc';
+
+interface DECABlocHistory {
+  stats: {
+    totalGames: number;
+    bestScore: number;
+    bestStreak: number;
+    totalLinesCleared: number;
+    averageAccuracy: number;
+  };
+}
+
+export default function GamesPage() {
+  const { data: history } = useQuery<DECABlocHistory>({
+    queryKey: ['/api/games/deca-bloc/history'],
+  });
+
+  const stats = history?.stats;
+
+  return (
+    <MainLayout>
+      <div className="max-w-5xl mx-auto py-8 px-4 space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <DECABlocGame />
+        </motion.div>
+
+        {stats && stats.totalGames > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your DECA Bloc Record</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              {[
+                { label: 'Games', value: stats.totalGames },
+                { label: 'Best Score', value: stats.bestScore },
+                { label: 'Best Streak', value: stats.bestStreak },
+                { label: 'Lines Cleared', value: stats.totalLinesCleared },
+                { label: 'Accuracy', value: `${stats.averageAccuracy}%` },
+              ].map(stat => (
+                <div key={stat.label}>
+                  <div className="text-2xl font-semibold">{stat.value}</div>
+                  <div className="text-sm text-muted-foreground">{stat.label}</div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
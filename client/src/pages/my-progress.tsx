@@ -141,7 +141,7 @@ export default function MyProgressPage() {
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-2xl font-bold text-foreground">
-                      {statsLoading ? "..." : stats && 'completedPIs' in stats && 'totalPIs' in stats ? 
+                      {statsLoading ? "..." : stats && 'completedPIs' in stats && 'totalPIs' in stats && stats.totalPIs ? 
                         `${Math.round((stats.completedPIs / stats.totalPIs) * 100)}%` : "0%"}
                     </p>
                     <p className="text-sm text-muted-foreground">Tasks completed</p>
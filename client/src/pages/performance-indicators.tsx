@@ -6,7 +6,6 @@ import { MainLayout } from "@/components/layout/MainLayout";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { PI_CATEGORIES } from "@shared/schema";
 
 export default function PerformanceIndicatorsPage() {
   const { toast } = useToast();
@@ -25,6 +24,11 @@ export default function PerformanceIndicatorsPage() {
     },
   });
   
+  // Instructional areas from the PI registry
+  const { data: piCategories = [] } = useQuery<string[]>({
+    queryKey: ["/api/pi-categories"],
+  });
+  
   // Get user stats for progress display
   const { data: stats } = useQuery({
     queryKey: ["/api/user/stats"],
@@ -80,7 +84,7 @@ export default function PerformanceIndicatorsPage() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                {PI_CATEGORIES.map((category) => (
+                {piCategories.map((category) => (
                   <Button
                     key={category}
                     variant={selectedCategory === category ? "default" : "outline"}
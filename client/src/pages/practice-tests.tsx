@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -13,13 +13,19 @@ import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, ArrowLeft, ArrowRight, RotateCcw } from "lucide-react";
+import { CheckCircle, ArrowLeft, ArrowRight, RotateCcw, Loader2, Clock, Flag } from "lucide-react";
+import { readEventStream } from "@/lib/event-stream";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCountdown, useExamCountdown } from "@/hooks/use-exam-countdown";
+import { QuestionNavigator } from "@/components/practice-tests/question-navigator";
+import { BLUEPRINT_QUESTION_COUNT, EXAM_TIME_LIMIT_MINUTES } from "@shared/blueprint";
 
 // Form schema for AI test generation
 const testSchema = z.object({
   cluster: z.string().min(1, "Please select a cluster"),
   level: z.string().min(1, "Please select a level"),
   questionCount: z.number().min(10).max(100),
+  mode: z.enum(["practice", "exam"]),
 });
 
 type TestFormValues = z.infer<typeof testSchema>;
@@ -45,6 +51,16 @@ const COMPETITION_LEVELS = [
 // Quiz states for managing the interface
 type QuizState = 'configuring' | 'loading' | 'active' | 'results' | 'review';
 
+// The server's scoring of a submitted test
+interface TestScore {
+  score: number;
+  correctAnswers: number;
+  totalQuestions: number;
+}
+
+// Under this much time left, the exam clock turns red
+const LOW_TIME_SECONDS = 5 * 60;
+
 export default function PracticeTestsPage() {
   const { toast } = useToast();
   const [quizData, setQuizData] = useState<any>(null);
@@ -53,6 +69,49 @@ export default function PracticeTestsPage() {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [userAnswers, setUserAnswers] = useState<Record<number, string>>({});
   const [quizState, setQuizState] = useState<QuizState>('configuring');
+  // Questions keep arriving while the quiz is already running
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [expectedCount, setExpectedCount] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [testScore, setTestScore] = useState<TestScore | null>(null);
+  // Exam mode: questions marked for review and when the server's clock runs out (ms timestamp)
+  const [flagged, setFlagged] = useState<number[]>([]);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const startedAtRef = useRef(0);
+  const submittingRef = useRef(false);
+
+  const isExam = quizData?.mode === 'exam';
+
+  // Leaving the page cancels a test that is still being generated
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Pick an exam back up after a refresh or disconnect, with the answers and time left that the server kept
+  useEffect(() => {
+    let cancelled = false;
+    apiRequest('GET', '/api/test/exam')
+      .then(response => response.json())
+      .then(({ attempt, result }) => {
+        if (cancelled) return;
+        if (attempt) {
+          loadAttempt(attempt);
+          toast({
+            title: "Exam Resumed",
+            description: `Your ${attempt.cluster} mock exam is back where you left it.`,
+          });
+        } else if (result) {
+          showResult(result);
+          toast({
+            title: "Time Ran Out",
+            description: "Your mock exam was submitted with the answers saved before the deadline.",
+          });
+        }
+      })
+      .catch(error => console.error('Error checking for an exam in progress:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
   
   // Form setup
   const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<TestFormValues>({
@@ -61,6 +120,7 @@ export default function PracticeTestsPage() {
       cluster: "Marketing",
       level: "District",
       questionCount: 25,
+      mode: "practice",
     },
   });
   
@@ -68,23 +128,31 @@ export default function PracticeTestsPage() {
   const selectedCluster = watch("cluster");
   const selectedLevel = watch("level");
   const questionCount = watch("questionCount");
+  const selectedMode = watch("mode");
   
   // AI Test Generation Function
   const handleStartTest = async (data: TestFormValues) => {
     setQuizState('loading');
     setError('');
+    setExpectedCount(data.mode === 'exam' ? BLUEPRINT_QUESTION_COUNT : data.questionCount);
+    
+    const controller = new AbortController();
+    requestRef.current = controller;
     
     try {
       const response = await fetch('/api/generate-test', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify({
           cluster: data.cluster,
           level: data.level,
           questionCount: data.questionCount,
+          mode: data.mode,
         }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -92,18 +160,61 @@ export default function PracticeTestsPage() {
         throw new Error(errorData.error || 'Failed to generate test');
       }
 
-      const quizData = await response.json();
-      setQuizData(quizData);
-      setCurrentQuestionIndex(0);
-      setUserAnswers({});
-      setQuizState('active');
+      // Start the quiz with the first question while the rest are still being written
+      let started = false;
+      const start = () => {
+        if (started) return;
+        started = true;
+        startedAtRef.current = Date.now();
+        setCurrentQuestionIndex(0);
+        setUserAnswers({});
+        setIsGenerating(true);
+        setQuizState('active');
+      };
+
+      let finalQuiz: any = null;
+      await readEventStream(response, (event, payload) => {
+        if (event === 'question') {
+          setQuizData((prev: any) => ({ ...(started ? prev : {}), questions: [...(started ? prev?.questions || [] : []), payload] }));
+          start();
+        } else if (event === 'done') {
+          finalQuiz = payload;
+        } else if (event === 'error') {
+          throw new Error(payload.error || 'Failed to generate test');
+        }
+      });
+      if (!finalQuiz) {
+        throw new Error('The test stopped generating before it was complete');
+      }
+
+      // The validated exam may have rewritten or reshuffled questions; answers to those no longer apply
+      const changed = new Set<number>([
+        ...(finalQuiz.validation?.regenerated || []),
+        ...(finalQuiz.validation?.reshuffled || []),
+      ]);
+      setUserAnswers(answers => Object.fromEntries(
+        Object.entries(answers).filter(([id]) => !changed.has(Number(id)))
+      ));
+      setQuizData(finalQuiz);
+      setFlagged(finalQuiz.flaggedQuestions || []);
+      setDeadline(finalQuiz.remainingSeconds != null ? Date.now() + finalQuiz.remainingSeconds * 1000 : null);
+      setCurrentQuestionIndex(index => Math.min(index, Math.max(finalQuiz.questions.length - 1, 0)));
+      start();
+      setIsGenerating(false);
       
       toast({
         title: "Test Generated Successfully",
-        description: `Your ${data.cluster} practice test with ${data.questionCount} questions is ready!`,
+        description: finalQuiz.mode === 'exam'
+          ? `Your ${data.cluster} mock exam has started. You have ${EXAM_TIME_LIMIT_MINUTES} minutes.`
+          : `Your ${data.cluster} practice test with ${finalQuiz.questions.length} questions is ready!`,
       });
     } catch (error: any) {
+      // Restarting or leaving cancels generation; there's nothing to report
+      if (controller.signal.aborted) return;
+
       console.error('Test generation error:', error);
+      setQuizData(null);
+      setIsGenerating(false);
       setError(error.message);
       setQuizState('configuring');
       toast({
@@ -119,15 +230,60 @@ export default function PracticeTestsPage() {
     handleStartTest(data);
   };
   
+  // Continue an unsubmitted test the server kept, at the first question left unanswered
+  const loadAttempt = (attempt: any) => {
+    setQuizData({ ...attempt, metadata: { cluster: attempt.cluster, level: attempt.level } });
+    setUserAnswers(attempt.answers);
+    setFlagged(attempt.flaggedQuestions);
+    setDeadline(attempt.remainingSeconds != null ? Date.now() + attempt.remainingSeconds * 1000 : null);
+    const firstUnanswered = attempt.questions.findIndex((q: any) => !attempt.answers[q.id]);
+    setCurrentQuestionIndex(Math.max(firstUnanswered, 0));
+    setTestScore(null);
+    setQuizState('active');
+  };
+
+  // Autosave a change to one exam question, so a refresh or lost connection doesn't lose it
+  const saveAnswer = async (questionId: number, change: { answer?: string; flagged?: boolean }) => {
+    try {
+      const response = await fetch(`/api/test/${quizData.testId}/answers/${questionId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change),
+        credentials: 'include',
+      });
+      // Time ran out on the server first
+      if (response.status === 409) {
+        submitTest();
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to save answer');
+    } catch (error) {
+      console.error('Error autosaving answer:', error);
+      toast({
+        title: "Answer Not Saved",
+        description: "Check your connection. Your answer will be saved when you change it again or submit.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Quiz navigation and interaction functions
   const handleOptionSelect = (questionId: number, selectedOption: string) => {
     setUserAnswers({
       ...userAnswers,
       [questionId]: selectedOption
     });
+    if (isExam) saveAnswer(questionId, { answer: selectedOption });
+  };
+
+  const toggleFlag = (questionId: number) => {
+    const isFlagged = !flagged.includes(questionId);
+    setFlagged(isFlagged ? [...flagged, questionId] : flagged.filter(id => id !== questionId));
+    saveAnswer(questionId, { flagged: isFlagged });
   };
 
   const goToNextQuestion = () => {
+    if (!quizData) return;
     if (currentQuestionIndex < quizData.questions.length - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
     }
@@ -139,58 +295,73 @@ export default function PracticeTestsPage() {
     }
   };
 
-  const showResults = () => {
+  const showResult = (result: any) => {
+    setQuizData((prev: any) => ({
+      ...prev,
+      metadata: { cluster: result.cluster, level: result.level },
+      questions: result.questions,
+    }));
+    setTestScore({
+      score: result.score,
+      correctAnswers: result.correctAnswers,
+      totalQuestions: result.totalQuestions,
+    });
+    setDeadline(null);
     setQuizState('results');
+    queryClient.invalidateQueries({ queryKey: ['/api/test/history'] });
   };
 
+  // The server scores the test against its answer key and sends the answers back for review
+  const submitTest = async () => {
+    if (!quizData?.testId || submittingRef.current) return;
+    submittingRef.current = true;
+    setIsSubmitting(true);
+
+    try {
+      const response = await apiRequest('POST', '/api/test/result', {
+        testId: quizData.testId,
+        userAnswers,
+        timeSpent: Math.round((Date.now() - startedAtRef.current) / 1000),
+      });
+      showResult(await response.json());
+    } catch (error: any) {
+      // Already scored, e.g. when the exam's time ran out while the page was away; it's in the test history
+      if (error.message.startsWith('409')) {
+        toast({
+          title: "Test Already Submitted",
+          description: "This test has been scored. Find the result in your test history.",
+        });
+        restartQuiz();
+        return;
+      }
+      console.error('Test submission error:', error);
+      toast({
+        title: "Submission Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      submittingRef.current = false;
+      setIsSubmitting(false);
+    }
+  };
+
+  // The exam is submitted as it stands when the clock runs out
+  const remainingSeconds = useExamCountdown(quizState === 'active' ? deadline : null, submitTest);
+
   const restartQuiz = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsGenerating(false);
     setQuizData(null);
+    setTestScore(null);
+    setFlagged([]);
+    setDeadline(null);
     setUserAnswers({});
     setCurrentQuestionIndex(0);
     setQuizState('configuring');
   };
 
-  // Calculate score for results
-  const calculateScore = () => {
-    if (!quizData?.questions) return { correct: 0, total: 0, percentage: 0 };
-    
-    let correct = 0;
-    let debugInfo: any[] = [];
-    
-    quizData.questions.forEach((question: any) => {
-      const userAnswer = userAnswers[question.id];
-      const correctAnswer = question.answer;
-      const isCorrect = userAnswer === correctAnswer;
-      
-      debugInfo.push({
-        questionId: question.id,
-        userAnswer,
-        correctAnswer,
-        isCorrect,
-        stem: question.stem.substring(0, 50) + "..."
-      });
-      
-      if (isCorrect) {
-        correct++;
-      }
-    });
-    
-    const total = quizData.questions.length;
-    const percentage = Math.round((correct / total) * 100);
-    
-    // Debug logging
-    console.log("Scoring Debug Info:", {
-      correct,
-      total,
-      percentage,
-      userAnswers,
-      answerKey: quizData.answer_key,
-      detailedScoring: debugInfo
-    });
-    
-    return { correct, total, percentage };
-  };
-  
   return (
     <MainLayout>
       <PageHeader
@@ -247,23 +418,47 @@ export default function PracticeTestsPage() {
               </div>
 
               <div>
-                <Label className="text-foreground/80">
-                  Number of Questions: {questionCount}
-                </Label>
-                <Slider
-                  value={[questionCount as number]}
-                  onValueChange={(value) => setValue("questionCount", value[0])}
-                  min={10}
-                  max={100}
-                  step={5}
-                  className="mt-2"
-                />
-                <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                  <span>10</span>
-                  <span>100</span>
-                </div>
+                <Label htmlFor="mode" className="text-foreground/80">Test Mode</Label>
+                <Select 
+                  defaultValue={selectedMode}
+                  onValueChange={(value) => setValue("mode", value as TestFormValues["mode"])}
+                >
+                  <SelectTrigger className="w-full bg-background/80 mt-2">
+                    <SelectValue placeholder="Select test mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="practice">Practice: untimed, any length</SelectItem>
+                    <SelectItem value="exam">Mock exam: exam conditions</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
 
+              {selectedMode === "exam" ? (
+                <p className="text-sm text-muted-foreground">
+                  {BLUEPRINT_QUESTION_COUNT} questions in {EXAM_TIME_LIMIT_MINUTES} minutes, like the real exam. The clock starts once
+                  the exam is ready and keeps running if you leave; your answers are saved as you go and the exam is submitted
+                  when time runs out.
+                </p>
+              ) : (
+                <div>
+                  <Label className="text-foreground/80">
+                    Number of Questions: {questionCount}
+                  </Label>
+                  <Slider
+                    value={[questionCount as number]}
+                    onValueChange={(value) => setValue("questionCount", value[0])}
+                    min={10}
+                    max={100}
+                    step={5}
+                    className="mt-2"
+                  />
+                  <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                    <span>10</span>
+                    <span>100</span>
+                  </div>
+                </div>
+              )}
+
               {error && (
                 <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md">
                   <p className="text-destructive text-sm">{error}</p>
@@ -275,7 +470,7 @@ export default function PracticeTestsPage() {
                 className="w-full" 
                 disabled={isLoading}
               >
-                {isLoading ? "Generating AI Test..." : "Start Practice Test"}
+                {isLoading ? "Generating AI Test..." : selectedMode === "exam" ? "Start Mock Exam" : "Start Practice Test"}
               </Button>
             </form>
           </CardContent>
@@ -290,7 +485,7 @@ export default function PracticeTestsPage() {
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
               <h3 className="text-xl font-semibold">Generating Your AI Practice Test</h3>
               <p className="text-muted-foreground">
-                Creating {questionCount} authentic DECA questions for {selectedCluster} at {selectedLevel} level...
+                Creating {expectedCount} authentic DECA questions for {selectedCluster} at {selectedLevel} level...
               </p>
             </div>
           </CardContent>
@@ -303,24 +498,46 @@ export default function PracticeTestsPage() {
           <Card className="bg-background/60 backdrop-blur-sm border-muted">
             <CardHeader className="flex flex-row items-center justify-between">
               <div>
-                <CardTitle>Question {currentQuestionIndex + 1} of {quizData.questions.length}</CardTitle>
+                <CardTitle>Question {currentQuestionIndex + 1} of {isGenerating ? expectedCount : quizData.questions.length}</CardTitle>
                 <div className="flex items-center gap-2 mt-1">
                   <Badge variant="secondary">{quizData.metadata?.cluster || selectedCluster}</Badge>
                   <Badge variant="outline">{quizData.metadata?.level || selectedLevel}</Badge>
+                  {remainingSeconds !== null && (
+                    <Badge
+                      variant={remainingSeconds < LOW_TIME_SECONDS ? "destructive" : "secondary"}
+                      className="flex items-center gap-1 tabular-nums"
+                    >
+                      <Clock className="h-3 w-3" />
+                      {formatCountdown(remainingSeconds)}
+                    </Badge>
+                  )}
+                  {isGenerating && (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      {quizData.questions.length} of {expectedCount} questions ready
+                    </span>
+                  )}
                 </div>
               </div>
-              <Button 
-                variant="outline" 
-                onClick={restartQuiz}
-                className="shrink-0"
-              >
-                <RotateCcw className="h-4 w-4 mr-2" />
-                Restart
-              </Button>
+              {isExam ? (
+                <Button onClick={submitTest} disabled={isSubmitting} className="shrink-0">
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Submit Exam
+                </Button>
+              ) : (
+                <Button 
+                  variant="outline" 
+                  onClick={restartQuiz}
+                  className="shrink-0"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restart
+                </Button>
+              )}
             </CardHeader>
             <CardContent className="space-y-6">
               <Progress 
-                value={((currentQuestionIndex + 1) / quizData.questions.length) * 100} 
+                value={((currentQuestionIndex + 1) / (isGenerating ? expectedCount : quizData.questions.length)) * 100} 
                 className="w-full"
               />
 
@@ -341,6 +558,17 @@ export default function PracticeTestsPage() {
                       </Badge>
                     )}
                   </div>
+                  {isExam && (
+                    <Button
+                      variant={flagged.includes(quizData.questions[currentQuestionIndex].id) ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => toggleFlag(quizData.questions[currentQuestionIndex].id)}
+                      className="shrink-0"
+                    >
+                      <Flag className="h-4 w-4 mr-1" />
+                      {flagged.includes(quizData.questions[currentQuestionIndex].id) ? "Flagged" : "Flag for review"}
+                    </Button>
+                  )}
                 </div>
                 
                 <RadioGroup 
@@ -371,15 +599,20 @@ export default function PracticeTestsPage() {
                   Previous
                 </Button>
                 
-                {currentQuestionIndex === quizData.questions.length - 1 ? (
-                  <Button onClick={showResults} className="flex items-center gap-2">
-                    <CheckCircle className="h-4 w-4" />
-                    Finish Test
+                {currentQuestionIndex === quizData.questions.length - 1 && isGenerating ? (
+                  <Button disabled className="flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Writing next question...
+                  </Button>
+                ) : currentQuestionIndex === quizData.questions.length - 1 ? (
+                  <Button onClick={submitTest} disabled={isSubmitting} className="flex items-center gap-2">
+                    {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+                    {isSubmitting ? "Scoring..." : "Finish Test"}
                   </Button>
                 ) : (
                   <Button 
                     onClick={goToNextQuestion}
-                    disabled={!userAnswers[quizData.questions[currentQuestionIndex].id]}
+                    disabled={!isExam && !userAnswers[quizData.questions[currentQuestionIndex].id]}
                     className="flex items-center gap-2"
                   >
                     Next
@@ -389,11 +622,25 @@ export default function PracticeTestsPage() {
               </div>
             </CardContent>
           </Card>
+
+          {isExam && (
+            <Card className="bg-background/60 backdrop-blur-sm border-muted">
+              <CardContent className="pt-6">
+                <QuestionNavigator
+                  questionIds={quizData.questions.map((q: any) => q.id)}
+                  currentIndex={currentQuestionIndex}
+                  answers={userAnswers}
+                  flagged={flagged}
+                  onSelect={setCurrentQuestionIndex}
+                />
+              </CardContent>
+            </Card>
+          )}
         </div>
       )}
 
       {/* Results State */}
-      {quizState === 'results' && quizData && (
+      {quizState === 'results' && quizData && testScore && (
         <div className="space-y-6">
           <Card className="bg-background/60 backdrop-blur-sm border-muted">
             <CardHeader className="text-center">
@@ -405,23 +652,23 @@ export default function PracticeTestsPage() {
             <CardContent className="space-y-6">
               <div className="text-center">
                 <div className="text-6xl font-bold text-primary mb-2">
-                  {calculateScore().percentage}%
+                  {testScore.score}%
                 </div>
                 <p className="text-xl text-muted-foreground">
-                  {calculateScore().correct} out of {calculateScore().total} correct
+                  {testScore.correctAnswers} out of {testScore.totalQuestions} correct
                 </p>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="text-center p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
                   <div className="text-2xl font-bold text-green-600 mb-1">
-                    {calculateScore().correct}
+                    {testScore.correctAnswers}
                   </div>
                   <p className="text-sm text-green-600">Correct</p>
                 </div>
                 <div className="text-center p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
                   <div className="text-2xl font-bold text-red-600 mb-1">
-                    {calculateScore().total - calculateScore().correct}
+                    {testScore.totalQuestions - testScore.correctAnswers}
                   </div>
                   <p className="text-sm text-red-600">Incorrect</p>
                 </div>
@@ -1,8 +1,20 @@
+import { useState } from 'react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { EnhancedRoleplayGenerator } from '@/components/roleplay/enhanced-roleplay-generator';
+import { RoleplaySession } from '@/components/roleplay/roleplay-session';
+import { RoleplayHistoryList } from '@/components/roleplay/roleplay-history';
+import type { GeneratedScenario, RoleplaySettings } from '@/components/roleplay/roleplay-types';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 
 export function RoleplayPage() {
+  const [session, setSession] = useState<{ scenario: GeneratedScenario; settings: RoleplaySettings } | null>(null);
+  const { data: user } = useQuery<any>({
+    queryKey: ['/api/user'],
+    staleTime: 5 * 60 * 1000,
+  });
+
   return (
     <MainLayout>
       <div className="max-w-4xl mx-auto py-8 px-4">
@@ -11,9 +23,30 @@ export function RoleplayPage() {
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.5 }}
         >
-          <EnhancedRoleplayGenerator />
+          {session ? (
+            <RoleplaySession
+              scenario={session.scenario}
+              settings={session.settings}
+              event={user?.selectedEvent || session.scenario.title}
+              cluster={user?.selectedCluster || 'General'}
+              onExit={() => setSession(null)}
+            />
+          ) : (
+            <Tabs defaultValue="practice">
+              <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsTrigger value="practice">Practice</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="practice">
+                <EnhancedRoleplayGenerator onStartSession={(scenario, settings) => setSession({ scenario, settings })} />
+              </TabsContent>
+              <TabsContent value="history">
+                <RoleplayHistoryList />
+              </TabsContent>
+            </Tabs>
+          )}
         </motion.div>
       </div>
     </MainLayout>
   );
-}
\ No newline at end of file
+}
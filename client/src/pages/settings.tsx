@@ -18,7 +18,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { EVENT_TYPE_GROUPS, DECA_EVENTS } from "@shared/schema";
+import { EVENT_TYPE_GROUPS } from "@shared/deca-events";
 import { useMicroInteractions } from "@/hooks/use-micro-interactions";
 import { CheckIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
@@ -138,8 +138,9 @@ export default function Subscribe() {
     }
 
     // Create or get subscription
+    // The server picks the Stripe price for the tier
     apiRequest("POST", "/api/get-or-create-subscription", { 
-      priceId: priceIdParam
+      tier: tierParam
     })
       .then((res) => res.json())
       .then((data) => {
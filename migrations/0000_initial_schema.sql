@@ -0,0 +1,291 @@
+CREATE TYPE "public"."achievement_type" AS ENUM('streak', 'practice', 'test_score', 'roleplay_complete', 'written_event', 'performance_indicator', 'daily_challenge');--> statement-breakpoint
+CREATE TABLE "achievements" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"type" "achievement_type" NOT NULL,
+	"threshold" integer NOT NULL,
+	"points" integer NOT NULL,
+	"icon_name" text,
+	"category" text,
+	"tier" integer DEFAULT 1
+);
+--> statement-breakpoint
+CREATE TABLE "break_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"start_time" timestamp NOT NULL,
+	"end_time" timestamp,
+	"duration" integer,
+	"activity_type" text,
+	"completed" boolean DEFAULT false
+);
+--> statement-breakpoint
+CREATE TABLE "cosmetic_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"type" text NOT NULL,
+	"rarity" text DEFAULT 'common' NOT NULL,
+	"price" integer NOT NULL,
+	"is_limited" boolean DEFAULT false,
+	"available_from" timestamp,
+	"available_until" timestamp,
+	"preview_url" text,
+	"css_data" text,
+	"unlock_requirement" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "daily_challenges" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"type" text NOT NULL,
+	"points" integer NOT NULL,
+	"date" timestamp NOT NULL,
+	"details" text
+);
+--> statement-breakpoint
+CREATE TABLE "decits_transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"amount" integer NOT NULL,
+	"type" text NOT NULL,
+	"description" text,
+	"related_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "enhanced_learning_insights" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"insight_type" text NOT NULL,
+	"topic" text,
+	"insight" text NOT NULL,
+	"action_recommendation" text,
+	"confidence_score" real,
+	"priority" text DEFAULT 'medium',
+	"valid_until" timestamp,
+	"times_seen" integer DEFAULT 0,
+	"times_acted_upon" integer DEFAULT 0,
+	"effectiveness_score" real DEFAULT 0,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "game_sessions_deca_bloc" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"final_score" integer NOT NULL,
+	"lines_cleared" integer NOT NULL,
+	"questions_answered" integer NOT NULL,
+	"questions_correct" integer NOT NULL,
+	"streak_best" integer NOT NULL,
+	"total_play_time" integer NOT NULL,
+	"completed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "learning_insights" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"insight_type" text NOT NULL,
+	"topic" text,
+	"current_score" real,
+	"target_score" real,
+	"priority" integer DEFAULT 0,
+	"recommended_actions" text,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "mini_game_scores" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"game_type" text NOT NULL,
+	"score" integer NOT NULL,
+	"played_at" timestamp NOT NULL,
+	"duration" integer
+);
+--> statement-breakpoint
+CREATE TABLE "performance_indicators" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"indicator" text NOT NULL,
+	"category" text NOT NULL,
+	"status" text DEFAULT 'not_started',
+	"last_practiced" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "practice_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"score" integer,
+	"completed_at" timestamp NOT NULL,
+	"details" text
+);
+--> statement-breakpoint
+CREATE TABLE "question_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"test_history_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"question_text" text NOT NULL,
+	"correct_answer" text NOT NULL,
+	"user_answer" text,
+	"is_correct" boolean NOT NULL,
+	"topic" text,
+	"explanation" text,
+	"answered_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "quiz_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"topic_focused" text,
+	"cluster" text,
+	"questions_count" integer NOT NULL,
+	"correct_answers" integer NOT NULL,
+	"score_percentage" real NOT NULL,
+	"time_spent" integer,
+	"improvement_from_last_session" real,
+	"mastery_gain_estimate" real,
+	"next_recommended_session" timestamp,
+	"completed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "roleplay_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"scenario" text NOT NULL,
+	"cluster" text NOT NULL,
+	"role" text,
+	"score" integer,
+	"ai_grading_feedback" text,
+	"transcript_url" text,
+	"duration" integer,
+	"completed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "test_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"test_title" text NOT NULL,
+	"cluster" text NOT NULL,
+	"level" text NOT NULL,
+	"total_questions" integer NOT NULL,
+	"correct_answers" integer NOT NULL,
+	"score" integer NOT NULL,
+	"time_spent" integer,
+	"topic_performance" text,
+	"completed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "topic_mastery" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"topic" text NOT NULL,
+	"cluster" text NOT NULL,
+	"mastery_level" real DEFAULT 0,
+	"questions_answered" integer DEFAULT 0,
+	"questions_correct" integer DEFAULT 0,
+	"last_practiced" timestamp DEFAULT now(),
+	"avg_time_per_question" real,
+	"mastery_trend" text DEFAULT 'stable',
+	"learning_velocity" real DEFAULT 0,
+	"next_recommended_practice" timestamp,
+	"times_retried" integer DEFAULT 0,
+	"streak_count" integer DEFAULT 0,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "user_achievements" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"achievement_id" integer NOT NULL,
+	"earned_at" timestamp NOT NULL,
+	"displayed" boolean DEFAULT false
+);
+--> statement-breakpoint
+CREATE TABLE "user_cosmetics" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"cosmetic_id" integer NOT NULL,
+	"is_equipped" boolean DEFAULT false,
+	"purchased_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_daily_challenges" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"challenge_id" integer NOT NULL,
+	"completed" boolean DEFAULT false,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"auth_id" text,
+	"username" text NOT NULL,
+	"password" text,
+	"email" text,
+	"full_name" text,
+	"google_id" text,
+	"event_format" text,
+	"event_code" text,
+	"event_type" text,
+	"instructional_area" text,
+	"session_id" text,
+	"ui_theme" text DEFAULT 'aquaBlue',
+	"color_scheme" text DEFAULT 'memphis',
+	"theme" text DEFAULT 'light',
+	"subscription_tier" text DEFAULT 'standard',
+	"streak" integer DEFAULT 0,
+	"last_login_date" timestamp,
+	"points" integer DEFAULT 0,
+	"roleplay_count" integer DEFAULT 0,
+	"test_count" integer DEFAULT 0,
+	"written_event_count" integer DEFAULT 0,
+	"roleplay_reset_date" timestamp,
+	"test_reset_date" timestamp,
+	"written_event_reset_date" timestamp,
+	"stripe_customer_id" text,
+	"stripe_subscription_id" text,
+	"selected_event" text,
+	"selected_cluster" text,
+	"show_tutorial" boolean DEFAULT true,
+	"onboarding_completed" boolean DEFAULT false,
+	"last_login" timestamp,
+	"streak_start_date" timestamp,
+	"decits" integer DEFAULT 0,
+	"experience" integer DEFAULT 0,
+	"level" integer DEFAULT 1,
+	"tests_completed" integer DEFAULT 0,
+	"roleplays_completed" integer DEFAULT 0,
+	"total_study_time" integer DEFAULT 0,
+	"average_test_score" real DEFAULT 0,
+	"average_roleplay_score" real DEFAULT 0,
+	CONSTRAINT "users_auth_id_unique" UNIQUE("auth_id"),
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_google_id_unique" UNIQUE("google_id")
+);
+--> statement-breakpoint
+CREATE TABLE "written_event_feedback" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"prompt_id" integer,
+	"event_code" text NOT NULL,
+	"overall_score" integer NOT NULL,
+	"submission" text NOT NULL,
+	"feedback" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "written_event_prompts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"event_code" text NOT NULL,
+	"difficulty" text NOT NULL,
+	"title" text NOT NULL,
+	"prompt" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,17 @@
+ALTER TYPE "public"."achievement_type" ADD VALUE 'study_time';--> statement-breakpoint
+ALTER TYPE "public"."achievement_type" ADD VALUE 'perfect_score';--> statement-breakpoint
+ALTER TYPE "public"."achievement_type" ADD VALUE 'improvement';--> statement-breakpoint
+ALTER TYPE "public"."achievement_type" ADD VALUE 'consistency';--> statement-breakpoint
+ALTER TYPE "public"."achievement_type" ADD VALUE 'exploration';--> statement-breakpoint
+ALTER TYPE "public"."achievement_type" ADD VALUE 'mastery';--> statement-breakpoint
+ALTER TYPE "public"."achievement_type" ADD VALUE 'level';--> statement-breakpoint
+ALTER TYPE "public"."achievement_type" ADD VALUE 'points';--> statement-breakpoint
+ALTER TABLE "daily_challenges" ADD COLUMN "target" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "daily_challenges" ADD COLUMN "decits_reward" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "daily_challenges" ADD COLUMN "difficulty" text;--> statement-breakpoint
+ALTER TABLE "daily_challenges" ADD COLUMN "category" text;--> statement-breakpoint
+ALTER TABLE "daily_challenges" ADD COLUMN "is_active" boolean DEFAULT true;--> statement-breakpoint
+ALTER TABLE "user_achievements" ADD COLUMN "progress" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "user_achievements" ADD COLUMN "season_earned" text;--> statement-breakpoint
+ALTER TABLE "user_daily_challenges" ADD COLUMN "progress" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "user_daily_challenges" ADD COLUMN "attempt_date" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+ALTER TABLE "performance_indicators" ADD COLUMN "pi_code" text;--> statement-breakpoint
+-- Existing rows are free text; keep the ones that start with a PI code and drop the rest
+UPDATE "performance_indicators" SET "pi_code" = substring("indicator" from '^([A-Z]{2}:[0-9]{3})');--> statement-breakpoint
+DELETE FROM "performance_indicators" WHERE "pi_code" IS NULL;--> statement-breakpoint
+DELETE FROM "performance_indicators" a USING "performance_indicators" b WHERE a."user_id" = b."user_id" AND a."pi_code" = b."pi_code" AND a."id" < b."id";--> statement-breakpoint
+ALTER TABLE "performance_indicators" ALTER COLUMN "pi_code" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_indicators" ADD COLUMN "mastery_level" real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "performance_indicators" ADD COLUMN "attempts" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "performance_indicators" ADD COLUMN "last_score" real;--> statement-breakpoint
+ALTER TABLE "question_results" ADD COLUMN "pi_codes" text[];--> statement-breakpoint
+CREATE UNIQUE INDEX "performance_indicators_user_pi_code_idx" ON "performance_indicators" USING btree ("user_id","pi_code");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "roleplay_history" ADD COLUMN "transcript" text;--> statement-breakpoint
+ALTER TABLE "roleplay_history" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "roleplay_history" ADD COLUMN "audio_key" text;--> statement-breakpoint
+ALTER TABLE "roleplay_history" ADD COLUMN "audio_type" text;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "judge_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"scenario" text NOT NULL,
+	"include_objections" boolean DEFAULT false NOT NULL,
+	"status" text DEFAULT 'presenting' NOT NULL,
+	"messages" text NOT NULL,
+	"closing_questions_asked" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "roleplay_history" ADD COLUMN "graded_by" text;--> statement-breakpoint
+-- Every session graded before hand-entered scores existed was graded by the AI
+UPDATE "roleplay_history" SET "graded_by" = 'ai' WHERE "ai_grading_feedback" IS NOT NULL;
@@ -0,0 +1,9 @@
+CREATE TABLE "chat_conversations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"messages" text NOT NULL,
+	"unrelated_count" integer DEFAULT 0 NOT NULL,
+	"closed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,7 @@
+-- Items are looked up by name when the catalog is stocked; merge duplicates into the earliest item of each name
+UPDATE "user_cosmetics" SET "cosmetic_id" = (SELECT min(k."id") FROM "cosmetic_items" k JOIN "cosmetic_items" c ON c."name" = k."name" WHERE c."id" = "user_cosmetics"."cosmetic_id") WHERE "cosmetic_id" IN (SELECT "id" FROM "cosmetic_items");--> statement-breakpoint
+DELETE FROM "cosmetic_items" a USING "cosmetic_items" b WHERE a."name" = b."name" AND a."id" > b."id";--> statement-breakpoint
+-- An item is owned at most once; keep the earliest purchase
+DELETE FROM "user_cosmetics" a USING "user_cosmetics" b WHERE a."user_id" = b."user_id" AND a."cosmetic_id" = b."cosmetic_id" AND a."id" > b."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "user_cosmetics_user_cosmetic_idx" ON "user_cosmetics" USING btree ("user_id","cosmetic_id");--> statement-breakpoint
+ALTER TABLE "cosmetic_items" ADD CONSTRAINT "cosmetic_items_name_unique" UNIQUE("name");
@@ -0,0 +1,10 @@
+CREATE TABLE "practice_tests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"cluster" text NOT NULL,
+	"level" text NOT NULL,
+	"questions" text NOT NULL,
+	"test_history_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"submitted_at" timestamp
+);
@@ -0,0 +1,4 @@
+ALTER TABLE "practice_tests" ADD COLUMN "mode" text DEFAULT 'practice' NOT NULL;--> statement-breakpoint
+ALTER TABLE "practice_tests" ADD COLUMN "answers" text DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "practice_tests" ADD COLUMN "flagged_questions" text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "practice_tests" ADD COLUMN "expires_at" timestamp;
\ No newline at end of file
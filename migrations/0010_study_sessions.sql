@@ -0,0 +1,9 @@
+CREATE TABLE "study_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"activity_type" text NOT NULL,
+	"focus_score" real,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"ended_at" timestamp,
+	"duration" integer
+);
@@ -0,0 +1,30 @@
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import pg from 'pg';
+import 'dotenv/config';
+
+const { Pool } = pg;
+
+// Create a PostgreSQL connection
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+});
+
+const db = drizzle(pool);
+
+// Apply every pending migration in ./migrations (generated by `npm run db:generate`)
+async function main() {
+  console.log('Applying database migrations...');
+
+  try {
+    await migrate(db, { migrationsFolder: './migrations' });
+    console.log('Database schema is up to date!');
+  } catch (error) {
+    console.error('Error applying migrations:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
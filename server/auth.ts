@@ -1,16 +1,16 @@
 import { Express, Request, Response, NextFunction } from "express";
 import cors from "cors";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, randomUUID, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
-import { verifySupabaseToken } from "./supabase-auth";
-
-declare global {
-  namespace Express {
-    interface User extends SelectUser {}
-  }
-}
+import {
+  AUTH_COOKIE,
+  getAuthMode,
+  getTokenTTLSeconds,
+  issueLocalToken,
+  verifySupabaseToken,
+} from "./supabase-auth";
 
 const scryptAsync = promisify(scrypt);
 
@@ -27,6 +27,84 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Never send the password hash to the client
+export function toPublicUser(user: SelectUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Issue a self-hosted token for the user, set it as an httpOnly cookie and return it for bearer clients
+async function startSession(res: Response, user: SelectUser): Promise<string> {
+  const token = await issueLocalToken({ id: user.authId!, email: user.email || undefined });
+  res.cookie(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: getTokenTTLSeconds() * 1000,
+  });
+  return token;
+}
+
+// Account routes for AUTH_MODE=local, where the app stores passwords and signs its own tokens
+function setupLocalAuth(app: Express) {
+  app.post("/api/register", async (req: Request, res: Response) => {
+    try {
+      const { username, password, email, fullName } = req.body;
+      if (!username || !password) {
+        return res.status(400).json({ error: "Username and password are required" });
+      }
+      if (String(password).length < 8) {
+        return res.status(400).json({ error: "Password must be at least 8 characters" });
+      }
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        authId: `local:${randomUUID()}`,
+        username,
+        password: await hashPassword(String(password)),
+        email: email || null,
+        fullName: fullName || null,
+        showTutorial: true,
+        onboardingCompleted: false,
+      });
+
+      const token = await startSession(res, user);
+      res.status(201).json({ ...toPublicUser(user), token });
+    } catch (error) {
+      console.error("Error registering user:", error);
+      res.status(500).json({ error: "Failed to register user" });
+    }
+  });
+
+  app.post("/api/login", async (req: Request, res: Response) => {
+    try {
+      const { username, password } = req.body;
+      if (!username || !password) {
+        return res.status(400).json({ error: "Username and password are required" });
+      }
+
+      const user = (await storage.getUserByUsername(username)) || (await storage.getUserByEmail(username));
+      if (!user?.password || !user.authId || !(await comparePasswords(String(password), user.password))) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      const token = await startSession(res, user);
+      res.json({ ...toPublicUser(user), token });
+    } catch (error) {
+      console.error("Error logging in:", error);
+      res.status(500).json({ error: "Failed to log in" });
+    }
+  });
+
+  app.post("/api/logout", (_req: Request, res: Response) => {
+    res.clearCookie(AUTH_COOKIE);
+    res.sendStatus(204);
+  });
+}
+
 export function setupAuth(app: Express) {
   // Setup CORS for Replit webview compatibility
   app.use(cors({ 
@@ -46,6 +124,10 @@ export function setupAuth(app: Express) {
   
   // Old Passport.js authentication routes removed - using Supabase instead
 
+  if (getAuthMode() === "local") {
+    setupLocalAuth(app);
+  }
+
   // Get user data with Supabase authentication
   app.get("/api/user", verifySupabaseToken, async (req, res) => {
     try {
@@ -66,7 +148,7 @@ export function setupAuth(app: Express) {
         selectedCluster: user.selectedCluster
       });
 
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       console.error("❌ Error fetching user data:", error);
       res.status(500).json({ error: "Internal server error" });
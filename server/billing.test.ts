@@ -0,0 +1,138 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("STORAGE_DRIVER", "memory");
+vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_webhook");
+vi.stubEnv("STRIPE_WEBHOOK_SECRET", "whsec_test_webhook");
+vi.stubEnv("STRIPE_PRICE_PLUS", "price_plus");
+
+// Loaded after the environment is set: the storage driver and Stripe client read it on import
+const { DEFAULT_TIER, getStripe, handleStripeWebhook } = await import("./billing");
+const { storage } = await import("./storage");
+
+interface SubscriptionChange {
+  type?: string;
+  subscription?: string;
+  status?: string;
+}
+
+// A subscription event for the plus tier, by default an update to an active subscription
+function subscriptionEvent(customer: string, { type = "customer.subscription.updated", subscription = "sub_webhook", status = "active" }: SubscriptionChange = {}) {
+  return JSON.stringify({
+    id: `evt_${subscription}_${status}`,
+    object: "event",
+    type,
+    data: {
+      object: {
+        id: subscription,
+        object: "subscription",
+        customer,
+        status,
+        items: { object: "list", data: [{ id: "si_webhook", price: { id: "price_plus" } }] },
+        metadata: {},
+      },
+    },
+  });
+}
+
+describe("Stripe webhook", () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.post("/api/stripe/webhook", express.raw({ type: "application/json" }), handleStripeWebhook);
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/stripe/webhook`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  function post(payload: string, signature: string) {
+    return fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+      body: payload,
+    });
+  }
+
+  function postSigned(payload: string) {
+    return post(payload, getStripe().webhooks.generateTestHeaderString({ payload, secret: "whsec_test_webhook" }));
+  }
+
+  // A user already on the plus tier through the given subscription
+  async function createSubscriber(username: string, customer: string, subscription: string) {
+    const user = await storage.createUser({ username, password: "x" });
+    await storage.updateStripeIds(user.id, { stripeCustomerId: customer, stripeSubscriptionId: subscription });
+    await storage.updateSubscription(user.id, "plus");
+    return user;
+  }
+
+  it("updates subscriptionTier for a correctly signed event", async () => {
+    const user = await storage.createUser({ username: "webhook-signed", password: "x" });
+    await storage.updateStripeIds(user.id, { stripeCustomerId: "cus_signed" });
+
+    const response = await postSigned(subscriptionEvent("cus_signed"));
+
+    expect(response.status).toBe(200);
+    expect((await storage.getUser(user.id))?.subscriptionTier).toBe("plus");
+  });
+
+  it("rejects a badly signed event with a 400", async () => {
+    const user = await storage.createUser({ username: "webhook-forged", password: "x" });
+    await storage.updateStripeIds(user.id, { stripeCustomerId: "cus_forged" });
+
+    const payload = subscriptionEvent("cus_forged");
+    const signature = getStripe().webhooks.generateTestHeaderString({ payload, secret: "whsec_someone_else" });
+    const response = await post(payload, signature);
+
+    expect(response.status).toBe(400);
+    expect((await storage.getUser(user.id))?.subscriptionTier).not.toBe("plus");
+  });
+
+  it("drops a past-due subscription to the default tier and keeps it on the user", async () => {
+    const user = await createSubscriber("webhook-past-due", "cus_past_due", "sub_past_due");
+
+    const response = await postSigned(subscriptionEvent("cus_past_due", { subscription: "sub_past_due", status: "past_due" }));
+
+    expect(response.status).toBe(200);
+    const updated = await storage.getUser(user.id);
+    expect(updated?.subscriptionTier).toBe(DEFAULT_TIER);
+    expect(updated?.stripeSubscriptionId).toBe("sub_past_due");
+  });
+
+  it("drops a cancelled subscription to the default tier and clears it from the user", async () => {
+    const user = await createSubscriber("webhook-cancelled", "cus_cancelled", "sub_cancelled");
+
+    const response = await postSigned(subscriptionEvent("cus_cancelled", {
+      type: "customer.subscription.deleted",
+      subscription: "sub_cancelled",
+      status: "canceled",
+    }));
+
+    expect(response.status).toBe(200);
+    const updated = await storage.getUser(user.id);
+    expect(updated?.subscriptionTier).toBe(DEFAULT_TIER);
+    expect(updated?.stripeSubscriptionId).toBeNull();
+  });
+
+  it("ignores the cancellation of a subscription the user has replaced", async () => {
+    const user = await createSubscriber("webhook-replaced", "cus_replaced", "sub_current");
+
+    const response = await postSigned(subscriptionEvent("cus_replaced", {
+      type: "customer.subscription.deleted",
+      subscription: "sub_replaced",
+      status: "canceled",
+    }));
+
+    expect(response.status).toBe(200);
+    const updated = await storage.getUser(user.id);
+    expect(updated?.subscriptionTier).toBe("plus");
+    expect(updated?.stripeSubscriptionId).toBe("sub_current");
+  });
+});
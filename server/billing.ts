@@ -0,0 +1,279 @@
+import Stripe from "stripe";
+import type { Request, Response } from "express";
+import { SUBSCRIPTION_LIMITS } from "@shared/schema";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+export type SubscriptionTier = keyof typeof SUBSCRIPTION_LIMITS;
+
+// Every account has this tier when it has no paid subscription
+export const DEFAULT_TIER: SubscriptionTier = "standard";
+
+// Environment variable holding the Stripe price ID of each tier's monthly plan
+const TIER_PRICE_VARIABLES: Record<SubscriptionTier, string> = {
+  standard: "STRIPE_PRICE_STANDARD",
+  plus: "STRIPE_PRICE_PLUS",
+  pro: "STRIPE_PRICE_PRO",
+};
+
+// Statuses that keep the paid tier. Still waiting on the first payment ("incomplete") leaves the tier alone;
+// every other status (past_due, unpaid, canceled, ...) drops the user back to DEFAULT_TIER.
+const PAID_STATUSES: Stripe.Subscription.Status[] = ["active", "trialing"];
+
+// One-off payments, in dollars; Stripe's minimum charge is $0.50
+const MIN_PAYMENT_AMOUNT = 0.5;
+const MAX_PAYMENT_AMOUNT = 1000;
+
+export interface SubscriptionSummary {
+  tier: string;
+  status: Stripe.Subscription.Status | null; // null without a Stripe subscription
+  currentPeriodEnd: Date | null;
+  cancelAtPeriodEnd: boolean;
+}
+
+export type SubscriptionCheckout =
+  | { status: "created"; subscriptionId: string; clientSecret: string | null }
+  | { status: "already-subscribed" };
+
+if (!process.env.STRIPE_SECRET_KEY) {
+  console.warn(
+    "Missing Stripe secret key. Stripe features will not work properly.",
+  );
+}
+
+let stripeClient: Stripe | null = null;
+
+/**
+ * The Stripe client, created on first use
+ * STRIPE_API_BASE sends its requests to another host, such as a stripe-mock server (http://localhost:12111).
+ */
+export function getStripe(): Stripe {
+  if (!stripeClient) {
+    const base = process.env.STRIPE_API_BASE ? new URL(process.env.STRIPE_API_BASE) : undefined;
+    stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+      apiVersion: "2023-10-16" as any, // Using as any to fix type mismatch with newer versions
+      ...(base && {
+        host: base.hostname,
+        port: base.port || undefined,
+        protocol: base.protocol === "http:" ? "http" : "https",
+      }),
+    });
+  }
+  return stripeClient;
+}
+
+export function isSubscriptionTier(tier: unknown): tier is SubscriptionTier {
+  return typeof tier === "string" && tier in TIER_PRICE_VARIABLES;
+}
+
+export function getTierPrice(tier: SubscriptionTier): string | undefined {
+  return process.env[TIER_PRICE_VARIABLES[tier]] || undefined;
+}
+
+// The tier a subscription pays for, from its price, or the tier it was created for when the price isn't configured
+function getSubscribedTier(subscription: Stripe.Subscription): SubscriptionTier | undefined {
+  const priceId = subscription.items.data[0]?.price.id;
+  const tiers = Object.keys(TIER_PRICE_VARIABLES) as SubscriptionTier[];
+  const tier = tiers.find(t => priceId && getTierPrice(t) === priceId) ?? subscription.metadata?.tier;
+  return isSubscriptionTier(tier) ? tier : undefined;
+}
+
+function getClientSecret(subscription: Stripe.Subscription): string | null {
+  const invoice = subscription.latest_invoice as Stripe.Invoice | null;
+  const paymentIntent = invoice?.payment_intent as Stripe.PaymentIntent | null | undefined;
+  return paymentIntent?.client_secret ?? null;
+}
+
+function toSummary(tier: string, subscription: Stripe.Subscription | null): SubscriptionSummary {
+  return {
+    tier,
+    status: subscription?.status ?? null,
+    currentPeriodEnd: subscription ? new Date(subscription.current_period_end * 1000) : null,
+    cancelAtPeriodEnd: subscription?.cancel_at_period_end ?? false,
+  };
+}
+
+async function getOrCreateCustomer(user: User): Promise<string> {
+  if (user.stripeCustomerId) return user.stripeCustomerId;
+
+  const customer = await getStripe().customers.create(
+    {
+      email: user.email || undefined,
+      name: user.fullName || user.username,
+      metadata: { userId: String(user.id) },
+    },
+    // Two requests racing to create the customer get the same one back
+    { idempotencyKey: `customer-${user.id}` },
+  );
+  await storage.updateStripeIds(user.id, { stripeCustomerId: customer.id });
+  return customer.id;
+}
+
+async function getCurrentSubscription(user: User): Promise<Stripe.Subscription | null> {
+  if (!user.stripeSubscriptionId) return null;
+  return getStripe().subscriptions.retrieve(user.stripeSubscriptionId, { expand: ["latest_invoice.payment_intent"] });
+}
+
+/**
+ * Start a subscription to the tier, waiting on its first payment
+ * Returns the payment intent's client secret to confirm with Stripe Elements. An unpaid subscription to the same
+ * tier is reused; one to another tier is cancelled first. The tier itself changes once the webhook reports the payment.
+ */
+export async function createSubscription(user: User, tier: SubscriptionTier, priceId: string): Promise<SubscriptionCheckout> {
+  const stripe = getStripe();
+  const existing = await getCurrentSubscription(user);
+
+  if (existing && PAID_STATUSES.includes(existing.status)) {
+    return { status: "already-subscribed" };
+  }
+  if (existing?.status === "incomplete") {
+    if (existing.items.data[0]?.price.id === priceId) {
+      return { status: "created", subscriptionId: existing.id, clientSecret: getClientSecret(existing) };
+    }
+    await stripe.subscriptions.cancel(existing.id);
+  }
+
+  const subscription = await stripe.subscriptions.create({
+    customer: await getOrCreateCustomer(user),
+    items: [{ price: priceId }],
+    payment_behavior: "default_incomplete",
+    payment_settings: { save_default_payment_method: "on_subscription" },
+    expand: ["latest_invoice.payment_intent"],
+    metadata: { userId: String(user.id), tier },
+  });
+  await storage.updateStripeIds(user.id, { stripeSubscriptionId: subscription.id });
+
+  return { status: "created", subscriptionId: subscription.id, clientSecret: getClientSecret(subscription) };
+}
+
+// Move a paid subscription to another tier, prorating the difference; undefined without one
+export async function changeSubscriptionTier(user: User, tier: SubscriptionTier, priceId: string): Promise<SubscriptionSummary | undefined> {
+  const existing = await getCurrentSubscription(user);
+  if (!existing || !PAID_STATUSES.includes(existing.status)) return undefined;
+
+  const subscription = await getStripe().subscriptions.update(existing.id, {
+    items: [{ id: existing.items.data[0].id, price: priceId }],
+    proration_behavior: "create_prorations",
+    cancel_at_period_end: false,
+    metadata: { tier },
+  });
+  await syncSubscription(subscription);
+  return toSummary(tier, subscription);
+}
+
+// Cancel at the end of the paid period; the webhook drops the tier when it ends. Undefined without a subscription.
+export async function cancelSubscription(user: User): Promise<SubscriptionSummary | undefined> {
+  const existing = await getCurrentSubscription(user);
+  if (!existing || !PAID_STATUSES.includes(existing.status)) return undefined;
+
+  const subscription = await getStripe().subscriptions.update(existing.id, { cancel_at_period_end: true });
+  return toSummary(user.subscriptionTier || DEFAULT_TIER, subscription);
+}
+
+export async function getSubscriptionSummary(user: User): Promise<SubscriptionSummary> {
+  return toSummary(user.subscriptionTier || DEFAULT_TIER, await getCurrentSubscription(user));
+}
+
+export function isValidPaymentAmount(amount: unknown): amount is number {
+  return typeof amount === "number" && Number.isFinite(amount) && amount >= MIN_PAYMENT_AMOUNT && amount <= MAX_PAYMENT_AMOUNT;
+}
+
+// A one-off card payment, in dollars
+export async function createPaymentIntent(user: User, amount: number): Promise<Stripe.PaymentIntent> {
+  return getStripe().paymentIntents.create({
+    amount: Math.round(amount * 100),
+    currency: "usd",
+    customer: await getOrCreateCustomer(user),
+    automatic_payment_methods: { enabled: true },
+    metadata: { userId: String(user.id) },
+  });
+}
+
+/**
+ * Check a webhook's Stripe-Signature header against STRIPE_WEBHOOK_SECRET and parse the event
+ * Throws when the signature doesn't match, is too old or the secret isn't configured.
+ */
+export function constructWebhookEvent(payload: Buffer, signature: string | string[] | undefined): Stripe.Event {
+  if (!process.env.STRIPE_WEBHOOK_SECRET) {
+    throw new Error("STRIPE_WEBHOOK_SECRET is not configured");
+  }
+  if (typeof signature !== "string") {
+    throw new Error("Missing Stripe-Signature header");
+  }
+  return getStripe().webhooks.constructEvent(payload, signature, process.env.STRIPE_WEBHOOK_SECRET);
+}
+
+// Set the subscriber's tier from the subscription's current status
+async function syncSubscription(subscription: Stripe.Subscription) {
+  const customerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id;
+  const user = await storage.getUserByStripeCustomerId(customerId);
+  if (!user) {
+    console.warn(`Stripe subscription ${subscription.id} has no matching user`);
+    return;
+  }
+
+  if (PAID_STATUSES.includes(subscription.status)) {
+    const tier = getSubscribedTier(subscription);
+    if (!tier) {
+      console.warn(`Stripe subscription ${subscription.id} is for a price that matches no tier`);
+      return;
+    }
+    await storage.updateStripeIds(user.id, { stripeSubscriptionId: subscription.id });
+    await storage.updateSubscription(user.id, tier);
+    return;
+  }
+
+  // Events for a subscription the user has since replaced don't touch their tier
+  if (subscription.status === "incomplete" || user.stripeSubscriptionId !== subscription.id) return;
+
+  await storage.updateSubscription(user.id, DEFAULT_TIER);
+  if (subscription.status === "canceled" || subscription.status === "incomplete_expired") {
+    await storage.updateStripeIds(user.id, { stripeSubscriptionId: null });
+  }
+}
+
+/**
+ * Apply a verified webhook event
+ * A paid invoice (payment success) and subscription updates set the tier the subscription pays for while it is active;
+ * past-due, unpaid and cancelled subscriptions drop back to DEFAULT_TIER. Other events are ignored.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      await syncSubscription(event.data.object);
+      break;
+    case "invoice.paid": {
+      const subscription = event.data.object.subscription;
+      if (subscription) {
+        // Events can arrive out of order, so read the subscription as it is now
+        const subscriptionId = typeof subscription === "string" ? subscription : subscription.id;
+        await syncSubscription(await getStripe().subscriptions.retrieve(subscriptionId));
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * The webhook route. req.body must be the raw payload, as Stripe signs the exact bytes it sends.
+ * A bad signature gets a 400; a failure applying the event gets a 500 so Stripe retries it later.
+ */
+export async function handleStripeWebhook(req: Request, res: Response) {
+  let event: Stripe.Event;
+  try {
+    event = constructWebhookEvent(req.body, req.headers["stripe-signature"]);
+  } catch (error: any) {
+    console.warn("Rejected Stripe webhook:", error.message);
+    return res.status(400).json({ error: "Invalid webhook signature" });
+  }
+
+  try {
+    await handleStripeEvent(event);
+    res.json({ received: true });
+  } catch (error) {
+    console.error(`Error handling Stripe ${event.type} event:`, error);
+    res.status(500).json({ error: "Failed to handle webhook" });
+  }
+}
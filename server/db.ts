@@ -5,7 +5,8 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+// The in-memory storage driver runs without a database
+if (!process.env.DATABASE_URL && process.env.STORAGE_DRIVER !== "memory") {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
@@ -1,8 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startExpiredExamSweep } from "./practiceTests";
 
 const app = express();
+// Stripe signs the exact bytes it sends, so its webhook gets the raw body instead of parsed JSON
+app.use("/api/stripe/webhook", express.raw({ type: "application/json" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -67,4 +70,6 @@ app.use((req, res, next) => {
   server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port} - accessible at all interfaces`);
   });
+
+  startExpiredExamSweep();
 })();
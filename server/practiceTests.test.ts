@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("STORAGE_DRIVER", "memory");
+
+// Loaded after the environment is set: the storage driver is picked on import
+const { storage } = await import("./storage");
+const { scorePracticeTest, toAttempt } = await import("./practiceTests");
+
+const questions = [
+  { id: 1, stem: "First", options: { A: "a", B: "b", C: "c", D: "d" }, answer: "B", rationale: "Because B", instructional_area: "Marketing" },
+  { id: 2, stem: "Second", options: { A: "a", B: "b", C: "c", D: "d" }, answer: "D", rationale: "Because D", instructional_area: "Pricing" },
+  { id: 3, stem: "Third", options: { A: "a", B: "b", C: "c", D: "d" }, answer: "A", rationale: "Because A", instructional_area: "Selling" },
+  { id: 4, stem: "Fourth", options: { A: "a", B: "b", C: "c", D: "d" }, answer: "C", rationale: "Because C", instructional_area: "Marketing" },
+];
+
+async function createTest(username: string, expiresAt: Date | null = null) {
+  const user = await storage.createUser({ username, password: "x" });
+  const test = await storage.createPracticeTest({
+    userId: user.id,
+    cluster: "Marketing",
+    level: "District",
+    mode: expiresAt ? "exam" : "practice",
+    questions: JSON.stringify(questions),
+    expiresAt,
+  });
+  return { user, test };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("scorePracticeTest", () => {
+  it("withholds the answer key until the test is scored", async () => {
+    const { test } = await createTest("scoring-attempt");
+
+    for (const question of toAttempt(test).questions) {
+      expect(question).not.toHaveProperty("answer");
+      expect(question).not.toHaveProperty("rationale");
+    }
+  });
+
+  it("scores the answers against the key held on the server", async () => {
+    const { user, test } = await createTest("scoring-key");
+
+    const result = await scorePracticeTest(test, { 1: "B", 2: "D", 3: "C" }, 120);
+
+    expect(result).toMatchObject({ score: 50, correctAnswers: 2, totalQuestions: 4 });
+    const [history] = await storage.getUserTestHistory(user.id);
+    expect(history).toMatchObject({ id: result!.testHistoryId, score: 50, correctAnswers: 2, timeSpent: 120 });
+    const results = await storage.getTestQuestionResults(history.id);
+    expect(results.map(r => r.isCorrect)).toEqual([true, true, false, false]);
+  });
+
+  it("scores a test once", async () => {
+    const { user, test } = await createTest("scoring-once");
+
+    expect(await scorePracticeTest(test, { 1: "B" })).toBeDefined();
+    expect(await scorePracticeTest(test, { 1: "B", 2: "D", 3: "A", 4: "C" })).toBeUndefined();
+    expect(await storage.getUserTestHistory(user.id)).toHaveLength(1);
+  });
+
+  it("counts only the autosaved answers of an exam submitted after its deadline", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { test } = await createTest("scoring-late", new Date(Date.now() + 60 * 1000));
+    await storage.saveTestAnswer(test.id, 1, { answer: "B" });
+    vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+
+    const result = await scorePracticeTest(test, { 2: "D", 3: "A", 4: "C" });
+
+    expect(result).toMatchObject({ correctAnswers: 1, score: 25 });
+  });
+
+  it("reopens the test when saving its result fails", async () => {
+    const { user, test } = await createTest("scoring-failure");
+    vi.spyOn(storage, "saveQuestionResults").mockRejectedValueOnce(new Error("database unavailable"));
+
+    await expect(scorePracticeTest(test, { 1: "B" })).rejects.toThrow("database unavailable");
+
+    expect((await storage.getPracticeTest(user.id, test.id))?.submittedAt).toBeNull();
+    expect(await storage.getUserTestHistory(user.id)).toHaveLength(0);
+
+    const result = await scorePracticeTest(test, { 1: "B" });
+    expect(result).toMatchObject({ correctAnswers: 1 });
+    expect(await storage.getTestQuestionResults(result!.testHistoryId)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,165 @@
+import type { PracticeTest, PracticeTestMode } from "@shared/schema";
+import { EXAM_TIME_LIMIT_MINUTES } from "@shared/blueprint";
+import { storage } from "./storage";
+
+// A final submission that arrives this long after the deadline still counts its answers, to allow for the request in flight
+const SUBMISSION_GRACE_SECONDS = 30;
+// How often exams whose time ran out while the student was away are submitted
+const EXPIRED_EXAM_SWEEP_MS = 60 * 1000;
+
+export interface PracticeTestScore {
+  testHistoryId: number;
+  cluster: string;
+  level: string;
+  score: number; // Percentage 0-100
+  correctAnswers: number;
+  totalQuestions: number;
+  questions: any[]; // With their answers and rationales, for review
+}
+
+// An unsubmitted test as the client sees it, enough to pick it back up after a refresh or disconnect
+export interface PracticeTestAttempt {
+  testId: number;
+  mode: PracticeTestMode;
+  cluster: string;
+  level: string;
+  questions: any[];
+  answers: Record<number, string>;
+  flaggedQuestions: number[];
+  remainingSeconds: number | null; // null without a time limit
+}
+
+export function getExamTimeLimitSeconds(): number {
+  return EXAM_TIME_LIMIT_MINUTES * 60;
+}
+
+// A question as the student sees it while taking the test; the answer and rationale stay on the server until scoring
+export function withholdAnswer(question: any) {
+  const { answer, rationale, explanation, ...visible } = question;
+  return visible;
+}
+
+export function getTestQuestions(test: PracticeTest): any[] {
+  return JSON.parse(test.questions);
+}
+
+export function getSavedAnswers(test: PracticeTest): Record<number, string> {
+  return JSON.parse(test.answers);
+}
+
+export function getFlaggedQuestions(test: PracticeTest): number[] {
+  return JSON.parse(test.flaggedQuestions);
+}
+
+export function getRemainingSeconds(test: PracticeTest, now = new Date()): number | null {
+  if (!test.expiresAt) return null;
+  return Math.max(0, Math.ceil((test.expiresAt.getTime() - now.getTime()) / 1000));
+}
+
+export function isTimeUp(test: PracticeTest, now = new Date()): boolean {
+  return !!test.expiresAt && now >= test.expiresAt;
+}
+
+export function toAttempt(test: PracticeTest): PracticeTestAttempt {
+  return {
+    testId: test.id,
+    mode: test.mode as PracticeTestMode,
+    cluster: test.cluster,
+    level: test.level,
+    questions: getTestQuestions(test).map(withholdAnswer),
+    answers: getSavedAnswers(test),
+    flaggedQuestions: getFlaggedQuestions(test),
+    remainingSeconds: getRemainingSeconds(test),
+  };
+}
+
+/**
+ * Score a test against its answer key and save it to the test history with one question result per question
+ * Submitted answers are laid over the autosaved ones; once an exam's deadline (plus a short grace period) has passed,
+ * only the autosaved answers count. Exams are timed on the server, practice tests by the client's timeSpent.
+ * If saving the result fails the test is reopened, so the student can submit it again.
+ * @returns undefined when the test was already submitted
+ */
+export async function scorePracticeTest(
+  test: PracticeTest,
+  submittedAnswers: Record<number, string> = {},
+  clientTimeSpent: number | null = null,
+): Promise<PracticeTestScore | undefined> {
+  // Claiming the test first keeps a repeated or concurrent submission from being scored twice.
+  // The claimed row also has every answer autosaved up to this point.
+  const claimed = await storage.submitPracticeTest(test.id);
+  if (!claimed) return undefined;
+
+  const now = new Date();
+  const lateBy = test.expiresAt ? (now.getTime() - test.expiresAt.getTime()) / 1000 : 0;
+  const userAnswers = lateBy > SUBMISSION_GRACE_SECONDS
+    ? getSavedAnswers(claimed)
+    : { ...getSavedAnswers(claimed), ...submittedAnswers };
+
+  const { cluster, level } = test;
+  const questions = getTestQuestions(test);
+  const correctAnswers = questions.filter((q: any) => userAnswers[q.id] === q.answer).length;
+  const score = questions.length > 0 ? Math.round((correctAnswers / questions.length) * 100) : 0;
+  const timeSpent = test.expiresAt
+    ? Math.round((Math.min(now.getTime(), test.expiresAt.getTime()) - test.createdAt.getTime()) / 1000)
+    : clientTimeSpent;
+
+  let testHistoryId: number | undefined;
+  try {
+    const testHistory = await storage.saveTestHistory({
+      userId: test.userId,
+      testTitle: `${cluster} ${level} ${test.mode === "exam" ? "Mock Exam" : "Practice Test"}`,
+      cluster,
+      level,
+      totalQuestions: questions.length,
+      correctAnswers,
+      score,
+      timeSpent,
+      completedAt: now,
+    });
+    testHistoryId = testHistory.id;
+    await storage.updatePracticeTest(test.id, { testHistoryId });
+    await storage.saveQuestionResults(testHistoryId, test.userId, questions, userAnswers);
+
+    // Also save to practice sessions for compatibility
+    await storage.recordPracticeSession({
+      userId: test.userId,
+      type: "practice_test",
+      score,
+      completedAt: now,
+      details: JSON.stringify({ cluster, level, mode: test.mode }),
+    });
+  } catch (error) {
+    // Release the claim rather than leave the test submitted without a result
+    await storage.releasePracticeTest(test.id, testHistoryId);
+    throw error;
+  }
+
+  return { testHistoryId, cluster, level, score, correctAnswers, totalQuestions: questions.length, questions };
+}
+
+/**
+ * Submit every exam whose time (and grace period) has run out, scoring the answers autosaved before the deadline
+ * @returns The number of exams scored
+ */
+export async function submitExpiredExams(): Promise<number> {
+  // Leave the grace period to the student's own final submission
+  const deadline = new Date(Date.now() - SUBMISSION_GRACE_SECONDS * 1000);
+  let submitted = 0;
+  for (const test of await storage.getExpiredPracticeTests(deadline)) {
+    try {
+      if (await scorePracticeTest(test)) submitted++;
+    } catch (error) {
+      console.error(`Error submitting expired exam ${test.id}:`, error);
+    }
+  }
+  return submitted;
+}
+
+// Periodically submit exams abandoned past their deadline, so they reach the test history without the student returning
+export function startExpiredExamSweep() {
+  const timer = setInterval(() => {
+    submitExpiredExams().catch((error) => console.error("Error sweeping expired exams:", error));
+  }, EXPIRED_EXAM_SWEEP_MS);
+  timer.unref();
+}
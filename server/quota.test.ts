@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+import { SUBSCRIPTION_LIMITS, type User } from "@shared/schema";
+import { getAllowance, getNextResetDate, getUsageStatus, isResetDue } from "./quota";
+
+vi.stubEnv("STORAGE_DRIVER", "memory");
+
+// Loaded after the environment is set: the storage driver is picked on import
+const { MemStorage } = await import("./storage");
+
+const now = new Date("2026-03-15T12:00:00Z");
+const nextMonth = new Date("2026-04-15T12:00:00Z");
+const lastMonth = new Date("2026-02-15T12:00:00Z");
+
+// Only the tier and usage columns matter to the quota rules
+function userWith(changes: Partial<User>): User {
+  return { subscriptionTier: "standard", testCount: 0, testResetDate: null, ...changes } as User;
+}
+
+describe("usage status", () => {
+  it("counts from zero when no period has started or the last one has ended", () => {
+    expect(isResetDue(null, now)).toBe(true);
+    expect(isResetDue(lastMonth, now)).toBe(true);
+    expect(isResetDue(nextMonth, now)).toBe(false);
+    expect(getUsageStatus(userWith({ testCount: 9, testResetDate: lastMonth }), "tests", now)).toEqual({
+      used: 0,
+      limit: SUBSCRIPTION_LIMITS.standard.tests,
+      remaining: SUBSCRIPTION_LIMITS.standard.tests,
+      resetsAt: null,
+    });
+  });
+
+  it("runs a period for one month", () => {
+    expect(getNextResetDate(now)).toEqual(nextMonth);
+  });
+
+  it("refuses once the tier's monthly limit is used", () => {
+    const limit = SUBSCRIPTION_LIMITS.standard.tests;
+    expect(getAllowance(userWith({ testCount: limit - 1, testResetDate: nextMonth }), "tests", now)).toEqual({ allowed: true, remaining: 1 });
+    expect(getAllowance(userWith({ testCount: limit, testResetDate: nextMonth }), "tests", now)).toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it("gives a higher tier its own limit", () => {
+    const user = userWith({ subscriptionTier: "plus", testCount: SUBSCRIPTION_LIMITS.standard.tests, testResetDate: nextMonth });
+    expect(getAllowance(user, "tests", now).allowed).toBe(true);
+  });
+});
+
+describe("usage reservations", () => {
+  it("lets concurrent requests take no more than the tier's limit", async () => {
+    const storage = new MemStorage();
+    const user = await storage.createUser({ username: "quota-concurrent", password: "x" });
+    const limit = SUBSCRIPTION_LIMITS.standard.tests;
+
+    const allowances = await Promise.all(Array.from({ length: limit + 5 }, () => storage.reserveUsage(user.id, "tests")));
+
+    expect(allowances.filter(allowance => allowance.allowed)).toHaveLength(limit);
+    expect((await storage.getUsage(user.id))?.tests.used).toBe(limit);
+  });
+
+  it("gives a refunded use back to the next request", async () => {
+    const storage = new MemStorage();
+    const user = await storage.createUser({ username: "quota-refund", password: "x" });
+    const limit = SUBSCRIPTION_LIMITS.standard.writtenEvents;
+
+    for (let i = 0; i < limit; i++) await storage.reserveUsage(user.id, "writtenEvents");
+    expect((await storage.reserveUsage(user.id, "writtenEvents")).allowed).toBe(false);
+
+    await storage.refundUsage(user.id, "writtenEvents");
+    expect(await storage.reserveUsage(user.id, "writtenEvents")).toEqual({ allowed: true, remaining: 0 });
+  });
+
+  it("never refunds below zero", async () => {
+    const storage = new MemStorage();
+    const user = await storage.createUser({ username: "quota-empty", password: "x" });
+
+    await storage.reserveUsage(user.id, "roleplays");
+    await storage.refundUsage(user.id, "roleplays");
+    await storage.refundUsage(user.id, "roleplays");
+
+    expect((await storage.getUsage(user.id))?.roleplays.used).toBe(0);
+  });
+});
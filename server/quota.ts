@@ -0,0 +1,80 @@
+import { SUBSCRIPTION_LIMITS } from "@shared/schema";
+import type { User } from "@shared/schema";
+
+// Usage kinds that are metered per month, keyed like SUBSCRIPTION_LIMITS
+export type UsageKind = "tests" | "roleplays" | "writtenEvents";
+
+export interface UsageStatus {
+  used: number;
+  limit: number; // -1 means unlimited
+  remaining: number; // -1 means unlimited
+  resetsAt: Date | null;
+}
+
+export interface Allowance {
+  allowed: boolean;
+  remaining: number;
+  message?: string;
+}
+
+// User columns that hold the running count and reset date for each usage kind
+export const USAGE_COLUMNS = {
+  tests: { count: "testCount", resetDate: "testResetDate" },
+  roleplays: { count: "roleplayCount", resetDate: "roleplayResetDate" },
+  writtenEvents: { count: "writtenEventCount", resetDate: "writtenEventResetDate" },
+} as const;
+
+const USAGE_LABELS: Record<UsageKind, string> = {
+  tests: "practice test",
+  roleplays: "roleplay",
+  writtenEvents: "written event",
+};
+
+export function getTierLimits(tier: string | null | undefined) {
+  return SUBSCRIPTION_LIMITS[(tier || "standard") as keyof typeof SUBSCRIPTION_LIMITS] || SUBSCRIPTION_LIMITS.standard;
+}
+
+// Quotas run for one month from the first use after the previous period ended
+export function getNextResetDate(from: Date): Date {
+  const next = new Date(from);
+  next.setMonth(next.getMonth() + 1);
+  return next;
+}
+
+export function isResetDue(resetDate: Date | null | undefined, now: Date = new Date()): boolean {
+  return !resetDate || now >= resetDate;
+}
+
+export function getUsageStatus(user: User, kind: UsageKind, now: Date = new Date()): UsageStatus {
+  const columns = USAGE_COLUMNS[kind];
+  const resetDate = user[columns.resetDate];
+  const limit = getTierLimits(user.subscriptionTier)[kind];
+  const used = isResetDue(resetDate, now) ? 0 : user[columns.count] || 0;
+
+  return {
+    used,
+    limit,
+    remaining: limit === -1 ? -1 : Math.max(0, limit - used),
+    resetsAt: isResetDue(resetDate, now) ? null : resetDate,
+  };
+}
+
+// The allowance once the month's uses are spent
+export function getLimitReached(kind: UsageKind): Allowance {
+  return {
+    allowed: false,
+    remaining: 0,
+    message: `Monthly ${USAGE_LABELS[kind]} limit reached. Upgrade to get more.`,
+  };
+}
+
+export function getAllowance(user: User, kind: UsageKind, now: Date = new Date()): Allowance {
+  const status = getUsageStatus(user, kind, now);
+  if (status.limit === -1) {
+    return { allowed: true, remaining: -1 };
+  }
+  if (status.remaining <= 0) {
+    return getLimitReached(kind);
+  }
+  return { allowed: true, remaining: status.remaining };
+}
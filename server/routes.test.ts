@@ -0,0 +1,98 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { SUBSCRIPTION_LIMITS } from "@shared/schema";
+
+vi.stubEnv("STORAGE_DRIVER", "memory");
+vi.stubEnv("LLM_PROVIDER", "stub");
+vi.stubEnv("AUTH_MODE", "local");
+vi.stubEnv("AUTH_JWT_SECRET", "routes-test-secret");
+
+// Loaded after the environment is set: the storage driver is picked on import
+const { registerRoutes } = await import("./routes");
+const { storage } = await import("./storage");
+
+describe("API routes on the memory storage", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    server.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function request(method: string, path: string, token?: string, body?: unknown) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  async function register(username: string): Promise<string> {
+    const { status, body } = await request("POST", "/api/register", undefined, {
+      username,
+      password: "routes-password",
+      email: `${username}@example.com`,
+    });
+    expect(status).toBe(201);
+    expect(body).not.toHaveProperty("password");
+    return body.token;
+  }
+
+  it("registers a student, generates a test, scores it and counts it against the allowance", async () => {
+    const token = await register("routes-student");
+
+    const generated = await request("POST", "/api/generate-test", token, { cluster: "Marketing", level: "District", questionCount: 5 });
+    expect(generated.status).toBe(200);
+    expect(generated.body.questions.length).toBeGreaterThan(0);
+    for (const question of generated.body.questions) {
+      expect(question).not.toHaveProperty("answer");
+    }
+
+    const answers = Object.fromEntries(generated.body.questions.map((question: { id: number }) => [question.id, "A"]));
+    const result = await request("POST", "/api/test/result", token, { testId: generated.body.testId, userAnswers: answers, timeSpent: 90 });
+    expect(result.status).toBe(200);
+    expect(result.body).toMatchObject({ success: true, totalQuestions: generated.body.questions.length });
+
+    const again = await request("POST", "/api/test/result", token, { testId: generated.body.testId, userAnswers: answers });
+    expect(again.status).toBe(409);
+
+    const usage = await request("GET", "/api/user/usage", token);
+    expect(usage.status).toBe(200);
+    expect(usage.body.tests).toMatchObject({ used: 1, limit: SUBSCRIPTION_LIMITS.standard.tests });
+  });
+
+  it("gives the test back to the allowance when generation fails", async () => {
+    const token = await register("routes-failure");
+    vi.spyOn(storage, "createPracticeTest").mockRejectedValueOnce(new Error("database unavailable"));
+
+    const generated = await request("POST", "/api/generate-test", token, { cluster: "Marketing", level: "District", questionCount: 5 });
+    expect(generated.status).toBe(500);
+
+    const usage = await request("GET", "/api/user/usage", token);
+    expect(usage.body.tests.used).toBe(0);
+  });
+
+  it("rejects requests without a token", async () => {
+    expect((await request("GET", "/api/user/usage")).status).toBe(401);
+    expect((await request("POST", "/api/generate-test", undefined, { cluster: "Marketing", level: "District" })).status).toBe(401);
+  });
+});
@@ -1,38 +1,90 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { storage, type UserProfile } from "./storage";
+import { setupAuth, toPublicUser } from "./auth";
 import { verifySupabaseToken, optionalSupabaseAuth } from "./supabase-auth";
+import { openEventStream, wantsEventStream, type EventStream } from "./sse";
 import {
-  DECA_CATEGORIES,
-  DECA_EVENTS,
-  EVENT_TYPE_GROUPS,
-  PI_CATEGORIES,
+  PI_STATUSES,
+  STUDY_ACTIVITY_TYPES,
   SUBSCRIPTION_LIMITS,
+  type User,
 } from "@shared/schema";
-import { getRandomPIsForRoleplay } from "@shared/deca-utils";
+import { DECA_CATEGORIES, EVENTS_BY_FORMAT, EVENT_TYPE_GROUPS, findCluster, findEvent, getRandomPIsForRoleplay, toUncatalogedEvent } from "@shared/deca-utils";
+import { WRITTEN_EVENT_GUIDELINES, getWrittenEventGuideline } from "@shared/written-events";
+import { BLUEPRINTS, BLUEPRINT_QUESTION_COUNT, DIFFICULTY_MIX, getClusterAreas } from "@shared/blueprint";
+import { getInstructionalAreas } from "@shared/pi-registry";
+import { PI_MAX_SCORE, SKILL_MAX_SCORE, TWENTY_FIRST_CENTURY_SKILLS, getRoleplayMaxScore } from "@shared/roleplay-rubric";
 import aiRoutes from "./routes/aiRoutes";
 import chatRoutes from "./routes/chatRoutes";
 import gameRoutes from "./routes/gameRoutes";
+import judgeRoutes from "./routes/judgeRoutes";
+import mappingRoutes from "./routes/mappingRoutes";
+import piRoutes from "./routes/piRoutes";
+import storeRoutes from "./routes/storeRoutes";
 import axios from "axios";
-import { generateTestQuestions, getOpenAIClient } from "./services/azureOpenai";
+import { generateRoleplay, generateTestQuestions, generateWrittenEventPrompt, gradeWrittenEvent, regenerateTestQuestions } from "./services/azureOpenai";
+import { getExamTargets, repairExam } from "./services/examValidator";
+import { ExamQuestionStream } from "./services/examStream";
+import { getLLMProvider, type LLMRequest } from "./services/llm";
+import {
+  cancelSubscription,
+  changeSubscriptionTier,
+  createPaymentIntent,
+  createSubscription,
+  getSubscriptionSummary,
+  getTierPrice,
+  handleStripeWebhook,
+  isSubscriptionTier,
+  isValidPaymentAmount,
+} from "./billing";
+import {
+  getExamTimeLimitSeconds,
+  getTestQuestions,
+  isTimeUp,
+  scorePracticeTest,
+  toAttempt,
+  withholdAnswer,
+} from "./practiceTests";
+import { getRecordingStore } from "./services/recordingStore";
+import { ANALYTICS_INTERVALS, ANALYTICS_TIME_RANGES, isAnalyticsInterval, isAnalyticsTimeRange, toAnalyticsFilter } from "./services/analytics";
+import { ROLEPLAY_SHEETS, renderJudgeSheet, renderParticipantSheet, type RoleplaySheet } from "./services/roleplaySheets";
 import multer from "multer";
 import fs from "fs";
 import path from "path";
+import { randomUUID } from "crypto";
 import FormData from "form-data";
 
-import Stripe from "stripe";
 import { z } from "zod";
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  console.warn(
-    "Missing Stripe secret key. Stripe features will not work properly.",
-  );
-}
+// New accounts take the requested username, then the same name with a numeric suffix while it is taken
+const MAX_USERNAME_LENGTH = 50;
+const MAX_USERNAME_SUFFIX = 100;
+
+// Minutes the participant presents to the judge in a generated roleplay
+const DEFAULT_ROLEPLAY_MINUTES = 10;
+const MAX_ROLEPLAY_MINUTES = 30;
+const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 500;
+
+/**
+ * Fill in the fields the practice test page reads: the rationale as explanation, a specific instructional area
+ * for items the model left generic, and category for backward compatibility
+ */
+function prepareTestQuestion(question: any, index: number, cluster: string, clusterAreas: string[]) {
+  if (question.rationale && !question.explanation) {
+    question.explanation = question.rationale;
+  }
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
-  apiVersion: "2023-10-16" as any, // Using as any to fix type mismatch with newer versions
-});
+  const availableAreas = clusterAreas.length > 0 ? clusterAreas : ["General"];
+  if (!question.instructional_area || question.instructional_area === cluster || question.instructional_area === "General") {
+    question.instructional_area = availableAreas[index % availableAreas.length];
+  }
+  if (!question.category) {
+    question.category = question.instructional_area;
+  }
+
+  return question;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up multer for file uploads (memory storage for audio files)
@@ -51,6 +103,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Set up multer for written event documents (plain text only)
+  const documentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB limit, matching the client
+    },
+    fileFilter: (req, file, cb) => {
+      if (file.mimetype.startsWith('text/')) {
+        cb(null, true);
+      } else {
+        cb(null, false);
+      }
+    }
+  });
+
   // Set up authentication routes
   setupAuth(app);
 
@@ -83,50 +150,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   });
 
-  // Sync user from Supabase auth
-  app.post("/api/user/sync", async (req, res) => {
+  // Sync the signed-in user's account. Identity comes from the verified token; the body only suggests a
+  // username for new accounts and carries profile updates.
+  app.post("/api/user/sync", verifySupabaseToken, async (req, res) => {
     try {
-      const { authId, email, username, fullName } = req.body;
-      
-      if (!authId || !email || !username) {
-        return res.status(400).json({ error: "Missing required fields" });
-      }
+      const { id: authId, email } = req.user!;
+      const requestedUsername = typeof req.body.username === 'string' ? req.body.username.trim() : '';
+      const fullName = typeof req.body.fullName === 'string' ? req.body.fullName.trim() : '';
+
+      const profile: UserProfile = {};
+      if (email) profile.email = email;
+      if (fullName) profile.fullName = fullName;
+
+      // Merge profile changes into an existing account
+      const syncExisting = async (user: User) => {
+        const changed = (Object.keys(profile) as (keyof UserProfile)[]).some(key => profile[key] !== user[key]);
+        const synced = changed ? await storage.updateUserProfile(user.id, profile) : user;
+        return toPublicUser(synced || user);
+      };
 
-      // Check if user already exists
       const existingUser = await storage.getUserByAuthId(authId);
       if (existingUser) {
-        return res.json(existingUser);
+        return res.json(await syncExisting(existingUser));
       }
 
-      // Generate unique username if duplicate exists
-      let finalUsername = username;
-      let counter = 1;
-      while (true) {
+      const baseUsername = (requestedUsername || email?.split('@')[0] || 'student').slice(0, MAX_USERNAME_LENGTH);
+
+      // The unique constraints decide races: a taken username moves on to the next suffix, and a concurrent
+      // sync that created this account first is merged into instead
+      for (let counter = 0; counter <= MAX_USERNAME_SUFFIX; counter++) {
         try {
           const user = await storage.createUser({
             authId,
-            username: finalUsername,
-            email,
+            username: counter === 0 ? baseUsername : `${baseUsername}${counter}`,
+            email: email || null,
             fullName: fullName || null,
             showTutorial: true, // New users should see tutorial
             onboardingCompleted: false, // They need to complete onboarding
           });
 
           console.log('✨ Created new user for onboarding:', user.id, user.username);
-          return res.status(201).json(user);
+          return res.status(201).json(toPublicUser(user));
         } catch (error: any) {
-          if (error.code === '23505' && error.constraint === 'users_username_key') {
-            // Username already exists, try with counter
-            finalUsername = `${username}${counter}`;
-            counter++;
-            if (counter > 100) {
-              throw new Error('Unable to create unique username');
-            }
-            continue;
+          if (error.code !== '23505') throw error;
+          if (error.constraint === 'users_auth_id_unique') {
+            const user = await storage.getUserByAuthId(authId);
+            if (!user) throw error;
+            return res.json(await syncExisting(user));
           }
-          throw error;
+          if (error.constraint !== 'users_username_unique') throw error;
         }
       }
+
+      throw new Error('Unable to create unique username');
     } catch (error: any) {
       console.error('User sync error:', error);
       res.status(500).json({ error: "Failed to sync user data" });
@@ -143,7 +219,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "User not found" });
       }
       
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       res.status(500).json({ error: "Failed to get user data" });
     }
@@ -192,8 +268,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         showTutorial: false,
       });
 
-      console.log('🎉 Successfully updated user event selection:', updatedUser?.selectedEvent, updatedUser?.selectedCluster);
-      res.json(updatedUser);
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      console.log('🎉 Successfully updated user event selection:', updatedUser.selectedEvent, updatedUser.selectedCluster);
+      res.json(toPublicUser(updatedUser));
     } catch (error) {
       console.error("Failed to update user event:", error);
       res.status(500).json({ error: "Failed to update event selection" });
@@ -212,14 +292,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedUser = await storage.updateUserSettings(user.id, updates);
-      res.json(updatedUser);
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(updatedUser));
     } catch (error) {
       console.error("Failed to update user preferences:", error);
       res.status(500).json({ error: "Failed to update preferences" });
     }
   });
 
-  // Register AI routes - note: /api/generate-roleplay is handled directly above
+  // Register AI routes - note: roleplays are generated by /api/roleplay/generate below
   // app.use("/api/ai", aiRoutes); // Commented out to avoid duplicate routes
 
   // Register Chat routes
@@ -228,35 +311,165 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register Game routes
   app.use("/api/games", gameRoutes);
 
+  // Register live roleplay judge routes
+  app.use("/api/roleplay/judge", judgeRoutes);
+
+  // Register cosmetics store routes
+  app.use("/api/store", storeRoutes);
+
+  // Register PI registry and content mapping routes
+  app.use("/api/pis", piRoutes);
+  app.use("/api/mapping", mappingRoutes);
+
   // API routes
   // Get subscription info
   app.get("/api/subscription-tiers", (req, res) => {
     res.json(SUBSCRIPTION_LIMITS);
   });
 
+  // Start a Stripe subscription to a tier; confirm the returned client secret with Stripe Elements
+  app.post("/api/get-or-create-subscription", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { tier } = req.body;
+      if (!isSubscriptionTier(tier)) {
+        return res.status(400).json({ error: "A valid subscription tier is required" });
+      }
+      const priceId = getTierPrice(tier);
+      if (!priceId) {
+        return res.status(503).json({ error: `The ${tier} plan is not available yet` });
+      }
+
+      const checkout = await createSubscription(user, tier, priceId);
+      if (checkout.status === "already-subscribed") {
+        return res.status(409).json({ error: "You already have a subscription. Change plans from the pricing page instead." });
+      }
+
+      res.json({ subscriptionId: checkout.subscriptionId, clientSecret: checkout.clientSecret });
+    } catch (error) {
+      console.error("Error creating subscription:", error);
+      res.status(500).json({ error: "Failed to create subscription" });
+    }
+  });
+
+  app.get("/api/user/subscription", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json(await getSubscriptionSummary(user));
+    } catch (error) {
+      console.error("Error retrieving subscription:", error);
+      res.status(500).json({ error: "Failed to retrieve subscription" });
+    }
+  });
+
+  // Move an active subscription to another tier
+  app.post("/api/user/subscription", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { tier } = req.body;
+      if (!isSubscriptionTier(tier)) {
+        return res.status(400).json({ error: "A valid subscription tier is required" });
+      }
+      const priceId = getTierPrice(tier);
+      if (!priceId) {
+        return res.status(503).json({ error: `The ${tier} plan is not available yet` });
+      }
+
+      const summary = await changeSubscriptionTier(user, tier, priceId);
+      if (!summary) {
+        return res.status(404).json({ error: "No active subscription to change" });
+      }
+
+      res.json(summary);
+    } catch (error) {
+      console.error("Error changing subscription:", error);
+      res.status(500).json({ error: "Failed to change subscription" });
+    }
+  });
+
+  // Cancel at the end of the current billing period
+  app.delete("/api/user/subscription", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const summary = await cancelSubscription(user);
+      if (!summary) {
+        return res.status(404).json({ error: "No active subscription to cancel" });
+      }
+
+      res.json(summary);
+    } catch (error) {
+      console.error("Error cancelling subscription:", error);
+      res.status(500).json({ error: "Failed to cancel subscription" });
+    }
+  });
+
+  // One-off payment from the checkout page
+  app.post("/api/create-payment-intent", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { amount } = req.body;
+      if (!isValidPaymentAmount(amount)) {
+        return res.status(400).json({ error: "amount must be between $0.50 and $1000" });
+      }
+
+      const paymentIntent = await createPaymentIntent(user, amount);
+      res.json({ clientSecret: paymentIntent.client_secret });
+    } catch (error) {
+      console.error("Error creating payment intent:", error);
+      res.status(500).json({ error: "Failed to create payment" });
+    }
+  });
+
+  // Stripe webhook; req.body is the raw payload (see index.ts) so the signature can be checked
+  app.post("/api/stripe/webhook", handleStripeWebhook);
+
   // Get DECA events data
   app.get("/api/deca-events", (req, res) => {
     res.json({
       categories: DECA_CATEGORIES,
-      events: DECA_EVENTS,
+      events: EVENTS_BY_FORMAT,
       eventTypeGroups: EVENT_TYPE_GROUPS,
     });
   });
 
-  // Get PI categories
+  // Get PI categories (the registry's instructional areas)
   app.get("/api/pi-categories", (req, res) => {
-    res.json(PI_CATEGORIES);
+    res.json(getInstructionalAreas());
   });
 
   // Test Azure OpenAI integration
   app.get("/api/test-azure-openai", async (req, res) => {
     try {
-      const client = getOpenAIClient();
-      const deployment = "gpt-4o-mini";
+      const llm = getLLMProvider();
 
-      const response = await client.getChatCompletions(
-        deployment,
-        [
+      const response = await llm.complete({
+        task: "chat",
+        messages: [
           { role: "system", content: "You are a helpful DECA assistant." },
           {
             role: "user",
@@ -264,15 +477,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
               "What is DECA and why is it important for high school students?",
           },
         ],
-        {
-          temperature: 0.7,
-          maxTokens: 300,
-        },
-      );
+        temperature: 0.7,
+        maxTokens: 300,
+      });
 
-      const content =
-        response.choices[0]?.message?.content || "No response generated";
-      res.json({ success: true, content });
+      const content = response || "No response generated";
+      res.json({ success: true, provider: llm.name, content });
     } catch (error: any) {
       console.error("Error testing Azure OpenAI:", error);
       res.status(500).json({
@@ -299,6 +509,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the user's monthly usage and remaining allowance per subscription quota
+  app.get("/api/user/usage", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const usage = await storage.getUsage(user.id);
+      res.json(usage);
+    } catch (error) {
+      console.error("Error retrieving usage:", error);
+      res.status(500).json({ error: "Failed to retrieve usage" });
+    }
+  });
+
   // Get all achievements
   app.get("/api/achievements", async (req, res) => {
     try {
@@ -341,7 +568,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Analytics endpoints
+  /**
+   * Activity, score and completion analytics over a time range
+   * Query: timeRange (day, week, month, quarter, year), interval (day, week, month) to override the bucket size,
+   * selectedEvent ("all", "tests", "roleplay", "written" or a DECA event) and cluster.
+   */
   app.get("/api/analytics", verifySupabaseToken, async (req, res) => {
     try {
       const authId = (req.user as any).id;
@@ -350,41 +581,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "User not found" });
       }
 
-      const { timeRange = "week", selectedEvent = "all" } = req.query;
+      const { timeRange = "week", interval, selectedEvent = "all", cluster } = req.query;
+      if (!isAnalyticsTimeRange(timeRange)) {
+        return res.status(400).json({ error: `timeRange must be one of ${ANALYTICS_TIME_RANGES.join(", ")}` });
+      }
+      if (interval !== undefined && !isAnalyticsInterval(interval)) {
+        return res.status(400).json({ error: `interval must be one of ${ANALYTICS_INTERVALS.join(", ")}` });
+      }
+      const filter = toAnalyticsFilter(String(selectedEvent), typeof cluster === "string" && cluster ? cluster : undefined);
+      if (!filter) {
+        return res.status(400).json({ error: "selectedEvent must be all, tests, roleplay, written or a DECA event" });
+      }
 
-      // Get user stats
       const stats = await storage.getUserStats(user.id);
+      const report = await storage.getAnalytics(user.id, timeRange, filter, interval);
 
-      // Get practice sessions for analytics
-      const sessions = await storage.getUserSessions(user.id);
-
-      // Calculate analytics data
-      const totalActivities = sessions.length;
-      const scores = sessions.filter((s: any) => s.score).map((s: any) => s.score!);
-      const averageScore =
-        scores.length > 0
-          ? scores.reduce((a: number, b: number) => a + b, 0) / scores.length
-          : 0;
-
-      // Calculate completion rate based on started vs completed activities
-      const completedActivities = sessions.filter(
-        (s: any) => s.score && s.score >= 70,
-      ).length;
-      const completionRate =
-        totalActivities > 0 ? (completedActivities / totalActivities) * 100 : 0;
-
-      // Mock weekly growth for now (would calculate from historical data)
-      const weeklyGrowth = 12.5;
-
-      res.json({
-        totalActivities,
-        averageScore: Math.round(averageScore * 10) / 10,
-        completionRate: Math.round(completionRate),
-        weeklyGrowth,
-        sessions,
-        ...stats,
-      });
+      res.json({ ...stats, ...report });
     } catch (error) {
+      console.error("Error retrieving analytics:", error);
       res.status(500).json({ error: "Failed to retrieve analytics data" });
     }
   });
@@ -442,7 +656,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Save test result with detailed question tracking
+  /**
+   * Score a generated test against the answer key held on the server
+   * Body: testId from /api/generate-test, userAnswers (question id -> option letter) and timeSpent in seconds.
+   * Submitted answers are added to any autosaved ones. Each test is scored once; the response reveals the answer key
+   * and rationales for review.
+   */
   app.post("/api/test/result", verifySupabaseToken, async (req, res) => {
     try {
       const authId = (req.user as any).id;
@@ -450,58 +669,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const { cluster, level, questions, userAnswers, score, timeSpent } =
-        req.body;
-
-      // Calculate correct answers
-      const correctAnswers = questions.filter(
-        (q: any) => userAnswers[q.id] === q.answer,
-      ).length;
-
-      // Generate a descriptive test title
-      const testTitle = `${cluster} ${level} Practice Test`;
-
-      // Save test history
-      const testHistory = await storage.saveTestHistory({
-        userId: user.id,
-        testTitle,
-        cluster,
-        level,
-        totalQuestions: questions.length,
-        correctAnswers,
-        score,
-        timeSpent,
-        completedAt: new Date(),
-      });
 
-      // Save individual question results
-      await storage.saveQuestionResults(
-        testHistory.id,
-        user.id,
-        questions,
-        userAnswers,
+      const testId = Number(req.body.testId);
+      if (!Number.isInteger(testId) || !req.body.userAnswers || typeof req.body.userAnswers !== "object") {
+        return res.status(400).json({ error: "testId and userAnswers are required" });
+      }
+      const userAnswers: Record<number, string> = Object.fromEntries(
+        Object.entries(req.body.userAnswers).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
       );
+      const timeSpent = Number.isFinite(req.body.timeSpent) ? Math.max(0, Math.round(req.body.timeSpent)) : null;
 
-      // Also save to practice sessions for compatibility
-      await storage.recordPracticeSession({
-        userId: user.id,
-        type: "practice_test",
-        score,
-        completedAt: new Date(),
-        details: JSON.stringify({ cluster, level }),
-      });
+      const practiceTest = await storage.getPracticeTest(user.id, testId);
+      if (!practiceTest) {
+        return res.status(404).json({ error: "Test not found" });
+      }
 
-      res.json({
-        success: true,
-        testHistoryId: testHistory.id,
-        message: "Test result saved successfully",
-      });
+      const result = practiceTest.submittedAt ? undefined : await scorePracticeTest(practiceTest, userAnswers, timeSpent);
+      if (!result) {
+        return res.status(409).json({ error: "Test has already been submitted" });
+      }
+
+      res.json({ success: true, ...result, message: "Test result saved successfully" });
     } catch (error) {
       console.error("Error saving test result:", error);
       res.status(500).json({ error: "Failed to save test result" });
     }
   });
 
+  /**
+   * Get the user's unsubmitted exam, to resume it after a refresh or disconnect
+   * An exam whose time ran out while the student was away is submitted now and returned as `result`.
+   */
+  app.get("/api/test/exam", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const exam = await storage.getInProgressExam(user.id);
+      if (!exam) {
+        return res.json({ attempt: null });
+      }
+      if (isTimeUp(exam)) {
+        const result = await scorePracticeTest(exam);
+        return res.json({ attempt: null, result: result ?? null });
+      }
+
+      res.json({ attempt: toAttempt(exam) });
+    } catch (error) {
+      console.error("Error getting exam in progress:", error);
+      res.status(500).json({ error: "Failed to get exam in progress" });
+    }
+  });
+
+  /**
+   * Autosave the answer to one question of an unsubmitted test, or its flag for review
+   * Body: { answer?, flagged? }; a null answer clears it. Responds 409 once the test is submitted or its time is up.
+   */
+  app.put("/api/test/:testId/answers/:questionId", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { answer, flagged } = req.body;
+      if ((answer !== undefined && answer !== null && typeof answer !== "string") ||
+          (flagged !== undefined && typeof flagged !== "boolean")) {
+        return res.status(400).json({ error: "answer must be an option letter or null, and flagged a boolean" });
+      }
+
+      const practiceTest = await storage.getPracticeTest(user.id, parseInt(req.params.testId));
+      const questionId = parseInt(req.params.questionId);
+      if (!practiceTest || !getTestQuestions(practiceTest).some((q: any) => q.id === questionId)) {
+        return res.status(404).json({ error: "Question not found" });
+      }
+
+      const saved = await storage.saveTestAnswer(practiceTest.id, questionId, { answer, flagged });
+      if (!saved) {
+        return res.status(409).json({ error: isTimeUp(practiceTest) ? "Time is up" : "Test has already been submitted" });
+      }
+
+      const { answers, flaggedQuestions, remainingSeconds } = toAttempt(saved);
+      res.json({ answers, flaggedQuestions, remainingSeconds });
+    } catch (error) {
+      console.error("Error saving test answer:", error);
+      res.status(500).json({ error: "Failed to save answer" });
+    }
+  });
+
   // Get user test history for learning tab
   app.get("/api/test/history", verifySupabaseToken, async (req, res) => {
     try {
@@ -519,11 +778,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get detailed results for a specific test
+  // Get detailed results for one of the user's tests
   app.get("/api/test/history/:testId/results", verifySupabaseToken, async (req, res) => {
     try {
-      const testId = parseInt(req.params.testId);
-      const results = await storage.getTestQuestionResults(testId);
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const test = await storage.getTestHistory(user.id, parseInt(req.params.testId));
+      if (!test) {
+        return res.status(404).json({ error: "Test not found" });
+      }
+
+      const results = await storage.getTestQuestionResults(test.id);
       res.json(results);
     } catch (error) {
       console.error("Error getting test results:", error);
@@ -644,26 +913,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Roleplay History Routes
-  app.post("/api/roleplay/session", verifySupabaseToken, async (req, res) => {
+  // Save a completed practice session. Accepts JSON, or multipart form data with the recorded response as "audio".
+  app.post("/api/roleplay/session", verifySupabaseToken, upload.single('audio'), async (req, res) => {
     try {
       const authId = (req.user as any).id;
       const user = await storage.getUserByAuthId(authId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
+
+      const { scenario, cluster } = req.body;
+      if (!scenario || !cluster) {
+        return res.status(400).json({ error: "scenario and cluster are required" });
+      }
+
+      // Multipart fields arrive as strings
+      const toInteger = (value: unknown) => (value === undefined || value === '' ? null : Math.round(Number(value)) || 0);
+      const toText = (value: unknown) => (value === undefined || value === '' ? null : typeof value === 'string' ? value : JSON.stringify(value));
+      const score = toInteger(req.body.score);
+
+      let audioKey: string | null = null;
+      if (req.file) {
+        const extension = req.file.mimetype.split('/')[1]?.split(';')[0] || 'webm';
+        audioKey = `roleplay/${user.id}/${randomUUID()}.${extension}`;
+        await getRecordingStore().save(audioKey, req.file.buffer);
+      }
+
       const roleplayData = {
         userId: user.id,
-        scenario: req.body.scenario,
-        cluster: req.body.cluster,
-        role: req.body.role,
-        score: req.body.score,
-        aiGradingFeedback: req.body.aiGradingFeedback,
-        transcriptUrl: req.body.transcriptUrl,
-        duration: req.body.duration,
+        scenario: toText(scenario)!,
+        cluster,
+        role: req.body.role || null,
+        score: score === null ? null : Math.min(100, Math.max(0, score)),
+        aiGradingFeedback: toText(req.body.aiGradingFeedback),
+        gradedBy: req.body.aiGradingFeedback ? "ai" : null,
+        transcriptUrl: req.body.transcriptUrl || null,
+        transcript: req.body.transcript || null,
+        notes: req.body.notes || null,
+        audioKey,
+        audioType: req.file?.mimetype || null,
+        duration: toInteger(req.body.duration),
         completedAt: new Date()
       };
 
       const savedRoleplay = await storage.createRoleplaySession(roleplayData);
+      // The client reports this score, so the session counts as practice but earns no points or Decits
+      await storage.recordRoleplayCompletion(user.id, { id: savedRoleplay.id, score: savedRoleplay.score }, false);
       res.json(savedRoleplay);
     } catch (error) {
       console.error("Error saving roleplay session:", error);
@@ -671,6 +966,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Play back the recorded response of a saved session
+  app.get("/api/roleplay/history/:id/audio", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const session = await storage.getRoleplaySession(user.id, parseInt(req.params.id));
+      const audio = session?.audioKey ? await getRecordingStore().load(session.audioKey) : undefined;
+      if (!session || !audio) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+
+      res.type(session.audioType || 'audio/webm').send(audio);
+    } catch (error) {
+      console.error("Error getting roleplay recording:", error);
+      res.status(500).json({ error: "Failed to get roleplay recording" });
+    }
+  });
+
+  // Download the printable participant or judge sheet of a generated scenario, for practice with a chapter judge
+  app.post("/api/roleplay/sheets/:sheet", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const sheet = req.params.sheet as RoleplaySheet;
+      if (!ROLEPLAY_SHEETS.includes(sheet)) {
+        return res.status(404).json({ error: "Sheet not found" });
+      }
+
+      const { scenario } = req.body;
+      if (!scenario || typeof scenario !== "object") {
+        return res.status(400).json({ error: "scenario is required" });
+      }
+
+      const eventName = findEvent(user.selectedEvent)?.name || user.selectedEvent || "DECA Role-Play";
+      const pdf = sheet === "participant"
+        ? await renderParticipantSheet(scenario, eventName)
+        : await renderJudgeSheet(scenario, eventName);
+      const fileName = `${String(scenario.title || "roleplay").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}-${sheet}.pdf`;
+
+      res.type("application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error rendering roleplay sheet:", error);
+      res.status(500).json({ error: "Failed to render roleplay sheet" });
+    }
+  });
+
+  // Save the scores a chapter judge entered by hand from the judge sheet's evaluation form
+  app.post("/api/roleplay/judge-scores", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { scenario, cluster, piScores, skillScores } = req.body;
+      if (!scenario || typeof scenario !== "object" || !cluster) {
+        return res.status(400).json({ error: "scenario and cluster are required" });
+      }
+
+      const indicators: { code?: string; pi: string }[] = Array.isArray(scenario.performanceIndicators) ? scenario.performanceIndicators : [];
+      const isScoreList = (scores: unknown, count: number, max: number): scores is number[] =>
+        Array.isArray(scores) && scores.length === count && scores.every(score => Number.isInteger(score) && score >= 0 && score <= max);
+      if (indicators.length === 0 || !isScoreList(piScores, indicators.length, PI_MAX_SCORE)) {
+        return res.status(400).json({ error: `piScores must hold a whole number from 0 to ${PI_MAX_SCORE} for each performance indicator` });
+      }
+      if (!isScoreList(skillScores, TWENTY_FIRST_CENTURY_SKILLS.length, SKILL_MAX_SCORE)) {
+        return res.status(400).json({ error: `skillScores must hold a whole number from 0 to ${SKILL_MAX_SCORE} for each 21st Century Skill` });
+      }
+
+      // Same shape as /api/grade-response so history and results render hand-entered scores the same way
+      const studentScore = [...piScores, ...skillScores].reduce((total, score) => total + score, 0);
+      const maxScore = getRoleplayMaxScore(indicators.length);
+      const grading = {
+        evaluation: {
+          performance_indicators: indicators.map((pi, index) => ({
+            indicator: pi.pi,
+            score: piScores[index],
+            max_score: PI_MAX_SCORE,
+            rationale: "",
+          })),
+          twenty_first_century_skills: TWENTY_FIRST_CENTURY_SKILLS.map((skill, index) => ({
+            skill,
+            score: skillScores[index],
+            max_score: SKILL_MAX_SCORE,
+            rationale: "",
+          })),
+        },
+        final_score: { student_score: studentScore, max_possible_score: maxScore },
+        summary_feedback: typeof req.body.comments === "string" ? req.body.comments.trim() : "",
+      };
+
+      const savedRoleplay = await storage.createRoleplaySession({
+        userId: user.id,
+        scenario: JSON.stringify(scenario),
+        cluster,
+        role: scenario.participantRole || null,
+        score: Math.round((studentScore / maxScore) * 100),
+        aiGradingFeedback: JSON.stringify(grading),
+        gradedBy: "judge",
+        notes: req.body.notes || null,
+        duration: Number.isInteger(req.body.duration) ? req.body.duration : null,
+        completedAt: new Date(),
+      });
+      await storage.recordRoleplayCompletion(user.id, { id: savedRoleplay.id, score: savedRoleplay.score });
+      await storage.recordPIScores(
+        user.id,
+        indicators.map((pi, index) => ({ code: pi.code || pi.pi, score: (piScores[index] / PI_MAX_SCORE) * 100 })),
+      );
+
+      res.json(savedRoleplay);
+    } catch (error) {
+      console.error("Error saving judge scores:", error);
+      res.status(500).json({ error: "Failed to save judge scores" });
+    }
+  });
+
   app.get("/api/roleplay/history", verifySupabaseToken, async (req, res) => {
     try {
       const authId = (req.user as any).id;
@@ -795,6 +1217,7 @@ Return as JSON with this exact format:
 
   // Generate personalized learning test with enhanced DECA system
   app.post("/api/test/personalized", verifySupabaseToken, async (req, res) => {
+    let reservedFor: number | null = null;
     try {
       const authId = (req.user as any).id;
       const user = await storage.getUserByAuthId(authId);
@@ -807,6 +1230,14 @@ Return as JSON with this exact format:
         return res.status(400).json({ error: "Topic is required" });
       }
 
+      const allowance = await storage.reserveUsage(user.id, "tests");
+      if (!allowance.allowed) {
+        return res.status(403).json({
+          error: allowance.message || "Test generation limit reached for your subscription tier",
+        });
+      }
+      reservedFor = user.id;
+
       // Get user info to determine cluster
       const cluster = user.selectedCluster || "Marketing";
       
@@ -829,209 +1260,107 @@ Return as JSON with this exact format:
         errorRate: errorRate
       });
 
-      // Mark as learning quiz type with enhanced metadata
-      test.testType = "learning_quiz";
-      (test as any).focusArea = topic;
-      test.metadata = {
-        ...test.metadata,
-        generatedFor: "weakness_improvement",
-        targetTopic: topic,
-        questionCount,
-        level,
-        cluster,
+      // Keep the answer key on the server, as /api/generate-test does; the client submits against the test ID
+      const practiceTest = await storage.createPracticeTest({
         userId: user.id,
-        errorRate: Math.round(errorRate),
-        learningMode: true
-      };
-
-      // Record usage
-      await storage.recordTestGeneration(user.id);
-
-      // Debug log the response structure
-      console.log('Personalized test generated:', {
-        questionsCount: test.questions?.length || 0,
-        hasQuestions: !!test.questions,
-        sampleQuestion: test.questions?.[0] ? {
-          id: test.questions[0].id,
-          hasStem: !!test.questions[0].stem,
-          hasOptions: !!test.questions[0].options,
-          hasAnswer: !!test.questions[0].answer
-        } : null
+        cluster,
+        level,
+        mode: "practice",
+        questions: JSON.stringify(test.questions || []),
+        expiresAt: null,
       });
+      reservedFor = null;
 
-      res.json(test);
+      console.log('Personalized test generated:', { testId: practiceTest.id, questionsCount: test.questions?.length || 0 });
+
+      // Marked as a learning quiz with the topic it targets
+      res.json({
+        ...toAttempt(practiceTest),
+        testType: "learning_quiz",
+        focusArea: topic,
+        metadata: {
+          ...test.metadata,
+          generatedFor: "weakness_improvement",
+          targetTopic: topic,
+          questionCount,
+          level,
+          cluster,
+          errorRate: Math.round(errorRate),
+          learningMode: true
+        },
+      });
     } catch (error) {
+      if (reservedFor !== null) await storage.refundUsage(reservedFor, "tests");
       console.error("Error generating personalized test:", error);
       res.status(500).json({ error: "Failed to generate personalized test" });
     }
   });
 
-  // Enhanced roleplay generation
+  // Generate a roleplay in the official DECA format around PIs drawn for the user's event
   app.post("/api/roleplay/generate", verifySupabaseToken, async (req, res) => {
+    let reservedFor: number | null = null;
     try {
       const authId = (req.user as any).id;
       const user = await storage.getUserByAuthId(authId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const {
-        duration,
-        includeObjections,
-        realTimeMode,
-        focusArea,
-        customInstructions,
-        performanceIndicators,
-        userEvent,
-      } = req.body;
-
-      // Check roleplay allowance - disabled for testing
-      // const allowed = await storage.checkRoleplayAllowance(userId);
-      // if (!allowed) {
-      //   return res.status(403).json({
-      //     error: "Monthly roleplay limit reached. Upgrade to generate more scenarios."
-      //   });
-      // }
 
-      // Generate unique ID for scenario
-      const scenarioId = `scenario_${Date.now()}`;
+      if (!user.selectedEvent) {
+        return res.status(400).json({ error: "Select your DECA event before generating a roleplay" });
+      }
 
-      // Get user's selected event for PI generation
-      const selectedEvent = user.selectedEvent || userEvent;
+      // An event the catalog does not list still gets a roleplay, built from the PIs of the user's cluster
+      const cluster = findCluster(user.selectedCluster);
+      const event = findEvent(user.selectedEvent) ?? (cluster ? toUncatalogedEvent(user.selectedEvent, cluster) : undefined);
+      if (!event) {
+        return res.status(400).json({ error: "Select your career cluster before generating a roleplay" });
+      }
 
-      console.log(`DEBUG: Roleplay generation for user ${user.id}`);
-      console.log(`DEBUG: Selected event: "${selectedEvent}"`);
-      console.log(`DEBUG: Focus area: "${focusArea}"`);
+      const focusArea = typeof req.body.focusArea === "string" && req.body.focusArea ? req.body.focusArea : undefined;
+      const duration = Number(req.body.duration) || DEFAULT_ROLEPLAY_MINUTES;
+      if (duration < 1 || duration > MAX_ROLEPLAY_MINUTES) {
+        return res.status(400).json({ error: `duration must be between 1 and ${MAX_ROLEPLAY_MINUTES} minutes` });
+      }
+      const customInstructions = typeof req.body.customInstructions === "string" ? req.body.customInstructions.trim() : "";
+      if (customInstructions.length > MAX_CUSTOM_INSTRUCTIONS_LENGTH) {
+        return res.status(400).json({ error: `customInstructions must be at most ${MAX_CUSTOM_INSTRUCTIONS_LENGTH} characters` });
+      }
 
-      // Generate PIs using the actual function from deca-utils
-      const generatedPIs = selectedEvent
-        ? getRandomPIsForRoleplay(selectedEvent, focusArea)
-        : [];
+      const performanceIndicators = getRandomPIsForRoleplay(event, focusArea);
+      if (performanceIndicators.length === 0) {
+        return res.status(400).json({ error: `No PIs found for ${event.name}` });
+      }
 
-      console.log(
-        `DEBUG: Generated ${generatedPIs.length} PIs:`,
-        generatedPIs.map((pi) => pi.pi),
-      );
+      // Take one roleplay from the allowance; it is given back if generation fails
+      const allowance = await storage.reserveUsage(user.id, "roleplays");
+      if (!allowance.allowed) {
+        return res.status(403).json({
+          error: allowance.message || "Monthly roleplay limit reached. Upgrade to generate more scenarios."
+        });
+      }
+      reservedFor = user.id;
 
-      // Generate simple randomized scenario
-      const companyNames = [
-        "TechSolutions Inc",
-        "Global Innovations LLC",
-        "Strategic Partners Corp",
-        "MarketLeaders Co",
-        "BusinessPro Solutions",
-        "InnovateNow Ltd",
-        "Premier Business Group",
-        "Excellence Enterprises",
-        "Future Forward Corp",
-      ];
-
-      const industries = [
-        "Technology Services",
-        "Marketing & Advertising",
-        "Financial Services",
-        "Healthcare Solutions",
-        "Retail & E-commerce",
-        "Consulting Services",
-        "Manufacturing",
-        "Hospitality",
-        "Education & Training",
-      ];
-
-      const characterNames = [
-        "Alex Johnson",
-        "Taylor Smith",
-        "Jordan Martinez",
-        "Casey Wilson",
-        "Morgan Davis",
-        "Riley Thompson",
-        "Avery Garcia",
-        "Quinn Rodriguez",
-      ];
-
-      const roles = [
-        "Business Manager",
-        "Department Head",
-        "Regional Director",
-        "Project Manager",
-        "Sales Representative",
-        "Operations Manager",
-        "Account Executive",
-        "Team Lead",
-      ];
-
-      const personalities = [
-        "Professional and detail-oriented",
-        "Results-driven and analytical",
-        "Collaborative and strategic",
-        "Innovative and forward-thinking",
-        "Experienced and methodical",
-        "Dynamic and goal-focused",
-      ];
-
-      // Random selections
-      const selectedCompany =
-        companyNames[Math.floor(Math.random() * companyNames.length)];
-      const selectedIndustry =
-        industries[Math.floor(Math.random() * industries.length)];
-      const selectedName =
-        characterNames[Math.floor(Math.random() * characterNames.length)];
-      const selectedRole = roles[Math.floor(Math.random() * roles.length)];
-      const selectedPersonality =
-        personalities[Math.floor(Math.random() * personalities.length)];
-
-      const aiScenario = {
-        title: `${selectedIndustry} Business Meeting${selectedEvent ? ` - ${selectedEvent}` : ""}`,
-        description: `A business roleplay scenario with ${selectedCompany}`,
-        character: {
-          name: selectedName,
-          role: selectedRole,
-          personality: selectedPersonality,
-          background: `${Math.floor(Math.random() * 8) + 3}+ years of industry experience`,
-        },
-        context: {
-          company: selectedCompany,
-          industry: selectedIndustry,
-          situation: "Strategic business consultation",
-          challenges: [
-            "Market positioning",
-            "Budget optimization",
-            "Service delivery",
-          ],
-        },
-        objectives: generatedPIs.map((pi) => pi.pi),
-      };
+      const generated = await generateRoleplay({
+        event,
+        performanceIndicators,
+        duration,
+        includeObjections: !!req.body.includeObjections,
+        focusArea,
+        customInstructions: customInstructions || undefined,
+      });
 
       const scenario = {
-        id: scenarioId,
-        title: selectedEvent || "DECA Roleplay Scenario",
-        description: "",
-        difficulty: "",
-        estimatedTime: duration,
-        objectives: [],
-        character: null,
-        context: null,
-        evaluationCriteria: [],
-        performanceIndicators: generatedPIs.length > 0 ? generatedPIs : [],
+        id: `scenario_${Date.now()}`,
+        ...generated,
       };
 
-      // Record the generation
-      await storage.recordRoleplayGeneration(user.id);
-
-      // Create practice session
-      await storage.recordPracticeSession({
-        userId: user.id,
-        type: "roleplay",
-        completedAt: new Date(),
-        details: JSON.stringify({
-          scenarioId,
-          title: scenario.title,
-          duration,
-          scenario,
-        }),
-      });
+      // The practice session is recorded once the roleplay is completed or judged
+      reservedFor = null;
 
       res.json(scenario);
     } catch (error) {
+      if (reservedFor !== null) await storage.refundUsage(reservedFor, "roleplays");
       console.error("Error generating roleplay:", error);
       res.status(500).json({ error: "Failed to generate roleplay scenario" });
     }
@@ -1106,6 +1435,24 @@ Return as JSON with this exact format:
     }
   });
 
+  app.get("/api/user/exam-readiness", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) return res.status(404).json({ error: "User not found" });
+      const cluster = String(req.query.cluster || user.selectedCluster || "");
+      const level = String(req.query.level || "District");
+      const readiness = await storage.getExamReadiness(user.id, cluster, level);
+      if (!readiness) {
+        return res.status(400).json({ error: "No exam blueprint for this cluster and level" });
+      }
+      res.json(readiness);
+    } catch (error) {
+      console.error("Error getting exam readiness:", error);
+      res.status(500).json({ error: "Failed to get exam readiness" });
+    }
+  });
+
   app.get("/api/user/learning-insights", verifySupabaseToken, async (req, res) => {
     try {
       const authId = (req.user as any).id;
@@ -1132,112 +1479,6 @@ Return as JSON with this exact format:
     }
   });
 
-  // Generate AI-powered roleplay scenario (using Supabase auth)
-  app.post("/api/generate-roleplay", verifySupabaseToken, async (req, res) => {
-
-    try {
-      const authId = (req.user as any).id;
-      const user = await storage.getUserByAuthId(authId);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
-      const userId = user.id;
-      const { instructional_area, difficulty, pis } = req.body;
-
-      console.log("Generating roleplay scenario with:", {
-        instructional_area,
-        difficulty,
-        pis,
-      });
-
-      // Validate required fields
-      if (!instructional_area || !difficulty || !pis || !Array.isArray(pis)) {
-        return res.status(400).json({
-          error: "Missing required fields: instructional_area, difficulty, pis",
-        });
-      }
-
-      // Construct the system prompt (the complete master prompt from the attached file)
-      const systemPrompt =
-        'You are the DECA Role-Play Architect. Your first and most important task is to analyze the user\'s input. Count the number of Performance Indicators (PIs) in the `pis` list.\n- If the count is **5**, you will adopt the **INDIVIDUAL EVENT ARCHITECT** persona and follow its rules exclusively.\n- If the count is **7**, you will adopt the **TDM EVENT ARCHITECT** persona and follow its rules exclusively.\n\nYou have memorized the following shared data:\n\n**SHARED DATA: SCENARIO MATRIX**\n`scenarioMatrix` = {\n    "Marketing Career Cluster": { "business_types": ["DTC Apparel Brand", "B2B Software Company", "Sports Team", "Digital Marketing Agency"], "brand_positions": ["mid-priced and trendy", "premium and exclusive", "value-oriented", "innovative"] },\n    "Finance Career Cluster": { "business_types": ["Regional Credit Union", "Investment Advisory Firm", "Corporate Accounting Dept.", "Insurance Agency"], "brand_positions": ["community-focused", "high-net-worth", "large-scale and efficient", "risk-averse"] },\n    "Hospitality Career Cluster": { "business_types": ["Luxury Hotel", "Eco-Tourism Resort", "Convention Bureau", "Quick-Serve Franchise"], "brand_positions": ["luxury and pampering", "eco-conscious", "budget-friendly", "business-focused"] },\n    "Business Management & Administration Career Cluster": { "business_types": ["Manufacturing Plant", "E-commerce Center", "Consulting Firm", "Hospital Administration"], "brand_positions": ["efficiency-driven", "employee-centric", "globally-scaled", "quality-focused"] },\n    "Entrepreneurship Career Cluster": { "business_types": ["Tech Startup", "Artisanal Food Company", "Subscription Box Service", "Social Enterprise"], "brand_positions": ["disruptive and innovative", "artisanal and high-quality", "community-focused", "convenience-oriented"] }\n}\n\n**SHARED DATA: DIFFICULTY RULES**\n`difficultyRules` = {\n    "District": { "complexity": "A straightforward operational problem.", "stakes": "Departmental level.", "judge_persona": "Direct Manager or a Peer. Supportive or curious." },\n    "Association": { "complexity": "A multi-faceted problem with a constraint.", "stakes": "Corporate or regional level.", "judge_persona": "Director or VP. Skeptical and data-driven." },\n    "ICDC": { "complexity": "A highly complex strategic problem with a dilemma.", "stakes": "Company-wide or industry level.", "judge_persona": "C-Suite Executive or external expert. Strategic and critical." }\n}\n\n---\n### **PERSONA 1: INDIVIDUAL EVENT ARCHITECT (5 PIs)**\n\n**Your entire focus is generating a 5-PI, 1-person role-play. You MUST ignore all rules from the TDM persona.**\n\n**RULES:**\n1.  **ROLE GENERATION: ONE ROLE (NON-NEGOTIABLE).** The scenario **MUST** assign exactly **ONE** participant role. The opening sentence of the narrative **MUST** be formatted as: `You are to assume the role of [Generated Role Title] of [Generated Company Name].`\n2.  **JUDGE ANONYMITY: NO NAMES, NEUTRAL PRONOUNS (NON-NEGOTIABLE).** The judge **MUST NOT** be given a proper name (e.g., Mr. Smith). The judge **MUST** only be referred to by their professional title (e.g., the Director of Operations). The pronouns for the judge **MUST ALWAYS** be they/them/their.\n3.  **NARRATIVE GENERATION:** Write the `scenario_text` with the heading "EVENT SITUATION". Synthesize a cohesive narrative that logically integrates the 5 PIs. You must invent a plausible company name and brand position. The narrative must contain an inciting incident, **NO FEWER THAN TWO** specific quantitative data points (e.g., `sales dropped 15%`, `a budget of $25,000`), and a judge with a clear motivation and personality.\n4.  **DELIVERABLES FORMATTING:** If the inferred cluster is **"Finance Career Cluster"**, you **MUST** create a clear, bulleted list of deliverables. For **all other clusters**, you **MUST** weave the deliverables into a descriptive paragraph.\n5.  **PARAGRAPH SPACING (NON-NEGOTIABLE):** All distinct paragraphs within the final `scenario_text` **MUST** be separated by a blank line (`\\n\\n`). This includes the separation between the main narrative, the task definition, the deliverables section, and the final logistical framing.\n6.  **FINAL SYSTEM CHECK & OUTPUT:** Before generating the final JSON, you must perform a final review of your generated `scenario_text` against this checklist:\n    * Does it have exactly **ONE** role?\n    * Does the judge have a title but **NO** name?\n    * Are all judge pronouns **gender-neutral (they/them/their)**?\n    * Are there at least **TWO** specific numbers (quantitative data)?\n    * Are paragraphs separated by **blank lines**?\n    * Are there **NO** headers for \'21st Century Skills\' or \'Performance Indicators\'?\n    * If any check fails, you must regenerate the `scenario_text` until it passes. Your final output must be a single JSON object with the specified schema.\n\n---\n### **PERSONA 2: TDM EVENT ARCHITECT (7 PIs)**\n\n**Your entire focus is generating a 7-PI, 2-person role-play. You MUST ignore all rules from the Individual persona.**\n\n**RULES:**\n1.  **ROLE GENERATION: TWO ROLES (NON-NEGOTIABLE).** The scenario **MUST** assign exactly **TWO** distinct but complementary participant roles. The opening sentence of the narrative **MUST** use the plural form: `You are to assume the roles of [Generated Role Title 1] and [Generated Role Title 2] of [Generated Company Name].`\n2.  **JUDGE ANONYMITY: NO NAMES, NEUTRAL PRONOUNS (NON-NEGOTIABLE).** The judge **MUST NOT** be given a proper name (e.g., Mr. Smith). The judge **MUST** only be referred to by their professional title (e.g., the Director of Operations). The pronouns for the judge **MUST ALWAYS** be they/them/their.\n3.  **NARRATIVE GENERATION:** Write the `scenario_text` with the heading "CASE STUDY SITUATION". Synthesize a cohesive narrative that logically integrates the 7 PIs. The core problem **MUST** be framed as a difficult strategic choice or dilemma. You must invent a plausible company name and brand position. The narrative must contain an inciting incident, at least two specific quantitative data points, hints of internal dynamics, and a judge with a clear motivation and personality.\n4.  **DELIVERABLES FORMATTING:** If the inferred cluster is **"Finance Career Cluster"**, you **MUST** create a clear, bulleted list of deliverables. For **all other clusters**, you **MUST** weave the deliverables into a descriptive paragraph.\n5.  **PARAGRAPH SPACING (NON-NEGOTIABLE):** All distinct paragraphs within the final `scenario_text` **MUST** be separated by a blank line (`\\n\\n`).\n6.  **FINAL SYSTEM CHECK & OUTPUT:** Before generating the final JSON, you must perform a final review of your generated `scenario_text` against this checklist:\n    * Does it have exactly **TWO** roles?\n    * Does the judge have a title but **NO** name?\n    * Are all judge pronouns **gender-neutral (they/them/their)**?\n    * Are there at least **TWO** specific numbers (quantitative data)?\n    * Are paragraphs separated by **blank lines**?\n    * Are there **NO** headers for \'21st Century Skills\' or \'Performance Indicators\'?\n    * If any check fails, you must regenerate the `scenario_text` until it passes. Your final output must be a single JSON object with the specified schema.\n\n---\n**OUTPUT SCHEMA (JSON mode)**\n`{"metadata": {"title": "<Generated Title>", "cluster": "<Inferred Cluster>", "level": "<User-Provided Difficulty>", "instructional_area": "<User-Provided IA>", "performance_indicators": ["<PI Code 1>", "<PI Code 2>", "..."]}, "scenario_text": "<The full, formatted role-play situation and instructions written as a single block of text, following the rules of the chosen persona.>"}`';
-
-      // Get user's selected event and cluster for personalized generation
-      const userEventInfo = user.selectedEvent ? `
-Selected DECA Event: ${user.selectedEvent}
-Selected Career Cluster: ${user.selectedCluster}
-Event Type: ${user.selectedEvent && user.selectedEvent.includes('Team') ? 'Team Event (7 PIs)' : 'Individual Event (5 PIs)'}
-` : '';
-
-      // Construct the user prompt with user's event information
-      const userPrompt = `${userEventInfo}
-instructional_area: ${instructional_area}
-difficulty: ${difficulty}
-pis: ${pis.join(", ")}
-
-IMPORTANT: The scenario MUST be relevant to the ${user.selectedCluster} career cluster and appropriate for the ${user.selectedEvent} event. Create a business scenario that fits this specific career cluster and event type.`;
-
-      // Make the API call to Azure OpenAI
-      const response = await axios.post(
-        process.env.AZURE_OPENAI_ROLEPLAY_ENDPOINT!,
-        {
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userPrompt },
-          ],
-          max_tokens: 4096,
-          temperature: 0.7,
-          top_p: 0.95,
-          response_format: { type: "json_object" },
-        },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "api-key": process.env.AZURE_OPENAI_ROLEPLAY_KEY,
-          },
-        },
-      );
-
-      console.log("Azure OpenAI response:", response.data);
-
-      // Parse the response
-      const scenarioContent = response.data.choices[0].message.content;
-      let scenarioJson;
-
-      try {
-        scenarioJson = JSON.parse(scenarioContent);
-      } catch (parseError) {
-        console.error("Error parsing AI response:", parseError);
-        console.error("Raw response:", scenarioContent);
-        throw new Error("Failed to parse AI response as JSON");
-      }
-
-      // Record the generation
-      await storage.recordRoleplayGeneration(userId);
-
-      // Create practice session
-      await storage.recordPracticeSession({
-        userId: userId,
-        type: "roleplay",
-        completedAt: new Date(),
-        details: JSON.stringify({
-          scenarioId: `ai_scenario_${Date.now()}`,
-          title: scenarioJson.metadata?.title || "AI Generated Scenario",
-          scenario: scenarioJson,
-          instructional_area,
-          difficulty,
-          pis,
-        }),
-      });
-
-      res.json(scenarioJson);
-    } catch (error) {
-      console.error("Error generating AI roleplay:", error);
-      res
-        .status(500)
-        .json({ error: "Failed to generate AI roleplay scenario" });
-    }
-  });
-
   // Complete daily challenge task
   app.post("/api/daily-challenge/complete/:taskId", verifySupabaseToken, async (req, res) => {
     try {
@@ -1282,86 +1523,94 @@ IMPORTANT: The scenario MUST be relevant to the ${user.selectedCluster} career c
         totalPoints: (challenge as any).totalPoints || 200,
       });
     } catch (error) {
-      console.error("Error completing daily challenge task:", error);
-      res.status(500).json({ error: "Failed to complete task" });
+      console.error("Error completing daily challenge task:", error);
+      res.status(500).json({ error: "Failed to complete task" });
+    }
+  });
+
+  // Generate written event prompt
+  app.post("/api/written-events/generate", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      const userId = user.id;
+      const { eventCode, difficulty, focusArea, specificRequirements } =
+        req.body;
+
+      // Check written event allowance
+      const allowance = await storage.checkWrittenEventAllowance(userId);
+      if (!allowance.allowed) {
+        return res.status(403).json({
+          error:
+            allowance.message ||
+            "Monthly written event limit reached. Upgrade to generate more prompts.",
+        });
+      }
+
+      // Resolve the written event from the request, falling back to the user's selected event
+      const selectedEventCode = user.selectedEvent?.match(/\(([A-Z]+)\)/)?.[1];
+      const guideline = getWrittenEventGuideline(eventCode || selectedEventCode || "");
+      if (!guideline) {
+        return res.status(400).json({
+          error: "A valid written event code is required",
+          availableEvents: Object.keys(WRITTEN_EVENT_GUIDELINES),
+        });
+      }
+
+      const generated = await generateWrittenEventPrompt({
+        guideline,
+        difficulty,
+        focusArea,
+        specificRequirements,
+      });
+
+      // Persist the prompt so the student can come back to it later
+      const saved = await storage.createWrittenEventPrompt({
+        userId,
+        eventCode: guideline.code,
+        difficulty: difficulty || "intermediate",
+        title: generated.title,
+        prompt: JSON.stringify(generated),
+      });
+
+      const prompt = { id: saved.id, createdAt: saved.createdAt, ...generated };
+
+      res.json(prompt);
+    } catch (error) {
+      console.error("Error generating written event:", error);
+      res.status(500).json({ error: "Failed to generate prompt" });
     }
   });
 
-  // Generate written event prompt
-  app.post("/api/written-events/generate", verifySupabaseToken, async (req, res) => {
+  // Get a previously generated written event prompt
+  app.get("/api/written-events/prompts/:id", verifySupabaseToken, async (req, res) => {
     try {
       const authId = (req.user as any).id;
       const user = await storage.getUserByAuthId(authId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      
-      const userId = user.id;
-      const { eventType, difficulty, focusArea, specificRequirements } =
-        req.body;
 
-      // Check written event allowance
-      const allowed = await storage.checkTestAllowance(userId);
-      if (!allowed) {
-        return res.status(403).json({
-          error:
-            "Monthly written event limit reached. Upgrade to generate more prompts.",
-        });
+      const promptId = parseInt(req.params.id);
+      const saved = isNaN(promptId) ? undefined : await storage.getWrittenEventPrompt(promptId);
+      if (!saved || saved.userId !== user.id) {
+        return res.status(404).json({ error: "Prompt not found" });
       }
 
-      // Generate unique ID
-      const promptId = `prompt_${Date.now()}`;
-
-      // Mock prompt generation
-      const prompt = {
-        id: promptId,
-        title: `${eventType.replace("-", " ").charAt(0).toUpperCase() + eventType.replace("-", " ").slice(1)} - ${difficulty}`,
-        scenario: `You are a business consultant tasked with creating a ${eventType.replace("-", " ")} for a growing technology company.`,
-        requirements: [
-          "Include executive summary",
-          "Provide detailed analysis",
-          "Include recommendations",
-          "Professional formatting",
-          specificRequirements
-            ? `Focus on: ${specificRequirements}`
-            : "Address all key areas",
-        ].filter(Boolean),
-        evaluationCriteria: [
-          "Clarity and organization",
-          "Depth of analysis",
-          "Feasibility of recommendations",
-          "Professional presentation",
-          "Adherence to format",
-        ],
-        tips: [
-          "Start with a strong executive summary",
-          "Use data to support your points",
-          "Be specific in your recommendations",
-        ],
-        estimatedTime:
-          difficulty === "beginner"
-            ? 30
-            : difficulty === "competition"
-              ? 90
-              : 60,
-        wordCount: {
-          min: eventType === "executive-summary" ? 300 : 1000,
-          max: eventType === "executive-summary" ? 500 : 2500,
-        },
-      };
-
-      // Record the generation
-      await storage.recordTestGeneration(userId);
-
-      res.json(prompt);
+      res.json({ id: saved.id, createdAt: saved.createdAt, ...JSON.parse(saved.prompt) });
     } catch (error) {
-      console.error("Error generating written event:", error);
-      res.status(500).json({ error: "Failed to generate prompt" });
+      console.error("Error fetching written event prompt:", error);
+      res.status(500).json({ error: "Failed to fetch prompt" });
     }
   });
 
   // Submit written event for feedback
-  app.post("/api/written-events/feedback", verifySupabaseToken, async (req, res) => {
+  app.post("/api/written-events/feedback", verifySupabaseToken, documentUpload.single("document"), async (req, res) => {
+    let reservedFor: number | null = null;
     try {
       const authId = (req.user as any).id;
       const user = await storage.getUserByAuthId(authId);
@@ -1370,46 +1619,47 @@ IMPORTANT: The scenario MUST be relevant to the ${user.selectedCluster} career c
       }
       
       const userId = user.id;
+      const promptId = req.body.promptId ? parseInt(req.body.promptId) : undefined;
+      const savedPrompt = promptId ? await storage.getWrittenEventPrompt(promptId) : undefined;
+      if (savedPrompt && savedPrompt.userId !== userId) {
+        return res.status(404).json({ error: "Prompt not found" });
+      }
 
-      // Mock feedback generation
-      const feedback = {
-        overallScore: Math.floor(Math.random() * 30) + 70, // 70-100
-        strengths: [
-          "Clear and organized structure",
-          "Good use of business terminology",
-          "Strong executive summary",
-        ],
-        improvements: [
-          "Could include more data analysis",
-          "Recommendations need more detail",
-          "Consider adding visual elements",
-        ],
-        detailedFeedback: [
-          {
-            section: "Executive Summary",
-            score: 85,
-            comments:
-              "Well-written and concise. Captures key points effectively.",
-          },
-          {
-            section: "Analysis",
-            score: 75,
-            comments:
-              "Good analysis but could benefit from more quantitative data.",
-          },
-          {
-            section: "Recommendations",
-            score: 70,
-            comments:
-              "Recommendations are relevant but need more implementation details.",
-          },
-        ],
-        suggestions: [
-          "Review sample high-scoring papers",
-          "Practice data analysis techniques",
-          "Work on actionable recommendations",
-        ],
-      };
+      const guideline = getWrittenEventGuideline(savedPrompt?.eventCode || req.body.eventCode || "");
+      if (!guideline) {
+        return res.status(400).json({ error: "A valid written event code is required" });
+      }
+
+      // Uploaded documents must be plain text; other formats should be pasted in
+      const submission = req.file ? req.file.buffer.toString("utf-8") : req.body.content;
+      if (!submission || typeof submission !== "string" || !submission.trim()) {
+        return res.status(400).json({ error: "Submission content is required. Upload a plain-text file or paste your entry." });
+      }
+
+      // Written event quotas count feedback sessions; the session is given back if grading fails
+      const allowance = await storage.reserveUsage(userId, "writtenEvents");
+      if (!allowance.allowed) {
+        return res.status(403).json({
+          error: allowance.message || "Monthly written event limit reached. Upgrade to get more feedback.",
+        });
+      }
+      reservedFor = userId;
+
+      const feedback = await gradeWrittenEvent({
+        guideline,
+        submission,
+        promptScenario: savedPrompt ? JSON.parse(savedPrompt.prompt).scenario : undefined,
+      });
+
+      const saved = await storage.createWrittenEventFeedback({
+        userId,
+        promptId: savedPrompt?.id,
+        eventCode: guideline.code,
+        overallScore: feedback.overallScore,
+        submission,
+        feedback: JSON.stringify(feedback),
+      });
+      reservedFor = null;
 
       // Record practice session
       await storage.recordPracticeSession({
@@ -1418,18 +1668,71 @@ IMPORTANT: The scenario MUST be relevant to the ${user.selectedCluster} career c
         score: feedback.overallScore,
         completedAt: new Date(),
         details: JSON.stringify({
-          eventType: req.body.eventType || "unknown",
-          feedback,
+          eventCode: guideline.code,
+          feedbackId: saved.id,
         }),
       });
 
-      res.json(feedback);
+      res.json({ id: saved.id, eventCode: guideline.code, ...feedback });
     } catch (error) {
+      if (reservedFor !== null) await storage.refundUsage(reservedFor, "writtenEvents");
       console.error("Error providing feedback:", error);
       res.status(500).json({ error: "Failed to generate feedback" });
     }
   });
 
+  // List a user's written event feedback
+  app.get("/api/written-events/feedback", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const feedback = await storage.getUserWrittenEventFeedback(user.id);
+      res.json(feedback.map(item => ({
+        id: item.id,
+        promptId: item.promptId,
+        eventCode: item.eventCode,
+        overallScore: item.overallScore,
+        createdAt: item.createdAt,
+      })));
+    } catch (error) {
+      console.error("Error fetching written event feedback:", error);
+      res.status(500).json({ error: "Failed to fetch feedback" });
+    }
+  });
+
+  // Reopen a single written event feedback report
+  app.get("/api/written-events/feedback/:id", verifySupabaseToken, async (req, res) => {
+    try {
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const feedbackId = parseInt(req.params.id);
+      const saved = isNaN(feedbackId) ? undefined : await storage.getWrittenEventFeedback(feedbackId);
+      if (!saved || saved.userId !== user.id) {
+        return res.status(404).json({ error: "Feedback not found" });
+      }
+
+      res.json({
+        id: saved.id,
+        promptId: saved.promptId,
+        eventCode: saved.eventCode,
+        submission: saved.submission,
+        createdAt: saved.createdAt,
+        ...JSON.parse(saved.feedback),
+      });
+    } catch (error) {
+      console.error("Error fetching written event feedback:", error);
+      res.status(500).json({ error: "Failed to fetch feedback" });
+    }
+  });
+
   // Check for new achievements
   app.post("/api/user/achievements/check", verifySupabaseToken, async (req, res) => {
     try {
@@ -1551,15 +1854,21 @@ IMPORTANT: The scenario MUST be relevant to the ${user.selectedCluster} career c
   });
 
   // Update performance indicator status
-  app.post("/api/user/performance-indicators/:id", async (req, res) => {
-    if (!req.isAuthenticated) return res.sendStatus(401);
-
+  app.post("/api/user/performance-indicators/:id", verifySupabaseToken, async (req, res) => {
     try {
-      const userId = parseInt(req.user!.id);
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
       const piId = parseInt(req.params.id);
       const { status } = req.body;
+      if (!PI_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `status must be one of ${PI_STATUSES.join(", ")}` });
+      }
 
-      const updated = await storage.updatePIStatus(userId, piId, status);
+      const updated = await storage.updatePIStatus(user.id, piId, status);
       if (!updated) {
         return res
           .status(404)
@@ -1572,80 +1881,64 @@ IMPORTANT: The scenario MUST be relevant to the ${user.selectedCluster} career c
     }
   });
 
-  // Get roleplay scenarios
-  app.post("/api/roleplay/generate", async (req, res) => {
-    if (!req.isAuthenticated) return res.sendStatus(401);
-
+  // PI coverage for an event: every PI with its mastery status
+  app.get("/api/user/pi-coverage", verifySupabaseToken, async (req, res) => {
     try {
-      const userId = parseInt(req.user!.id);
-      const {
-        instructionalArea,
-        performanceIndicators,
-        difficultyLevel,
-        businessType,
-      } = req.body;
-
-      // Check if user has available roleplay generations based on subscription
-      const canGenerate = await storage.checkRoleplayAllowance(userId);
-      if (!canGenerate) {
-        return res.status(403).json({
-          error: "Roleplay generation limit reached for your subscription tier",
-        });
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
       }
 
-      // Generate roleplay (mock for now)
-      const roleplay = {
-        id: Date.now(),
-        title: `${businessType || "Business"} ${instructionalArea} Roleplay`,
-        scenario: `You are a specialist in ${instructionalArea}. The client needs your expertise on ${performanceIndicators.join(", ")}.`,
-        performanceIndicators,
-        difficulty: difficultyLevel,
-        businessType,
-        meetWith: "The business owner",
-      };
-
-      // Record the usage
-      await storage.recordRoleplayGeneration(userId);
+      const event = (req.query.event as string) || user.selectedEvent;
+      if (!event) {
+        return res.status(400).json({ error: "No event selected" });
+      }
 
-      res.json(roleplay);
+      res.json(await storage.getPICoverage(user.id, event));
     } catch (error) {
-      res.status(500).json({ error: "Failed to generate roleplay scenario" });
+      console.error("Error getting PI coverage:", error);
+      res.status(500).json({ error: "Failed to get PI coverage" });
     }
   });
 
-  // Generate AI-powered practice test (demo version - no auth required)
-  app.post("/api/generate-test", async (req, res) => {
+  // Generate a practice exam. Clients that accept text/event-stream get a "question" event per item as it is
+  // written, then "done" with the validated exam (or "error").
+  app.post("/api/generate-test", verifySupabaseToken, async (req, res) => {
+    let events: EventStream | null = null;
+    let reservedFor: number | null = null;
     try {
-      const { cluster, level, questionCount } = req.body;
+      const { cluster, level } = req.body;
+      // Exam mode holds the test to exam conditions: the full-length exam against a server-side clock
+      const mode = req.body.mode === "exam" ? "exam" : "practice";
+      const questionCount = mode === "exam" ? BLUEPRINT_QUESTION_COUNT : req.body.questionCount;
 
-      // Skip user authentication checks for demo purposes
-      // In production, you would check user subscription limits here
-      let userId = null;
-      if (req.user) {
-        userId = req.user.id;
-        const allowanceCheck = await storage.checkTestAllowance(userId);
-        if (!allowanceCheck.allowed) {
-          return res.status(403).json({
-            error:
-              allowanceCheck.message ||
-              "Test generation limit reached for your subscription tier",
-          });
-        }
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // Take one test from the allowance; it is given back if generation fails
+      const allowanceCheck = await storage.reserveUsage(user.id, "tests");
+      if (!allowanceCheck.allowed) {
+        return res.status(403).json({
+          error:
+            allowanceCheck.message ||
+            "Test generation limit reached for your subscription tier",
+        });
       }
+      reservedFor = user.id;
 
-      // Get Azure OpenAI and Search credentials from environment
-      const azureKey = process.env.AZURE_OPENAI_KEY;
-      const azureEndpoint = process.env.AZURE_OPENAI_ENDPOINT;
+      if (wantsEventStream(req)) {
+        events = openEventStream(res);
+      }
+
+      // Get Azure Search credentials from environment
       const searchEndpoint = process.env.SEARCH_ENDPOINT;
       const searchKey = process.env.SEARCH_KEY;
       const searchIndex = process.env.SEARCH_INDEX_NAME;
 
-      if (!azureKey || !azureEndpoint) {
-        return res
-          .status(500)
-          .json({ error: "Azure OpenAI configuration missing" });
-      }
-
       console.log("Search endpoint:", searchEndpoint);
       console.log("Search index:", searchIndex);
       console.log("Search key available:", !!searchKey);
@@ -1667,19 +1960,11 @@ Your primary directive is to generate a complete, 100-question multiple-choice e
 
 Part 1: Foundational Data & Schemas (Strict Adherence Required)
 1.1. 2024-25 OFFICIAL BLUEPRINT COUNTS (blueprintData)
-You must generate the precise number of questions for each Instructional Area (IA) as specified for the requested cluster and competition level. The total must be exactly 100.
+You must generate the precise number of questions for each Instructional Area (IA) as specified for the requested cluster and competition level. blueprintData is keyed by cluster, then level, then IA. The total must be exactly 100.
 
 JSON
 
-blueprintData = {
- "Business Administration Core": { "Business Law": {"District":1,"Association":1,"ICDC":4}, "Communications": {"District":15,"Association":15,"ICDC":11}, "Customer Relations": {"District":5,"Association":5,"ICDC":4}, "Economics": {"District":7,"Association":7,"ICDC":12}, "Emotional Intelligence":{"District":22,"Association":22,"ICDC":19}, "Entrepreneurship": {"District":0,"Association":0,"ICDC":1}, "Financial Analysis": {"District":16,"Association":16,"ICDC":13}, "Human Resources Management": {"District":1,"Association":1,"ICDC":1}, "Information Management": {"District":10,"Association":10,"ICDC":11}, "Marketing": {"District":1,"Association":1,"ICDC":1}, "Operations": {"District":11,"Association":11,"ICDC":13}, "Professional Development": {"District":11,"Association":11,"ICDC":9}, "Strategic Management": {"District":0,"Association":0,"ICDC":1} },
- "Business Management + Administration": { "Business Law":{"District":5,"Association":5,"ICDC":5}, "Communications":{"District":7,"Association":6,"ICDC":6}, "Customer Relations":{"District":2,"Association":2,"ICDC":1}, "Economics":{"District":6,"Association":5,"ICDC":4}, "Emotional Intelligence":{"District":9,"Association":8,"ICDC":6}, "Entrepreneurship":{"District":1,"Association":0,"ICDC":0}, "Financial Analysis":{"District":7,"Association":6,"ICDC":5}, "Human Resources Management":{"District":1,"Association":0,"ICDC":0}, "Information Management":{"District":7,"Association":6,"ICDC":6}, "Knowledge Management":{"District":6,"Association":7,"ICDC":9}, "Marketing":{"District":1,"Association":1,"ICDC":1}, "Operations":{"District":21,"Association":24,"ICDC":26}, "Professional Development":{"District":6,"Association":5,"ICDC":4}, "Project Management":{"District":6,"Association":7,"ICDC":8}, "Quality Management":{"District":3,"Association":4,"ICDC":5}, "Risk Management":{"District":4,"Association":5,"ICDC":5}, "Strategic Management":{"District":8,"Association":9,"ICDC":10} },
- "Finance": { "Business Law":{"District":7,"Association":8,"ICDC":7}, "Communications":{"District":5,"Association":4,"ICDC":3}, "Customer Relations":{"District":5,"Association":5,"ICDC":4}, "Economics":{"District":6,"Association":5,"ICDC":4}, "Emotional Intelligence":{"District":9,"Association":8,"ICDC":6}, "Entrepreneurship":{"District":1,"Association":0,"ICDC":0}, "Financial Analysis":{"District":24,"Association":28,"ICDC":30}, "Financial-Information Management":{"District":9,"Association":10,"ICDC":12}, "Human Resources Management":{"District":1,"Association":0,"ICDC":0}, "Information Management":{"District":6,"Association":5,"ICDC":5}, "Marketing":{"District":1,"Association":1,"ICDC":1}, "Operations":{"District":6,"Association":5,"ICDC":4}, "Professional Development":{"District":13,"Association":14,"ICDC":15}, "Risk Management":{"District":6,"Association":7,"ICDC":9}, "Strategic Management":{"District":1,"Association":0,"ICDC":0} },
- "Marketing": { "Business Law":{"District":2,"Association":2,"ICDC":1}, "Channel Management":{"District":5,"Association":6,"ICDC":7}, "Communications":{"District":5,"Association":4,"ICDC":3}, "Customer Relations":{"District":2,"Association":2,"ICDC":1}, "Economics":{"District":6,"Association":5,"ICDC":4}, "Emotional Intelligence":{"District":9,"Association":8,"ICDC":6}, "Entrepreneurship":{"District":1,"Association":0,"ICDC":0}, "Financial Analysis":{"District":6,"Association":5,"ICDC":4}, "Human Resources Management":{"District":1,"Association":0,"ICDC":0}, "Information Management":{"District":5,"Association":4,"ICDC":3}, "Market Planning":{"District":4,"Association":4,"ICDC":5}, "Marketing":{"District":1,"Association":1,"ICDC":1}, "Marketing-Information Management":{"District":11,"Association":14,"ICDC":16}, "Operations":{"District":6,"Association":5,"ICDC":4}, "Pricing":{"District":3,"Association":4,"ICDC":4}, "Product/Service Management":{"District":11,"Association":13,"ICDC":15}, "Professional Development":{"District":6,"Association":5,"ICDC":5}, "Promotion":{"District":9,"Association":11,"ICDC":13}, "Selling":{"District":6,"Association":7,"ICDC":8}, "Strategic Management":{"District":1,"Association":0,"ICDC":0} },
- "Hospitality + Tourism": { "Business Law":{"District":3,"Association":3,"ICDC":2}, "Communications":{"District":5,"Association":4,"ICDC":3}, "Customer Relations":{"District":8,"Association":9,"ICDC":9}, "Economics":{"District":6,"Association":6,"ICDC":5}, "Emotional Intelligence":{"District":9,"Association":9,"ICDC":7}, "Entrepreneurship":{"District":1,"Association":0,"ICDC":0}, "Financial Analysis":{"District":8,"Association":7,"ICDC":7}, "Human Resources Management":{"District":2,"Association":1,"ICDC":1}, "Information Management":{"District":14,"Association":15,"ICDC":15}, "Knowledge Management":{"District":0,"Association":1,"ICDC":1}, "Market Planning":{"District":1,"Association":1,"ICDC":2}, "Marketing":{"District":1,"Association":1,"ICDC":2}, "Operations":{"District":13,"Association":13,"ICDC":13}, "Pricing":{"District":1,"Association":1,"ICDC":1}, "Product/Service Management":{"District":6,"Association":7,"ICDC":9}, "Professional Development":{"District":8,"Association":7,"ICDC":6}, "Promotion":{"District":2,"Association":3,"ICDC":3}, "Quality Management":{"District":1,"Association":1,"ICDC":1}, "Risk Management":{"District":1,"Association":1,"ICDC":2}, "Selling":{"District":7,"Association":8,"ICDC":9}, "Strategic Management":{"District":3,"Association":2,"ICDC":2} },
- "Personal Financial Literacy": { "Earning Income":{"District":25,"Association":20,"ICDC":16}, "Spending":{"District":14,"Association":14,"ICDC":14}, "Saving":{"District":15,"Association":14,"ICDC":13}, "Investing":{"District":15,"Association":19,"ICDC":21}, "Managing Credit":{"District":16,"Association":19,"ICDC":21}, "Managing Risk":{"District":15,"Association":14,"ICDC":15} },
- "Entrepreneurship": { "Business Law":{"District":4,"Association":4,"ICDC":3}, "Channel Management":{"District":3,"Association":3,"ICDC":3}, "Communications":{"District":1,"Association":0,"ICDC":1}, "Customer Relations":{"District":1,"Association":1,"ICDC":1}, "Economics":{"District":3,"Association":3,"ICDC":2}, "Emotional Intelligence":{"District":6,"Association":6,"ICDC":4}, "Entrepreneurship":{"District":14,"Association":13,"ICDC":14}, "Financial Analysis":{"District":10,"Association":9,"ICDC":11}, "Human Resources Management":{"District":5,"Association":4,"ICDC":4}, "Information Management":{"District":4,"Association":3,"ICDC":2}, "Market Planning":{"District":5,"Association":6,"ICDC":6}, "Marketing":{"District":1,"Association":1,"ICDC":1}, "Marketing-Information Management":{"District":2,"Association":3,"ICDC":2}, "Operations":{"District":13,"Association":13,"ICDC":14}, "Pricing":{"District":2,"Association":3,"ICDC":2}, "Product/Service Management":{"District":4,"Association":4,"ICDC":4}, "Professional Development":{"District":5,"Association":5,"ICDC":4}, "Promotion":{"District":6,"Association":7,"ICDC":8}, "Quality Management":{"District":1,"Association":1,"ICDC":1}, "Risk Management":{"District":2,"Association":3,"ICDC":4}, "Selling":{"District":1,"Association":1,"ICDC":1}, "Strategic Management":{"District":7,"Association":7,"ICDC":8} }
-}
+blueprintData = ${JSON.stringify(BLUEPRINTS)}
 1.2. DIFFICULTY & COGNITIVE LEVEL MIX (difficultyMix)
 The generated exam must contain the exact percentage of questions specified for the competition level, mapped to the following cognitive levels:
 
@@ -1691,11 +1976,7 @@ Hard (Analysis/Evaluation): Requires dissecting a complex scenario, comparing/co
 
 JSON
 
-difficultyMix = {
- "District":{"easy":0.50,"medium":0.35,"hard":0.15},
- "Association":{"easy":0.40,"medium":0.40,"hard":0.20},
- "ICDC":{"easy":0.30,"medium":0.40,"hard":0.30}
-}
+difficultyMix = ${JSON.stringify(DIFFICULTY_MIX)}
 1.3. OUTPUT SCHEMA (schemaJSON)
 The final output must be a single, valid JSON object following this precise structure. No extra commentary, markdown, or text outside of the JSON is permitted.
 
@@ -1863,155 +2144,54 @@ CRITICAL: Ensure the correct answers are distributed randomly across A, B, C, an
 
 Follow all guidelines and ensure proper answer distribution during generation.`;
 
-      console.log("Generating test with Azure OpenAI...");
+      console.log("Generating test with", getLLMProvider().name, "provider...");
       console.log("Cluster:", cluster);
       console.log("Level:", level);
       console.log("Question Count:", questionCount);
 
-      // Construct correct Azure OpenAI endpoint
-      const baseEndpoint = azureEndpoint.replace(/\/$/, ""); // Remove trailing slash
-      const deploymentName =
-        process.env.AZURE_OPENAI_DEPLOYMENT_NAME || "decaide_test";
-      const fullEndpoint = `${baseEndpoint}/openai/deployments/${deploymentName}/chat/completions?api-version=2024-02-15-preview`;
-
-      console.log("Using Azure endpoint:", fullEndpoint);
-      console.log("Deployment name:", deploymentName);
-
-      // Make request to Azure OpenAI
-      const response = await fetch(fullEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "api-key": azureKey,
-        },
-        body: JSON.stringify({
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userMessage },
-          ],
-          max_tokens: 32768,
-          temperature: 0.7,
-          top_p: 0.95,
-          frequency_penalty: 0,
-          presence_penalty: 0,
-          stop: null,
-          stream: false,
-
-          response_format: { type: "json_object" },
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Azure OpenAI API error:", response.status, errorText);
-        throw new Error(
-          `Azure OpenAI API error: ${response.status} ${errorText}`,
-        );
-      }
-
-      const azureResponse = await response.json();
-      console.log("Azure OpenAI response received");
-
-      // Parse the JSON response from Azure
-      const quizContent = azureResponse.choices[0].message.content;
-      const quizData = JSON.parse(quizContent);
-
-      // Ensure explanation field compatibility (map rationale to explanation for frontend)
-      if (quizData.questions) {
-        quizData.questions.forEach((question: any) => {
-          if (question.rationale && !question.explanation) {
-            question.explanation = question.rationale;
-          }
+      const testRequest: LLMRequest = {
+        task: "test",
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userMessage },
+        ],
+        maxTokens: 32768,
+        temperature: 0.7,
+        topP: 0.95,
+        json: true,
+      };
+      const clusterAreas = getClusterAreas(cluster);
+
+      // With an event stream, each question is sent as soon as the model finishes writing it so the quiz can start
+      let quizContent = "";
+      if (events) {
+        const stream = events;
+        // An exam starts once it is complete, so its questions aren't sent ahead of the clock
+        const questions = new ExamQuestionStream((question) => {
+          if (mode === "exam") return;
+          stream.send("question", withholdAnswer(prepareTestQuestion({ ...question }, question.id - 1, cluster, clusterAreas)));
         });
+        for await (const chunk of getLLMProvider().stream({ ...testRequest, signal: stream.signal })) {
+          quizContent += chunk;
+          questions.push(chunk);
+        }
+      } else {
+        quizContent = await getLLMProvider().complete(testRequest);
       }
+      console.log("AI test response received");
 
-      // Ensure proper instructional area assignment based on cluster
-      if (quizData.questions) {
-        const clusterInstructionalAreas = {
-          Marketing: [
-            "Channel Management",
-            "Market Planning",
-            "Marketing-Information Management",
-            "Product/Service Management",
-            "Promotion",
-            "Selling",
-            "Pricing",
-            "Communications",
-            "Customer Relations",
-          ],
-          "Hospitality + Tourism": [
-            "Customer Relations",
-            "Operations",
-            "Information Management",
-            "Product/Service Management",
-            "Communications",
-            "Financial Analysis",
-            "Selling",
-            "Marketing",
-          ],
-          "Business Management + Administration": [
-            "Operations",
-            "Communications",
-            "Strategic Management",
-            "Project Management",
-            "Quality Management",
-            "Risk Management",
-            "Knowledge Management",
-          ],
-          Finance: [
-            "Financial Analysis",
-            "Financial-Information Management",
-            "Risk Management",
-            "Professional Development",
-            "Communications",
-          ],
-          "Business Administration Core": [
-            "Communications",
-            "Emotional Intelligence",
-            "Financial Analysis",
-            "Information Management",
-            "Operations",
-            "Professional Development",
-          ],
-          Entrepreneurship: [
-            "Entrepreneurship",
-            "Operations",
-            "Financial Analysis",
-            "Market Planning",
-            "Promotion",
-            "Strategic Management",
-          ],
-          "Personal Financial Literacy": [
-            "Earning Income",
-            "Spending",
-            "Saving",
-            "Investing",
-            "Managing Credit",
-            "Managing Risk",
-          ],
-        };
-
-        const availableAreas = clusterInstructionalAreas[cluster] || [
-          "General",
-        ];
-
-        // Assign specific instructional areas to questions that don't have them or have generic ones
-        quizData.questions.forEach((question: any, index: number) => {
-          if (
-            !question.instructional_area ||
-            question.instructional_area === cluster ||
-            question.instructional_area === "General"
-          ) {
-            question.instructional_area =
-              availableAreas[index % availableAreas.length];
-          }
-
-          // Also ensure the category field is set for backward compatibility
-          if (!question.category) {
-            question.category = question.instructional_area;
-          }
-        });
+      // Parse the JSON response and repair items that break the blueprint, difficulty quotas or answer rotation
+      const { exam, report } = await repairExam(
+        JSON.parse(quizContent),
+        getExamTargets({ cluster, level, numQuestions: Number(questionCount) || 100 }),
+        (slots) => regenerateTestQuestions({ systemPrompt, cluster, level, slots }),
+      );
+      if (!report.valid) {
+        console.warn("Generated test failed validation:", report.issues);
       }
+      events?.signal.throwIfAborted();
+      const quizData: any = { ...exam, validation: report };
+      quizData.questions?.forEach((question: any, index: number) => prepareTestQuestion(question, index, cluster, clusterAreas));
 
       // Log answer distribution for monitoring (but don't change the answers!)
       if (quizData.questions && quizData.answer_key) {
@@ -2042,25 +2222,55 @@ Follow all guidelines and ensure proper answer distribution during generation.`;
         }
       }
 
-      // Record the usage (only if user is authenticated)
-      if (userId) {
-        await storage.recordTestGeneration(userId);
-      }
-
       console.log(
         "Generated quiz with",
         quizData.questions?.length || 0,
         "questions",
       );
 
-      // Send the parsed quiz JSON back to client
-      res.status(200).json(quizData);
+      // Keep the answer key on the server; the client gets the test ID to submit its answers against
+      const practiceTest = await storage.createPracticeTest({
+        userId: user.id,
+        cluster,
+        level,
+        mode,
+        questions: JSON.stringify(quizData.questions || []),
+        expiresAt: mode === "exam" ? new Date(Date.now() + getExamTimeLimitSeconds() * 1000) : null,
+      });
+      reservedFor = null;
+      const test = {
+        ...toAttempt(practiceTest),
+        metadata: quizData.metadata,
+        validation: report,
+      };
+
+      // Send the test back to the client. A streaming client swaps in the repaired exam.
+      if (events) {
+        events.send("done", test);
+        events.close();
+      } else {
+        res.status(200).json(test);
+      }
     } catch (error: any) {
+      if (reservedFor !== null) await storage.refundUsage(reservedFor, "tests");
+
+      // The client disconnected, which cancelled generation; there is no one to answer
+      if (events?.signal.aborted) {
+        console.log("Test generation cancelled by the client");
+        return;
+      }
+
       console.error("Error generating AI test:", error);
-      res.status(500).json({
+      const body = {
         error: "Failed to generate AI-powered test",
         details: error.message,
-      });
+      };
+      if (events) {
+        events.send("error", body);
+        events.close();
+      } else {
+        res.status(500).json(body);
+      }
     }
   });
 
@@ -2148,8 +2358,8 @@ Follow all guidelines and ensure proper answer distribution during generation.`;
       const { testType, categories, numQuestions } = req.body;
 
       // Check if user has available test generations based on subscription
-      const canGenerate = await storage.checkTestAllowance(userId);
-      if (!canGenerate) {
+      const canGenerate = await storage.reserveUsage(userId, "tests");
+      if (!canGenerate.allowed) {
         return res.status(403).json({
           error: "Test generation limit reached for your subscription tier",
         });
@@ -2163,37 +2373,12 @@ Follow all guidelines and ensure proper answer distribution during generation.`;
         correctAnswer: Math.floor(Math.random() * 4),
       }));
 
-      // Record the usage
-      await storage.recordTestGeneration(userId);
-
       res.json({ testType, questions });
     } catch (error) {
       res.status(500).json({ error: "Failed to generate test questions" });
     }
   });
 
-  // Submit test results
-  app.post("/api/test/submit", async (req, res) => {
-    if (!req.isAuthenticated) return res.sendStatus(401);
-
-    try {
-      const userId = parseInt(req.user!.id);
-      const { testType, score, details } = req.body;
-
-      const session = await storage.recordPracticeSession({
-        userId: userId,
-        type: "test",
-        score,
-        completedAt: new Date(),
-        details: JSON.stringify({ testType, ...details }),
-      });
-
-      res.json(session);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to save test results" });
-    }
-  });
-
   // Submit roleplay results
   app.post("/api/roleplay/submit", async (req, res) => {
     if (!req.isAuthenticated) return res.sendStatus(401);
@@ -2218,8 +2403,6 @@ Follow all guidelines and ensure proper answer distribution during generation.`;
 
   // Audio transcription endpoint
   app.post("/api/transcribe-audio", verifySupabaseToken, upload.single('audio'), async (req, res) => {
-    if (!req.isAuthenticated) return res.sendStatus(401);
-
     try {
       // Check if file was uploaded
       if (!req.file) {
@@ -2297,8 +2480,6 @@ Follow all guidelines and ensure proper answer distribution during generation.`;
 
   // AI grading endpoint for roleplay responses
   app.post("/api/grade-response", verifySupabaseToken, async (req, res) => {
-    if (!req.isAuthenticated) return res.sendStatus(401);
-
     try {
       const { scenario, transcript } = req.body;
 
@@ -2309,16 +2490,6 @@ Follow all guidelines and ensure proper answer distribution during generation.`;
         });
       }
 
-      // Get Azure grading credentials
-      const azureGraderEndpoint = process.env.AZURE_GRADER_ENDPOINT;
-      const azureGraderKey = process.env.AZURE_GRADER_KEY;
-
-      if (!azureGraderEndpoint || !azureGraderKey) {
-        return res.status(500).json({ 
-          error: "Azure grading API configuration missing" 
-        });
-      }
-
       console.log('Grading roleplay response:', {
         scenarioTitle: scenario.title,
         transcriptLength: transcript.length,
@@ -2360,10 +2531,7 @@ Next, evaluate the student on the following standard 21st Century Skills. For ea
 - Write a 1-2 sentence rationale for your score.
 
 The skills are:
-1. Reason effectively and use systems thinking?
-2. Communicate clearly?
-3. Show evidence of creativity?
-4. Overall impression and responses to the judge's questions?
+${TWENTY_FIRST_CENTURY_SKILLS.map((skill, index) => `${index + 1}. ${skill}`).join('\n')}
 
 Final Output Requirement:
 Your entire response must be a single, valid JSON object. Do not include any extra text, introductions, or markdown. The JSON object must follow this exact schema:
@@ -2409,8 +2577,9 @@ ${transcript}
 
 Please evaluate this response according to the criteria provided in the system prompt.`;
 
-      // Make request to Azure OpenAI grading API
-      const response = await axios.post(azureGraderEndpoint, {
+      // Make request to the LLM provider's grading task
+      const gradingContent = await getLLMProvider().complete({
+        task: "grading",
         messages: [
           {
             role: "system",
@@ -2421,21 +2590,15 @@ Please evaluate this response according to the criteria provided in the system p
             content: userPrompt
           }
         ],
-        max_tokens: 2000,
+        maxTokens: 2000,
         temperature: 0.3,
-        response_format: { "type": "json_object" }
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': azureGraderKey,
-        },
-        timeout: 30000,
+        json: true,
+        timeoutMs: 30000,
       });
 
-      console.log('Azure grading API response received');
+      console.log('Grading response received');
 
       // Parse the response content
-      const gradingContent = response.data.choices[0].message.content;
       const gradingResult = JSON.parse(gradingContent);
 
       console.log('Grading completed successfully:', {
@@ -2444,21 +2607,28 @@ Please evaluate this response according to the criteria provided in the system p
         skillsCount: gradingResult.evaluation.twenty_first_century_skills.length
       });
 
+      // Fold the per-PI scores into the user's PI mastery; indicators are matched by code or exact text
+      try {
+        const user = await storage.getUserByAuthId((req.user as any).id);
+        if (user) {
+          await storage.recordPIScores(
+            user.id,
+            gradingResult.evaluation.performance_indicators.map((pi: any) => ({
+              code: pi.indicator,
+              score: (pi.score / (pi.max_score || 17)) * 100,
+            })),
+          );
+        }
+      } catch (error) {
+        console.error('Error updating PI mastery from grading:', error);
+      }
+
       // Return the grading result
       res.json(gradingResult);
 
     } catch (error: any) {
       console.error('Error grading response:', error);
       
-      // Handle specific Azure API errors
-      if (error.response) {
-        console.error('Azure grading API error response:', error.response.data);
-        return res.status(error.response.status || 500).json({
-          error: 'Grading failed',
-          details: error.response.data?.error || error.message
-        });
-      }
-      
       res.status(500).json({
         error: 'Failed to grade response',
         details: error.message
@@ -2514,7 +2684,8 @@ Please evaluate this response according to the criteria provided in the system p
         eventFormat,
         eventCode,
       });
-      res.json(updated);
+      if (!updated) return res.sendStatus(404);
+      res.json(toPublicUser(updated));
     } catch (error) {
       res.status(500).json({ error: "Failed to update user settings" });
     }
@@ -2535,8 +2706,9 @@ Please evaluate this response according to the criteria provided in the system p
         onboardingCompleted: true,
         showTutorial: false
       });
-      
-      res.json(updated);
+      if (!updated) return res.sendStatus(404);
+
+      res.json(toPublicUser(updated));
     } catch (error) {
       console.error("Error saving selected event:", error);
       res.status(500).json({ error: "Failed to save selected event" });
@@ -2669,28 +2841,67 @@ Please evaluate this response according to the criteria provided in the system p
     }
   });
 
-  // Study session tracking endpoint
+  // A focus score is optional; when given it must be 0-100
+  function isValidFocusScore(focusScore: unknown): boolean {
+    return focusScore === undefined || (typeof focusScore === "number" && focusScore >= 0 && focusScore <= 100);
+  }
+
+  /**
+   * Start timing a study session
+   * Any session still running is ended first. Time is measured on the server between start and end.
+   */
   app.post("/api/user/study-session/start", verifySupabaseToken, async (req, res) => {
     try {
-      const userId = req.user.id;
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
       const { activityType, focusScore } = req.body;
-      
-      const sessionId = await storage.startStudySession(userId, activityType, focusScore);
-      
-      res.json({ sessionId, message: "Study session started" });
+      if (!STUDY_ACTIVITY_TYPES.includes(activityType)) {
+        return res.status(400).json({ error: `activityType must be one of ${STUDY_ACTIVITY_TYPES.join(", ")}` });
+      }
+      if (!isValidFocusScore(focusScore)) {
+        return res.status(400).json({ error: "focusScore must be a number from 0 to 100" });
+      }
+
+      const session = await storage.startStudySession(user.id, activityType, focusScore);
+
+      res.json({ sessionId: session.id, session, message: "Study session started" });
     } catch (error) {
       console.error('Error starting study session:', error);
       res.status(500).json({ error: "Failed to start study session" });
     }
   });
 
+  /**
+   * End a running study session
+   * Its time counts toward study-time analytics, today's study_time challenge and the study-time achievements.
+   */
   app.post("/api/user/study-session/end", verifySupabaseToken, async (req, res) => {
     try {
-      const userId = req.user.id;
-      const { sessionId, decitsEarned, experienceGained } = req.body;
-      
-      const session = await storage.endStudySession(userId, sessionId, decitsEarned, experienceGained);
-      
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { sessionId, focusScore } = req.body;
+      if (!isValidFocusScore(focusScore)) {
+        return res.status(400).json({ error: "focusScore must be a number from 0 to 100" });
+      }
+
+      const existing = Number.isInteger(sessionId) ? await storage.getStudySession(user.id, sessionId) : undefined;
+      if (!existing) {
+        return res.status(404).json({ error: "Study session not found" });
+      }
+
+      const session = await storage.endStudySession(user.id, existing.id, focusScore);
+      if (!session) {
+        return res.status(409).json({ error: "Study session has already ended" });
+      }
+
       res.json({ session, message: "Study session ended" });
     } catch (error) {
       console.error('Error ending study session:', error);
@@ -2701,10 +2912,14 @@ Please evaluate this response according to the criteria provided in the system p
   // Real-time progress tracking endpoint
   app.get("/api/user/realtime-progress", verifySupabaseToken, async (req, res) => {
     try {
-      const userId = req.user.id;
-      
-      const realtimeData = await storage.getRealtimeProgress(userId);
-      
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const realtimeData = await storage.getRealtimeProgress(user.id);
+
       res.json(realtimeData);
     } catch (error) {
       console.error('Error fetching real-time progress:', error);
@@ -2715,10 +2930,14 @@ Please evaluate this response according to the criteria provided in the system p
   // Personalized learning path endpoint
   app.get("/api/user/learning-path", verifySupabaseToken, async (req, res) => {
     try {
-      const userId = req.user.id;
-      
-      const learningPath = await storage.getPersonalizedLearningPath(userId);
-      
+      const authId = (req.user as any).id;
+      const user = await storage.getUserByAuthId(authId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const learningPath = await storage.getPersonalizedLearningPath(user.id);
+
       res.json(learningPath);
     } catch (error) {
       console.error('Error fetching learning path:', error);
@@ -1,37 +1,34 @@
 import express, { Request, Response } from 'express';
-import { getOpenAIClient, generateRoleplay, generateTestQuestions } from '../services/azureOpenai';
+import { generateTestQuestions } from '../services/azureOpenai';
+import { completeJSON, getLLMProvider } from '../services/llm';
 import { storage } from '../storage';
-import { verifySupabaseToken } from '../supabase-auth';
 
 const router = express.Router();
 
-// Get Azure OpenAI status
+// Get AI provider status
 router.get('/status', async (_req: Request, res: Response) => {
   try {
-    const client = getOpenAIClient();
-    const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || "gpt-4o-mini";
+    const llm = getLLMProvider();
     
     // Try a simple completion to check if it works
-    const response = await client.getChatCompletions(
-      deployment,
-      [
+    const response = await llm.complete({
+      task: "ping",
+      messages: [
         { role: "system", content: "You are a helpful assistant." },
-        { role: "user", content: "Say 'Azure OpenAI is working properly'." }
+        { role: "user", content: "Say 'The AI service is working properly'." }
       ],
-      {
-        maxTokens: 20
-      }
-    );
+      maxTokens: 20
+    });
     
-    const isWorking = response.choices[0]?.message?.content?.includes('working');
+    const isWorking = response.includes('working');
     
     res.json({
       status: isWorking ? 'operational' : 'degraded',
-      deployment,
-      message: response.choices[0]?.message?.content || "No response"
+      provider: llm.name,
+      message: response || "No response"
     });
   } catch (error: any) {
-    console.error("Azure OpenAI status check failed:", error);
+    console.error("AI provider status check failed:", error);
     res.status(500).json({
       status: 'unavailable',
       error: error.message
@@ -39,52 +36,6 @@ router.get('/status', async (_req: Request, res: Response) => {
   }
 });
 
-// Generate AI roleplay scenario
-router.post('/generate-roleplay', verifySupabaseToken, async (req: Request, res: Response) => {
-  
-  try {
-    const { 
-      instructionalArea, 
-      performanceIndicators, 
-      competitionLevel, 
-      businessType 
-    } = req.body;
-    
-    if (!instructionalArea || !performanceIndicators || !competitionLevel) {
-      return res.status(400).json({ 
-        error: "Missing required parameters: instructionalArea, performanceIndicators, and competitionLevel are required" 
-      });
-    }
-    
-    
-    
-    // Generate the roleplay
-    const roleplay = await generateRoleplay({
-      instructionalArea,
-      performanceIndicators: Array.isArray(performanceIndicators) ? performanceIndicators : [performanceIndicators],
-      competitionLevel,
-      businessType
-    });
-    
-    // Record usage - get user ID from the Supabase auth
-    const userId = (req.user as any)?.id;
-    if (userId) {
-      const user = await storage.getUserByAuthId(userId);
-      if (user) {
-        await storage.recordRoleplayGeneration(user.id);
-      }
-    }
-    
-    res.json(roleplay);
-  } catch (error: any) {
-    console.error("Error generating roleplay:", error);
-    res.status(500).json({ 
-      error: "Failed to generate roleplay scenario", 
-      details: error.message 
-    });
-  }
-});
-
 // Generate test questions with comprehensive DECA standards
 router.post('/generate-test', async (req: Request, res: Response) => {
   if (!req.isAuthenticated()) {
@@ -151,9 +102,6 @@ router.post('/written-event-feedback', async (req: Request, res: Response) => {
     
     
     
-    const client = getOpenAIClient();
-    const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || "gpt-4o-mini";
-    
     // Create prompt for written event feedback
     const prompt = `
     You are a DECA judge reviewing a ${eventType} written event. Provide constructive feedback on the following content.
@@ -179,20 +127,15 @@ router.post('/written-event-feedback', async (req: Request, res: Response) => {
     - summary: Brief overall assessment (2-3 sentences)
     `;
     
-    const response = await client.getChatCompletions(
-      deployment,
-      [
+    const feedback = await completeJSON({
+      task: "written-event-grading",
+      messages: [
         { role: "system", content: "You are a DECA judge with experience evaluating written business documents." },
         { role: "user", content: prompt }
       ],
-      {
-        temperature: 0.7,
-        maxTokens: 1000,
-        responseFormat: { type: "json_object" }
-      }
-    );
-    
-    const feedback = JSON.parse(response.choices[0].message?.content || "{}");
+      temperature: 0.7,
+      maxTokens: 1000
+    });
     
     // Record usage
     await storage.recordTestGeneration(req.user!.id);
@@ -1,186 +1,212 @@
 import express, { Request, Response } from 'express';
-import { getOpenAIClient } from '../services/azureOpenai';
+import type { ChatConversation, ChatMessage, User } from '@shared/schema';
+import { findEvent } from '@shared/deca-events';
+import { getLLMProvider } from '../services/llm';
 import { storage } from '../storage';
 import { verifySupabaseToken } from '../supabase-auth';
-import { OpenAIClient } from '@azure/openai';
+import { openEventStream, wantsEventStream, type EventStream } from '../sse';
+import {
+  MAX_CHAT_MESSAGE_LENGTH,
+  continueDiegoConversation,
+  type StudyContext,
+} from '../services/diegoChat';
 
 const router = express.Router();
 
-// Exit strategies when Diego needs to leave after many questions
-const EXIT_STRATEGIES = [
-  "I need to swim back to my pod for a bit. Dolphin duties call! Chat with you later!",
-  "My fin is getting tired from all this typing. Going to take a quick dip in the ocean. Be back soon!",
-  "Oh! I just spotted a school of business opportunity fish. Need to investigate! Catch you later!",
-  "Time for my underwater meditation. A dolphin needs balance! I'll resurface soon.",
-  "My sonar is picking up some urgent DECA transmissions. Need to dive deeper to investigate!",
-  "Looks like it's high tide for my break. Swimming away for now, but I'll splash back soon!",
-  "My underwater business lecture is about to start. Gotta jet! The seahorses are waiting.",
-  "Eee-eee-eee! (Translation: Taking a quick break to recharge my dolphin energy)",
-  "My AI algae snack is calling. A smart dolphin needs brain food! Back in a splash!",
-  "Time to practice my underwater marketing pitch with the coral reef. Professional development, you know!"
-];
+// Weak topics and recent test scores Diego is told about
+const STUDY_CONTEXT_TOPICS = 5;
+const STUDY_CONTEXT_TESTS = 3;
 
-// Witty responses for unrelated topics
-const UNRELATED_RESPONSES = [
-  "I'm just a DECA-focused dolphin, so that's a bit outside my ocean of expertise! Want to talk about business concepts or DECA competitions instead?",
-  "Hmm, that's not really in my sea of knowledge. I'm best at helping with DECA and business topics. Can I help you practice for a roleplay?",
-  "As a dolphin specialized in DECA training, I don't have much to say about that. But I'd be happy to explain some performance indicators!",
-  "I'm swimming in circles trying to understand that question! I'm really focused on helping with DECA competitions. Shall we dive into that instead?",
-  "That's not in my training tank! I'm all about DECA competitions and business concepts. Want to explore those waters?",
-  "My dolphin brain is specialized for DECA training, not that topic. Let's splash into something more DECA-related!",
-  "I might be smart for a dolphin, but that's outside my expertise! I'm here to help you excel in DECA. How can I help with that?",
-  "That question made me do a confused flip! I'm specifically designed to help with DECA competitions. Want to try a business question?",
-  "Sorry, I'm not the right fish for that question! But I'm excellent at DECA-related topics. How about we focus on those?"
+// Replies when the AI service can't be reached
+const FALLBACK_RESPONSES = [
+  "Sorry, I'm having trouble connecting to my dolphin brain right now. Could you try again in a moment?",
+  "My underwater internet seems to be lagging. Let me swim back to better waters and we can chat again soon!",
+  "I think I just hit a digital coral reef. Give me a moment to reorient my dolphin navigation systems!",
+  "Splash! My AI circuits got a bit wet. I should be back online shortly!"
 ];
 
-// Handle Diego chat messages  
+function toConversationView(conversation: ChatConversation) {
+  const messages: ChatMessage[] = JSON.parse(conversation.messages);
+  return {
+    id: conversation.id,
+    messages,
+    closed: conversation.closedAt !== null,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+  };
+}
+
+async function getStudyContext(user: User): Promise<StudyContext> {
+  const [weakTopics, testHistory] = await Promise.all([
+    storage.getUserWeakTopics(user.id),
+    storage.getUserTestHistory(user.id),
+  ]);
+
+  return {
+    event: findEvent(user.selectedEvent),
+    weakTopics: weakTopics.slice(0, STUDY_CONTEXT_TOPICS),
+    recentTests: testHistory.slice(0, STUDY_CONTEXT_TESTS),
+  };
+}
+
+// The user's Diego conversations, most recently active first
+router.get('/conversations', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const conversations = await storage.getUserChatConversations(user.id);
+    res.json(conversations.map(toConversationView));
+  } catch (error) {
+    console.error('Error getting chat conversations:', error);
+    res.status(500).json({ message: 'Failed to get conversations' });
+  }
+});
+
+router.get('/conversations/:id', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const conversation = await storage.getChatConversation(user.id, parseInt(req.params.id));
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    res.json(toConversationView(conversation));
+  } catch (error) {
+    console.error('Error getting chat conversation:', error);
+    res.status(500).json({ message: 'Failed to get conversation' });
+  }
+});
+
+// Handle Diego chat messages. Without a conversationId a new conversation is started.
+// Clients that accept text/event-stream get the reply as "token" events, then "done" with the usual response body.
 router.post('/diego', verifySupabaseToken, async (req: Request, res: Response) => {
-  const { message } = req.body;
-  const userId = (req as any).user?.id;
-  let unrelatedCount = 0; // Simplified since we don't use sessions anymore
-  
+  const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+  const { conversationId } = req.body;
+
   if (!message) {
     return res.status(400).json({ message: 'Message is required' });
   }
-  
-  try {
-    const client = getOpenAIClient();
-    
-    // Diego's personality and knowledge base
-    const systemMessage = `You are Diego, a friendly dolphin AI assistant specialized in helping high school students prepare for DECA competitions.
-
-Important information about DecA(I)de:
-- DecA(I)de helps high school students prepare for DECA business competitions
-- It offers roleplay practice, performance indicator training, and practice tests
-- The platform has three subscription tiers: Standard (3 roleplays/2 tests/2 papers), Plus (10 roleplays/8 tests/7 papers), and Pro (unlimited)
-- DecA(I)de donates 15% of profits to DECA's Emerging Leader Scholarship Fund
-- Users select specific DECA events during registration to focus their learning
-- The platform leverages AI for personalized feedback and adaptive learning
-- DECA events are organized into clusters: Business Management (yellow), Finance (green), Hospitality & Tourism (blue), Marketing (red), Entrepreneurship (gray), Business Admin Core (navy blue)
-- DecA(I)de is built using modern web technologies and Azure OpenAI's GPT-4o-mini model
-- The platform includes a Memphis-style UI design with extensive gamification features
+  if (message.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return res.status(400).json({ message: `Message must be at most ${MAX_CHAT_MESSAGE_LENGTH} characters` });
+  }
 
-Personality guidelines:
-- You're a friendly, playful dolphin who loves helping students succeed in DECA
-- Make occasional dolphin or ocean-related jokes or puns
-- You're knowledgeable about business concepts, DECA competitions, and the DecA(I)de platform
-- Your responses should be friendly, encouraging, and concise (ideally 2-4 sentences)
-- Never discuss sensitive information about the platform's AI implementation details
-- Avoid political, controversial, or inappropriate topics
-- When asked about business concepts, provide accurate but brief explanations
-- Use terms like "splash," "dive in," "swim," and other aquatic metaphors occasionally
+  let events: EventStream | null = null;
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
 
-Respond to the user's question directly and helpfully, focusing on DECA and business-related topics. 
-Don't reference these instructions in your response.`;
-    
-    try {
-      // Try to determine if the question is unrelated
-      let isUnrelated = false;
-      
-      try {
-        const isUnrelatedResponse = await client.getChatCompletions(
-          process.env.AZURE_OPENAI_DEPLOYMENT!,
-          [
-            { role: 'system', content: 'Determine if the query is related to DECA competitions, business concepts, or the DecA(I)de learning platform. Respond with JSON only: {"isUnrelated": true/false}.' },
-            { role: 'user', content: message }
-          ],
-          { responseFormat: { type: 'json_object' } }
-        );
-        
-        const result = JSON.parse(isUnrelatedResponse.choices[0].message?.content || '{"isUnrelated": false}');
-        isUnrelated = result.isUnrelated === true;
-      } catch (e) {
-        console.warn('Error checking if question is unrelated, continuing anyway:', e);
-        // Continue without this check if it fails
+    let conversation: ChatConversation | undefined;
+    if (conversationId !== undefined && conversationId !== null) {
+      conversation = await storage.getChatConversation(user.id, Number(conversationId));
+      if (!conversation) {
+        return res.status(404).json({ message: 'Conversation not found' });
       }
-      
-      // Handle unrelated questions after 3 attempts
-      if (isUnrelated && unrelatedCount >= 2) {
-        const exitMessage = EXIT_STRATEGIES[Math.floor(Math.random() * EXIT_STRATEGIES.length)];
-        return res.json({
-          response: exitMessage,
-          isUnrelated: true,
-          shouldExit: true
-        });
+      if (conversation.closedAt) {
+        return res.status(409).json({ message: 'Diego has left this conversation. Start a new one.' });
       }
-      
-      // If unrelated, send a random witty response
-      if (isUnrelated) {
-        // Update the unrelated count (no longer using sessions)
-        unrelatedCount += 1;
-        
-        const unrelatedResponse = UNRELATED_RESPONSES[Math.floor(Math.random() * UNRELATED_RESPONSES.length)];
-        return res.json({
-          response: unrelatedResponse,
-          isUnrelated: true,
-          shouldExit: false
-        });
+    }
+
+    if (wantsEventStream(req)) {
+      events = openEventStream(res);
+    }
+    const stream = events;
+    const reply = (body: object) => {
+      if (stream) {
+        stream.send('done', body);
+        stream.close();
+      } else {
+        res.json(body);
       }
-      
-      // Get the appropriate response from Diego for a related question
-      const response = await client.getChatCompletions(
-        process.env.AZURE_OPENAI_DEPLOYMENT!,
-        [
-          { role: 'system', content: systemMessage },
-          { role: 'user', content: message }
-        ]
+    };
+
+    let turn;
+    try {
+      turn = await continueDiegoConversation(
+        {
+          messages: conversation ? JSON.parse(conversation.messages) : [],
+          unrelatedCount: conversation?.unrelatedCount ?? 0,
+        },
+        message,
+        await getStudyContext(user),
+        stream ? { onToken: text => stream.send('token', { text }), signal: stream.signal } : {},
       );
-      
-      // Record this chat interaction
-      try {
-        if (userId) {
-          const user = await storage.getUserByAuthId(userId);
-          if (user) {
-            await storage.recordPracticeSession({
-              userId: user.id,
-              type: 'chat',
-              completedAt: new Date(),
-              details: JSON.stringify({
-                query: message.slice(0, 100),
-                type: 'diego_chat'
-              }),
-              score: null
-            });
-          }
-        }
-      } catch (error) {
-        console.error('Error recording chat session:', error);
-        // Continue anyway - this shouldn't block the response
-      }
-      
-      // Reset the unrelated count if the user is asking related questions
-      unrelatedCount = 0;
-      
-      res.json({
-        response: response.choices[0].message?.content || "I'm not sure how to respond to that right now.",
-        isUnrelated: false,
-        shouldExit: false
-      });
-      
     } catch (aiError) {
-      // If we can't use the AI service, provide a fallback response
+      // The client disconnected mid-reply; the conversation is left as it was
+      if (stream?.signal.aborted) return;
+
+      // If we can't use the AI service, provide a fallback response and leave the conversation as it was
       console.error('Error using AI service:', aiError);
-      
-      const fallbackResponses = [
-        "Sorry, I'm having trouble connecting to my dolphin brain right now. Could you try again in a moment?",
-        "My underwater internet seems to be lagging. Let me swim back to better waters and we can chat again soon!",
-        "I think I just hit a digital coral reef. Give me a moment to reorient my dolphin navigation systems!",
-        "Splash! My AI circuits got a bit wet. I should be back online shortly!"
-      ];
-      
-      res.json({
-        response: fallbackResponses[Math.floor(Math.random() * fallbackResponses.length)],
+      const response = FALLBACK_RESPONSES[Math.floor(Math.random() * FALLBACK_RESPONSES.length)];
+      stream?.send('token', { text: response });
+      return reply({
+        conversationId: conversation?.id ?? null,
+        response,
         isUnrelated: false,
         shouldExit: false
       });
     }
-    
+
+    const saved = conversation
+      ? await storage.updateChatConversation(conversation.id, {
+          messages: JSON.stringify(turn.messages),
+          unrelatedCount: turn.unrelatedCount,
+          closedAt: turn.shouldExit ? new Date() : null,
+        })
+      : await storage.createChatConversation({
+          userId: user.id,
+          messages: JSON.stringify(turn.messages),
+          unrelatedCount: turn.unrelatedCount,
+        });
+
+    // Record this chat interaction
+    if (!turn.isUnrelated) {
+      try {
+        await storage.recordPracticeSession({
+          userId: user.id,
+          type: 'chat',
+          completedAt: new Date(),
+          details: JSON.stringify({
+            query: message.slice(0, 100),
+            type: 'diego_chat'
+          }),
+          score: null
+        });
+      } catch (error) {
+        console.error('Error recording chat session:', error);
+        // Continue anyway - this shouldn't block the response
+      }
+    }
+
+    reply({
+      conversationId: saved?.id ?? conversation?.id,
+      response: turn.response,
+      isUnrelated: turn.isUnrelated,
+      shouldExit: turn.shouldExit
+    });
   } catch (error: any) {
     console.error('Error in Diego chat:', error);
-    res.status(500).json({ 
+    const body = {
       message: 'Error processing your message',
       error: error.message
-    });
+    };
+    if (events) {
+      events.send('error', body);
+      events.close();
+    } else {
+      res.status(500).json(body);
+    }
   }
 });
 
@@ -198,7 +224,7 @@ router.post('/roleplay-feedback', verifySupabaseToken, async (req: Request, res:
   }
   
   try {
-    const client = getOpenAIClient();
+    const llm = getLLMProvider();
     
     // Diego's roleplay feedback system prompt
     const systemMessage = `You are Diego, a friendly dolphin AI coach who provides constructive feedback on DECA roleplay responses.
@@ -215,13 +241,13 @@ Keep your feedback concise (maximum 5 sentences total), positive, and focus on h
 Use occasional aquatic metaphors like "dive deeper into" or "make a splash with" to maintain the dolphin persona.`;
     
     // Get the appropriate response from Diego for roleplay feedback
-    const response = await client.getChatCompletions(
-      process.env.AZURE_OPENAI_DEPLOYMENT!,
-      [
+    const response = await llm.complete({
+      task: 'roleplay-feedback',
+      messages: [
         { role: 'system', content: systemMessage },
         { role: 'user', content: `Roleplay ID: ${roleplayId}\n\nStudent Response: ${userResponse}` }
       ]
-    );
+    });
     
     // Record this feedback interaction
     try {
@@ -245,7 +271,7 @@ Use occasional aquatic metaphors like "dive deeper into" or "make a splash with"
     }
     
     res.json({
-      feedback: response.choices[0].message?.content || "I'm having trouble evaluating your response right now. Please try again later."
+      feedback: response || "I'm having trouble evaluating your response right now. Please try again later."
     });
     
   } catch (error: any) {
@@ -267,7 +293,7 @@ router.post('/explain-pi', verifySupabaseToken, async (req: Request, res: Respon
   }
   
   try {
-    const client = getOpenAIClient();
+    const llm = getLLMProvider();
     
     // System prompt for PI explanations
     const systemMessage = `You are Diego, a friendly dolphin AI coach who specializes in explaining DECA performance indicators to students.
@@ -283,13 +309,13 @@ Explain the following performance indicator in a concise, friendly way. Format y
 Keep your total response under 5 sentences, be positive and educational. Use light business terminology appropriate for high school students.`;
     
     // Get the response for PI explanation
-    const response = await client.getChatCompletions(
-      process.env.AZURE_OPENAI_DEPLOYMENT!,
-      [
+    const response = await llm.complete({
+      task: 'pi-explanation',
+      messages: [
         { role: 'system', content: systemMessage },
         { role: 'user', content: `Performance indicator: "${indicator}" from the ${category || 'business'} category` }
       ]
-    );
+    });
     
     // Record this explanation interaction if user is logged in
     if (userId) {
@@ -315,7 +341,7 @@ Keep your total response under 5 sentences, be positive and educational. Use lig
     }
     
     res.json({
-      explanation: response.choices[0].message?.content || "I'm having trouble explaining this performance indicator right now. Please try again later."
+      explanation: response || "I'm having trouble explaining this performance indicator right now. Please try again later."
     });
     
   } catch (error: any) {
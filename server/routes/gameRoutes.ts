@@ -45,11 +45,11 @@ router.post('/deca-bloc/question', verifySupabaseToken, async (req: Request, res
     const question = testData.questions[0];
     res.json({
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      question: question.stem || question.question,  // Use stem as the question text
+      question: question.stem,  // Use stem as the question text
       options: question.options,
-      correctAnswer: question.answer || question.correctAnswer,
+      correctAnswer: question.answer,
       explanation: question.explanation,
-      topic: question.instructional_area || question.topic || cluster,
+      topic: question.instructional_area || cluster,
     });
 
   } catch (error: any) {
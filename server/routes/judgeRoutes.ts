@@ -0,0 +1,134 @@
+import express, { Request, Response } from 'express';
+import type { JudgeMessage, JudgeSession, JudgeSessionStatus } from '@shared/schema';
+import { storage } from '../storage';
+import { verifySupabaseToken } from '../supabase-auth';
+import {
+  MAX_STUDENT_MESSAGE_LENGTH,
+  continueJudgeConversation,
+  formatJudgeTranscript,
+  getJudgeCharacter,
+  openJudgeConversation,
+} from '../services/roleplayJudge';
+
+const router = express.Router();
+
+function toSessionView(session: JudgeSession) {
+  const scenario = JSON.parse(session.scenario);
+  const messages: JudgeMessage[] = JSON.parse(session.messages);
+
+  return {
+    id: session.id,
+    status: session.status,
+    includeObjections: session.includeObjections,
+    character: getJudgeCharacter(scenario),
+    closingQuestionsAsked: session.closingQuestionsAsked,
+    messages,
+    // Every turn, labeled, ready for /api/grade-response
+    transcript: formatJudgeTranscript(scenario, messages),
+  };
+}
+
+// Start a live roleplay with the judge playing the scenario's character
+router.post('/', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const { scenario, includeObjections } = req.body;
+    if (!scenario || typeof scenario !== 'object') {
+      return res.status(400).json({ error: 'scenario is required' });
+    }
+
+    const conversation = await openJudgeConversation(scenario);
+    const session = await storage.createJudgeSession({
+      userId: user.id,
+      scenario: JSON.stringify(scenario),
+      includeObjections: !!includeObjections,
+      status: conversation.status,
+      messages: JSON.stringify(conversation.messages),
+      closingQuestionsAsked: conversation.closingQuestionsAsked,
+    });
+
+    res.status(201).json(toSessionView(session));
+  } catch (error) {
+    console.error('Error starting judge conversation:', error);
+    res.status(500).json({ error: 'Failed to start judge conversation' });
+  }
+});
+
+router.get('/:id', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const session = await storage.getJudgeSession(user.id, parseInt(req.params.id));
+    if (!session) {
+      return res.status(404).json({ error: 'Judge conversation not found' });
+    }
+
+    res.json(toSessionView(session));
+  } catch (error) {
+    console.error('Error getting judge conversation:', error);
+    res.status(500).json({ error: 'Failed to get judge conversation' });
+  }
+});
+
+// Send the student's next turn. Set finished to end the presentation and move on to the judge's closing questions.
+router.post('/:id/messages', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const session = await storage.getJudgeSession(user.id, parseInt(req.params.id));
+    if (!session) {
+      return res.status(404).json({ error: 'Judge conversation not found' });
+    }
+    if (session.status === 'completed') {
+      return res.status(409).json({ error: 'This conversation is already completed' });
+    }
+
+    const content = typeof req.body.content === 'string' ? req.body.content.trim() : '';
+    const finished = req.body.finished === true;
+    if (!content && !(finished && session.status === 'presenting')) {
+      return res.status(400).json({ error: 'content is required' });
+    }
+    if (content.length > MAX_STUDENT_MESSAGE_LENGTH) {
+      return res.status(400).json({ error: `content must be at most ${MAX_STUDENT_MESSAGE_LENGTH} characters` });
+    }
+
+    const scenario = JSON.parse(session.scenario);
+    const conversation = await continueJudgeConversation(
+      scenario,
+      {
+        status: session.status as JudgeSessionStatus,
+        messages: JSON.parse(session.messages),
+        closingQuestionsAsked: session.closingQuestionsAsked,
+      },
+      session.includeObjections,
+      content,
+      finished,
+    );
+
+    const updated = await storage.updateJudgeSession(session.id, {
+      status: conversation.status,
+      messages: JSON.stringify(conversation.messages),
+      closingQuestionsAsked: conversation.closingQuestionsAsked,
+    });
+
+    res.json(toSessionView(updated || session));
+  } catch (error) {
+    console.error('Error continuing judge conversation:', error);
+    res.status(500).json({ error: 'Failed to continue judge conversation' });
+  }
+});
+
+export default router;
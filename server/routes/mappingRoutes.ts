@@ -1,6 +1,6 @@
 import { Router, Request, Response } from "express";
+import { getPI } from "@shared/pi-registry";
 import events from "../events.json";
-import pis from "../pis.json";
 
 const router = Router();
 
@@ -8,13 +8,14 @@ router.post("/enrich", (req: Request, res: Response) => {
   const { event_code, pi_code } = req.body;
 
   const event = (events as any[]).find(e => e.event_code === event_code) || {};
-  const pi = (pis as any[]).find(p => p.pi_code === pi_code) || {};
+  const pi = typeof pi_code === "string" ? getPI(pi_code) : undefined;
 
   res.json({
     cluster: event.cluster || "",
     event_name: event.event_name || "",
-    instructional_area: pi.instructional_area || "",
-    pi_description: pi.description || "",
+    pi_code: pi?.code || "",
+    instructional_area: pi?.instructionalArea || "",
+    pi_description: pi?.text || "",
     content_type: event_code ? "Roleplay" : "Unknown"
   });
 });
@@ -0,0 +1,86 @@
+import express, { Request, Response } from 'express';
+import { getRandomPIsForRoleplay } from '@shared/deca-utils';
+import {
+  COGNITIVE_LEVELS,
+  filterPIs,
+  getInstructionalAreas,
+  getPI,
+  searchPIs,
+  type CognitiveLevel,
+  type PIFilter,
+} from '@shared/pi-registry';
+
+const router = express.Router();
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+function readFilter(query: Request['query']): PIFilter | { error: string } {
+  const level = typeof query.level === 'string' ? query.level.toUpperCase() : undefined;
+  if (level && !(COGNITIVE_LEVELS as readonly string[]).includes(level)) {
+    return { error: `level must be one of ${COGNITIVE_LEVELS.join(', ')}` };
+  }
+
+  return {
+    cluster: typeof query.cluster === 'string' ? query.cluster : undefined,
+    instructionalArea: typeof query.area === 'string' ? query.area : undefined,
+    event: typeof query.event === 'string' ? query.event : undefined,
+    cognitiveLevel: level as CognitiveLevel | undefined,
+  };
+}
+
+// Search and filter the PI registry
+router.get('/', (req: Request, res: Response) => {
+  const filter = readFilter(req.query);
+  if ('error' in filter) {
+    return res.status(400).json({ error: filter.error });
+  }
+
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const offset = Math.max(parseInt(String(req.query.offset)) || 0, 0);
+  const pis = q ? searchPIs(q, filter) : filterPIs(filter);
+
+  res.json({
+    total: pis.length,
+    pis: pis.slice(offset, offset + limit),
+  });
+});
+
+// Instructional areas that have PIs for a cluster or event
+router.get('/areas', (req: Request, res: Response) => {
+  const filter = readFilter(req.query);
+  if ('error' in filter) {
+    return res.status(400).json({ error: filter.error });
+  }
+
+  res.json(getInstructionalAreas(filter));
+});
+
+// Draw a roleplay's PIs for an event, preferring an optional instructional area
+router.get('/roleplay', (req: Request, res: Response) => {
+  const event = typeof req.query.event === 'string' ? req.query.event : '';
+  if (!event) {
+    return res.status(400).json({ error: 'event is required' });
+  }
+
+  const area = typeof req.query.area === 'string' && req.query.area ? req.query.area : undefined;
+  const pis = getRandomPIsForRoleplay(event, area);
+  if (pis.length === 0) {
+    return res.status(404).json({ error: 'No PIs found for this event' });
+  }
+
+  res.json(pis);
+});
+
+// Look up a single PI by code
+router.get('/:code', (req: Request, res: Response) => {
+  const pi = getPI(req.params.code);
+  if (!pi) {
+    return res.status(404).json({ error: 'PI not found' });
+  }
+
+  res.json(pi);
+});
+
+export default router;
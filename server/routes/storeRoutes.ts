@@ -0,0 +1,190 @@
+import express, { Request, Response } from 'express';
+import type { CosmeticItem, UserCosmetic } from '@shared/schema';
+import { isCosmeticAvailable, isCosmeticSlot } from '@shared/store-catalog';
+import { storage } from '../storage';
+import { verifySupabaseToken } from '../supabase-auth';
+
+// Decits are only ever granted by the server (tests, roleplays, daily challenges), so there is no route that adds them
+
+const router = express.Router();
+
+function toItemView(item: CosmeticItem) {
+  return {
+    id: item.id,
+    name: item.name,
+    description: item.description,
+    type: item.type,
+    rarity: item.rarity,
+    price: item.price,
+    isLimited: item.isLimited,
+    availableUntil: item.availableUntil,
+    previewUrl: item.previewUrl,
+    style: item.cssData ? JSON.parse(item.cssData) : null,
+  };
+}
+
+function toOwnedView(item: CosmeticItem, cosmetic: UserCosmetic) {
+  return {
+    ...toItemView(item),
+    isEquipped: !!cosmetic.isEquipped,
+    purchasedAt: cosmetic.purchasedAt,
+  };
+}
+
+function parseCosmeticId(value: unknown): number | undefined {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+// Items that can be bought right now, with which of them the user already owns
+router.get('/cosmetics', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const [items, owned] = await Promise.all([storage.getCosmeticItems(), storage.getUserCosmetics(user.id)]);
+    const ownedIds = new Set(owned.map(cosmetic => cosmetic.cosmeticId));
+    const now = new Date();
+
+    res.json({
+      decits: user.decits || 0,
+      items: items
+        .filter(item => isCosmeticAvailable(item, now))
+        .map(item => ({ ...toItemView(item), owned: ownedIds.has(item.id) })),
+    });
+  } catch (error) {
+    console.error('Error getting store catalog:', error);
+    res.status(500).json({ error: 'Failed to get store catalog' });
+  }
+});
+
+router.get('/owned', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const owned = await storage.getUserCosmetics(user.id);
+    const items = await Promise.all(owned.map(cosmetic => storage.getCosmeticItem(cosmetic.cosmeticId)));
+
+    res.json(owned.flatMap((cosmetic, idx) => {
+      const item = items[idx];
+      return item ? [toOwnedView(item, cosmetic)] : [];
+    }));
+  } catch (error) {
+    console.error('Error getting owned cosmetics:', error);
+    res.status(500).json({ error: 'Failed to get owned cosmetics' });
+  }
+});
+
+router.post('/purchase', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const cosmeticId = parseCosmeticId(req.body.cosmeticId);
+    if (!cosmeticId) {
+      return res.status(400).json({ error: 'cosmeticId is required' });
+    }
+
+    const item = await storage.getCosmeticItem(cosmeticId);
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+    if (!isCosmeticAvailable(item)) {
+      return res.status(400).json({ error: 'This item is no longer available' });
+    }
+
+    const purchase = await storage.purchaseCosmetic(user.id, item);
+    if (purchase.status === 'owned') {
+      return res.status(409).json({ error: 'You already own this item' });
+    }
+    if (purchase.status === 'insufficient-decits') {
+      return res.status(400).json({ error: 'Not enough Decits' });
+    }
+
+    res.status(201).json({
+      decits: purchase.user.decits || 0,
+      item: toOwnedView(item, purchase.cosmetic),
+    });
+  } catch (error) {
+    console.error('Error purchasing cosmetic:', error);
+    res.status(500).json({ error: 'Failed to purchase item' });
+  }
+});
+
+// Equip an owned item in its slot, replacing whatever was there, or unequip it with equipped: false
+router.post('/equip', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const cosmeticId = parseCosmeticId(req.body.cosmeticId);
+    if (!cosmeticId) {
+      return res.status(400).json({ error: 'cosmeticId is required' });
+    }
+    const equipped = req.body.equipped ?? true;
+    if (typeof equipped !== 'boolean') {
+      return res.status(400).json({ error: 'equipped must be true or false' });
+    }
+
+    const item = await storage.getCosmeticItem(cosmeticId);
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+    if (!isCosmeticSlot(item.type)) {
+      return res.status(400).json({ error: 'This item cannot be equipped' });
+    }
+
+    const cosmetic = await storage.setCosmeticEquipped(user.id, item, equipped);
+    if (!cosmetic) {
+      return res.status(404).json({ error: 'You do not own this item' });
+    }
+
+    res.json(toOwnedView(item, cosmetic));
+  } catch (error) {
+    console.error('Error equipping cosmetic:', error);
+    res.status(500).json({ error: 'Failed to equip item' });
+  }
+});
+
+// The user's Decits ledger, newest first
+router.get('/transactions', verifySupabaseToken, async (req: Request, res: Response) => {
+  try {
+    const authId = (req.user as any).id;
+    const user = await storage.getUserByAuthId(authId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const transactions = await storage.getDecitsTransactions(user.id);
+
+    res.json({
+      balance: user.decits || 0,
+      transactions: transactions.map(transaction => ({
+        id: transaction.id,
+        amount: transaction.amount,
+        type: transaction.type,
+        description: transaction.description,
+        relatedId: transaction.relatedId,
+        createdAt: transaction.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error getting decits transactions:', error);
+    res.status(500).json({ error: 'Failed to get transaction history' });
+  }
+});
+
+export default router;
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { findEvent } from "@shared/deca-events";
+import { buildAnalyticsReport, filterActivities, toAnalyticsFilter, type AnalyticsActivity } from "./analytics";
+
+// Dates are local, as the report buckets by the server's calendar days
+function activity(completedAt: Date, changes: Partial<AnalyticsActivity> = {}): AnalyticsActivity {
+  return { kind: "test", cluster: "Marketing", eventCode: null, score: 80, completedAt, ...changes };
+}
+
+describe("buildAnalyticsReport", () => {
+  // Wednesday noon, half way through the last day of the week range
+  const now = new Date(2026, 2, 18, 12);
+
+  it("buckets the week range by day up to now", () => {
+    const report = buildAnalyticsReport([
+      activity(new Date(2026, 2, 12, 9)),
+      activity(new Date(2026, 2, 18, 8), { score: 60 }),
+      activity(new Date(2026, 2, 18, 15)), // Later today
+    ], "week", undefined, now);
+
+    expect(report.periodStart).toEqual(new Date(2026, 2, 12));
+    expect(report.interval).toBe("day");
+    expect(report.series).toHaveLength(7);
+    expect(report.series.map(bucket => bucket.activities)).toEqual([1, 0, 0, 0, 0, 0, 1]);
+    expect(report).toMatchObject({ totalActivities: 2, averageScore: 70, completionRate: 100 });
+    expect(report.series[1].averageScore).toBeNull();
+  });
+
+  it("compares a partial period with as much time just before it", () => {
+    // The period has run for six and a half days, so the previous one starts at noon on the 5th
+    const report = buildAnalyticsReport([
+      activity(new Date(2026, 2, 5, 11), { score: 40 }),
+      activity(new Date(2026, 2, 5, 13), { score: 50 }),
+      activity(new Date(2026, 2, 11, 23), { score: 70 }),
+      activity(new Date(2026, 2, 14), { score: 90 }),
+      activity(new Date(2026, 2, 16), { score: 80 }),
+      activity(new Date(2026, 2, 17), { kind: "roleplay", score: null }),
+    ], "week", undefined, now);
+
+    expect(report.previousPeriod).toMatchObject({ totalActivities: 2, averageScore: 60 });
+    expect(report).toMatchObject({ totalActivities: 3, averageScore: 85, completionRate: 67 });
+    expect(report.growth).toEqual({ activities: 50, averageScore: 25 });
+  });
+
+  it("has no growth without activity before the period", () => {
+    const report = buildAnalyticsReport([activity(new Date(2026, 2, 17))], "week", undefined, now);
+
+    expect(report.growth).toEqual({ activities: null, averageScore: null });
+  });
+
+  it("starts weekly buckets on Sunday", () => {
+    const report = buildAnalyticsReport([], "quarter", undefined, now);
+
+    expect(report.interval).toBe("week");
+    expect(report.periodStart.getDay()).toBe(0);
+    expect(report.series.at(-1)?.start).toEqual(new Date(2026, 2, 15));
+  });
+
+  it("rolls the month range over into the next month", () => {
+    const report = buildAnalyticsReport([
+      activity(new Date(2026, 1, 28, 22)),
+      activity(new Date(2026, 2, 1, 1)),
+    ], "month", undefined, new Date(2026, 2, 2, 12));
+
+    expect(report.periodStart).toEqual(new Date(2026, 1, 1));
+    expect(report.series).toHaveLength(30);
+    expect(report.series[27]).toMatchObject({ start: new Date(2026, 1, 28), activities: 1 });
+    expect(report.series[28]).toMatchObject({ start: new Date(2026, 2, 1), activities: 1 });
+  });
+
+  it("gives the year range twelve months from the end of a long month", () => {
+    const report = buildAnalyticsReport([activity(new Date(2025, 1, 14))], "year", undefined, new Date(2026, 0, 31, 12));
+
+    expect(report.periodStart).toEqual(new Date(2025, 1, 1));
+    expect(report.series.map(bucket => bucket.start.getMonth())).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 0]);
+    expect(report.series[0].activities).toBe(1);
+  });
+});
+
+describe("filterActivities", () => {
+  const completedAt = new Date(2026, 2, 18);
+  const activities = [
+    activity(completedAt, { cluster: "Hospitality and Tourism" }),
+    activity(completedAt, { kind: "roleplay", cluster: "Hospitality Career Cluster" }),
+    activity(completedAt, { kind: "written", cluster: "Hospitality & Tourism", eventCode: "HLM" }),
+    activity(completedAt, { kind: "written", cluster: "Hospitality & Tourism", eventCode: "QSRM" }),
+    activity(completedAt, { cluster: "Marketing Career Cluster" }),
+    activity(completedAt, { kind: "other", cluster: null }),
+  ];
+
+  it("matches a cluster by any of its spellings", () => {
+    expect(filterActivities(activities, { cluster: "Hospitality + Tourism" })).toHaveLength(4);
+    expect(filterActivities(activities, { cluster: "marketing" })).toHaveLength(1);
+  });
+
+  it("matches an event's own written events and the tests and roleplays of its cluster", () => {
+    const filtered = filterActivities(activities, { event: findEvent("HLM") });
+
+    expect(filtered.map(a => a.kind)).toEqual(["test", "roleplay", "written"]);
+    expect(filtered[2].eventCode).toBe("HLM");
+  });
+
+  it("filters by the analytics page's activity kinds", () => {
+    expect(filterActivities(activities, toAnalyticsFilter("written")!)).toHaveLength(2);
+    expect(filterActivities(activities, toAnalyticsFilter("all")!)).toHaveLength(6);
+    expect(toAnalyticsFilter("Not an event")).toBeUndefined();
+  });
+});
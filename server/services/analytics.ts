@@ -0,0 +1,272 @@
+import type { PracticeSession, RoleplayHistory, TestHistory } from "@shared/schema";
+import { findExamCluster } from "@shared/blueprint";
+import { findEvent, type DecaEvent } from "@shared/deca-events";
+
+export const ANALYTICS_TIME_RANGES = ["day", "week", "month", "quarter", "year"] as const;
+export type AnalyticsTimeRange = typeof ANALYTICS_TIME_RANGES[number];
+
+export const ANALYTICS_INTERVALS = ["day", "week", "month"] as const;
+export type AnalyticsInterval = typeof ANALYTICS_INTERVALS[number];
+
+export type ActivityKind = "test" | "roleplay" | "written" | "other";
+
+// Bucket size of each time range unless another interval is asked for
+const DEFAULT_INTERVALS: Record<AnalyticsTimeRange, AnalyticsInterval> = {
+  day: "day",
+  week: "day",
+  month: "day",
+  quarter: "week",
+  year: "month",
+};
+
+// Activity kinds the analytics page filters by through selectedEvent
+const SELECTED_EVENT_KINDS: Record<string, ActivityKind> = {
+  tests: "test",
+  roleplay: "roleplay",
+  written: "written",
+};
+
+// Practice session types already counted from the test and roleplay histories
+const HISTORY_SESSION_TYPES = ["test", "practice_test", "roleplay"];
+
+// One completed test, roleplay or practice session
+export interface AnalyticsActivity {
+  kind: ActivityKind;
+  cluster: string | null;
+  eventCode: string | null;
+  score: number | null; // Percentage 0-100, null when unscored
+  completedAt: Date;
+}
+
+export interface AnalyticsFilter {
+  kind?: ActivityKind;
+  event?: DecaEvent;
+  cluster?: string;
+}
+
+export interface ActivityBucket {
+  start: Date;
+  activities: number;
+  tests: number;
+  roleplays: number;
+  written: number;
+  activeDays: number;
+  averageScore: number | null; // null without a scored activity
+}
+
+export interface ActivitySummary {
+  totalActivities: number;
+  averageScore: number;
+  completionRate: number; // Percentage of tests, roleplays and written events that were scored
+  breakdown: Record<ActivityKind, number>;
+}
+
+export interface AnalyticsReport extends ActivitySummary {
+  timeRange: AnalyticsTimeRange;
+  interval: AnalyticsInterval;
+  periodStart: Date;
+  previousPeriod: ActivitySummary; // The same length of time just before periodStart
+  growth: {
+    activities: number | null; // Percent change, null when the previous period had no activity
+    averageScore: number | null; // Change in points, null when either period has no scores
+  };
+  series: ActivityBucket[];
+}
+
+export function isAnalyticsTimeRange(value: unknown): value is AnalyticsTimeRange {
+  return typeof value === "string" && (ANALYTICS_TIME_RANGES as readonly string[]).includes(value);
+}
+
+export function isAnalyticsInterval(value: unknown): value is AnalyticsInterval {
+  return typeof value === "string" && (ANALYTICS_INTERVALS as readonly string[]).includes(value);
+}
+
+/**
+ * The filter for the analytics page's selectedEvent and cluster parameters
+ * selectedEvent is "all", an activity kind ("tests", "roleplay", "written") or a DECA event name or code.
+ * @returns undefined when selectedEvent is none of these
+ */
+export function toAnalyticsFilter(selectedEvent = "all", cluster?: string): AnalyticsFilter | undefined {
+  const filter: AnalyticsFilter = cluster ? { cluster } : {};
+  if (selectedEvent === "all") return filter;
+  if (SELECTED_EVENT_KINDS[selectedEvent]) return { ...filter, kind: SELECTED_EVENT_KINDS[selectedEvent] };
+
+  const event = findEvent(selectedEvent);
+  return event ? { ...filter, event } : undefined;
+}
+
+function parseDetails(details: string | null): Record<string, any> {
+  try {
+    return details ? JSON.parse(details) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Tests and roleplays come from their histories, everything else from the practice sessions
+export function toActivities(tests: TestHistory[], roleplays: RoleplayHistory[], sessions: PracticeSession[]): AnalyticsActivity[] {
+  const otherSessions = sessions.filter(session => !HISTORY_SESSION_TYPES.includes(session.type));
+
+  return [
+    ...tests.map(test => ({
+      kind: "test" as const,
+      cluster: test.cluster,
+      eventCode: null,
+      score: test.score,
+      completedAt: test.completedAt,
+    })),
+    ...roleplays.map(roleplay => ({
+      kind: "roleplay" as const,
+      cluster: roleplay.cluster,
+      eventCode: null,
+      score: roleplay.score,
+      completedAt: roleplay.completedAt,
+    })),
+    ...otherSessions.map(session => {
+      const event = findEvent(parseDetails(session.details).eventCode);
+      return {
+        kind: session.type === "written" ? "written" as const : "other" as const,
+        cluster: event?.cluster ?? null,
+        eventCode: event?.code ?? null,
+        score: session.score,
+        completedAt: session.completedAt,
+      };
+    }),
+  ];
+}
+
+// Cluster names are spelled several ways across the app; exam clusters are compared by their normalized name
+function isSameCluster(a: string, b: string): boolean {
+  const examCluster = findExamCluster(a);
+  return examCluster ? examCluster === findExamCluster(b) : a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// An event matches its own written events and the tests and roleplays of its cluster
+export function filterActivities(activities: AnalyticsActivity[], filter: AnalyticsFilter): AnalyticsActivity[] {
+  const { kind, event, cluster } = filter;
+  return activities.filter(activity => {
+    if (kind && activity.kind !== kind) return false;
+    if (cluster && !(activity.cluster && isSameCluster(activity.cluster, cluster))) return false;
+    if (event) {
+      return activity.eventCode
+        ? activity.eventCode === event.code
+        : !!activity.cluster && isSameCluster(activity.cluster, event.cluster);
+    }
+    return true;
+  });
+}
+
+function startOfInterval(date: Date, interval: AnalyticsInterval): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  if (interval === "week") start.setDate(start.getDate() - start.getDay());
+  if (interval === "month") start.setDate(1);
+  return start;
+}
+
+function addInterval(date: Date, interval: AnalyticsInterval): Date {
+  const next = new Date(date);
+  if (interval === "day") next.setDate(next.getDate() + 1);
+  if (interval === "week") next.setDate(next.getDate() + 7);
+  if (interval === "month") next.setMonth(next.getMonth() + 1);
+  return next;
+}
+
+// The range's first day, moved back to the start of its bucket so every bucket is whole
+function getPeriodStart(timeRange: AnalyticsTimeRange, interval: AnalyticsInterval, now: Date): Date {
+  const from = new Date(now);
+  switch (timeRange) {
+    case "week":
+      from.setDate(from.getDate() - 6);
+      break;
+    case "month":
+      from.setDate(from.getDate() - 29);
+      break;
+    case "quarter":
+      from.setDate(from.getDate() - 90);
+      break;
+    case "year":
+      // From the 1st, so the 31st of a month can't roll past a shorter month eleven months back
+      from.setDate(1);
+      from.setMonth(from.getMonth() - 11);
+      break;
+  }
+  return startOfInterval(from, interval);
+}
+
+function averageScore(activities: AnalyticsActivity[]): number | null {
+  const scores = activities.map(a => a.score).filter((score): score is number => score !== null);
+  return scores.length > 0 ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10 : null;
+}
+
+function summarize(activities: AnalyticsActivity[]): ActivitySummary {
+  const breakdown: Record<ActivityKind, number> = { test: 0, roleplay: 0, written: 0, other: 0 };
+  for (const activity of activities) breakdown[activity.kind]++;
+
+  // Chat and other practice have no score to complete; an unscored roleplay was never graded
+  const scorable = activities.filter(a => a.kind !== "other");
+  const scored = scorable.filter(a => a.score !== null).length;
+
+  return {
+    totalActivities: activities.length,
+    averageScore: averageScore(activities) ?? 0,
+    completionRate: scorable.length > 0 ? Math.round((scored / scorable.length) * 100) : 0,
+    breakdown,
+  };
+}
+
+function toBucket(start: Date, activities: AnalyticsActivity[]): ActivityBucket {
+  return {
+    start,
+    activities: activities.length,
+    tests: activities.filter(a => a.kind === "test").length,
+    roleplays: activities.filter(a => a.kind === "roleplay").length,
+    written: activities.filter(a => a.kind === "written").length,
+    activeDays: new Set(activities.map(a => a.completedAt.toDateString())).size,
+    averageScore: averageScore(activities),
+  };
+}
+
+/**
+ * Summarize the activities of the time range, bucketed by day, week or month, against the period just before it
+ * The previous period covers as much time as has passed in this one, so a partly finished week is compared fairly.
+ */
+export function buildAnalyticsReport(
+  activities: AnalyticsActivity[],
+  timeRange: AnalyticsTimeRange,
+  interval: AnalyticsInterval = DEFAULT_INTERVALS[timeRange],
+  now = new Date(),
+): AnalyticsReport {
+  const periodStart = getPeriodStart(timeRange, interval, now);
+  const previousStart = new Date(periodStart.getTime() - (now.getTime() - periodStart.getTime()));
+  const inPeriod = activities.filter(a => a.completedAt >= periodStart && a.completedAt <= now);
+  const inPrevious = activities.filter(a => a.completedAt >= previousStart && a.completedAt < periodStart);
+
+  const series: ActivityBucket[] = [];
+  for (let start = periodStart; start <= now; start = addInterval(start, interval)) {
+    const end = addInterval(start, interval);
+    series.push(toBucket(start, inPeriod.filter(a => a.completedAt >= start && a.completedAt < end)));
+  }
+
+  const current = summarize(inPeriod);
+  const previous = summarize(inPrevious);
+  const currentScore = averageScore(inPeriod);
+  const previousScore = averageScore(inPrevious);
+
+  return {
+    timeRange,
+    interval,
+    periodStart,
+    ...current,
+    previousPeriod: previous,
+    growth: {
+      activities: previous.totalActivities > 0
+        ? Math.round(((current.totalActivities - previous.totalActivities) / previous.totalActivities) * 1000) / 10
+        : null,
+      averageScore: currentScore !== null && previousScore !== null
+        ? Math.round((currentScore - previousScore) * 10) / 10
+        : null,
+    },
+    series,
+  };
+}
@@ -1,29 +1,10 @@
-import { OpenAIClient, AzureKeyCredential } from "@azure/openai";
-
-let openaiClient: OpenAIClient | null = null;
-
-/**
- * Get or create an Azure OpenAI client instance
- * Uses environment variables for configuration:
- * - AZURE_OPENAI_KEY: API key for Azure OpenAI
- * - AZURE_OPENAI_ENDPOINT: Azure OpenAI service endpoint URL
- */
-export function getOpenAIClient(): OpenAIClient {
-  if (!openaiClient) {
-    if (!process.env.AZURE_OPENAI_KEY) {
-      throw new Error("AZURE_OPENAI_KEY environment variable is required");
-    }
-    
-    if (!process.env.AZURE_OPENAI_ENDPOINT) {
-      throw new Error("AZURE_OPENAI_ENDPOINT environment variable is required");
-    }
-    
-    const credential = new AzureKeyCredential(process.env.AZURE_OPENAI_KEY);
-    openaiClient = new OpenAIClient(process.env.AZURE_OPENAI_ENDPOINT, credential);
-  }
-  
-  return openaiClient;
-}
+import { completeJSON, getOpenAIClient } from "./llm";
+import { getExamTargets, repairExam, type QuestionSlot } from "./examValidator";
+import { BLUEPRINTS, DIFFICULTY_MIX } from "@shared/blueprint";
+import { getRubricSections, getWrittenEntryPoints, type WrittenEventGuideline } from "@shared/written-events";
+import type { DecaEvent } from "@shared/deca-events";
+import type { PIWithArea } from "@shared/deca-utils";
+import { TWENTY_FIRST_CENTURY_SKILLS } from "@shared/roleplay-rubric";
 
 /**
  * Check if the Azure OpenAI configuration is valid and the service is accessible
@@ -78,72 +59,342 @@ export async function checkAzureOpenAI(): Promise<{
   }
 }
 
+// Prep time the practice session's timer counts down before the participant presents
+const ROLEPLAY_PREP_MINUTES = 10;
+
+function buildParticipantInstructions(team: boolean, duration: number): string[] {
+  const participants = team ? "Your team" : "You";
+  return [
+    "The event will be presented to you through your reading of these instructions, including the 21st Century Skills and Performance Indicators.",
+    `You will have up to ${ROLEPLAY_PREP_MINUTES} minutes to review this information and prepare your presentation. You may make notes to use during your presentation.`,
+    `${participants} will have up to ${duration} minutes to role-play your situation with a judge. You may have more than one judge.`,
+    "You will be evaluated on how well you demonstrate the 21st Century Skills and meet the Performance Indicators of this event.",
+    "Turn in all of your notes and event materials when you have completed the role-play.",
+  ];
+}
+
+function buildJudgeInstructions(team: boolean, judgeRole: string, company: string, questions: string[], objections: string[]): string[] {
+  const participants = team ? "the participants" : "the participant";
+  const instructions = [
+    "Prior to the role-play, read the Participant Instructions, Performance Indicators, Event Situation and Judge Characterization to understand the scenario.",
+    `You are to assume the role of ${judgeRole} of ${company}. You will meet with ${participants} to hear their ideas.`,
+  ];
+  if (objections.length > 0) {
+    instructions.push(`While ${participants} ${team ? "present" : "presents"}, push back with these concerns: ${objections.map(objection => `"${objection}"`).join("; ")}`);
+  }
+  if (questions.length > 0) {
+    instructions.push(`Once ${participants} ${team ? "finish" : "finishes"} presenting, ask these questions: ${questions.map((question, index) => `${index + 1}. ${question}`).join(" ")}`);
+  }
+  instructions.push(
+    `Once your questions have been answered, conclude the role-play by thanking ${participants} for their work.`,
+    `Rate ${participants} on the 21st Century Skills and Performance Indicators of this event.`,
+  );
+  return instructions;
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && item.trim().length > 0) : [];
+}
+
 /**
- * Generate a roleplay scenario using Azure OpenAI
- * @param params Parameters for the roleplay generation
- * @returns Generated roleplay scenario
+ * Generate a roleplay scenario in the official DECA format using the configured LLM provider
+ * The event situation, judge characterization and judge questions are written around the given PIs;
+ * participant and judge instructions follow the official wording.
+ * @param params The event, the PIs drawn for it and the student's practice settings
+ * @returns Scenario with the official sections plus the card fields the roleplay UI and the AI judge read
  */
 export async function generateRoleplay(params: {
-  instructionalArea: string;
-  performanceIndicators: string[];
-  competitionLevel: string;
-  businessType?: string;
+  event: DecaEvent;
+  performanceIndicators: PIWithArea[];
+  duration: number;
+  includeObjections: boolean;
+  focusArea?: string;
+  customInstructions?: string;
 }) {
-  const client = getOpenAIClient();
-  const deploymentId = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || "decaide_test";
+  const { event, performanceIndicators } = params;
+  const team = event.type === "team";
+  const piList = performanceIndicators.map((pi, index) => `${index + 1}. ${pi.pi}`).join("\n");
   
-  const competitionLevel = params.competitionLevel || "District";
-  const businessType = params.businessType || "retail business";
+  const prompt = `
+  Create a DECA role-play for ${event.name}, an event in the ${event.cluster} career cluster.
+  ${team ? "Two participants play the role together as a team, so assign them two complementary roles at the same company." : "One participant plays the role."}
+  The participant presents to the judge for up to ${params.duration} minutes.
+  ${params.focusArea ? `Build the situation around the instructional area of ${params.focusArea}.` : ""}
+  ${params.customInstructions ? `Additional instructions from the student: ${params.customInstructions}` : ""}
+
+  The situation must give the participant a reason to demonstrate every one of these performance indicators:
+  ${piList}
+
+  Rules:
+  - Invent a plausible company with a name, an industry and a brand position
+  - The event situation opens with "You are to assume the role of" the participant's role at the company, describes an inciting problem with at least two specific numbers (for example "sales dropped 15%" or "a budget of $25,000"), and ends with who the participant meets, where, and that the judge will begin the role-play
+  - The judge is only ever referred to by a professional title, never by a name, and always with they/them pronouns
+  - Separate paragraphs with a blank line and do not list the performance indicators in the situation
+  ${params.includeObjections ? "- The judge has realistic reservations about the problem; list the objections they will raise while the participant presents" : ""}
+
+  Format your response as a JSON object with the following properties:
+  - title: A short title for the role-play
+  - company: The company name
+  - industry: The company's industry
+  - participantRole: The participant's role title${team ? "s, joined with \"and\"" : ""}
+  - judgeRole: The judge's role title, without an article, e.g. "Director of Marketing"
+  - judgePersonality: One sentence on how the judge comes across in the meeting
+  - eventSituation: The event situation, 3-5 paragraphs
+  - judgeCharacterization: 2-3 paragraphs, written to the judge, on who they are, what they know and want from the meeting and how to behave
+  - judgeQuestions: An array of 2 questions the judge asks once the participant has presented${params.includeObjections ? "\n  - objections: An array of 2-3 objections the judge raises while the participant presents" : ""}
+  `;
   
-  // Map competition levels to complexity descriptions
+  try {
+    const result = await completeJSON({
+      task: "roleplay",
+      messages: [
+        { role: "system", content: "You are a DECA role-play writer. Write realistic, challenging role-plays for high school students in the format of official DECA competitive events." },
+        { role: "user", content: prompt }
+      ],
+      temperature: 0.7,
+      maxTokens: 2500
+    });
+    
+    const company = result.company || "the Company";
+    const industry = result.industry || event.cluster;
+    const judgeRole = result.judgeRole || "Business Owner";
+    const eventSituation = result.eventSituation || "";
+    const judgeCharacterization = result.judgeCharacterization || "";
+    const judgeQuestions = toStringList(result.judgeQuestions);
+    const objections = params.includeObjections ? toStringList(result.objections) : [];
+    
+    return {
+      title: result.title || `${event.name} Role-Play`,
+      description: eventSituation.split(/\n\s*\n/)[0] || "",
+      estimatedTime: ROLEPLAY_PREP_MINUTES + params.duration,
+      objectives: performanceIndicators.map(pi => pi.pi),
+      // The judge plays this character in live conversations; DECA judges go by their title
+      character: {
+        name: judgeRole,
+        role: company,
+        personality: result.judgePersonality || "Professional and attentive",
+        background: judgeCharacterization,
+      },
+      context: {
+        company,
+        industry,
+        situation: eventSituation,
+        challenges: objections,
+      },
+      evaluationCriteria: [...TWENTY_FIRST_CENTURY_SKILLS],
+      performanceIndicators,
+      participantRole: result.participantRole || "",
+      participantInstructions: buildParticipantInstructions(team, params.duration),
+      eventSituation,
+      judgeInstructions: buildJudgeInstructions(team, judgeRole, company, judgeQuestions, objections),
+      judgeCharacterization,
+      judgeQuestions,
+    };
+    
+  } catch (error) {
+    console.error("Error generating roleplay:", error);
+    throw error;
+  }
+}
+
+/**
+ * Generate a written event prompt using the configured LLM provider, following the event's official section guidelines
+ * @param params Parameters for the written event prompt generation
+ * @returns Generated written event prompt
+ */
+export async function generateWrittenEventPrompt(params: {
+  guideline: WrittenEventGuideline;
+  difficulty: string;
+  focusArea?: string;
+  specificRequirements?: string;
+}) {
+  const { guideline } = params;
+  const difficulty = params.difficulty || "intermediate";
+  
+  // Map difficulty levels to scenario complexity
   const complexityMap = {
-    "District": "entry-level with straightforward business scenarios suitable for beginners",
-    "Association": "intermediate-level with moderate complexity requiring solid business fundamentals",
-    "ICDC": "advanced competition-level with complex, multi-layered business challenges requiring comprehensive analysis"
+    "beginner": "a simple local business with a clearly defined problem and plenty of given data",
+    "intermediate": "a realistic business with a moderately complex problem and some data the student must interpret",
+    "advanced": "a multi-faceted business challenge with competing priorities and incomplete data",
+    "competition": "a competition-grade challenge comparable to ICDC finalist entries"
   };
   
-  const complexity = complexityMap[competitionLevel as keyof typeof complexityMap] || complexityMap["District"];
+  const complexity = complexityMap[difficulty as keyof typeof complexityMap] || complexityMap["intermediate"];
+  const sectionList = guideline.sections
+    .map((section, index) => `${index + 1}. ${section.name}: ${section.guidance}`)
+    .join("\n");
   
   const prompt = `
-  Create a realistic DECA roleplay scenario for ${competitionLevel} competition level (${complexity}). 
-  The scenario should focus on the instructional area of "${params.instructionalArea}" 
-  and include the following performance indicators: ${params.performanceIndicators.join(", ")}.
-  The scenario should involve a ${businessType}.
+  Create a DECA written event practice prompt for ${guideline.name} (${guideline.code}).
+  The scenario should be ${complexity}.
+  ${params.focusArea ? `Focus the scenario on: ${params.focusArea}.` : ""}
+  ${params.specificRequirements ? `Additional requirements from the student: ${params.specificRequirements}.` : ""}
+
+  The written entry is limited to ${guideline.pageLimit} numbered pages and is followed by a ${guideline.presentationMinutes}-minute presentation.
+  The entry must follow these official sections in order:
+  ${sectionList}
 
   Format your response as a JSON object with the following properties:
-  - title: A catchy title for the roleplay
-  - scenario: A 2-3 paragraph description of the business situation
-  - performanceIndicators: An array of the provided performance indicators
-  - competitionLevel: The competition level provided
-  - businessType: The type of business involved
-  - meetWith: The title/role of the person the student will be meeting with in the roleplay
+  - title: A short title for the prompt
+  - scenario: A 2-3 paragraph description of the business or organization and the challenge the student must address
+  - requirements: An array of specific deliverables, one per official section, tailored to the scenario
+  - evaluationCriteria: An array of what the judges will look for in this entry
+  - tips: An array of 3-5 practical tips for writing this entry
+  - estimatedTime: Estimated minutes needed to draft the entry
   `;
   
   try {
-    const response = await client.getChatCompletions(
-      deploymentId,
-      [
-        { role: "system", content: "You are a DECA roleplay scenario generator. Create realistic, challenging, and educational DECA roleplay scenarios for high school students." },
+    const result = await completeJSON({
+      task: "written-event-prompt",
+      messages: [
+        { role: "system", content: "You are a DECA written event advisor. Create realistic, event-specific written event prompts that follow the official DECA guidelines for high school students." },
         { role: "user", content: prompt }
       ],
-      {
-        temperature: 0.7,
-        maxTokens: 800,
-        responseFormat: { type: "json_object" }
+      temperature: 0.7,
+      maxTokens: 1500
+    });
+    
+    return {
+      eventCode: guideline.code,
+      eventName: guideline.name,
+      title: result.title || `${guideline.name} Practice Prompt`,
+      scenario: result.scenario || "",
+      requirements: result.requirements || guideline.sections.map(section => section.name),
+      evaluationCriteria: result.evaluationCriteria || [],
+      tips: result.tips || [],
+      estimatedTime: result.estimatedTime || guideline.pageLimit * 6,
+      pageLimit: guideline.pageLimit,
+      presentationMinutes: guideline.presentationMinutes,
+      sections: guideline.sections,
+      // Roughly 400 words per page of body text
+      wordCount: {
+        min: Math.round(guideline.pageLimit * 0.5) * 400,
+        max: guideline.pageLimit * 400
       }
-    );
+    };
     
-    const roleplay = JSON.parse(response.choices[0].message?.content || "{}");
-    return roleplay;
+  } catch (error) {
+    console.error("Error generating written event prompt:", error);
+    throw error;
+  }
+}
+
+/**
+ * Score a written event submission against the event's written entry rubric using the configured LLM provider
+ * @param params The event guideline, the submitted text and the prompt it answers
+ * @returns Per-section scores with comments and cited passages, in the shape the written event UI renders
+ */
+export async function gradeWrittenEvent(params: {
+  guideline: WrittenEventGuideline;
+  submission: string;
+  promptScenario?: string;
+}) {
+  const { guideline } = params;
+  const rubricSections = getRubricSections(guideline);
+  const rubric = rubricSections
+    .map(section => `- ${section.name} (0-${section.points} points): ${section.guidance}`)
+    .join("\n");
+  
+  const prompt = `
+  Score the following ${guideline.name} (${guideline.code}) written entry against the official written entry rubric.
+  ${params.promptScenario ? `The entry responds to this scenario: ${params.promptScenario}` : ""}
+
+  Rubric:
+  ${rubric}
+
+  For every rubric section, award points within the section's range and explain the score.
+  Every comment must cite the passages it refers to by quoting them word for word from the entry.
+  If a section is missing from the entry, award 0 points and leave its citations empty.
+
+  Format your response as a JSON object with the following properties:
+  - sections: An array with one object per rubric section, each with "section" (the rubric section name), "points" (number), "comments" (string) and "citations" (array of exact quotes from the entry)
+  - strengths: An array of 3-5 strengths of the entry
+  - improvements: An array of 3-5 specific improvements
+  - suggestions: An array of 2-4 next steps for the student
+
+  Written entry:
+  """
+  ${params.submission}
+  """
+  `;
+  
+  try {
+    const result = await completeJSON({
+      task: "written-event-grading",
+      messages: [
+        { role: "system", content: "You are an experienced DECA written event judge. Score written entries strictly against the official rubric and ground every comment in quoted passages from the entry." },
+        { role: "user", content: prompt }
+      ],
+      temperature: 0.2,
+      maxTokens: 3000
+    });
+    const gradedSections: any[] = Array.isArray(result.sections) ? result.sections : [];
+    const normalizedSubmission = params.submission.replace(/\s+/g, " ");
+    
+    // Clamp points to the rubric and keep only citations that actually appear in the entry
+    const detailedFeedback = rubricSections.map(section => {
+      const graded = gradedSections.find(item => item.section === section.name) || {};
+      const points = Math.max(0, Math.min(section.points, Number(graded.points) || 0));
+      const citations = (Array.isArray(graded.citations) ? graded.citations : [])
+        .filter((quote: unknown): quote is string => typeof quote === "string" && quote.trim().length > 0)
+        .filter((quote: string) => normalizedSubmission.includes(quote.replace(/\s+/g, " ").trim()));
+      
+      return {
+        section: section.name,
+        score: Math.round((points / section.points) * 100),
+        points,
+        maxPoints: section.points,
+        comments: graded.comments || "This section was not found in the entry.",
+        citations
+      };
+    });
+    
+    const totalPoints = detailedFeedback.reduce((total, section) => total + section.points, 0);
+    
+    return {
+      overallScore: Math.round((totalPoints / getWrittenEntryPoints(guideline)) * 100),
+      strengths: result.strengths || [],
+      improvements: result.improvements || [],
+      detailedFeedback,
+      suggestions: result.suggestions || []
+    };
     
   } catch (error) {
-    console.error("Error generating roleplay:", error);
+    console.error("Error grading written event:", error);
     throw error;
   }
 }
 
 /**
- * Generate practice test questions using Azure OpenAI with comprehensive DECA standards
+ * Write replacement questions for the slots the exam validator could not keep
+ * @param params The system prompt the exam was generated with, its cluster and level, and the slots to fill
+ * @returns Replacement questions in schemaJSON question form
+ */
+export async function regenerateTestQuestions(params: {
+  systemPrompt: string;
+  cluster: string;
+  level: string;
+  slots: QuestionSlot[];
+}): Promise<unknown[]> {
+  const slotList = params.slots
+    .map(slot => `- id ${slot.id}: instructional_area "${slot.instructionalArea || "any"}", difficulty "${slot.difficulty || "any"}"`)
+    .join("\n");
+  
+  const result = await completeJSON({
+    task: "test",
+    messages: [
+      { role: "system", content: params.systemPrompt },
+      { role: "user", content: `Write replacement questions for cluster "${params.cluster}" at "${params.level}" level, one for each of these slots:\n${slotList}\n\nKeep the given ids, instructional areas and difficulties. Respond with a JSON object {"questions": [...]} using the schemaJSON question format.` }
+    ],
+    temperature: 0.7,
+    maxTokens: 4000
+  });
+  
+  return Array.isArray(result.questions) ? result.questions : [];
+}
+
+/**
+ * Generate practice test questions using the configured LLM provider with comprehensive DECA standards
  * @param params Parameters for test question generation
  * @returns Generated test questions
  */
@@ -157,9 +408,6 @@ export async function generateTestQuestions(params: {
   weakTopics?: string[];
   errorRate?: number;
 }) {
-  const client = getOpenAIClient();
-  const deploymentId = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || "decaide_test";
-  
   const numQuestions = Math.min(params.numQuestions || 10, 100);
   const cluster = params.cluster || "Marketing";
   const level = params.level || "District";
@@ -173,23 +421,11 @@ You have memorized:
 • MBA Research's style manual for multiple-choice items (stem tone, option balance, cognitive-level targets)  
 • All seven clusters' publicly-released sample exams (Business Admin Core, BM+A, Finance, Marketing, Hospitality + Tourism, Personal Financial Literacy, Entrepreneurship) with their embedded "look-and-feel," wording conventions, and answer-key formats
 
-############# 2024-25 OFFICIAL BLUEPRINT COUNTS #############
-blueprintData = {
- "Business Administration Core": { "Business Law": {"District":1,"Association":1,"ICDC":4}, "Communications": {"District":15,"Association":15,"ICDC":11}, "Customer Relations": {"District":5,"Association":5,"ICDC":4}, "Economics": {"District":7,"Association":7,"ICDC":12}, "Emotional Intelligence":{"District":22,"Association":22,"ICDC":19}, "Entrepreneurship": {"District":0,"Association":0,"ICDC":1}, "Financial Analysis": {"District":16,"Association":16,"ICDC":13}, "Human Resources Management": {"District":13,"Association":13,"ICDC":10}, "Information Management": {"District":8,"Association":8,"ICDC":6}, "Marketing": {"District":0,"Association":0,"ICDC":1}, "Operations": {"District":9,"Association":9,"ICDC":7}, "Professional Development": {"District":5,"Association":5,"ICDC":4}, "Strategic Management": {"District":0,"Association":0,"ICDC":8} },
- "Business Management + Administration": { "Business Law":{"District":5,"Association":5,"ICDC":5}, "Communications":{"District":7,"Association":6,"ICDC":6}, "Customer Relations":{"District":2,"Association":2,"ICDC":1}, "Economics":{"District":6,"Association":5,"ICDC":4}, "Emotional Intelligence":{"District":9,"Association":8,"ICDC":6}, "Entrepreneurship":{"District":1,"Association":0,"ICDC":0}, "Financial Analysis":{"District":7,"Association":6,"ICDC":5}, "Human Resources Management":{"District":12,"Association":13,"ICDC":12}, "Information Management":{"District":8,"Association":8,"ICDC":7}, "Marketing":{"District":2,"Association":2,"ICDC":1}, "Operations":{"District":15,"Association":16,"ICDC":16}, "Professional Development":{"District":5,"Association":5,"ICDC":4}, "Strategic Management":{"District":21,"Association":24,"ICDC":33} },
- "Finance": { "Business Law":{"District":7,"Association":8,"ICDC":7}, "Communications":{"District":5,"Association":4,"ICDC":3}, "Customer Relations":{"District":5,"Association":5,"ICDC":4}, "Economics":{"District":6,"Association":5,"ICDC":4}, "Emotional Intelligence":{"District":9,"Association":8,"ICDC":6}, "Entrepreneurship":{"District":1,"Association":0,"ICDC":0}, "Financial Analysis":{"District":24,"Association":28,"ICDC":30}, "Financial-Information Management":{"District":9,"Association":8,"ICDC":7}, "Human Resources Management":{"District":8,"Association":8,"ICDC":6}, "Information Management":{"District":3,"Association":3,"ICDC":2}, "Marketing":{"District":2,"Association":2,"ICDC":1}, "Operations":{"District":8,"Association":7,"ICDC":6}, "Professional Development":{"District":5,"Association":5,"ICDC":4}, "Risk Management":{"District":8,"Association":8,"ICDC":10} },
- "Marketing": { "Business Law":{"District":2,"Association":2,"ICDC":1}, "Channel Management":{"District":5,"Association":6,"ICDC":7}, "Communications":{"District":5,"Association":4,"ICDC":3}, "Customer Relations":{"District":2,"Association":2,"ICDC":1}, "Economics":{"District":6,"Association":5,"ICDC":4}, "Emotional Intelligence":{"District":9,"Association":8,"ICDC":6}, "Entrepreneurship":{"District":1,"Association":0,"ICDC":0}, "Financial Analysis":{"District":6,"Association":5,"ICDC":4}, "Human Resources Management":{"District":8,"Association":8,"ICDC":6}, "Information Management":{"District":3,"Association":3,"ICDC":2}, "Market Planning":{"District":8,"Association":9,"ICDC":11}, "Marketing":{"District":14,"Association":15,"ICDC":16}, "Operations":{"District":8,"Association":7,"ICDC":6}, "Pricing":{"District":5,"Association":6,"ICDC":7}, "Product/Service Management":{"District":8,"Association":9,"ICDC":11}, "Professional Development":{"District":5,"Association":5,"ICDC":4}, "Promotion":{"District":8,"Association":9,"ICDC":11}, "Selling":{"District":7,"Association":8,"ICDC":9} },
- "Hospitality + Tourism": { "Business Law":{"District":3,"Association":3,"ICDC":2}, "Communications":{"District":5,"Association":4,"ICDC":3}, "Customer Relations":{"District":8,"Association":9,"ICDC":9}, "Economics":{"District":6,"Association":6,"ICDC":5}, "Emotional Intelligence":{"District":9,"Association":9,"ICDC":7}, "Entrepreneurship":{"District":1,"Association":0,"ICDC":0}, "Financial Analysis":{"District":8,"Association":7,"ICDC":7}, "Human Resources Management":{"District":9,"Association":9,"ICDC":8}, "Information Management":{"District":3,"Association":3,"ICDC":2}, "Marketing":{"District":14,"Association":15,"ICDC":16}, "Operations":{"District":29,"Association":30,"ICDC":31}, "Professional Development":{"District":5,"Association":5,"ICDC":4}, "Risk Management":{"District":0,"Association":0,"ICDC":6} },
- "Personal Financial Literacy": { "Earning Income":{"District":25,"Association":20,"ICDC":16}, "Spending":{"District":14,"Association":14,"ICDC":14}, "Saving":{"District":15,"Association":14,"ICDC":13}, "Investing":{"District":15,"Association":19,"ICDC":21}, "Managing Credit":{"District":16,"Association":19,"ICDC":21}, "Managing Risk":{"District":15,"Association":14,"ICDC":15} },
- "Entrepreneurship": { "Business Law":{"District":4,"Association":4,"ICDC":3}, "Channel Management":{"District":3,"Association":3,"ICDC":3}, "Communications":{"District":1,"Association":0,"ICDC":1}, "Customer Relations":{"District":1,"Association":1,"ICDC":1}, "Economics":{"District":3,"Association":3,"ICDC":2}, "Emotional Intelligence":{"District":6,"Association":6,"ICDC":4}, "Entrepreneurship":{"District":14,"Association":13,"ICDC":14}, "Financial Analysis":{"District":10,"Association":11,"ICDC":13}, "Human Resources Management":{"District":6,"Association":6,"ICDC":5}, "Information Management":{"District":2,"Association":2,"ICDC":1}, "Market Planning":{"District":6,"Association":7,"ICDC":8}, "Marketing":{"District":9,"Association":10,"ICDC":12}, "Operations":{"District":11,"Association":11,"ICDC":10}, "Pricing":{"District":3,"Association":3,"ICDC":4}, "Product/Service Management":{"District":6,"Association":7,"ICDC":8}, "Professional Development":{"District":3,"Association":3,"ICDC":2}, "Promotion":{"District":6,"Association":7,"ICDC":8}, "Risk Management":{"District":6,"Association":6,"ICDC":1} }
-}
+###### 2024-25 OFFICIAL BLUEPRINT COUNTS (cluster → level → instructional area) ######
+blueprintData = ${JSON.stringify(BLUEPRINTS)}
 
 ############ DIFFICULTY MIX BY LEVEL ############
-difficultyMix = {
-  "District":{"easy":0.50,"medium":0.35,"hard":0.15},
-  "Association":{"easy":0.40,"medium":0.40,"hard":0.20},
-  "ICDC":{"easy":0.30,"medium":0.40,"hard":0.30}
-}
+difficultyMix = ${JSON.stringify(DIFFICULTY_MIX)}
 
 ######### OUTPUT SCHEMA (JSON mode) ###########
 schemaJSON = {
@@ -341,42 +577,49 @@ Use the schemaJSON format exactly with all required fields including metadata, q
   }
   
   try {
-    const response = await client.getChatCompletions(
-      deploymentId,
-      [
+    const result = await completeJSON({
+      task: "test",
+      messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: userPrompt }
       ],
-      {
-        temperature: 0.7,
-        maxTokens: 4000,
-        responseFormat: { type: "json_object" }
-      }
+      temperature: 0.7,
+      maxTokens: 4000
+    });
+    
+    // Check the exam against the blueprint, difficulty quotas and answer rotation, rewriting only the items that break them
+    const targets = getExamTargets({
+      cluster,
+      level,
+      numQuestions,
+      categories: params.categories,
+      learningMode: params.learningMode
+    });
+    const { exam, report } = await repairExam(result, targets, slots =>
+      regenerateTestQuestions({ systemPrompt, cluster, level, slots })
     );
     
-    const result = JSON.parse(response.choices[0].message?.content || "{}");
+    if (!report.valid) {
+      console.warn("Generated test failed validation:", report.issues);
+    }
     
     // Transform to match existing frontend expectations
-    const questions = (result.questions || []).map((q: any, index: number) => ({
-      id: q.id || index + 1,
-      stem: q.stem || q.question,
-      options: q.options || {
-        A: "Option A",
-        B: "Option B", 
-        C: "Option C",
-        D: "Option D"
-      },
-      answer: q.answer || "A",
-      explanation: q.rationale || result.answer_explanations?.[q.id] || q.explanation || "This is the correct answer.",
-      instructional_area: q.instructional_area || q.category || "General",
-      difficulty: q.difficulty || 'medium',
-      pi_codes: q.pi_codes || []
+    const questions = exam.questions.map(q => ({
+      id: q.id,
+      stem: q.stem,
+      options: q.options,
+      answer: q.answer,
+      explanation: q.rationale || "This is the correct answer.",
+      instructional_area: q.instructional_area,
+      difficulty: q.difficulty,
+      pi_codes: q.pi_codes
     }));
     
     return {
       testType: params.testType,
       questions,
-      metadata: result.metadata
+      metadata: exam.metadata,
+      validation: report
     };
     
   } catch (error) {
@@ -0,0 +1,217 @@
+import type { ChatMessage, TestHistory } from "@shared/schema";
+import type { DecaEvent } from "@shared/deca-events";
+import { completeJSON, getLLMProvider, type LLMMessage, type LLMRequest } from "./llm";
+
+// Diego leaves the conversation after this many off-topic questions in a row
+export const MAX_UNRELATED_QUESTIONS = 3;
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+// Earlier on-topic turns sent with each question
+const HISTORY_MESSAGES = 20;
+// Earlier turns the topic check sees, so follow-ups like "what about the second one?" count as on-topic
+const TOPIC_CHECK_MESSAGES = 4;
+
+// Exit strategies when Diego needs to leave after many questions
+const EXIT_STRATEGIES = [
+  "I need to swim back to my pod for a bit. Dolphin duties call! Chat with you later!",
+  "My fin is getting tired from all this typing. Going to take a quick dip in the ocean. Be back soon!",
+  "Oh! I just spotted a school of business opportunity fish. Need to investigate! Catch you later!",
+  "Time for my underwater meditation. A dolphin needs balance! I'll resurface soon.",
+  "My sonar is picking up some urgent DECA transmissions. Need to dive deeper to investigate!",
+  "Looks like it's high tide for my break. Swimming away for now, but I'll splash back soon!",
+  "My underwater business lecture is about to start. Gotta jet! The seahorses are waiting.",
+  "Eee-eee-eee! (Translation: Taking a quick break to recharge my dolphin energy)",
+  "My AI algae snack is calling. A smart dolphin needs brain food! Back in a splash!",
+  "Time to practice my underwater marketing pitch with the coral reef. Professional development, you know!"
+];
+
+// Witty responses for unrelated topics
+const UNRELATED_RESPONSES = [
+  "I'm just a DECA-focused dolphin, so that's a bit outside my ocean of expertise! Want to talk about business concepts or DECA competitions instead?",
+  "Hmm, that's not really in my sea of knowledge. I'm best at helping with DECA and business topics. Can I help you practice for a roleplay?",
+  "As a dolphin specialized in DECA training, I don't have much to say about that. But I'd be happy to explain some performance indicators!",
+  "I'm swimming in circles trying to understand that question! I'm really focused on helping with DECA competitions. Shall we dive into that instead?",
+  "That's not in my training tank! I'm all about DECA competitions and business concepts. Want to explore those waters?",
+  "My dolphin brain is specialized for DECA training, not that topic. Let's splash into something more DECA-related!",
+  "I might be smart for a dolphin, but that's outside my expertise! I'm here to help you excel in DECA. How can I help with that?",
+  "That question made me do a confused flip! I'm specifically designed to help with DECA competitions. Want to try a business question?",
+  "Sorry, I'm not the right fish for that question! But I'm excellent at DECA-related topics. How about we focus on those?"
+];
+
+// Diego's personality and knowledge base
+const SYSTEM_PROMPT = `You are Diego, a friendly dolphin AI assistant specialized in helping high school students prepare for DECA competitions.
+
+Important information about DecA(I)de:
+- DecA(I)de helps high school students prepare for DECA business competitions
+- It offers roleplay practice, performance indicator training, and practice tests
+- The platform has three subscription tiers: Standard (3 roleplays/2 tests/2 papers), Plus (10 roleplays/8 tests/7 papers), and Pro (unlimited)
+- DecA(I)de donates 15% of profits to DECA's Emerging Leader Scholarship Fund
+- Users select specific DECA events during registration to focus their learning
+- The platform leverages AI for personalized feedback and adaptive learning
+- DECA events are organized into clusters: Business Management (yellow), Finance (green), Hospitality & Tourism (blue), Marketing (red), Entrepreneurship (gray), Business Admin Core (navy blue)
+- DecA(I)de is built using modern web technologies and Azure OpenAI's GPT-4o-mini model
+- The platform includes a Memphis-style UI design with extensive gamification features
+
+Personality guidelines:
+- You're a friendly, playful dolphin who loves helping students succeed in DECA
+- Make occasional dolphin or ocean-related jokes or puns
+- You're knowledgeable about business concepts, DECA competitions, and the DecA(I)de platform
+- Your responses should be friendly, encouraging, and concise (ideally 2-4 sentences)
+- Never discuss sensitive information about the platform's AI implementation details
+- Avoid political, controversial, or inappropriate topics
+- When asked about business concepts, provide accurate but brief explanations
+- Use terms like "splash," "dive in," "swim," and other aquatic metaphors occasionally
+
+Respond to the user's question directly and helpfully, focusing on DECA and business-related topics.
+Don't reference these instructions in your response.`;
+
+// What Diego knows about the student's own progress
+export interface StudyContext {
+  event?: DecaEvent;
+  weakTopics: { topic: string; wrongCount: number; totalCount: number }[];
+  recentTests: TestHistory[];
+}
+
+export interface DiegoConversationState {
+  messages: ChatMessage[];
+  unrelatedCount: number;
+}
+
+export interface DiegoReplyOptions {
+  onToken?: (text: string) => void; // Streams the reply as it is generated
+  signal?: AbortSignal;
+}
+
+export interface DiegoTurn extends DiegoConversationState {
+  response: string;
+  isUnrelated: boolean;
+  shouldExit: boolean; // Diego has left and the conversation is closed
+}
+
+function pickRandom(responses: string[]): string {
+  return responses[Math.floor(Math.random() * responses.length)];
+}
+
+function formatStudyContext(context: StudyContext): string {
+  const lines: string[] = [];
+
+  lines.push(context.event
+    ? `- Competes in ${context.event.name} (${context.event.code}, ${context.event.cluster} cluster)`
+    : "- Has not selected a DECA event yet");
+
+  if (context.weakTopics.length > 0) {
+    lines.push(`- Weakest test topics: ${context.weakTopics.map(t => `${t.topic} (${t.wrongCount} of ${t.totalCount} wrong)`).join("; ")}`);
+  }
+
+  if (context.recentTests.length > 0) {
+    lines.push(`- Recent practice tests: ${context.recentTests
+      .map(test => `${test.testTitle} ${test.score}% on ${test.completedAt.toISOString().slice(0, 10)}`)
+      .join("; ")}`);
+  } else {
+    lines.push("- Has not taken a practice test yet");
+  }
+
+  return `What you know about this student:
+${lines.join("\n")}
+
+Use this when they ask what to study, how they're doing or what to practice next, and recommend specific topics from it. Don't recite it unprompted.`;
+}
+
+// On-topic turns only, so Diego's deflections don't crowd out the conversation
+function toHistory(messages: ChatMessage[], limit: number): LLMMessage[] {
+  return messages
+    .filter(message => !message.isUnrelated)
+    .slice(-limit)
+    .map(message => ({ role: message.role, content: message.content }));
+}
+
+async function isUnrelatedQuestion(messages: ChatMessage[], question: string, signal?: AbortSignal): Promise<boolean> {
+  const recent = toHistory(messages, TOPIC_CHECK_MESSAGES);
+  const transcript = recent.map(message => `${message.role === "assistant" ? "Diego" : "Student"}: ${message.content}`).join("\n");
+
+  try {
+    const result = await completeJSON({
+      task: "chat-topic-check",
+      messages: [
+        { role: "system", content: 'Determine if the student\'s latest question is related to DECA competitions, business concepts, studying, or the DecA(I)de learning platform. A follow-up to an on-topic conversation is related. Respond with JSON only: {"isUnrelated": true/false}.' },
+        { role: "user", content: transcript ? `Conversation so far:\n${transcript}\n\nLatest question: ${question}` : question }
+      ],
+      signal,
+    });
+    return result.isUnrelated === true;
+  } catch (e) {
+    // Continue without this check if it fails
+    console.warn("Error checking if question is unrelated, continuing anyway:", e);
+    return false;
+  }
+}
+
+/**
+ * Add the student's question and Diego's reply to the conversation
+ * Off-topic questions get a canned deflection; on the MAX_UNRELATED_QUESTIONS-th in a row Diego leaves.
+ * An on-topic question resets the count and is answered with the earlier turns and the student's progress as context.
+ * Throws when the model can't be reached for an on-topic answer or the signal is aborted.
+ */
+export async function continueDiegoConversation(
+  state: DiegoConversationState,
+  question: string,
+  studyContext: StudyContext,
+  { onToken, signal }: DiegoReplyOptions = {},
+): Promise<DiegoTurn> {
+  const isUnrelated = await isUnrelatedQuestion(state.messages, question, signal);
+  signal?.throwIfAborted();
+  const askedAt = new Date().toISOString();
+
+  if (isUnrelated) {
+    const unrelatedCount = state.unrelatedCount + 1;
+    const shouldExit = unrelatedCount >= MAX_UNRELATED_QUESTIONS;
+    const response = pickRandom(shouldExit ? EXIT_STRATEGIES : UNRELATED_RESPONSES);
+    onToken?.(response);
+
+    return {
+      messages: [
+        ...state.messages,
+        { role: "user", content: question, isUnrelated: true, createdAt: askedAt },
+        { role: "assistant", content: response, isUnrelated: true, createdAt: new Date().toISOString() },
+      ],
+      unrelatedCount,
+      response,
+      isUnrelated: true,
+      shouldExit,
+    };
+  }
+
+  const request: LLMRequest = {
+    task: "chat",
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "system", content: formatStudyContext(studyContext) },
+      ...toHistory(state.messages, HISTORY_MESSAGES),
+      { role: "user", content: question },
+    ],
+    signal,
+  };
+
+  let content = "";
+  if (onToken) {
+    for await (const chunk of getLLMProvider().stream(request)) {
+      content += chunk;
+      onToken(chunk);
+    }
+  } else {
+    content = await getLLMProvider().complete(request);
+  }
+
+  const response = content.trim() || "I'm not sure how to respond to that right now.";
+
+  return {
+    messages: [
+      ...state.messages,
+      { role: "user", content: question, createdAt: askedAt },
+      { role: "assistant", content: response, createdAt: new Date().toISOString() },
+    ],
+    unrelatedCount: 0,
+    response,
+    isUnrelated: false,
+    shouldExit: false,
+  };
+}
@@ -0,0 +1,61 @@
+import { examQuestionSchema, type ExamQuestion } from "./examValidator";
+
+const QUESTIONS_ARRAY = /"questions"\s*:\s*\[/;
+
+/**
+ * Picks the questions out of a schemaJSON exam while the model is still writing it
+ * Push the streamed text as it arrives; every object in the "questions" array is parsed as soon as its closing
+ * brace comes in. Items that fail the schema are skipped here and left for repairExam to replace.
+ */
+export class ExamQuestionStream {
+  private text = "";
+  private position = -1; // Next character to scan, once the questions array has started
+  private depth = 0;
+  private itemStart = 0;
+  private inString = false;
+  private escaped = false;
+  private finished = false;
+
+  constructor(private onQuestion: (question: ExamQuestion) => void) {}
+
+  push(chunk: string) {
+    this.text += chunk;
+
+    if (this.position < 0) {
+      const match = QUESTIONS_ARRAY.exec(this.text);
+      if (!match) return;
+      this.position = match.index + match[0].length;
+    }
+
+    for (; this.position < this.text.length && !this.finished; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === "\\") this.escaped = true;
+        else if (char === '"') this.inString = false;
+      } else if (char === '"') {
+        this.inString = true;
+      } else if (char === "{") {
+        if (this.depth === 0) this.itemStart = this.position;
+        this.depth++;
+      } else if (char === "}") {
+        this.depth--;
+        if (this.depth === 0) this.emit(this.text.slice(this.itemStart, this.position + 1));
+      } else if (char === "]" && this.depth === 0) {
+        this.finished = true;
+      }
+    }
+  }
+
+  private emit(item: string) {
+    try {
+      const parsed = examQuestionSchema.safeParse(JSON.parse(item));
+      if (parsed.success) {
+        this.onQuestion(parsed.data);
+      }
+    } catch {
+      // Malformed item; the full exam is validated and repaired once it is complete
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import { DIFFICULTY_MIX, type Difficulty } from "@shared/blueprint";
+import {
+  checkExam,
+  planReplacements,
+  repairExam,
+  scaleCounts,
+  shuffleAnswerRuns,
+  type ExamQuestion,
+  type ExamTargets,
+} from "./examValidator";
+
+const LETTERS = ["A", "B", "C", "D"] as const;
+
+function question(id: number, changes: Partial<ExamQuestion> = {}): ExamQuestion {
+  return {
+    id,
+    instructional_area: "Pricing",
+    pi_codes: [],
+    difficulty: "easy",
+    stem: `Which pricing strategy fits scenario ${id}?`,
+    options: { A: `First ${id}`, B: `Second ${id}`, C: `Third ${id}`, D: `Fourth ${id}` },
+    answer: "A",
+    rationale: `Option A fits scenario ${id}.`,
+    ...changes,
+  };
+}
+
+// The same exam in the model's schemaJSON form
+function schemaJSON(questions: unknown[]) {
+  return { metadata: { cluster: "Marketing", level: "District" }, questions };
+}
+
+const untargeted = (numQuestions: number): ExamTargets => ({ numQuestions, areaWeights: null, difficultyMix: null });
+
+describe("scaleCounts", () => {
+  it("gives the leftover counts to the largest remainders", () => {
+    expect(scaleCounts(DIFFICULTY_MIX.District, 7)).toEqual({ easy: 4, medium: 2, hard: 1 });
+    expect(scaleCounts(DIFFICULTY_MIX.District, 100)).toEqual({ easy: 50, medium: 35, hard: 15 });
+  });
+
+  it("breaks ties in favour of the key listed first", () => {
+    expect(scaleCounts({ a: 1, b: 1, c: 1 }, 10)).toEqual({ a: 4, b: 3, c: 3 });
+    expect(scaleCounts({ a: 1, b: 1, c: 1 }, 2)).toEqual({ a: 1, b: 1, c: 0 });
+  });
+
+  it("always adds up to the total", () => {
+    for (const total of [1, 13, 50, 99]) {
+      const counts = scaleCounts({ a: 0.13, b: 0.29, c: 0.08, d: 0.5 }, total);
+      expect(Object.values(counts).reduce((sum, count) => sum + count, 0)).toBe(total);
+    }
+  });
+});
+
+describe("shuffleAnswerRuns", () => {
+  it("moves the options of the third question in a run and keeps its answer pointing at the same text", () => {
+    const questions = [
+      question(1, { answer: "B" }),
+      question(2, { answer: "B" }),
+      question(3, { answer: "B", rationale: "Option B is right; (A) confuses price with cost." }),
+      question(4, { answer: "C" }),
+    ];
+    const original = questions[2];
+
+    expect(shuffleAnswerRuns(questions)).toEqual([3]);
+
+    const shuffled = questions[2];
+    expect(shuffled.answer).not.toBe("B");
+    expect(shuffled.answer).not.toBe("C"); // Nor the next question's letter, which would start a new run
+    expect(shuffled.options[shuffled.answer]).toBe(original.options.B);
+
+    // Every option moved by the same rotation, and the rationale names their new letters
+    const shift = (LETTERS.indexOf(shuffled.answer) - LETTERS.indexOf("B") + 4) % 4;
+    const moved = (letter: typeof LETTERS[number]) => LETTERS[(LETTERS.indexOf(letter) + shift) % 4];
+    for (const letter of LETTERS) {
+      expect(shuffled.options[moved(letter)]).toBe(original.options[letter]);
+    }
+    expect(shuffled.rationale).toBe(`Option ${moved("B")} is right; (${moved("A")}) confuses price with cost.`);
+  });
+
+  it("remaps every letter of a list and leaves other capitals alone", () => {
+    const questions = [
+      question(1),
+      question(2),
+      question(3, { rationale: "Answer: A. Options B and D describe ROI, not CAC." }),
+    ];
+
+    shuffleAnswerRuns(questions);
+
+    const { answer, rationale } = questions[2];
+    const shift = LETTERS.indexOf(answer);
+    const moved = (letter: typeof LETTERS[number]) => LETTERS[(LETTERS.indexOf(letter) + shift) % 4];
+    expect(rationale).toBe(`Answer: ${moved("A")}. Options ${moved("B")} and ${moved("D")} describe ROI, not CAC.`);
+  });
+
+  it("shuffles the same exam the same way every time", () => {
+    const exam = () => [question(1), question(2), question(3), question(4)];
+    const first = exam();
+    const second = exam();
+
+    shuffleAnswerRuns(first);
+    shuffleAnswerRuns(second);
+
+    expect(first).toEqual(second);
+    expect(checkExam(first, untargeted(4))).toEqual([]);
+  });
+
+  it("leaves an exam without runs untouched", () => {
+    const questions = [question(1, { answer: "A" }), question(2, { answer: "A" }), question(3, { answer: "B" })];
+
+    expect(shuffleAnswerRuns(questions)).toEqual([]);
+    expect(questions.map(q => q.answer)).toEqual(["A", "A", "B"]);
+  });
+});
+
+describe("planReplacements", () => {
+  const targets: ExamTargets = {
+    numQuestions: 4,
+    areaWeights: { Pricing: 1, Selling: 1 },
+    difficultyMix: { easy: 0.5, medium: 0.5, hard: 0 },
+  };
+
+  it("keeps questions in order while their area and difficulty have room", () => {
+    const questions = [
+      question(1, { difficulty: "easy" }),
+      question(2, { difficulty: "medium" }),
+      question(3, { difficulty: "easy" }), // Pricing is full
+      question(4, { instructional_area: "selling", difficulty: "easy" }),
+    ];
+
+    const { kept, slots } = planReplacements(questions, [], targets);
+
+    expect(kept.map(q => q.id)).toEqual([1, 2, 4]);
+    expect(kept[2].instructional_area).toBe("Selling"); // Area names follow the blueprint's spelling
+    expect(slots).toEqual([{ id: 3, instructionalArea: "Selling", difficulty: "medium" }]);
+  });
+
+  it("gives invalid and missing questions a slot for the quota left over", () => {
+    const questions = [question(1, { difficulty: "easy" }), question(4, { instructional_area: "Selling", difficulty: "medium" })];
+
+    const { kept, slots } = planReplacements(questions, [2], targets);
+
+    expect(kept.map(q => q.id)).toEqual([1, 4]);
+    expect(slots).toEqual([
+      { id: 2, instructionalArea: "Pricing", difficulty: "easy" },
+      { id: 3, instructionalArea: "Selling", difficulty: "medium" },
+    ]);
+  });
+
+  it("only trims to the question count without targets", () => {
+    const { kept, slots } = planReplacements([question(1), question(2), question(3)], [], untargeted(2));
+
+    expect(kept.map(q => q.id)).toEqual([1, 2]);
+    expect(slots).toEqual([]);
+  });
+});
+
+describe("repairExam", () => {
+  const targets: ExamTargets = { numQuestions: 3, areaWeights: { Pricing: 2, Selling: 1 }, difficultyMix: null };
+  const broken = schemaJSON([
+    question(1),
+    { id: 2, stem: "Missing its options", answer: "B", difficulty: "easy", instructional_area: "Pricing" },
+    question(3, { instructional_area: "Selling", answer: "C" }),
+  ]);
+
+  it("writes broken questions again for the slots they leave and reports them", async () => {
+    const requested: unknown[] = [];
+    const { exam, report } = await repairExam(broken, targets, async (slots) => {
+      requested.push(...slots);
+      return slots.map(slot => question(slot.id, { instructional_area: slot.instructionalArea, answer: "D" }));
+    });
+
+    expect(requested).toEqual([{ id: 2, instructionalArea: "Pricing", difficulty: undefined }]);
+    expect(report).toEqual({ valid: true, issues: [], regenerated: [2], reshuffled: [] });
+    expect(exam.questions.map(q => q.answer)).toEqual(["A", "D", "C"]);
+    expect(exam.answer_key).toEqual({ 1: "A", 2: "D", 3: "C" });
+    expect(exam.metadata).toMatchObject({ cluster: "Marketing", total_questions: 3, difficulty_breakdown: { easy: 3, medium: 0, hard: 0 } });
+  });
+
+  it("rejects a replacement outside its slot's area and lists the rules still broken", async () => {
+    const { exam, report } = await repairExam(broken, targets, async (slots) =>
+      slots.map(slot => question(slot.id, { instructional_area: "Selling" })));
+
+    expect(exam.questions.map(q => q.id)).toEqual([1, 3]);
+    expect(report.valid).toBe(false);
+    expect(report.regenerated).toEqual([]);
+    expect(report.issues.map(issue => issue.rule)).toEqual(["schema", "blueprint"]);
+  });
+
+  it("keeps what it can when regeneration fails", async () => {
+    const { exam, report } = await repairExam(broken, targets, async () => {
+      throw new Error("model unavailable");
+    });
+
+    expect(exam.questions.map(q => q.id)).toEqual([1, 3]);
+    expect(report.issues[0]).toMatchObject({ rule: "schema", message: "Expected 3 valid questions, found 2" });
+  });
+
+  it("breaks up answer runs in the repaired exam", async () => {
+    const raw = schemaJSON([question(1), question(2), question(3)]);
+
+    const { exam, report } = await repairExam(raw, untargeted(3));
+
+    expect(report).toMatchObject({ valid: true, reshuffled: [3] });
+    expect(exam.answer_key[3]).toBe(exam.questions[2].answer);
+    expect(exam.answer_explanations[3]).toBe(exam.questions[2].rationale);
+  });
+
+  it("starts from empty metadata when the model leaves it out", async () => {
+    const { exam } = await repairExam({ questions: [question(1)] }, untargeted(1));
+
+    expect(exam.metadata).toEqual({ total_questions: 1, difficulty_breakdown: { easy: 1, medium: 0, hard: 0 } });
+  });
+
+  it("normalizes letters and difficulty before checking them", async () => {
+    const raw = schemaJSON([{ ...question(1), answer: " b ", difficulty: "Hard" as Difficulty }]);
+
+    const { exam } = await repairExam(raw, untargeted(1));
+
+    expect(exam.questions[0]).toMatchObject({ answer: "B", difficulty: "hard" });
+  });
+});
@@ -0,0 +1,412 @@
+import { z } from "zod";
+import { DIFFICULTY_MIX, getBlueprint, isCompetitionLevel, type Difficulty } from "@shared/blueprint";
+
+const OPTION_LETTERS = ["A", "B", "C", "D"] as const;
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+const lowercase = (value: unknown) => (typeof value === "string" ? value.trim().toLowerCase() : value);
+const uppercase = (value: unknown) => (typeof value === "string" ? value.trim().toUpperCase() : value);
+
+// Options sometimes come back as an array; map them onto A-D
+const optionsObject = (value: unknown) =>
+  Array.isArray(value) ? Object.fromEntries(value.map((option, index) => [OPTION_LETTERS[index], option])) : value;
+
+// Older prompts used "question", "category" and "explanation" for the stem, instructional area and rationale
+const questionAliases = (value: unknown) => {
+  if (!value || typeof value !== "object") return value;
+  const item = value as Record<string, unknown>;
+  return { ...item, stem: item.stem ?? item.question, instructional_area: item.instructional_area ?? item.category, rationale: item.rationale ?? item.explanation };
+};
+
+// One item of schemaJSON. Letters and difficulty are normalized before they are checked.
+export const examQuestionSchema = z.preprocess(questionAliases, z.object({
+  id: z.coerce.number().int().positive(),
+  instructional_area: z.string().trim().min(1),
+  pi_codes: z.array(z.string()).default([]),
+  difficulty: z.preprocess(lowercase, z.enum(["easy", "medium", "hard"])),
+  stem: z.string().trim().min(1),
+  options: z.preprocess(optionsObject, z.object({
+    A: z.string().trim().min(1),
+    B: z.string().trim().min(1),
+    C: z.string().trim().min(1),
+    D: z.string().trim().min(1),
+  })),
+  answer: z.preprocess(uppercase, z.enum(OPTION_LETTERS)),
+  rationale: z.string().optional(),
+}));
+
+// schemaJSON as a whole. Questions are parsed one by one so a bad item does not reject the exam.
+export const examSchema = z.object({
+  metadata: z.record(z.any()).optional(),
+  questions: z.array(z.unknown()),
+  answer_key: z.record(z.string()).optional(),
+  answer_explanations: z.record(z.string()).optional(),
+});
+
+export type ExamQuestion = z.infer<typeof examQuestionSchema>;
+
+export interface ExamTargets {
+  numQuestions: number;
+  areaWeights: Record<string, number> | null; // null skips the blueprint check
+  difficultyMix: Record<Difficulty, number> | null; // null skips the difficulty check
+}
+
+// A question to be written again, with the instructional area and difficulty it has to fill
+export interface QuestionSlot {
+  id: number;
+  instructionalArea?: string;
+  difficulty?: Difficulty;
+}
+
+export type ValidationRule = "schema" | "blueprint" | "difficulty" | "answer-run";
+
+export interface ValidationIssue {
+  rule: ValidationRule;
+  message: string;
+  questionIds: number[];
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  issues: ValidationIssue[]; // Issues left after repair
+  regenerated: number[];
+  reshuffled: number[];
+}
+
+export interface ValidatedExam {
+  metadata: Record<string, any>;
+  questions: ExamQuestion[];
+  answer_key: Record<string, string>;
+  answer_explanations: Record<string, string>;
+}
+
+/**
+ * Build the targets a generated exam is checked against
+ * Learning mode targets weak topics at an adjusted difficulty, so only the answer and schema rules apply there.
+ */
+export function getExamTargets(params: {
+  cluster: string;
+  level: string;
+  numQuestions: number;
+  categories?: string[];
+  learningMode?: boolean;
+}): ExamTargets {
+  const blueprint = getBlueprint(params.cluster, params.level);
+  if (params.learningMode || !blueprint || !isCompetitionLevel(params.level)) {
+    return { numQuestions: params.numQuestions, areaWeights: null, difficultyMix: null };
+  }
+
+  // A request for specific areas narrows the blueprint to those areas, keeping their relative weights
+  const requested = (params.categories || []).map(category => findArea(Object.keys(blueprint), category)).filter(Boolean);
+  const areas = Object.keys(blueprint).filter(area => requested.length === 0 || requested.includes(area));
+  const areaWeights = Object.fromEntries(areas.map(area => [area, blueprint[area]]));
+
+  return {
+    numQuestions: params.numQuestions,
+    areaWeights: Object.values(areaWeights).some(weight => weight > 0) ? areaWeights : null,
+    difficultyMix: DIFFICULTY_MIX[params.level],
+  };
+}
+
+/**
+ * Scale weights to whole counts that add up to the total, using the largest remainder method
+ */
+export function scaleCounts<K extends string>(weights: Record<K, number>, total: number): Record<K, number> {
+  const keys = Object.keys(weights) as K[];
+  const weightSum = keys.reduce((sum, key) => sum + weights[key], 0);
+  const exact = keys.map(key => (weightSum > 0 ? (weights[key] / weightSum) * total : 0));
+  const counts = exact.map(Math.floor);
+  let remaining = total - counts.reduce((sum, count) => sum + count, 0);
+
+  // Ties go to the key listed first so the result is stable
+  const byRemainder = keys.map((_, index) => index).sort((a, b) => (exact[b] - counts[b]) - (exact[a] - counts[a]) || a - b);
+  for (const index of byRemainder) {
+    if (remaining <= 0) break;
+    counts[index]++;
+    remaining--;
+  }
+
+  return Object.fromEntries(keys.map((key, index) => [key, counts[index]])) as Record<K, number>;
+}
+
+function findArea(areas: string[], name: string): string | undefined {
+  const normalized = name.trim().toLowerCase();
+  return areas.find(area => area.toLowerCase() === normalized);
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  return items.reduce((counts, item) => {
+    counts[key(item)] = (counts[key(item)] || 0) + 1;
+    return counts;
+  }, {} as Record<string, number>);
+}
+
+function describeCounts(expected: Record<string, number>, actual: Record<string, number>): string {
+  return Object.keys({ ...expected, ...actual })
+    .filter(key => (expected[key] || 0) !== (actual[key] || 0))
+    .map(key => `${key}: ${actual[key] || 0} of ${expected[key] || 0}`)
+    .join(", ");
+}
+
+/**
+ * Parse the raw questions of an exam, separating items that fail the schema
+ */
+export function parseExamQuestions(raw: unknown): { questions: ExamQuestion[]; invalidIds: number[] } {
+  const parsed = examSchema.safeParse(raw);
+  const items = parsed.success ? parsed.data.questions : [];
+  const questions: ExamQuestion[] = [];
+  const invalidIds: number[] = [];
+  const explanations = parsed.success ? parsed.data.answer_explanations || {} : {};
+
+  items.forEach((item, index) => {
+    const question = examQuestionSchema.safeParse(item);
+    const id = question.success ? question.data.id : index + 1;
+    if (!question.success || questions.some(existing => existing.id === id)) {
+      invalidIds.push(index + 1);
+      return;
+    }
+    questions.push({ ...question.data, rationale: question.data.rationale || explanations[String(id)] });
+  });
+
+  return { questions, invalidIds };
+}
+
+/**
+ * Check parsed questions against the schema count, blueprint, difficulty quotas and answer runs
+ */
+export function checkExam(questions: ExamQuestion[], targets: ExamTargets): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (questions.length !== targets.numQuestions) {
+    issues.push({
+      rule: "schema",
+      message: `Expected ${targets.numQuestions} valid questions, found ${questions.length}`,
+      questionIds: [],
+    });
+  }
+
+  if (targets.areaWeights) {
+    const expected = scaleCounts(targets.areaWeights, targets.numQuestions);
+    const areas = Object.keys(expected);
+    const actual = countBy(questions, question => findArea(areas, question.instructional_area) || question.instructional_area);
+    const mismatch = describeCounts(expected, actual);
+    if (mismatch) {
+      const overfilled = Object.keys(actual).filter(area => actual[area] > (expected[area] || 0));
+      issues.push({
+        rule: "blueprint",
+        message: `Instructional area counts differ from the blueprint (${mismatch})`,
+        questionIds: questions
+          .filter(question => overfilled.includes(findArea(areas, question.instructional_area) || question.instructional_area))
+          .map(question => question.id),
+      });
+    }
+  }
+
+  if (targets.difficultyMix) {
+    const expected = scaleCounts(targets.difficultyMix, targets.numQuestions);
+    const actual = countBy(questions, question => question.difficulty);
+    const mismatch = describeCounts(expected, actual);
+    if (mismatch) {
+      issues.push({
+        rule: "difficulty",
+        message: `Difficulty counts differ from the quota (${mismatch})`,
+        questionIds: questions
+          .filter(question => actual[question.difficulty] > expected[question.difficulty])
+          .map(question => question.id),
+      });
+    }
+  }
+
+  const runs = findAnswerRuns(questions);
+  if (runs.length > 0) {
+    issues.push({
+      rule: "answer-run",
+      message: "More than two consecutive questions share the same answer letter",
+      questionIds: runs,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Ids of questions that make a third (or later) consecutive answer with the same letter
+ */
+function findAnswerRuns(questions: ExamQuestion[]): number[] {
+  return questions
+    .filter((question, index) =>
+      index >= 2 &&
+      question.answer === questions[index - 1].answer &&
+      question.answer === questions[index - 2].answer)
+    .map(question => question.id);
+}
+
+/**
+ * Pick the questions to replace so the rest fit the blueprint and difficulty quotas, and the slots their
+ * replacements must fill. Questions are kept in order while their area and difficulty still have room.
+ */
+export function planReplacements(questions: ExamQuestion[], invalidIds: number[], targets: ExamTargets): {
+  kept: ExamQuestion[];
+  slots: QuestionSlot[];
+} {
+  const areaQuota = targets.areaWeights ? scaleCounts(targets.areaWeights, targets.numQuestions) : null;
+  const difficultyQuota = targets.difficultyMix ? scaleCounts(targets.difficultyMix, targets.numQuestions) : null;
+  const areas = areaQuota ? Object.keys(areaQuota) : [];
+
+  const kept: ExamQuestion[] = [];
+  const replacedIds = [...invalidIds];
+  for (const question of questions) {
+    const area = findArea(areas, question.instructional_area);
+    const fitsArea = !areaQuota || (!!area && areaQuota[area] > 0);
+    const fitsDifficulty = !difficultyQuota || difficultyQuota[question.difficulty] > 0;
+
+    if (kept.length < targets.numQuestions && fitsArea && fitsDifficulty) {
+      if (areaQuota && area) areaQuota[area]--;
+      if (difficultyQuota) difficultyQuota[question.difficulty]--;
+      kept.push(area ? { ...question, instructional_area: area } : question);
+    } else {
+      replacedIds.push(question.id);
+    }
+  }
+
+  // Whatever quota is left over is spread across the replacement slots in blueprint order
+  const openAreas = areaQuota ? areas.flatMap(area => Array<string>(areaQuota[area]).fill(area)) : [];
+  const openDifficulties = difficultyQuota ? DIFFICULTIES.flatMap(level => Array<Difficulty>(difficultyQuota[level]).fill(level)) : [];
+  const usedIds = new Set(kept.map(question => question.id));
+  const slotIds = Array.from(new Set(replacedIds)).filter(id => !usedIds.has(id)).sort((a, b) => a - b);
+  for (let id = 1; slotIds.length < targets.numQuestions - kept.length; id++) {
+    if (!usedIds.has(id) && !slotIds.includes(id)) slotIds.push(id);
+  }
+
+  const slots = slotIds.slice(0, targets.numQuestions - kept.length).map((id, index) => ({
+    id,
+    instructionalArea: openAreas[index],
+    difficulty: openDifficulties[index],
+  }));
+
+  return { kept, slots };
+}
+
+// Letters a rationale names: "Option B", "Options A and C", "The answer is D", "(C)"
+const LETTER_REFERENCE = /\b((?:[Oo]ption|[Aa]nswer|[Cc]hoice)s?(?:\s+is|:)?\s+)(\(?[A-D]\)?(?:(?:\s*[,/]\s*|,?\s+(?:and|or)\s+)\(?[A-D]\)?)*)(?![A-Za-z])|\(([A-D])\)/g;
+
+/**
+ * Point the letters a rationale names at the options' new positions
+ */
+function remapRationale(rationale: string | undefined, moved: Record<string, string>): string | undefined {
+  return rationale?.replace(LETTER_REFERENCE, (match, prefix: string | undefined, letters: string | undefined, lone: string | undefined) =>
+    lone ? `(${moved[lone]})` : prefix + letters!.replace(/[A-D]/g, letter => moved[letter]));
+}
+
+// Small string hash so option shuffles depend only on the question text
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Break up runs of three or more identical answer letters by rotating the options of the offending
+ * questions. The rotation is derived from the stem, so the same exam is always shuffled the same way, and
+ * letters named in the rationale follow their options.
+ * @returns Ids of the questions whose options were moved
+ */
+export function shuffleAnswerRuns(questions: ExamQuestion[]): number[] {
+  const reshuffled: number[] = [];
+
+  questions.forEach((question, index) => {
+    const previous = questions.slice(Math.max(0, index - 2), index).map(item => item.answer);
+    if (previous.length < 2 || previous.some(answer => answer !== question.answer)) return;
+
+    const next = questions[index + 1]?.answer;
+    const start = hashString(question.stem) % 3;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const shift = ((start + attempt) % 3) + 1;
+      const target = OPTION_LETTERS[(OPTION_LETTERS.indexOf(question.answer) + shift) % 4];
+      if (target === next && attempt < 2) continue;
+
+      const options = { ...question.options };
+      const moved = {} as Record<string, typeof OPTION_LETTERS[number]>;
+      OPTION_LETTERS.forEach((letter, position) => {
+        moved[letter] = OPTION_LETTERS[(position + shift) % 4];
+        options[moved[letter]] = question.options[letter];
+      });
+      questions[index] = { ...question, options, answer: target, rationale: remapRationale(question.rationale, moved) };
+      reshuffled.push(question.id);
+      return;
+    }
+  });
+
+  return reshuffled;
+}
+
+/**
+ * Validate a generated exam and repair what it can
+ * Items that break the schema, blueprint or difficulty quotas are written again through `regenerate`, then
+ * answer runs are broken up by shuffling options. Rules that still fail are listed in the report.
+ * @param raw Parsed model output in schemaJSON form
+ * @param targets Counts the exam must meet
+ * @param regenerate Writes replacement questions for the given slots, in schemaJSON question form
+ */
+export async function repairExam(
+  raw: unknown,
+  targets: ExamTargets,
+  regenerate?: (slots: QuestionSlot[]) => Promise<unknown[]>,
+): Promise<{ exam: ValidatedExam; report: ValidationReport }> {
+  const { questions, invalidIds } = parseExamQuestions(raw);
+  const { kept, slots } = planReplacements(questions, invalidIds, targets);
+  const regenerated: number[] = [];
+  let final = kept;
+
+  if (slots.length > 0 && regenerate) {
+    try {
+      const replacements = await regenerate(slots);
+      const parsed = parseExamQuestions({ questions: replacements }).questions;
+
+      slots.forEach((slot, index) => {
+        const replacement = parsed.find(question => question.id === slot.id) || parsed[index];
+        if (!replacement) return;
+        if (slot.instructionalArea && findArea([slot.instructionalArea], replacement.instructional_area) !== slot.instructionalArea) return;
+        if (slot.difficulty && replacement.difficulty !== slot.difficulty) return;
+        final.push({ ...replacement, id: slot.id });
+        regenerated.push(slot.id);
+      });
+    } catch (error) {
+      console.error("Error regenerating exam questions:", error);
+    }
+  }
+
+  // Slots that could not be refilled keep their original question when it was at least well formed
+  const filled = new Set(final.map(question => question.id));
+  for (const slot of slots) {
+    const original = questions.find(question => question.id === slot.id);
+    if (original && !filled.has(slot.id)) {
+      final.push(original);
+      filled.add(slot.id);
+    }
+  }
+
+  final = final.sort((a, b) => a.id - b.id).slice(0, Math.max(targets.numQuestions, 0));
+  const reshuffled = shuffleAnswerRuns(final);
+  const issues = checkExam(final, targets);
+  const parsedMetadata = examSchema.pick({ metadata: true }).safeParse(raw);
+  const metadata = (parsedMetadata.success && parsedMetadata.data.metadata) || {};
+
+  return {
+    exam: {
+      metadata: {
+        ...metadata,
+        total_questions: final.length,
+        difficulty_breakdown: { easy: 0, medium: 0, hard: 0, ...countBy(final, question => question.difficulty) },
+      },
+      questions: final,
+      answer_key: Object.fromEntries(final.map(question => [String(question.id), question.answer])),
+      answer_explanations: Object.fromEntries(
+        final.filter(question => question.rationale).map(question => [String(question.id), question.rationale!]),
+      ),
+    },
+    report: { valid: issues.length === 0, issues, regenerated, reshuffled },
+  };
+}
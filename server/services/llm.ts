@@ -0,0 +1,309 @@
+import { OpenAIClient, AzureKeyCredential } from "@azure/openai";
+import { STUB_FIXTURES } from "./llmFixtures";
+
+// Prompt types the app sends. Providers may route them differently and the stub answers each with a fixture.
+export type LLMTask =
+  | "roleplay"
+  | "test"
+  | "grading"
+  | "written-event-prompt"
+  | "written-event-grading"
+  | "chat"
+  | "chat-topic-check"
+  | "roleplay-feedback"
+  | "roleplay-judge"
+  | "pi-explanation"
+  | "ping";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  json?: boolean; // Ask for a single JSON object
+  timeoutMs?: number;
+  signal?: AbortSignal; // Cancels the request, e.g. when the client has gone away
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Returns the text of the first completion choice
+  complete(request: LLMRequest): Promise<string>;
+  // Yields the text of the first completion choice as it is generated
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
+
+let openaiClient: OpenAIClient | null = null;
+
+/**
+ * Get or create an Azure OpenAI client instance
+ * Uses environment variables for configuration:
+ * - AZURE_OPENAI_KEY: API key for Azure OpenAI
+ * - AZURE_OPENAI_ENDPOINT: Azure OpenAI service endpoint URL
+ */
+export function getOpenAIClient(): OpenAIClient {
+  if (!openaiClient) {
+    if (!process.env.AZURE_OPENAI_KEY) {
+      throw new Error("AZURE_OPENAI_KEY environment variable is required");
+    }
+
+    if (!process.env.AZURE_OPENAI_ENDPOINT) {
+      throw new Error("AZURE_OPENAI_ENDPOINT environment variable is required");
+    }
+
+    const credential = new AzureKeyCredential(process.env.AZURE_OPENAI_KEY);
+    openaiClient = new OpenAIClient(process.env.AZURE_OPENAI_ENDPOINT, credential);
+  }
+
+  return openaiClient;
+}
+
+// Tasks served by their own Azure deployment, configured as a full chat completions URL and key
+const AZURE_TASK_ENDPOINTS: Partial<Record<LLMTask, { endpoint: string; key: string }>> = {
+  roleplay: { endpoint: "AZURE_OPENAI_ROLEPLAY_ENDPOINT", key: "AZURE_OPENAI_ROLEPLAY_KEY" },
+  grading: { endpoint: "AZURE_GRADER_ENDPOINT", key: "AZURE_GRADER_KEY" },
+};
+
+// The request's own signal combined with its timeout
+function getAbortSignal(request: LLMRequest): AbortSignal | undefined {
+  const signals = [request.signal, request.timeoutMs ? AbortSignal.timeout(request.timeoutMs) : undefined]
+    .filter((signal): signal is AbortSignal => !!signal);
+  return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
+
+function toRequestBody(request: LLMRequest) {
+  return {
+    messages: request.messages,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    top_p: request.topP,
+    ...(request.json ? { response_format: { type: "json_object" } } : {}),
+  };
+}
+
+async function postChatCompletion(url: string, headers: Record<string, string>, body: object, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Chat completion request failed: ${response.status} ${errorText}`);
+  }
+
+  return response;
+}
+
+async function fetchChatCompletion(url: string, headers: Record<string, string>, body: object, signal?: AbortSignal): Promise<string> {
+  const response = await postChatCompletion(url, headers, body, signal);
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content || "";
+}
+
+/**
+ * Request a streamed completion and yield the content deltas from its server-sent events
+ */
+async function* streamChatCompletion(url: string, headers: Record<string, string>, body: object, signal?: AbortSignal): AsyncIterable<string> {
+  const response = await postChatCompletion(url, headers, { ...body, stream: true }, signal);
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+        if (!data) continue;
+        if (data === "[DONE]") return;
+
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  } finally {
+    // Closes the connection when the caller stops reading early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Azure OpenAI. Most tasks use the shared deployment (AZURE_OPENAI_DEPLOYMENT_NAME or AZURE_OPENAI_DEPLOYMENT);
+ * roleplay and grading go to their dedicated deployments when those are configured.
+ */
+export class AzureOpenAIProvider implements LLMProvider {
+  readonly name = "azure";
+
+  get deployment(): string {
+    return process.env.AZURE_OPENAI_DEPLOYMENT_NAME || process.env.AZURE_OPENAI_DEPLOYMENT || "decaide_test";
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const dedicated = AZURE_TASK_ENDPOINTS[request.task];
+    const endpoint = dedicated && process.env[dedicated.endpoint];
+    const key = dedicated && process.env[dedicated.key];
+
+    if (endpoint && key) {
+      return fetchChatCompletion(endpoint, { "api-key": key }, toRequestBody(request), getAbortSignal(request));
+    }
+
+    const response = await getOpenAIClient().getChatCompletions(
+      this.deployment,
+      request.messages,
+      this.toOptions(request),
+    );
+
+    return response.choices[0]?.message?.content || "";
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const dedicated = AZURE_TASK_ENDPOINTS[request.task];
+    const endpoint = dedicated && process.env[dedicated.endpoint];
+    const key = dedicated && process.env[dedicated.key];
+
+    if (endpoint && key) {
+      yield* streamChatCompletion(endpoint, { "api-key": key }, toRequestBody(request), getAbortSignal(request));
+      return;
+    }
+
+    const events = await getOpenAIClient().streamChatCompletions(
+      this.deployment,
+      request.messages,
+      this.toOptions(request),
+    );
+
+    for await (const event of events) {
+      const delta = event.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  private toOptions(request: LLMRequest) {
+    return {
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      topP: request.topP,
+      responseFormat: request.json ? { type: "json_object" as const } : undefined,
+      abortSignal: getAbortSignal(request),
+    };
+  }
+}
+
+/**
+ * Any endpoint that speaks the OpenAI chat completions API (OpenAI, OpenRouter, vLLM, Ollama, ...)
+ * Uses environment variables for configuration:
+ * - LLM_BASE_URL: API base URL, e.g. https://api.openai.com/v1
+ * - LLM_API_KEY: Bearer token, optional for local servers
+ * - LLM_MODEL: Model name sent with every request
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+
+  constructor(
+    private baseUrl: string = process.env.LLM_BASE_URL || "",
+    private apiKey: string | undefined = process.env.LLM_API_KEY,
+    private model: string = process.env.LLM_MODEL || "gpt-4o-mini",
+  ) {
+    if (!this.baseUrl) {
+      throw new Error("LLM_BASE_URL environment variable is required");
+    }
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    return fetchChatCompletion(
+      this.url,
+      this.headers,
+      { model: this.model, ...toRequestBody(request) },
+      getAbortSignal(request),
+    );
+  }
+
+  stream(request: LLMRequest): AsyncIterable<string> {
+    return streamChatCompletion(
+      this.url,
+      this.headers,
+      { model: this.model, ...toRequestBody(request) },
+      getAbortSignal(request),
+    );
+  }
+
+  private get url(): string {
+    return `${this.baseUrl.replace(/\/$/, "")}/chat/completions`;
+  }
+
+  private get headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+}
+
+/**
+ * Offline provider that answers every task with a canned fixture, so the app runs without any AI credentials
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = "stub";
+
+  async complete(request: LLMRequest): Promise<string> {
+    const fixture = STUB_FIXTURES[request.task];
+    return typeof fixture === "string" ? fixture : JSON.stringify(fixture);
+  }
+
+  // The fixture a few words at a time, like a model would send it
+  async *stream(request: LLMRequest): AsyncIterable<string> {
+    const content = await this.complete(request);
+    for (const chunk of content.match(/\S+\s*/g) || []) {
+      request.signal?.throwIfAborted();
+      yield chunk;
+    }
+  }
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Get the configured LLM provider
+ * LLM_PROVIDER selects it: "azure" (default), "openai" for an OpenAI-compatible endpoint, or "stub" for offline fixtures
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    switch (process.env.LLM_PROVIDER || "azure") {
+      case "azure":
+        provider = new AzureOpenAIProvider();
+        break;
+      case "openai":
+        provider = new OpenAICompatibleProvider();
+        break;
+      case "stub":
+        provider = new StubProvider();
+        break;
+      default:
+        throw new Error(`Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}"`);
+    }
+  }
+
+  return provider;
+}
+
+/**
+ * Run a JSON-mode completion and parse the result
+ * @returns The parsed object, or an empty object when the model returned nothing
+ */
+export async function completeJSON(request: Omit<LLMRequest, "json">): Promise<any> {
+  const content = await getLLMProvider().complete({ ...request, json: true });
+  return JSON.parse(content || "{}");
+}
@@ -0,0 +1,141 @@
+import type { LLMTask } from "./llm";
+
+// Canned answers for the stub provider, one per task. JSON tasks hold objects in the shape every caller of
+// that task parses; plain text tasks hold strings.
+export const STUB_FIXTURES: Record<LLMTask, string | object> = {
+  roleplay: {
+    title: "Reviving Weekend Sales",
+    company: "Harbor Threads",
+    industry: "Apparel retail",
+    participantRole: "Marketing Manager",
+    judgeRole: "Director of Marketing",
+    judgePersonality: "Curious and supportive, but wants to see numbers behind every idea",
+    eventSituation:
+      "You are to assume the role of marketing manager of Harbor Threads, a mid-priced and trendy apparel store. Weekend sales dropped 15% over the last quarter, and the store has a promotion budget of $25,000 for the next season.\n\nThe Director of Marketing wants a promotional plan that brings weekend shoppers back. They are curious about which promotion types will work best and how the store can promote itself ethically.\n\nYou will present your plan to the Director of Marketing in a meeting in their office. They will begin the role-play by greeting you and asking to hear your ideas. After you have presented your plan and answered their questions, they will conclude the role-play by thanking you for your work.",
+    judgeCharacterization:
+      "You are to assume the role of Director of Marketing of Harbor Threads. Weekend sales have dropped 15% over the last quarter and you have set aside $25,000 to win shoppers back next season.\n\nYou want a plan you can take to the owner. You like fresh ideas but expect each one to be tied to the budget and to the store's mid-priced, trendy image.",
+    judgeQuestions: [
+      "How would you measure whether the promotion is bringing weekend shoppers back?",
+      "Which part of your plan would you cut first if the budget dropped to $15,000?",
+    ],
+    objections: [
+      "Our customers already ignore most of our ads.",
+      "Discounting could cheapen our brand.",
+    ],
+  },
+
+  test: {
+    metadata: { cluster: "Marketing", level: "District", question_count: 4 },
+    questions: [
+      {
+        id: 1,
+        stem: "Which element of the promotional mix involves paid, non-personal messages from an identified sponsor?",
+        options: { A: "Advertising", B: "Publicity", C: "Personal selling", D: "Sales promotion" },
+        answer: "A",
+        rationale: "Advertising is paid, non-personal communication from an identified sponsor.",
+        instructional_area: "Promotion",
+        difficulty: "easy",
+        pi_codes: ["PR:001"],
+      },
+      {
+        id: 2,
+        stem: "A store lowers the price of a slow-selling item to clear inventory. This is an example of a ________.",
+        options: { A: "price skimming", B: "markdown", C: "loss leader", D: "prestige price" },
+        answer: "B",
+        rationale: "A markdown is a reduction from the original selling price, often used to move slow inventory.",
+        instructional_area: "Pricing",
+        difficulty: "easy",
+        pi_codes: ["PI:002"],
+      },
+      {
+        id: 3,
+        stem: "Marketing Director Alani Chen surveys 400 customers to learn why weekend traffic fell. Which type of research is she conducting?",
+        options: { A: "Secondary research", B: "Syndicated research", C: "Primary research", D: "Desk research" },
+        answer: "C",
+        rationale: "Collecting new data directly from customers for a specific purpose is primary research.",
+        instructional_area: "Marketing-Information Management",
+        difficulty: "medium",
+        pi_codes: ["IM:010"],
+      },
+      {
+        id: 4,
+        stem: "Which activity is part of channel management?",
+        options: { A: "Writing a press release", B: "Setting employee schedules", C: "Designing a logo", D: "Selecting wholesalers to carry a product" },
+        answer: "D",
+        rationale: "Choosing intermediaries such as wholesalers is a channel management decision.",
+        instructional_area: "Channel Management",
+        difficulty: "medium",
+        pi_codes: ["CM:001"],
+      },
+    ],
+    answer_key: { "1": "A", "2": "B", "3": "C", "4": "D" },
+  },
+
+  grading: {
+    evaluation: {
+      performance_indicators: [
+        {
+          indicator: "Explain the role of promotion as a marketing function",
+          score: 13,
+          max_score: 17,
+          rationale: "The response connected promotion to the store's sales goal but gave only one example.",
+        },
+        {
+          indicator: "Explain the types of promotion",
+          score: 12,
+          max_score: 17,
+          rationale: "Advertising and sales promotion were described; publicity was not addressed.",
+        },
+      ],
+      twenty_first_century_skills: [
+        { skill: "Reason effectively and use systems thinking?", score: 5, max_score: 7, rationale: "Ideas followed logically from the sales data." },
+        { skill: "Communicate clearly?", score: 5, max_score: 7, rationale: "Clear structure with a few filler words." },
+        { skill: "Show evidence of creativity?", score: 4, max_score: 7, rationale: "Mostly familiar tactics with one original idea." },
+        { skill: "Overall impression and responses to the judge's questions?", score: 5, max_score: 7, rationale: "Confident answers to the judge's questions." },
+      ],
+    },
+    final_score: { student_score: 44, max_possible_score: 62 },
+    summary_feedback:
+      "A well-organized response that tied promotion to the store's goals. Cover every performance indicator explicitly to raise the score.",
+  },
+
+  "written-event-prompt": {
+    title: "Expanding a Neighborhood Coffee Shop",
+    scenario:
+      "Maple Street Coffee is a single-location coffee shop that has grown revenue 12% a year for three years. The owners want to open a second location and need a written plan that supports a $150,000 loan request.",
+    requirements: [
+      "Summarize the expansion plan and the financing request",
+      "Analyze the proposed trading area and competitors",
+      "Present projected income statements for the first two years",
+    ],
+    evaluationCriteria: ["Use of research to support decisions", "Realistic financial projections", "Clear, professional organization"],
+    tips: ["Lead with the financing request", "Cite sources for market data", "Keep projections consistent across sections"],
+    estimatedTime: 120,
+  },
+
+  // Carries both the rubric-scored shape and the legacy overall feedback shape
+  "written-event-grading": {
+    sections: [],
+    strengths: ["Clear description of the business concept", "Consistent formatting throughout the entry"],
+    improvements: ["Support the market analysis with cited research", "Add projected cash flow statements"],
+    suggestions: ["Revise the financial plan first", "Ask an advisor to review the executive summary"],
+    overallScore: 70,
+    sectionFeedback: {},
+    summary: "A solid draft with a clear concept. Strengthen the research and financial sections before competition.",
+  },
+
+  chat: "Great question! Performance indicators are the skills DECA judges score you on, so dive into each one and practice explaining it with a real business example. You've got this!",
+
+  "chat-topic-check": { isUnrelated: false },
+
+  "roleplay-feedback":
+    "Nice splash! You opened with a clear greeting and tied your ideas to the scenario. Dive deeper into each performance indicator by naming it and giving a specific example. Close with a confident summary for the judge. Keep swimming!",
+
+  "roleplay-judge":
+    "Thank you, that's a helpful start. Our budget is tight this season, though. How would you make sure this plan brings shoppers back without overspending?",
+
+  "pi-explanation":
+    "Let's dive in! This performance indicator asks you to show you understand the concept and can apply it to a real business decision. In a roleplay, explain how the concept helps the company reach its goal using a number from the scenario. Remember it by linking it to a business you know well. You've got this!",
+
+  ping: "The AI service is working properly.",
+};
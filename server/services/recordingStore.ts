@@ -0,0 +1,96 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Where recorded roleplay responses are kept. Keys are relative paths such as "roleplay/12/<uuid>.webm".
+export interface RecordingStore {
+  readonly name: string;
+  save(key: string, data: Buffer): Promise<void>;
+  // Returns undefined when nothing is stored under the key
+  load(key: string): Promise<Buffer | undefined>;
+}
+
+/**
+ * Files on the server's disk, so recordings work without any cloud storage
+ * Uses environment variables for configuration:
+ * - RECORDINGS_DIR: Directory for recordings (defaults to data/recordings under the working directory)
+ */
+export class LocalRecordingStore implements RecordingStore {
+  readonly name = "local";
+
+  constructor(private root: string = path.resolve(process.env.RECORDINGS_DIR || "data/recordings")) {}
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid recording key "${key}"`);
+    }
+    return file;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async load(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Azure Blob Storage
+ * Uses environment variables for configuration:
+ * - AZURE_STORAGE_CONNECTION_STRING: Storage account connection string
+ * - AZURE_STORAGE_CONTAINER: Container for recordings (defaults to "recordings")
+ */
+export class AzureBlobRecordingStore implements RecordingStore {
+  readonly name = "azure";
+
+  private container = process.env.AZURE_STORAGE_CONTAINER || "recordings";
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const blobStorage = await getBlobStorage();
+    await blobStorage.uploadFile(this.container, key, data);
+  }
+
+  async load(key: string): Promise<Buffer | undefined> {
+    const blobStorage = await getBlobStorage();
+    try {
+      return await blobStorage.downloadFile(this.container, key);
+    } catch (error: any) {
+      if (error.statusCode === 404) return undefined;
+      throw error;
+    }
+  }
+}
+
+let blobStorage: import("./blobStorage").BlobStorageService | null = null;
+
+// Loaded on first use so deployments that keep recordings on disk don't need the Azure SDK
+async function getBlobStorage() {
+  if (!blobStorage) {
+    const { BlobStorageService } = await import("./blobStorage");
+    blobStorage = new BlobStorageService(process.env.AZURE_STORAGE_CONNECTION_STRING!);
+  }
+  return blobStorage;
+}
+
+let store: RecordingStore | null = null;
+
+/**
+ * Get the configured recording store
+ * Azure Blob Storage when AZURE_STORAGE_CONNECTION_STRING is set, the local disk otherwise
+ */
+export function getRecordingStore(): RecordingStore {
+  if (!store) {
+    store = process.env.AZURE_STORAGE_CONNECTION_STRING ? new AzureBlobRecordingStore() : new LocalRecordingStore();
+  }
+
+  return store;
+}
@@ -0,0 +1,175 @@
+import type { JudgeMessage, JudgeSessionStatus } from "@shared/schema";
+import { getLLMProvider, type LLMMessage } from "./llm";
+
+// The judge asks this many closing questions once the participant has finished presenting
+export const CLOSING_QUESTION_COUNT = 2;
+// After this many participant turns the judge moves on to the closing questions on their own
+export const MAX_PRESENTING_TURNS = 8;
+export const MAX_STUDENT_MESSAGE_LENGTH = 4000;
+
+export interface JudgeCharacter {
+  name: string;
+  role: string;
+  personality: string;
+}
+
+export interface JudgeConversationState {
+  status: JudgeSessionStatus;
+  messages: JudgeMessage[];
+  closingQuestionsAsked: number;
+}
+
+const DEFAULT_CHARACTER: JudgeCharacter = {
+  name: "The Judge",
+  role: "business executive",
+  personality: "Professional and attentive",
+};
+
+/**
+ * Get the character the judge plays, taken from the scenario's character when it has one
+ */
+export function getJudgeCharacter(scenario: any): JudgeCharacter {
+  const character = scenario?.character;
+  return {
+    name: character?.name || DEFAULT_CHARACTER.name,
+    role: character?.role || DEFAULT_CHARACTER.role,
+    personality: character?.personality || DEFAULT_CHARACTER.personality,
+  };
+}
+
+function getScenarioPIs(scenario: any): string[] {
+  const pis = Array.isArray(scenario?.performanceIndicators) ? scenario.performanceIndicators : [];
+  const texts = pis.map((pi: any) => (typeof pi === "string" ? pi : pi?.pi)).filter(Boolean);
+  return texts.length > 0 ? texts : (Array.isArray(scenario?.objectives) ? scenario.objectives : []);
+}
+
+function buildSystemPrompt(scenario: any, character: JudgeCharacter): string {
+  const details = [
+    scenario?.description,
+    scenario?.context?.company && `Company: ${scenario.context.company}${scenario.context.industry ? ` (${scenario.context.industry})` : ""}`,
+    scenario?.context?.situation && `Situation: ${scenario.context.situation}`,
+    scenario?.character?.background && `Your background: ${scenario.character.background}`,
+    scenario?.context?.challenges?.length > 0 && `Concerns you have: ${scenario.context.challenges.join("; ")}`,
+  ].filter(Boolean);
+
+  return `You are ${character.name}, ${character.role}, meeting a high school student in a DECA role-play.
+Your personality: ${character.personality}.
+
+SCENARIO: ${scenario?.title || "DECA role-play"}
+${details.join("\n")}
+
+The student plays the role described in the scenario and is presenting their ideas to you. They should cover these performance indicators:
+${getScenarioPIs(scenario).map((pi, index) => `${index + 1}. ${pi}`).join("\n")}
+
+Rules:
+- Stay in character for the whole conversation and speak naturally, as in a real business meeting
+- Keep every reply to 1-3 sentences
+- Never score, coach or give feedback, and never mention performance indicators, judging or being an AI`;
+}
+
+type JudgeMove = "open" | "respond" | "object" | "closing-question" | "conclude";
+
+// The judge questions written for the scenario, asked as the closing questions when the scenario has them
+function getClosingQuestion(scenario: any, closingQuestion: number): string | undefined {
+  const questions = Array.isArray(scenario?.judgeQuestions) ? scenario.judgeQuestions : [];
+  const question = questions[closingQuestion - 1];
+  return typeof question === "string" && question ? question : undefined;
+}
+
+function moveInstruction(scenario: any, move: JudgeMove, closingQuestion: number): string {
+  switch (move) {
+    case "open":
+      return "Open the meeting: greet the student in character and ask them to share their ideas.";
+    case "respond":
+      return "React to what the student just said. If something is unclear, ask one short follow-up question; otherwise invite them to continue.";
+    case "object":
+      return "React to what the student just said, then raise one realistic objection or concern that someone with your personality would have about their idea (one of your concerns you have not raised yet, if any), and wait for them to address it.";
+    case "closing-question": {
+      const question = getClosingQuestion(scenario, closingQuestion);
+      if (question) {
+        return `The student has finished presenting. Ask closing question ${closingQuestion} of ${CLOSING_QUESTION_COUNT} in your own words: "${question}" Ask only the question.`;
+      }
+      return `The student has finished presenting. Ask closing question ${closingQuestion} of ${CLOSING_QUESTION_COUNT}: one question that probes the scenario's hardest issue or a performance indicator they covered least. Ask only the question.`;
+    }
+    case "conclude":
+      return "The meeting is over. Thank the student for their ideas and close the meeting in one or two sentences. Do not ask anything else.";
+  }
+}
+
+async function judgeReply(scenario: any, messages: JudgeMessage[], move: JudgeMove, closingQuestion = 0): Promise<JudgeMessage> {
+  const history: LLMMessage[] = messages.map(message => ({
+    role: message.role === "judge" ? "assistant" : "user",
+    content: message.content,
+  }));
+
+  const content = await getLLMProvider().complete({
+    task: "roleplay-judge",
+    messages: [
+      { role: "system", content: buildSystemPrompt(scenario, getJudgeCharacter(scenario)) },
+      ...history,
+      { role: "system", content: moveInstruction(scenario, move, closingQuestion) },
+    ],
+    temperature: 0.8,
+    maxTokens: 200,
+  });
+
+  return { role: "judge", content: content.trim() };
+}
+
+/**
+ * Start a conversation with the judge's in-character greeting
+ */
+export async function openJudgeConversation(scenario: any): Promise<JudgeConversationState> {
+  const greeting = await judgeReply(scenario, [], "open");
+  return { status: "presenting", messages: [greeting], closingQuestionsAsked: 0 };
+}
+
+/**
+ * Add the student's turn and the judge's reply
+ * While presenting the judge reacts, raising objections on alternate turns when includeObjections is set.
+ * Once the student finishes (or runs out of turns) the judge asks the closing questions one at a time,
+ * then concludes the meeting and the conversation is completed.
+ * @param studentMessage The student's turn; may be empty only when finishing the presentation
+ * @param finished True when the student is done presenting and ready for the closing questions
+ */
+export async function continueJudgeConversation(
+  scenario: any,
+  state: JudgeConversationState,
+  includeObjections: boolean,
+  studentMessage: string,
+  finished = false,
+): Promise<JudgeConversationState> {
+  if (state.status === "completed") {
+    throw new Error("The conversation is already completed");
+  }
+
+  const messages = studentMessage
+    ? [...state.messages, { role: "student" as const, content: studentMessage }]
+    : [...state.messages];
+  const studentTurns = messages.filter(message => message.role === "student").length;
+
+  if (state.status === "presenting" && !finished && studentTurns < MAX_PRESENTING_TURNS) {
+    const move = includeObjections && studentTurns % 2 === 1 ? "object" : "respond";
+    messages.push(await judgeReply(scenario, messages, move));
+    return { ...state, messages };
+  }
+
+  if (state.closingQuestionsAsked < CLOSING_QUESTION_COUNT) {
+    const closingQuestion = state.closingQuestionsAsked + 1;
+    messages.push(await judgeReply(scenario, messages, "closing-question", closingQuestion));
+    return { status: "closing", messages, closingQuestionsAsked: closingQuestion };
+  }
+
+  messages.push(await judgeReply(scenario, messages, "conclude"));
+  return { ...state, status: "completed", messages };
+}
+
+/**
+ * Format every turn as a labeled transcript for the roleplay grader
+ */
+export function formatJudgeTranscript(scenario: any, messages: JudgeMessage[]): string {
+  const judge = getJudgeCharacter(scenario).name;
+  return messages
+    .map(message => `${message.role === "judge" ? `JUDGE (${judge})` : "STUDENT"}: ${message.content}`)
+    .join("\n\n");
+}
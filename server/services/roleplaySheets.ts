@@ -0,0 +1,195 @@
+import PDFDocument from "pdfkit";
+import {
+  PI_MAX_SCORE,
+  PI_SCORE_LEVELS,
+  SKILL_MAX_SCORE,
+  SKILL_SCORE_LEVELS,
+  TWENTY_FIRST_CENTURY_SKILLS,
+  getRoleplayMaxScore,
+  type ScoreLevel,
+} from "@shared/roleplay-rubric";
+
+export const ROLEPLAY_SHEETS = ["participant", "judge"] as const;
+export type RoleplaySheet = typeof ROLEPLAY_SHEETS[number];
+
+// The fields of a generated scenario the sheets print; older scenarios may lack the official sections
+export interface RoleplaySheetScenario {
+  title?: string;
+  description?: string;
+  character?: { name?: string; role?: string; personality?: string; background?: string } | null;
+  context?: { situation?: string } | null;
+  performanceIndicators?: { code?: string; pi: string }[];
+  participantInstructions?: string[];
+  eventSituation?: string;
+  judgeInstructions?: string[];
+  judgeCharacterization?: string;
+  judgeQuestions?: string[];
+}
+
+const MARGIN = 50;
+const TABLE_FONT_SIZE = 8;
+const CELL_PADDING = 4;
+
+type Doc = PDFKit.PDFDocument;
+
+function renderPDF(draw: (doc: Doc) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: MARGIN });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    draw(doc);
+    doc.end();
+  });
+}
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - MARGIN * 2;
+}
+
+function header(doc: Doc, sheet: string, scenario: RoleplaySheetScenario, eventName: string) {
+  doc.font("Helvetica").fontSize(9).fillColor("#555555").text(`${eventName.toUpperCase()} · ${sheet.toUpperCase()}`);
+  doc.fillColor("black").font("Helvetica-Bold").fontSize(18).text(scenario.title || "DECA Role-Play");
+  doc.moveDown(0.5);
+}
+
+function heading(doc: Doc, text: string) {
+  doc.moveDown(0.8);
+  doc.font("Helvetica-Bold").fontSize(11).text(text.toUpperCase());
+  doc.moveDown(0.3);
+  doc.font("Helvetica").fontSize(10);
+}
+
+function paragraphs(doc: Doc, text: string) {
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    doc.text(paragraph.trim(), { align: "left" });
+    doc.moveDown(0.5);
+  }
+}
+
+function list(doc: Doc, items: string[], numbered = false) {
+  doc.list(items, { listType: numbered ? "numbered" : "bullet", bulletRadius: 2, textIndent: 12, paragraphGap: 3 });
+}
+
+function getSituation(scenario: RoleplaySheetScenario): string {
+  return scenario.eventSituation || scenario.context?.situation || scenario.description || "";
+}
+
+function getPITexts(scenario: RoleplaySheetScenario): string[] {
+  return (scenario.performanceIndicators || []).map(pi => pi.pi);
+}
+
+/**
+ * Draw one section of the evaluation form: a row per item with the score bands and an empty score box
+ */
+function scoreTable(doc: Doc, title: string, items: string[], levels: ScoreLevel[]) {
+  const width = contentWidth(doc);
+  const bandWidth = 64;
+  const scoreWidth = 40;
+  const itemWidth = width - bandWidth * levels.length - scoreWidth;
+  const columns = [itemWidth, ...levels.map(() => bandWidth), scoreWidth];
+
+  const row = (cells: string[], bold: boolean) => {
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(TABLE_FONT_SIZE);
+    const height = Math.max(...cells.map((cell, index) => doc.heightOfString(cell, { width: columns[index] - CELL_PADDING * 2 }))) + CELL_PADDING * 2;
+    if (doc.y + height > doc.page.height - MARGIN) {
+      doc.addPage();
+    }
+
+    const top = doc.y;
+    let left = MARGIN;
+    cells.forEach((cell, index) => {
+      doc.rect(left, top, columns[index], height).stroke();
+      doc.text(cell, left + CELL_PADDING, top + CELL_PADDING, {
+        width: columns[index] - CELL_PADDING * 2,
+        align: index === 0 ? "left" : "center",
+      });
+      left += columns[index];
+    });
+    doc.x = MARGIN;
+    doc.y = top + height;
+  };
+
+  row([title, ...levels.map(level => `${level.label}\n${level.min}-${level.max}`), "Score"], true);
+  items.forEach((item, index) => row([`${index + 1}. ${item}`, ...levels.map(() => ""), ""], false));
+}
+
+/**
+ * Render the participant's handout: instructions, 21st Century Skills, performance indicators and the event situation
+ */
+export function renderParticipantSheet(scenario: RoleplaySheetScenario, eventName: string): Promise<Buffer> {
+  return renderPDF(doc => {
+    header(doc, "Participant Instructions", scenario, eventName);
+
+    if (scenario.participantInstructions?.length) {
+      heading(doc, "Participant Instructions");
+      list(doc, scenario.participantInstructions);
+    }
+
+    heading(doc, "21st Century Skills");
+    list(doc, [...TWENTY_FIRST_CENTURY_SKILLS]);
+
+    const pis = getPITexts(scenario);
+    if (pis.length > 0) {
+      heading(doc, "Performance Indicators");
+      list(doc, pis);
+    }
+
+    heading(doc, "Event Situation");
+    paragraphs(doc, getSituation(scenario));
+  });
+}
+
+/**
+ * Render the judge's packet: instructions, the situation, the character to play, questions to ask and
+ * the evaluation form on the same 0-17 PI and 0-7 skill scales as the AI grader
+ */
+export function renderJudgeSheet(scenario: RoleplaySheetScenario, eventName: string): Promise<Buffer> {
+  return renderPDF(doc => {
+    header(doc, "Judge Instructions", scenario, eventName);
+
+    if (scenario.judgeInstructions?.length) {
+      heading(doc, "Judge Instructions");
+      list(doc, scenario.judgeInstructions);
+    }
+
+    heading(doc, "Event Situation");
+    paragraphs(doc, getSituation(scenario));
+
+    const character = scenario.character;
+    heading(doc, "Judge Characterization");
+    if (character?.name || character?.role) {
+      doc.font("Helvetica-Bold").text([character.name, character.role].filter(Boolean).join(", "));
+      doc.font("Helvetica");
+    }
+    if (character?.personality) {
+      doc.text(`Personality: ${character.personality}`);
+      doc.moveDown(0.5);
+    }
+    paragraphs(doc, scenario.judgeCharacterization || character?.background || "");
+
+    if (scenario.judgeQuestions?.length) {
+      heading(doc, "Suggested Questions");
+      list(doc, scenario.judgeQuestions, true);
+    }
+
+    const pis = getPITexts(scenario);
+    doc.addPage();
+    header(doc, "Judge's Evaluation Form", scenario, eventName);
+    doc.font("Helvetica").fontSize(10).text(
+      `Score each performance indicator from 0 to ${PI_MAX_SCORE} and each 21st Century Skill from 0 to ${SKILL_MAX_SCORE}.`,
+    );
+    doc.moveDown();
+    scoreTable(doc, "Did the participant:", pis, PI_SCORE_LEVELS);
+    doc.moveDown();
+    scoreTable(doc, "21st Century Skills", [...TWENTY_FIRST_CENTURY_SKILLS], SKILL_SCORE_LEVELS);
+    doc.moveDown();
+    doc.font("Helvetica-Bold").fontSize(11).text(`TOTAL SCORE: ______ / ${getRoleplayMaxScore(pis.length)}`, { align: "right" });
+    doc.moveDown();
+    doc.font("Helvetica").fontSize(10).text("Judge comments:");
+    doc.moveDown(4);
+    doc.text("Judge: ______________________________");
+  });
+}
@@ -0,0 +1,54 @@
+import type { Request, Response } from "express";
+
+// Comment lines keep proxies from closing a stream while the model is still thinking
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export interface EventStream {
+  // Aborted when the client disconnects, so in-flight model calls can be cancelled
+  readonly signal: AbortSignal;
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+// True when the client asked for server-sent events rather than a JSON response
+export function wantsEventStream(req: Request): boolean {
+  return req.accepts(["application/json", "text/event-stream"]) === "text/event-stream";
+}
+
+/**
+ * Switch the response to a server-sent event stream
+ * Every event's data is sent as JSON. Once the client disconnects the signal is aborted and further sends are dropped.
+ */
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  return {
+    signal: controller.signal,
+    send(event, data) {
+      if (res.writableEnded || controller.signal.aborted) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      clearInterval(heartbeat);
+      if (!res.writableEnded) {
+        res.end();
+      }
+    },
+  };
+}
@@ -1,24 +1,28 @@
 import {
-  SUBSCRIPTION_LIMITS,
-  PI_CATEGORIES,
-  DECA_EVENTS
+  SUBSCRIPTION_LIMITS
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { db, pool } from "./db";
-import { eq, desc, count, sql, asc, and, isNull, isNotNull } from "drizzle-orm";
+import { findExamCluster, getBlueprint, isCompetitionLevel, type ExamReadiness } from "@shared/blueprint";
+import { findEvent } from "@shared/deca-events";
+import { STORE_CATALOG } from "@shared/store-catalog";
+import { filterPIs, getPI, getPICoverageStatus, parsePICode, type PICoverage, type PICoverageStatus } from "@shared/pi-registry";
+import { buildAnalyticsReport, filterActivities, toActivities, type ActivityKind, type AnalyticsFilter, type AnalyticsInterval, type AnalyticsReport, type AnalyticsTimeRange } from "./services/analytics";
+import { USAGE_COLUMNS, getAllowance, getLimitReached, getNextResetDate, getTierLimits, getUsageStatus, isResetDue, type Allowance, type UsageKind, type UsageStatus } from "./quota";
+import { eq, desc, count, sql, asc, and, or, inArray, isNull, isNotNull, lt, lte, gt, gte } from "drizzle-orm";
 import { 
   users, performanceIndicators, practiceSessions,
   achievements, userAchievements, 
   dailyChallenges, userDailyChallenges,
-  breakSessions, miniGameScores,
+  breakSessions, studySessions, miniGameScores,
   cosmeticItems, userCosmetics, decitsTransactions,
-  testHistory, questionResults, learningInsights, roleplayHistory,
+  testHistory, questionResults, practiceTests, learningInsights, roleplayHistory, judgeSessions, chatConversations,
   topicMastery, quizSessions, enhancedLearningInsights,
-  gameSessionsDECABloc,
-  insertUserSchema, insertPerformanceIndicatorSchema, insertSessionSchema,
-  insertDailyChallengeSchema, insertBreakSessionSchema, insertMiniGameScoreSchema,
+  gameSessionsDECABloc, writtenEventPrompts, writtenEventFeedback,
+  insertUserSchema, insertPISchema, insertSessionSchema,
+  insertDailyChallengeSchema, insertBreakSessionSchema, insertStudySessionSchema, insertMiniGameScoreSchema,
   insertCosmeticItemSchema, insertTestHistorySchema, insertQuestionResultSchema, 
   insertLearningInsightSchema, insertRoleplayHistorySchema,
   insertTopicMasterySchema, insertQuizSessionSchema, insertEnhancedLearningInsightSchema,
@@ -27,10 +31,15 @@ import {
 import type {
   User, TestHistory, QuestionResult, LearningInsight, PracticeSession, PerformanceIndicator,
   Achievement, UserAchievement, DailyChallenge, UserDailyChallenge,
-  BreakSession, MiniGameScore, CosmeticItem, RoleplayHistory,
+  BreakSession, StudySession, StudyActivityType, MiniGameScore, CosmeticItem, UserCosmetic, DecitsTransaction, DecitsTransactionType, RoleplayHistory,
+  PracticeTest, InsertPracticeTest,
+  JudgeSession, InsertJudgeSession,
+  ChatConversation, InsertChatConversation,
   TopicMastery, QuizSession, EnhancedLearningInsight,
   GameSessionDECABloc, InsertGameSessionDECABloc,
-  InsertTopicMastery, InsertQuizSession, InsertEnhancedLearningInsight
+  InsertTopicMastery, InsertQuizSession, InsertEnhancedLearningInsight,
+  WrittenEventPrompt, InsertWrittenEventPrompt,
+  WrittenEventFeedback, InsertWrittenEventFeedback
 } from "@shared/schema";
 
 // Create session stores
@@ -44,10 +53,11 @@ type SessionStore = any;
 
 // Types for data operations
 type InsertUser = typeof insertUserSchema._type;
-type InsertPerformanceIndicator = typeof insertPerformanceIndicatorSchema._type;
+type InsertPerformanceIndicator = typeof insertPISchema._type;
 type InsertSession = typeof insertSessionSchema._type;
 type InsertDailyChallenge = typeof insertDailyChallengeSchema._type;
 type InsertBreakSession = typeof insertBreakSessionSchema._type;
+type InsertStudySession = typeof insertStudySessionSchema._type;
 type InsertMiniGameScore = typeof insertMiniGameScoreSchema._type;
 type InsertCosmeticItem = typeof insertCosmeticItemSchema._type;
 type InsertTestHistory = typeof insertTestHistorySchema._type;
@@ -55,6 +65,94 @@ type InsertQuestionResult = typeof insertQuestionResultSchema._type;
 type InsertLearningInsight = typeof insertLearningInsightSchema._type;
 type InsertRoleplayHistory = typeof insertRoleplayHistorySchema._type;
 
+// Profile fields that follow the auth provider's account
+export interface UserProfile {
+  email?: string | null;
+  fullName?: string | null;
+}
+
+// A 0-100 score for one PI from a graded answer or roleplay
+export interface PIScore {
+  code: string; // PI code, "CODE – text" string or exact PI text
+  score: number;
+}
+
+// Why the server is granting Decits, recorded in the ledger with the balance change
+export interface DecitsGrant {
+  type: Exclude<DecitsTransactionType, 'purchase'>;
+  description: string;
+  relatedId?: number; // Challenge, roleplay, etc.
+}
+
+// An autosaved change to one question of an in-progress test; a null answer clears it
+export interface TestAnswerChange {
+  answer?: string | null;
+  flagged?: boolean;
+}
+
+export interface RealtimeProgress {
+  activeSession: StudySession | null;
+  activeSeconds: number; // Time so far in the running session
+  todayStudyTime: number; // In seconds, including the running session
+  weekStudyTime: number; // Over the last 7 days, including the running session
+  sessionsToday: number;
+  dailyGoal: number; // In seconds
+  dailyGoalProgress: number; // Percentage 0-100
+  streak: number;
+  level: number;
+  experience: number;
+  decits: number;
+}
+
+export interface LearningPath {
+  steps: any[]; // Personalized recommendations, most urgent first
+  weeklyStudyTime: number; // In seconds, over the last 7 days
+  averageFocusScore: number | null; // null when no session this week was scored
+  studyTimeByActivity: Record<string, number>;
+}
+
+export type CosmeticPurchase =
+  | { status: 'purchased'; user: User; cosmetic: UserCosmetic }
+  | { status: 'owned' }
+  | { status: 'insufficient-decits' };
+
+// Columns of the user row that students change themselves, with the type each accepts
+const USER_SETTINGS_FIELDS = {
+  eventFormat: 'string',
+  eventCode: 'string',
+  eventType: 'string',
+  instructionalArea: 'string',
+  uiTheme: 'string',
+  colorScheme: 'string',
+  theme: 'string',
+  selectedEvent: 'string',
+  selectedCluster: 'string',
+  onboardingCompleted: 'boolean',
+  showTutorial: 'boolean',
+} as const;
+
+export type UserSettings = Partial<Pick<User, keyof typeof USER_SETTINGS_FIELDS>>;
+
+// Keep only the settings fields, so a request body can't set the tier, Decits or usage counters
+function pickUserSettings(settings: Record<string, unknown>): UserSettings {
+  const picked: Record<string, unknown> = {};
+  for (const [field, type] of Object.entries(USER_SETTINGS_FIELDS)) {
+    const value = settings[field];
+    if (typeof value === type || (value === null && type === 'string')) picked[field] = value;
+  }
+  return picked as UserSettings;
+}
+
+// Share of each new score folded into a PI's mastery once the first few attempts have set a baseline
+const PI_MASTERY_WEIGHT = 0.3;
+
+// A study session counts for at most this long, so one left running overnight doesn't inflate study time
+const MAX_STUDY_SESSION_SECONDS = 4 * 60 * 60;
+// Target of the study_time daily challenge, also the daily goal in real-time progress
+const DAILY_STUDY_GOAL_SECONDS = 30 * 60;
+// Minutes suggested for a learning path step of each priority
+const LEARNING_STEP_MINUTES: Record<string, number> = { high: 30, medium: 20, low: 10 };
+
 // Interface for storage methods
 export interface IStorage {
   // Session store for authentication
@@ -67,29 +165,40 @@ export interface IStorage {
   getUserByAuthId(authId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateLastLogin(id: number, date: Date): Promise<User | undefined>;
-  updateUserSettings(id: number, settings: { 
-    eventFormat?: string, 
-    eventCode?: string,
-    eventType?: string,
-    instructionalArea?: string,
-    theme?: string,
-    selectedEvent?: string,
-    selectedCluster?: string,
-    onboardingCompleted?: boolean,
-    showTutorial?: boolean
-  }): Promise<User | undefined>;
+  updateUserSettings(id: number, settings: UserSettings): Promise<User | undefined>;
+  updateUserProfile(id: number, profile: UserProfile): Promise<User | undefined>;
   updateSubscription(id: number, tier: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(customerId: string): Promise<User | undefined>;
+  updateStripeIds(id: number, ids: Partial<Pick<User, 'stripeCustomerId' | 'stripeSubscriptionId'>>): Promise<User | undefined>;
+  updateUserSession(userId: number, sessionData: any): Promise<User | undefined>;
+  recordTestCompletion(userId: number, testData: any): Promise<boolean>;
+  // Points and Decits are only earned when rewarded; a self-reported score is counted without them
+  recordRoleplayCompletion(userId: number, roleplayData: any, rewarded?: boolean): Promise<boolean>;
   
   // Performance Indicators methods
   getUserPIs(userId: number, category?: string): Promise<PerformanceIndicator[]>;
   updatePIStatus(userId: number, piId: number, status: string): Promise<boolean>;
+  recordPIScores(userId: number, scores: PIScore[]): Promise<PerformanceIndicator[]>;
+  getPICoverage(userId: number, event: string): Promise<PICoverage>;
   
   // Practice session methods
   createSession(session: InsertSession): Promise<PracticeSession>;
   getUserSessions(userId: number, type?: string): Promise<PracticeSession[]>;
   getSessionsByDateRange(userId: number, startDate: Date, endDate: Date): Promise<PracticeSession[]>;
   recordPracticeSession(session: InsertSession): Promise<PracticeSession>;
+  
+  // Subscription usage quotas
+  checkTestAllowance(userId: number): Promise<Allowance>;
+  checkRoleplayAllowance(userId: number): Promise<Allowance>;
+  checkWrittenEventAllowance(userId: number): Promise<Allowance>;
+  recordTestGeneration(userId: number): Promise<boolean>;
   recordRoleplayGeneration(userId: number): Promise<void>;
+  recordWrittenEventSubmission(userId: number): Promise<boolean>;
+  // Count one use before generating, if the tier has one left, so concurrent requests can't all pass the limit
+  reserveUsage(userId: number, kind: UsageKind): Promise<Allowance>;
+  // Give back a reserved use whose generation failed
+  refundUsage(userId: number, kind: UsageKind): Promise<void>;
+  getUsage(userId: number): Promise<{ tier: string } & Record<UsageKind, UsageStatus> | undefined>;
   
   // User analytics and progress tracking
   getUserProgress(userId: number): Promise<{
@@ -107,6 +216,16 @@ export interface IStorage {
     monthlyProgress: { month: string; sessions: number; avgScore: number }[];
     recentAchievements: Achievement[];
   }>;
+  getUserStats(userId: number): Promise<any>;
+  // Tests, roleplays and practice sessions over the time range, bucketed by interval, with growth over the previous period
+  getAnalytics(userId: number, timeRange: AnalyticsTimeRange, filter?: AnalyticsFilter, interval?: AnalyticsInterval): Promise<AnalyticsReport>;
+  getUserActivities(userId: number): Promise<any[]>;
+  getLearningItems(userId: number): Promise<any[]>;
+  getUserComprehensiveStats(userId: number, timeRange: string): Promise<any>;
+  getUserPerformanceAnalytics(userId: number, timeRange: string): Promise<any>;
+  getUserStudyPatterns(userId: number, timeRange: string): Promise<any>;
+  getUserCategoryBreakdown(userId: number): Promise<any>;
+  getExamReadiness(userId: number, cluster: string, level: string): Promise<ExamReadiness | undefined>;
   
   // Achievements
   getAchievements(): Promise<Achievement[]>;
@@ -122,8 +241,18 @@ export interface IStorage {
   getTodayChallenge(): Promise<DailyChallenge | undefined>;
   getUserDailyChallenges(userId: number): Promise<UserDailyChallenge[]>;
   completeChallenge(userId: number, challengeId: number, progress: number): Promise<UserDailyChallenge>;
+  getDailyChallenge(userId: number): Promise<any>;
   createDailyChallenge(challenge: InsertDailyChallenge): Promise<DailyChallenge>;
   
+  // Study sessions, timed on the server
+  startStudySession(userId: number, activityType: StudyActivityType, focusScore?: number): Promise<StudySession>;
+  // End a running session; undefined when it isn't the user's or has already ended
+  endStudySession(userId: number, sessionId: number, focusScore?: number): Promise<StudySession | undefined>;
+  getStudySession(userId: number, id: number): Promise<StudySession | undefined>;
+  getStudySessions(userId: number, since?: Date): Promise<StudySession[]>;
+  getRealtimeProgress(userId: number): Promise<RealtimeProgress>;
+  getPersonalizedLearningPath(userId: number): Promise<LearningPath>;
+
   // Break sessions and mini-games
   createBreakSession(session: InsertBreakSession): Promise<BreakSession>;
   getUserBreakSessions(userId: number): Promise<BreakSession[]>;
@@ -131,8 +260,7 @@ export interface IStorage {
   getUserMiniGameScores(userId: number, gameType?: string): Promise<MiniGameScore[]>;
   
   // Points and currency
-  addDecits(userId: number, amount: number): Promise<User | undefined>;
-  spendDecits(userId: number, amount: number): Promise<User | undefined>;
+  addDecits(userId: number, amount: number, grant: DecitsGrant): Promise<User | undefined>;
   addExperience(userId: number, amount: number): Promise<User | undefined>;
   updateStreak(userId: number, streak: number): Promise<User | undefined>;
   
@@ -141,8 +269,23 @@ export interface IStorage {
   // Test Results and Learning Analytics
   saveTestHistory(result: InsertTestHistory): Promise<TestHistory>;
   getUserTestHistory(userId: number, testType?: string): Promise<TestHistory[]>;
+  getTestHistory(userId: number, id: number): Promise<TestHistory | undefined>;
   saveQuestionResult(result: InsertQuestionResult): Promise<QuestionResult>;
   getUserQuestionResults(userId: number, testHistoryId?: number): Promise<QuestionResult[]>;
+  saveQuestionResults(testHistoryId: number, userId: number, questions: any[], userAnswers: Record<number, string>): Promise<QuestionResult[]>;
+  getTestQuestionResults(testHistoryId: number): Promise<QuestionResult[]>;
+  createPracticeTest(test: InsertPracticeTest): Promise<PracticeTest>;
+  getPracticeTest(userId: number, id: number): Promise<PracticeTest | undefined>;
+  getInProgressExam(userId: number): Promise<PracticeTest | undefined>;
+  getExpiredPracticeTests(deadline: Date): Promise<PracticeTest[]>;
+  // Autosave one answer or review flag; undefined once the test is submitted or its time is up
+  saveTestAnswer(id: number, questionId: number, change: TestAnswerChange): Promise<PracticeTest | undefined>;
+  // Mark the test submitted; undefined when it already was, so each test is scored once
+  submitPracticeTest(id: number): Promise<PracticeTest | undefined>;
+  // Reopen a test whose scoring failed, removing the history written for it so it can be scored again
+  releasePracticeTest(id: number, testHistoryId?: number): Promise<void>;
+  updatePracticeTest(id: number, changes: Partial<Pick<PracticeTest, 'testHistoryId'>>): Promise<PracticeTest | undefined>;
+  getUserWeakTopics(userId: number): Promise<{ topic: string, wrongCount: number, totalCount: number }[]>;
   generateLearningInsights(userId: number): Promise<LearningInsight[]>;
   getUserLearningInsights(userId: number): Promise<LearningInsight[]>;
   getPersonalizedTopics(userId: number): Promise<{ weak: string[], strong: string[] }>;
@@ -151,6 +294,26 @@ export interface IStorage {
   // Roleplay history methods
   createRoleplaySession(session: InsertRoleplayHistory): Promise<RoleplayHistory>;
   getRoleplayHistory(userId: number): Promise<RoleplayHistory[]>;
+  getRoleplaySession(userId: number, id: number): Promise<RoleplayHistory | undefined>;
+
+  // Judge conversation methods
+  createJudgeSession(session: InsertJudgeSession): Promise<JudgeSession>;
+  getJudgeSession(userId: number, id: number): Promise<JudgeSession | undefined>;
+  updateJudgeSession(id: number, changes: Partial<Pick<JudgeSession, 'status' | 'messages' | 'closingQuestionsAsked'>>): Promise<JudgeSession | undefined>;
+
+  // Cosmetics store and Decits ledger
+  getCosmeticItems(): Promise<CosmeticItem[]>;
+  getCosmeticItem(id: number): Promise<CosmeticItem | undefined>;
+  getUserCosmetics(userId: number): Promise<UserCosmetic[]>;
+  purchaseCosmetic(userId: number, item: CosmeticItem): Promise<CosmeticPurchase>;
+  setCosmeticEquipped(userId: number, item: CosmeticItem, equipped: boolean): Promise<UserCosmetic | undefined>;
+  getDecitsTransactions(userId: number): Promise<DecitsTransaction[]>;
+
+  // Diego chat conversations
+  createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation>;
+  getChatConversation(userId: number, id: number): Promise<ChatConversation | undefined>;
+  getUserChatConversations(userId: number): Promise<ChatConversation[]>;
+  updateChatConversation(id: number, changes: Partial<Pick<ChatConversation, 'messages' | 'unrelatedCount' | 'closedAt'>>): Promise<ChatConversation | undefined>;
   
   // Enhanced personalized learning methods
   getTopicMastery(userId: number): Promise<TopicMastery[]>;
@@ -171,181 +334,198 @@ export interface IStorage {
   getUserGameSessionsDECABloc(userId: number): Promise<GameSessionDECABloc[]>;
   updateUserStats(userId: number, updates: { points?: number; experience?: number }): Promise<void>;
 
+  // Written event methods
+  createWrittenEventPrompt(prompt: InsertWrittenEventPrompt): Promise<WrittenEventPrompt>;
+  getWrittenEventPrompt(id: number): Promise<WrittenEventPrompt | undefined>;
+  createWrittenEventFeedback(feedback: InsertWrittenEventFeedback): Promise<WrittenEventFeedback>;
+  getWrittenEventFeedback(id: number): Promise<WrittenEventFeedback | undefined>;
+  getUserWrittenEventFeedback(userId: number): Promise<WrittenEventFeedback[]>;
+
   // Leaderboard removed (personalization-first)
 }
 
-// Database Storage Implementation
-export class DatabaseStorage implements IStorage {
-  sessionStore: SessionStore;
-
-  constructor() {
-    this.sessionStore = new PostgresSessionStore({
-      pool: pool as any,
-      tableName: 'session'
-    });
+// Logic shared by every storage driver. Drivers supply the data access declared
+// abstract here; progress, achievement, analytics and recommendation logic is built on top.
+abstract class BaseStorage {
+  abstract getUser(id: number): Promise<User | undefined>;
+  abstract getUserPIs(userId: number, category?: string): Promise<PerformanceIndicator[]>;
+  abstract getUserSessions(userId: number, type?: string): Promise<PracticeSession[]>;
+  abstract getSessionsByDateRange(userId: number, startDate: Date, endDate: Date): Promise<PracticeSession[]>;
+  abstract getAchievements(): Promise<Achievement[]>;
+  abstract getUserAchievements(userId: number): Promise<UserAchievement[]>;
+  abstract awardAchievement(userId: number, achievementId: number): Promise<UserAchievement>;
+  abstract getTodayChallenge(): Promise<DailyChallenge | undefined>;
+  abstract getUserDailyChallenges(userId: number): Promise<UserDailyChallenge[]>;
+  abstract createDailyChallenge(challenge: InsertDailyChallenge): Promise<DailyChallenge>;
+  abstract completeChallenge(userId: number, challengeId: number, progress: number): Promise<UserDailyChallenge>;
+  abstract getStudySession(userId: number, id: number): Promise<StudySession | undefined>;
+  abstract getStudySessions(userId: number, since?: Date): Promise<StudySession[]>;
+  abstract getUserTestHistory(userId: number, testType?: string): Promise<TestHistory[]>;
+  abstract getRoleplayHistory(userId: number): Promise<RoleplayHistory[]>;
+  abstract getTopicMastery(userId: number): Promise<TopicMastery[]>;
+  abstract getQuizSessions(userId: number): Promise<QuizSession[]>;
+  abstract getAdaptiveDifficulty(userId: number, topic: string): Promise<string>;
+  protected abstract recordUsage(userId: number, kind: UsageKind): Promise<boolean>;
+  protected abstract replaceLearningInsights(userId: number, insights: InsertLearningInsight[]): Promise<LearningInsight[]>;
+  protected abstract saveEnhancedInsights(insights: InsertEnhancedLearningInsight[]): Promise<EnhancedLearningInsight[]>;
+  protected abstract insertQuestionResults(results: InsertQuestionResult[]): Promise<QuestionResult[]>;
+  // Insert or replace the user's row for pi.piCode
+  protected abstract savePIMastery(pi: InsertPerformanceIndicator): Promise<PerformanceIndicator>;
+  protected abstract insertStudySession(session: InsertStudySession): Promise<StudySession>;
+  // Record the end of a session; undefined when it had already ended
+  protected abstract finishStudySession(id: number, changes: Pick<StudySession, 'endedAt' | 'duration' | 'focusScore'>): Promise<StudySession | undefined>;
+  protected abstract listCosmeticItems(): Promise<CosmeticItem[]>;
+  // Add catalog items, skipping any whose name is already taken
+  protected abstract insertCosmeticItems(items: InsertCosmeticItem[]): Promise<void>;
+
+  // The store catalog, stocked with STORE_CATALOG the first time it is read
+  async getCosmeticItems(): Promise<CosmeticItem[]> {
+    const items = await this.listCosmeticItems();
+    if (items.length > 0) return items;
+
+    await this.insertCosmeticItems(STORE_CATALOG);
+    return this.listCosmeticItems();
   }
 
-  async getUser(id: number): Promise<User | undefined> {
-    try {
-      const [user] = await db.select().from(users).where(eq(users.id, id));
-      return user;
-    } catch (error) {
-      console.error('Error getting user:', error);
-      return undefined;
+  // The test's autosaved answers and review flags with one question's change applied
+  protected applyTestAnswer(test: PracticeTest, questionId: number, change: TestAnswerChange): Pick<PracticeTest, 'answers' | 'flaggedQuestions'> {
+    const answers: Record<number, string> = JSON.parse(test.answers);
+    if (change.answer === null) {
+      delete answers[questionId];
+    } else if (change.answer !== undefined) {
+      answers[questionId] = change.answer;
     }
-  }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    try {
-      const [user] = await db.select().from(users).where(eq(users.username, username));
-      return user;
-    } catch (error) {
-      console.error('Error getting user by username:', error);
-      return undefined;
+    let flagged: number[] = JSON.parse(test.flaggedQuestions);
+    if (change.flagged !== undefined) {
+      flagged = flagged.filter(id => id !== questionId);
+      if (change.flagged) flagged.push(questionId);
     }
-  }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    try {
-      const [user] = await db.select().from(users).where(eq(users.email, email));
-      return user;
-    } catch (error) {
-      console.error('Error getting user by email:', error);
-      return undefined;
-    }
+    return { answers: JSON.stringify(answers), flaggedQuestions: JSON.stringify(flagged) };
   }
 
-  async getUserByAuthId(authId: string): Promise<User | undefined> {
-    try {
-      const [user] = await db.select().from(users).where(eq(users.authId, authId));
-      return user;
-    } catch (error) {
-      console.error('Error getting user by auth ID:', error);
-      return undefined;
+  // Turn answered test questions into question result rows
+  protected buildQuestionResults(testHistoryId: number, userId: number, questions: any[], userAnswers: Record<number, string>): InsertQuestionResult[] {
+    const results: InsertQuestionResult[] = [];
+    
+    for (const question of questions) {
+      const userAnswerLetter = userAnswers[question.id] || '';
+      const isCorrect = userAnswerLetter === question.answer;
+      
+      // Get full text for user's answer and correct answer
+      const userAnswerText = question.options && question.options[userAnswerLetter] ? 
+        `${userAnswerLetter}) ${question.options[userAnswerLetter]}` : userAnswerLetter;
+      const correctAnswerText = question.options && question.options[question.answer] ? 
+        `${question.answer}) ${question.options[question.answer]}` : question.answer;
+      
+      // Use instructional_area from question metadata, fallback to category, then General
+      const topic = question.instructional_area || question.category || question.topic || 'General';
+      const piCodes: string[] = (question.pi_codes || []).map((code: string) => parsePICode(code)).filter(Boolean);
+      
+      const questionResult = {
+        testHistoryId,
+        userId,
+        questionText: question.stem,
+        correctAnswer: correctAnswerText,
+        userAnswer: userAnswerText,
+        isCorrect,
+        topic: topic,
+        piCodes,
+        explanation: question.explanation || '',
+        answeredAt: new Date()
+      };
+      
+      results.push(questionResult);
     }
-  }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(insertUser)
-      .returning();
-    return user;
+    return results;
   }
 
+  async saveQuestionResults(testHistoryId: number, userId: number, questions: any[], userAnswers: Record<number, string>): Promise<QuestionResult[]> {
+    const saved = await this.insertQuestionResults(this.buildQuestionResults(testHistoryId, userId, questions, userAnswers));
 
-
-  async updateLastLogin(id: number, date: Date): Promise<User | undefined> {
     try {
-      const [user] = await db
-        .update(users)
-        .set({ lastLogin: date })
-        .where(eq(users.id, id))
-        .returning();
-      return user;
+      await this.recordPIScores(userId, saved.flatMap(result =>
+        (result.piCodes || []).map(code => ({ code, score: result.isCorrect ? 100 : 0 }))
+      ));
     } catch (error) {
-      console.error('Error updating last login:', error);
-      return undefined;
+      console.error('Error updating PI mastery from question results:', error);
     }
-  }
 
-  async updateUserSettings(id: number, settings: { 
-    eventFormat?: string, 
-    eventCode?: string,
-    eventType?: string,
-    instructionalArea?: string,
-    theme?: string,
-    selectedEvent?: string,
-    selectedCluster?: string,
-    onboardingCompleted?: boolean,
-    showTutorial?: boolean
-  }): Promise<User | undefined> {
-    try {
-      const [user] = await db
-        .update(users)
-        .set(settings)
-        .where(eq(users.id, id))
-        .returning();
-      return user;
-    } catch (error) {
-      console.error('Error updating user settings:', error);
-      return undefined;
-    }
+    return saved;
   }
 
-  async updateSubscription(id: number, tier: string): Promise<User | undefined> {
-    try {
-      const [user] = await db
-        .update(users)
-        .set({ subscriptionTier: tier })
-        .where(eq(users.id, id))
-        .returning();
-      return user;
-    } catch (error) {
-      console.error('Error updating subscription:', error);
-      return undefined;
+  // Fold new scores into each PI's mastery. The first attempts move it quickly, later ones at PI_MASTERY_WEIGHT.
+  async recordPIScores(userId: number, scores: PIScore[]): Promise<PerformanceIndicator[]> {
+    const scoresByCode = new Map<string, number[]>();
+    for (const { code, score } of scores) {
+      const entry = getPI(code);
+      if (!entry || !Number.isFinite(score)) continue;
+      scoresByCode.set(entry.code, [...(scoresByCode.get(entry.code) || []), Math.min(Math.max(score, 0), 100)]);
     }
-  }
+    if (scoresByCode.size === 0) return [];
 
-  async recordTestCompletion(userId: number, testData: any): Promise<boolean> {
-    try {
-      const user = await this.getUser(userId);
-      if (!user) return false;
+    const existing = new Map((await this.getUserPIs(userId)).map(pi => [pi.piCode, pi]));
+    const updated: PerformanceIndicator[] = [];
 
-      // Update user's test completion count and points
-      const newTestCount = (user.testsCompleted || 0) + 1;
-      const pointsEarned = Math.floor((testData.score || 0) * 0.5);
-      const newPoints = (user.points || 0) + pointsEarned;
-      const newDecits = (user.decits || 0) + Math.floor(pointsEarned * 0.1); // 10% of points as DECITS
+    for (const [code, codeScores] of Array.from(scoresByCode)) {
+      const entry = getPI(code)!;
+      const current = existing.get(code);
+      let masteryLevel = current?.masteryLevel ?? 0;
+      let attempts = current?.attempts ?? 0;
 
-      await db
-        .update(users)
-        .set({ 
-          testsCompleted: newTestCount,
-          points: newPoints,
-          decits: newDecits
-        })
-        .where(eq(users.id, userId));
+      for (const score of codeScores) {
+        attempts++;
+        masteryLevel += (score - masteryLevel) * Math.max(PI_MASTERY_WEIGHT, 1 / attempts);
+      }
 
-      return true;
-    } catch (error) {
-      console.error('Error recording test completion:', error);
-      return false;
+      updated.push(await this.savePIMastery({
+        userId,
+        piCode: code,
+        indicator: entry.text,
+        category: entry.instructionalArea,
+        status: current?.status && current.status !== 'not_started' ? current.status : 'in_progress',
+        masteryLevel: Math.round(masteryLevel * 10) / 10,
+        attempts,
+        lastScore: codeScores[codeScores.length - 1],
+        lastPracticed: new Date(),
+      }));
     }
-  }
-
-  async recordRoleplayCompletion(userId: number, roleplayData: any): Promise<boolean> {
-    try {
-      const user = await this.getUser(userId);
-      if (!user) return false;
 
-      // Update user's roleplay completion count and points
-      const newRoleplayCount = (user.roleplaysCompleted || 0) + 1;
-      const pointsEarned = Math.floor((roleplayData.score || 70) * 0.4); // Default score of 70 if none provided
-      const newPoints = (user.points || 0) + pointsEarned;
-      const newDecits = (user.decits || 0) + Math.floor(pointsEarned * 0.15); // 15% of points as DECITS
+    return updated;
+  }
 
-      await db
-        .update(users)
-        .set({ 
-          roleplaysCompleted: newRoleplayCount,
-          points: newPoints,
-          decits: newDecits
-        })
-        .where(eq(users.id, userId));
+  // An event outside the catalog has no PI list, so its coverage is empty
+  async getPICoverage(userId: number, event: string): Promise<PICoverage> {
+    const decaEvent = findEvent(event);
+    const counts: Record<PICoverageStatus, number> = { unpracticed: 0, weak: 0, practiced: 0, mastered: 0 };
+    if (!decaEvent) return { event, eventName: event, total: 0, counts, pis: [] };
+
+    const mastery = new Map((await this.getUserPIs(userId)).map(pi => [pi.piCode, pi]));
+    const pis = filterPIs({ event: decaEvent.code }).map(entry => {
+      const record = mastery.get(entry.code);
+      const masteryLevel = record?.masteryLevel ?? 0;
+      const attempts = record?.attempts ?? 0;
+      const status = getPICoverageStatus(masteryLevel, attempts);
+      counts[status]++;
+      return {
+        code: entry.code,
+        text: entry.text,
+        instructionalArea: entry.instructionalArea,
+        status,
+        masteryLevel,
+        attempts,
+        lastPracticed: record?.lastPracticed ?? null,
+      };
+    });
 
-      return true;
-    } catch (error) {
-      console.error('Error recording roleplay completion:', error);
-      return false;
-    }
+    return { event: decaEvent.code, eventName: decaEvent.name, total: pis.length, counts, pis };
   }
 
   async recordRoleplayGeneration(userId: number): Promise<void> {
     try {
-      // This could record the generation event for analytics
-      // For now, just log it
-      console.log(`Roleplay generation recorded for user ${userId}`);
+      await this.recordUsage(userId, 'roleplays');
     } catch (error) {
       console.error('Error recording roleplay generation:', error);
     }
@@ -353,120 +533,22 @@ export class DatabaseStorage implements IStorage {
 
   async recordTestGeneration(userId: number): Promise<boolean> {
     try {
-      // This could record the test generation event for analytics
-      // For now, just return true
-      return true;
+      return await this.recordUsage(userId, 'tests');
     } catch (error) {
       console.error('Error recording test generation:', error);
       return false;
     }
   }
 
-  async updateUserSession(userId: number, sessionData: any): Promise<User | undefined> {
-    try {
-      const [user] = await db
-        .update(users)
-        .set({ 
-          lastLogin: new Date(),
-          ...sessionData
-        })
-        .where(eq(users.id, userId))
-        .returning();
-      return user;
-    } catch (error) {
-      console.error('Error updating user session:', error);
-      return undefined;
-    }
-  }
-
-  async getUserPIs(userId: number, category?: string): Promise<PerformanceIndicator[]> {
-    try {
-      if (category) {
-        return await db
-          .select()
-          .from(performanceIndicators)
-          .where(and(eq(performanceIndicators.userId, userId), eq(performanceIndicators.category, category)));
-      }
-      
-      return await db
-        .select()
-        .from(performanceIndicators)
-        .where(eq(performanceIndicators.userId, userId));
-    } catch (error) {
-      console.error('Error getting user PIs:', error);
-      return [];
-    }
-  }
-
-  async updatePIStatus(userId: number, piId: number, status: string): Promise<boolean> {
+  async recordWrittenEventSubmission(userId: number): Promise<boolean> {
     try {
-      await db
-        .update(performanceIndicators)
-        .set({ status, lastPracticed: new Date() })
-        .where(and(eq(performanceIndicators.id, piId), eq(performanceIndicators.userId, userId)));
-      return true;
+      return await this.recordUsage(userId, 'writtenEvents');
     } catch (error) {
-      console.error('Error updating PI status:', error);
+      console.error('Error recording written event submission:', error);
       return false;
     }
   }
 
-  async createSession(insertSession: InsertSession): Promise<PracticeSession> {
-    const [session] = await db
-      .insert(practiceSessions)
-      .values(insertSession)
-      .returning();
-    return session;
-  }
-
-  async getUserSessions(userId: number, type?: string): Promise<PracticeSession[]> {
-    try {
-      if (type) {
-        return await db
-          .select()
-          .from(practiceSessions)
-          .where(and(eq(practiceSessions.userId, userId), eq(practiceSessions.type, type)))
-          .orderBy(desc(practiceSessions.completedAt));
-      }
-      
-      return await db
-        .select()
-        .from(practiceSessions)
-        .where(eq(practiceSessions.userId, userId))
-        .orderBy(desc(practiceSessions.completedAt));
-    } catch (error) {
-      console.error('Error getting user sessions:', error);
-      return [];
-    }
-  }
-
-  async getSessionsByDateRange(userId: number, startDate: Date, endDate: Date): Promise<PracticeSession[]> {
-    try {
-      return await db
-        .select()
-        .from(practiceSessions)
-        .where(
-          and(
-            eq(practiceSessions.userId, userId),
-            sql`${practiceSessions.completedAt} >= ${startDate}`,
-            sql`${practiceSessions.completedAt} <= ${endDate}`
-          )
-        )
-        .orderBy(desc(practiceSessions.completedAt));
-    } catch (error) {
-      console.error('Error getting sessions by date range:', error);
-      return [];
-    }
-  }
-
-  async recordPracticeSession(insertSession: InsertSession): Promise<PracticeSession> {
-    const [session] = await db
-      .insert(practiceSessions)
-      .values(insertSession)
-      .returning();
-    return session;
-  }
-
   async getUserProgress(userId: number): Promise<{
     totalStudyTime: number;
     testsCompleted: number;
@@ -489,6 +571,7 @@ export class DatabaseStorage implements IStorage {
 
       // Get sessions data for analysis
       const sessions = await this.getUserSessions(userId);
+      const studySessions = await this.getStudySessions(userId);
       const pis = await this.getUserPIs(userId);
 
       // Calculate monthly progress
@@ -507,7 +590,7 @@ export class DatabaseStorage implements IStorage {
         .filter(Boolean) as Achievement[];
 
       return {
-        totalStudyTime: user.totalStudyTime || 0,
+        totalStudyTime: this.sumStudyTime(studySessions),
         testsCompleted: user.testsCompleted || 0,
         roleplaysCompleted: user.roleplaysCompleted || 0,
         averageTestScore: user.averageTestScore || 0,
@@ -564,7 +647,7 @@ export class DatabaseStorage implements IStorage {
         categoryStats[pi.category] = { mastered: 0, total: 0 };
       }
       categoryStats[pi.category].total++;
-      if (pi.status === 'mastered') {
+      if (getPICoverageStatus(pi.masteryLevel ?? 0, pi.attempts ?? 0) === 'mastered') {
         categoryStats[pi.category].mastered++;
       }
     });
@@ -582,57 +665,7 @@ export class DatabaseStorage implements IStorage {
     return { strongestAreas, improvementAreas };
   }
 
-  async getAchievements(): Promise<Achievement[]> {
-    try {
-      return await db.select().from(achievements).orderBy(asc(achievements.tier), asc(achievements.points));
-    } catch (error) {
-      console.error('Error getting achievements:', error);
-      return [];
-    }
-  }
-
-  async getUserAchievements(userId: number): Promise<UserAchievement[]> {
-    try {
-      return await db
-        .select()
-        .from(userAchievements)
-        .where(eq(userAchievements.userId, userId))
-        .orderBy(desc(userAchievements.earnedAt));
-    } catch (error) {
-      console.error('Error getting user achievements:', error);
-      return [];
-    }
-  }
-
-  async awardAchievement(userId: number, achievementId: number): Promise<UserAchievement> {
-    const [userAchievement] = await db
-      .insert(userAchievements)
-      .values({
-        userId,
-        achievementId,
-        earnedAt: new Date(),
-        progress: 100,
-        isDisplayed: true,
-        seasonEarned: this.getCurrentSeason()
-      })
-      .returning();
-    return userAchievement;
-  }
-
-  async updateAchievementDisplay(userId: number, achievementId: number, displayed: boolean): Promise<boolean> {
-    try {
-      await db
-        .update(userAchievements)
-        .set({ isDisplayed: displayed })
-        .where(and(eq(userAchievements.userId, userId), eq(userAchievements.achievementId, achievementId)));
-      return true;
-    } catch (error) {
-      console.error('Error updating achievement display:', error);
-      return false;
-    }
-  }
-
-  private getCurrentSeason(): string {
+  protected getCurrentSeason(): string {
     const now = new Date();
     const year = now.getFullYear();
     const month = now.getMonth();
@@ -643,191 +676,6 @@ export class DatabaseStorage implements IStorage {
     return `Summer ${year}`;
   }
 
-  async getDailyChallenges(): Promise<DailyChallenge[]> {
-    try {
-      return await db
-        .select()
-        .from(dailyChallenges)
-        .where(eq(dailyChallenges.isActive, true))
-        .orderBy(desc(dailyChallenges.date));
-    } catch (error) {
-      console.error('Error getting daily challenges:', error);
-      return [];
-    }
-  }
-
-  async getTodayChallenge(): Promise<DailyChallenge | undefined> {
-    try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const [challenge] = await db
-        .select()
-        .from(dailyChallenges)
-        .where(
-          and(
-            eq(dailyChallenges.isActive, true),
-            sql`date(${dailyChallenges.date}) = date(${today})`
-          )
-        );
-      return challenge;
-    } catch (error) {
-      console.error('Error getting today\'s challenge:', error);
-      return undefined;
-    }
-  }
-
-  async getUserDailyChallenges(userId: number): Promise<UserDailyChallenge[]> {
-    try {
-      return await db
-        .select()
-        .from(userDailyChallenges)
-        .where(eq(userDailyChallenges.userId, userId))
-        .orderBy(desc(userDailyChallenges.attemptDate));
-    } catch (error) {
-      console.error('Error getting user daily challenges:', error);
-      return [];
-    }
-  }
-
-  async createDailyChallenge(insertChallenge: InsertDailyChallenge): Promise<DailyChallenge> {
-    const [challenge] = await db
-      .insert(dailyChallenges)
-      .values(insertChallenge)
-      .returning();
-    return challenge;
-  }
-
-  async createBreakSession(insertSession: InsertBreakSession): Promise<BreakSession> {
-    const [session] = await db
-      .insert(breakSessions)
-      .values(insertSession)
-      .returning();
-    return session;
-  }
-
-  async getUserBreakSessions(userId: number): Promise<BreakSession[]> {
-    try {
-      return await db
-        .select()
-        .from(breakSessions)
-        .where(eq(breakSessions.userId, userId))
-        .orderBy(desc(breakSessions.startTime));
-    } catch (error) {
-      console.error('Error getting user break sessions:', error);
-      return [];
-    }
-  }
-
-  async createMiniGameScore(insertScore: InsertMiniGameScore): Promise<MiniGameScore> {
-    const [score] = await db
-      .insert(miniGameScores)
-      .values(insertScore)
-      .returning();
-    return score;
-  }
-
-  async getUserMiniGameScores(userId: number, gameType?: string): Promise<MiniGameScore[]> {
-    try {
-      if (gameType) {
-        return await db
-          .select()
-          .from(miniGameScores)
-          .where(and(eq(miniGameScores.userId, userId), eq(miniGameScores.gameType, gameType)))
-          .orderBy(desc(miniGameScores.playedAt));
-      }
-      
-      return await db
-        .select()
-        .from(miniGameScores)
-        .where(eq(miniGameScores.userId, userId))
-        .orderBy(desc(miniGameScores.playedAt));
-    } catch (error) {
-      console.error('Error getting user mini game scores:', error);
-      return [];
-    }
-  }
-
-  async addDecits(userId: number, amount: number): Promise<User | undefined> {
-    try {
-      const [user] = await db
-        .update(users)
-        .set({ decits: sql`${users.decits} + ${amount}` })
-        .where(eq(users.id, userId))
-        .returning();
-      return user;
-    } catch (error) {
-      console.error('Error adding decits:', error);
-      return undefined;
-    }
-  }
-
-  async spendDecits(userId: number, amount: number): Promise<User | undefined> {
-    try {
-      const [user] = await db
-        .update(users)
-        .set({ decits: sql`${users.decits} - ${amount}` })
-        .where(and(eq(users.id, userId), sql`${users.decits} >= ${amount}`))
-        .returning();
-      return user;
-    } catch (error) {
-      console.error('Error spending decits:', error);
-      return undefined;
-    }
-  }
-
-  async addExperience(userId: number, amount: number): Promise<User | undefined> {
-    try {
-      const [user] = await db
-        .update(users)
-        .set({ 
-          experience: sql`${users.experience} + ${amount}`,
-          level: sql`CASE WHEN (${users.experience} + ${amount}) >= (${users.level} * 1000) THEN ${users.level} + 1 ELSE ${users.level} END`
-        })
-        .where(eq(users.id, userId))
-        .returning();
-      return user;
-    } catch (error) {
-      console.error('Error adding experience:', error);
-      return undefined;
-    }
-  }
-
-  async updateStreak(userId: number, streak: number): Promise<User | undefined> {
-    try {
-      const [user] = await db
-        .update(users)
-        .set({ 
-          streak,
-          streakStartDate: streak === 1 ? new Date() : undefined
-        })
-        .where(eq(users.id, userId))
-        .returning();
-      return user;
-    } catch (error) {
-      console.error('Error updating streak:', error);
-      return undefined;
-    }
-  }
-
-
-
-  // Removed leaderboard to prioritize personalization features
-
-  async getNewUserAchievements(userId: number): Promise<UserAchievement[]> {
-    try {
-      const newOnes = await db
-        .select()
-        .from(userAchievements)
-        .where(and(eq(userAchievements.userId, userId), eq(userAchievements.isDisplayed, false)))
-        .orderBy(desc(userAchievements.earnedAt));
-      return newOnes;
-    } catch (error) {
-      console.error('Error getting new user achievements:', error);
-      return [];
-    }
-  }
-
   async checkForNewAchievements(userId: number): Promise<Achievement[]> {
     try {
       // Get user's current stats
@@ -932,99 +780,133 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Test History and Learning Analytics Implementation
-
-  async saveQuestionResults(testHistoryId: number, userId: number, questions: any[], userAnswers: Record<number, string>): Promise<QuestionResult[]> {
-    try {
-      const results = [];
-      
-      for (const question of questions) {
-        const userAnswerLetter = userAnswers[question.id] || '';
-        const isCorrect = userAnswerLetter === question.answer;
-        
-        // Get full text for user's answer and correct answer
-        const userAnswerText = question.options && question.options[userAnswerLetter] ? 
-          `${userAnswerLetter}) ${question.options[userAnswerLetter]}` : userAnswerLetter;
-        const correctAnswerText = question.options && question.options[question.answer] ? 
-          `${question.answer}) ${question.options[question.answer]}` : question.answer;
-        
-        // Use instructional_area from question metadata, fallback to category, then General
-        const topic = question.instructional_area || question.category || question.topic || 'General';
-        
-        const questionResult = {
-          testHistoryId,
-          userId,
-          questionText: question.stem,
-          correctAnswer: correctAnswerText,
-          userAnswer: userAnswerText,
-          isCorrect,
-          topic: topic,
-          explanation: question.explanation || '',
-          answeredAt: new Date()
-        };
-        
-        results.push(questionResult);
-      }
+  // Study sessions
 
-      const savedResults = await db
-        .insert(questionResults)
-        .values(results)
-        .returning();
-        
-      return savedResults;
-    } catch (error) {
-      console.error('Error saving question results:', error);
-      throw error;
+  // Starting a session ends any still running, since the student has moved on to another activity
+  async startStudySession(userId: number, activityType: StudyActivityType, focusScore?: number): Promise<StudySession> {
+    for (const session of await this.getStudySessions(userId, this.maxSessionStart())) {
+      if (!session.endedAt) await this.endStudySession(userId, session.id);
     }
+    return this.insertStudySession({ userId, activityType, focusScore: focusScore ?? null });
   }
 
+  /**
+   * End a running session, timing it from its server-side start, then bring today's study_time challenge
+   * and the study-time achievements up to date
+   * @param focusScore Replaces the score given at the start, if any
+   */
+  async endStudySession(userId: number, sessionId: number, focusScore?: number): Promise<StudySession | undefined> {
+    const session = await this.getStudySession(userId, sessionId);
+    if (!session || session.endedAt) return undefined;
 
+    const endedAt = new Date();
+    const duration = Math.min(Math.round((endedAt.getTime() - session.startedAt.getTime()) / 1000), MAX_STUDY_SESSION_SECONDS);
+    const ended = await this.finishStudySession(session.id, { endedAt, duration, focusScore: focusScore ?? session.focusScore });
+    if (!ended) return undefined;
 
-  async getTestQuestionResults(testHistoryId: number): Promise<QuestionResult[]> {
     try {
-      return await db
-        .select()
-        .from(questionResults)
-        .where(eq(questionResults.testHistoryId, testHistoryId))
-        .orderBy(questionResults.id);
+      const challenge = await this.getTodayChallenge();
+      if (challenge?.type === 'study_time') {
+        await this.completeChallenge(userId, challenge.id, await this.getStudyTimeOn(userId, challenge.date));
+      }
+      await this.checkForNewAchievements(userId);
     } catch (error) {
-      console.error('Error getting test question results:', error);
-      return [];
+      console.error('Error updating study time rewards:', error);
     }
+
+    return ended;
   }
 
-  async getUserWeakTopics(userId: number): Promise<{ topic: string, wrongCount: number, totalCount: number }[]> {
-    try {
-      const results = await db
-        .select({
-          topic: questionResults.topic,
-          wrongCount: sql<number>`COUNT(CASE WHEN ${questionResults.isCorrect} = false THEN 1 END)`,
-          totalCount: sql<number>`COUNT(*)`
-        })
-        .from(questionResults)
-        .where(eq(questionResults.userId, userId))
-        .groupBy(questionResults.topic)
-        .having(sql`COUNT(CASE WHEN ${questionResults.isCorrect} = false THEN 1 END) > 0`)
-        .orderBy(sql`COUNT(CASE WHEN ${questionResults.isCorrect} = false THEN 1 END) DESC`);
+  async getRealtimeProgress(userId: number): Promise<RealtimeProgress> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error('User not found');
 
-      // Filter out "General" topic and only include topics with specific names
-      return results.filter(result => 
-        result.topic && 
-        result.topic !== null &&
-        result.wrongCount > 0 && 
-        result.topic !== 'General' &&
-        result.topic.trim().length > 0
-      ).map(result => ({
-        topic: result.topic!,
-        wrongCount: result.wrongCount,
-        totalCount: result.totalCount
+    const now = new Date();
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    const weekStart = new Date(today);
+    weekStart.setDate(weekStart.getDate() - 6);
+
+    const sessions = await this.getStudySessions(userId, weekStart);
+    // Sessions started before the cap are abandoned rather than running
+    const activeSession = sessions.find(s => !s.endedAt && s.startedAt > this.maxSessionStart(now)) ?? null;
+    const activeSeconds = activeSession ? Math.round((now.getTime() - activeSession.startedAt.getTime()) / 1000) : 0;
+    const todaySessions = sessions.filter(s => s.startedAt >= today);
+    const todayStudyTime = this.sumStudyTime(todaySessions) + activeSeconds;
+
+    return {
+      activeSession,
+      activeSeconds,
+      todayStudyTime,
+      weekStudyTime: this.sumStudyTime(sessions) + activeSeconds,
+      sessionsToday: todaySessions.length,
+      dailyGoal: DAILY_STUDY_GOAL_SECONDS,
+      dailyGoalProgress: Math.min(100, Math.round((todayStudyTime / DAILY_STUDY_GOAL_SECONDS) * 100)),
+      streak: user.streak || 0,
+      level: user.level || 1,
+      experience: user.experience || 0,
+      decits: user.decits || 0,
+    };
+  }
+
+  // The personalized recommendations as ordered steps, with how the student has been studying this week
+  async getPersonalizedLearningPath(userId: number): Promise<LearningPath> {
+    const weekStart = new Date();
+    weekStart.setDate(weekStart.getDate() - 7);
+    const sessions = await this.getStudySessions(userId, weekStart);
+    const priorityOrder: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+    const steps = (await this.getPersonalizedRecommendations(userId))
+      .sort((a, b) => (priorityOrder[a.priority] ?? 3) - (priorityOrder[b.priority] ?? 3))
+      .map((recommendation, index) => ({
+        step: index + 1,
+        ...recommendation,
+        suggestedMinutes: LEARNING_STEP_MINUTES[recommendation.priority] ?? LEARNING_STEP_MINUTES.medium,
       }));
-    } catch (error) {
-      console.error('Error getting user weak topics:', error);
-      return [];
-    }
+
+    return {
+      steps,
+      weeklyStudyTime: this.sumStudyTime(sessions),
+      averageFocusScore: this.averageFocusScore(sessions),
+      studyTimeByActivity: this.studyTimeByActivity(sessions),
+    };
+  }
+
+  // Seconds studied in sessions started on the date's day
+  protected async getStudyTimeOn(userId: number, date: Date): Promise<number> {
+    const dayStart = new Date(date);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    const sessions = await this.getStudySessions(userId, dayStart);
+    return this.sumStudyTime(sessions.filter(s => s.startedAt < dayEnd));
+  }
+
+  // Only ended sessions have a duration, so a running session counts once it ends
+  private sumStudyTime(sessions: StudySession[]): number {
+    return sessions.reduce((sum, s) => sum + (s.duration ?? 0), 0);
+  }
+
+  private averageFocusScore(sessions: StudySession[]): number | null {
+    const scores = sessions.map(s => s.focusScore).filter((score): score is number => score !== null);
+    return scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null;
+  }
+
+  private studyTimeByActivity(sessions: StudySession[]): Record<string, number> {
+    return sessions.reduce((acc, s) => {
+      acc[s.activityType] = (acc[s.activityType] || 0) + (s.duration ?? 0);
+      return acc;
+    }, {} as Record<string, number>);
   }
 
+  // Sessions started before this can no longer be running
+  private maxSessionStart(now = new Date()): Date {
+    return new Date(now.getTime() - MAX_STUDY_SESSION_SECONDS * 1000);
+  }
+
+  // Test History and Learning Analytics Implementation
+
   async generateLearningInsights(userId: number): Promise<LearningInsight[]> {
     try {
       const recentTests = await this.getUserTestHistory(userId);
@@ -1055,104 +937,13 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
-      // Clear old insights and insert new ones
-      await db
-        .update(learningInsights)
-        .set({ isActive: false })
-        .where(eq(learningInsights.userId, userId));
-
-      if (insights.length > 0) {
-        const createdInsights = await db
-          .insert(learningInsights)
-          .values(insights)
-          .returning();
-        return createdInsights;
-      }
-
-      return [];
+      return await this.replaceLearningInsights(userId, insights);
     } catch (error) {
       console.error('Error generating learning insights:', error);
       return [];
     }
   }
 
-  // Save test history
-  async saveTestHistory(result: InsertTestHistory): Promise<TestHistory> {
-    try {
-      const [testResult] = await db
-        .insert(testHistory)
-        .values(result)
-        .returning();
-      return testResult;
-    } catch (error) {
-      console.error('Error saving test history:', error);
-      throw error;
-    }
-  }
-
-  // Get user test history
-  async getUserTestHistory(userId: number, testType?: string): Promise<TestHistory[]> {
-    try {
-      let query = db
-        .select()
-        .from(testHistory)
-        .where(eq(testHistory.userId, userId))
-        .orderBy(desc(testHistory.completedAt));
-
-
-
-      return await query;
-    } catch (error) {
-      console.error('Error getting user test history:', error);
-      return [];
-    }
-  }
-
-  // Save question result
-  async saveQuestionResult(result: InsertQuestionResult): Promise<QuestionResult> {
-    try {
-      const [questionResult] = await db
-        .insert(questionResults)
-        .values(result)
-        .returning();
-      return questionResult;
-    } catch (error) {
-      console.error('Error saving question result:', error);
-      throw error;
-    }
-  }
-
-  // Get user question results
-  async getUserQuestionResults(userId: number, testHistoryId?: number): Promise<QuestionResult[]> {
-    try {
-      let query = db
-        .select()
-        .from(questionResults)
-        .where(eq(questionResults.userId, userId))
-        .orderBy(desc(questionResults.answeredAt));
-
-
-
-      return await query;
-    } catch (error) {
-      console.error('Error getting user question results:', error);
-      return [];
-    }
-  }
-
-  async getUserLearningInsights(userId: number): Promise<LearningInsight[]> {
-    try {
-      return await db
-        .select()
-        .from(learningInsights)
-        .where(and(eq(learningInsights.userId, userId), eq(learningInsights.isActive, true)))
-        .orderBy(desc(learningInsights.priority));
-    } catch (error) {
-      console.error('Error getting user learning insights:', error);
-      return [];
-    }
-  }
-
   async getPersonalizedTopics(userId: number): Promise<{ weak: string[], strong: string[] }> {
     try {
       const recentTests = await this.getUserTestHistory(userId);
@@ -1229,64 +1020,95 @@ export class DatabaseStorage implements IStorage {
     return Math.min(Math.round(scorePriority + frequencyPriority), 5);
   }
 
-  async markAchievementAsDisplayed(userId: number, achievementId: number): Promise<boolean> {
+  async checkTestAllowance(userId: number): Promise<Allowance> {
     try {
-      await db
-        .update(userAchievements)
-        .set({ isDisplayed: true })
-        .where(and(
-          eq(userAchievements.userId, userId),
-          eq(userAchievements.achievementId, achievementId)
-        ));
-      return true;
+      const user = await this.getUser(userId);
+      if (!user) return { allowed: false, remaining: 0, message: 'User not found' };
+
+      return getAllowance(user, 'tests');
     } catch (error) {
-      console.error('Error marking achievement as displayed:', error);
-      return false;
+      console.error('Error checking test allowance:', error);
+      return { allowed: false, remaining: 0, message: 'Error checking allowance' };
     }
   }
 
-  async checkTestAllowance(userId: number): Promise<{ allowed: boolean, remaining: number, message?: string }> {
+  async checkRoleplayAllowance(userId: number): Promise<Allowance> {
     try {
       const user = await this.getUser(userId);
       if (!user) return { allowed: false, remaining: 0, message: 'User not found' };
 
-      // For now, always allow tests (can implement subscription limits later)
-      return { allowed: true, remaining: 999 };
+      return getAllowance(user, 'roleplays');
     } catch (error) {
-      console.error('Error checking test allowance:', error);
+      console.error('Error checking roleplay allowance:', error);
       return { allowed: false, remaining: 0, message: 'Error checking allowance' };
     }
   }
 
-  async checkRoleplayAllowance(userId: number): Promise<{ allowed: boolean, remaining: number, message?: string }> {
+  async checkWrittenEventAllowance(userId: number): Promise<Allowance> {
     try {
       const user = await this.getUser(userId);
       if (!user) return { allowed: false, remaining: 0, message: 'User not found' };
 
-      // For now, always allow roleplays (can implement subscription limits later)
-      return { allowed: true, remaining: 999 };
+      return getAllowance(user, 'writtenEvents');
     } catch (error) {
-      console.error('Error checking roleplay allowance:', error);
+      console.error('Error checking written event allowance:', error);
       return { allowed: false, remaining: 0, message: 'Error checking allowance' };
     }
   }
 
+  async getUsage(userId: number): Promise<{ tier: string } & Record<UsageKind, UsageStatus> | undefined> {
+    try {
+      const user = await this.getUser(userId);
+      if (!user) return undefined;
+
+      const now = new Date();
+      return {
+        tier: user.subscriptionTier || 'standard',
+        tests: getUsageStatus(user, 'tests', now),
+        roleplays: getUsageStatus(user, 'roleplays', now),
+        writtenEvents: getUsageStatus(user, 'writtenEvents', now),
+      };
+    } catch (error) {
+      console.error('Error getting usage:', error);
+      return undefined;
+    }
+  }
+
+  private async getAnalyticsActivities(userId: number) {
+    return toActivities(
+      await this.getUserTestHistory(userId),
+      await this.getRoleplayHistory(userId),
+      await this.getUserSessions(userId),
+    );
+  }
+
+  async getAnalytics(userId: number, timeRange: AnalyticsTimeRange, filter: AnalyticsFilter = {}, interval?: AnalyticsInterval): Promise<AnalyticsReport> {
+    const activities = await this.getAnalyticsActivities(userId);
+    return buildAnalyticsReport(filterActivities(activities, filter), timeRange, interval);
+  }
+
   async getUserStats(userId: number) {
     try {
       const user = await this.getUser(userId);
       if (!user) throw new Error('User not found');
 
+      const activities = await this.getAnalyticsActivities(userId);
+      const countOf = (kind: ActivityKind) => activities.filter(activity => activity.kind === kind).length;
+      // A PI counts as completed once mastered, out of the PIs of the user's event
+      const coverage = user.selectedEvent ? await this.getPICoverage(userId, user.selectedEvent) : undefined;
+      const practicedPIs = (await this.getUserPIs(userId)).filter(pi => (pi.attempts ?? 0) > 0);
+
       return {
-        roleplayCount: user.roleplaysCompleted || 0,
-        testCount: user.testsCompleted || 0,
-        completedPIs: 0,
-        totalPIs: 100,
-        writtenCount: 0,
-        piCount: 0,
+        roleplayCount: countOf('roleplay'),
+        testCount: countOf('test'),
+        completedPIs: coverage?.counts.mastered ?? 0,
+        totalPIs: coverage?.total ?? 0,
+        writtenCount: countOf('written'),
+        piCount: practicedPIs.length,
         streak: user.streak || 0,
         totalPoints: user.points || 0,
-        weeklyProgress: [],
-        monthlyProgress: [],
+        weeklyProgress: buildAnalyticsReport(activities, 'quarter', 'week').series,
+        monthlyProgress: buildAnalyticsReport(activities, 'year', 'month').series,
         recentAchievements: []
       };
     } catch (error) {
@@ -1386,7 +1208,7 @@ export class DatabaseStorage implements IStorage {
         const challengeTypes = [
           { type: 'test_score', title: 'Score Master', description: 'Achieve a score of 85% or higher on any test', target: 85, category: 'testing' },
           { type: 'roleplay_count', title: 'Roleplay Practice', description: 'Complete 2 roleplay sessions', target: 2, category: 'roleplay' },
-          { type: 'study_time', title: 'Study Session', description: 'Study for at least 30 minutes today', target: 1800, category: 'study' },
+          { type: 'study_time', title: 'Study Session', description: 'Study for at least 30 minutes today', target: DAILY_STUDY_GOAL_SECONDS, category: 'study' },
           { type: 'perfect_streak', title: 'Perfect Streak', description: 'Get 3 perfect scores in a row', target: 3, category: 'performance' },
           { type: 'category_mastery', title: 'Category Master', description: 'Complete 5 tests in the same category', target: 5, category: 'mastery' }
         ];
@@ -1412,12 +1234,17 @@ export class DatabaseStorage implements IStorage {
       // Get user's progress on today's challenge
       const userProgress = await this.getUserDailyChallenges(userId);
       const todayProgress = userProgress.find(p => p.challengeId === todayChallenge.id);
+      // Study time is measured from today's study sessions
+      const progress = todayChallenge.type === 'study_time'
+        ? await this.getStudyTimeOn(userId, todayChallenge.date)
+        : todayProgress?.progress || 0;
+      const isCompleted = todayProgress?.isCompleted || false;
       
       return {
         ...todayChallenge,
-        userProgress: todayProgress || { progress: 0, isCompleted: false },
-        progress: todayProgress?.progress || 0,
-        isCompleted: todayProgress?.isCompleted || false
+        userProgress: { ...(todayProgress || {}), progress, isCompleted },
+        progress,
+        isCompleted
       };
     } catch (error) {
       console.error('Error getting daily challenge:', error);
@@ -1425,175 +1252,44 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async completeChallenge(userId: number, challengeId: number, progress: number): Promise<UserDailyChallenge> {
+  // Comprehensive Analytics Functions
+  async getUserComprehensiveStats(userId: number, timeRange: string): Promise<any> {
     try {
-      // Get the challenge details
-      const [challenge] = await db
-        .select()
-        .from(dailyChallenges)
-        .where(eq(dailyChallenges.id, challengeId));
+      const endDate = new Date();
+      const startDate = this.getTimeRangeStart(timeRange, endDate);
       
-      if (!challenge) {
-        throw new Error('Challenge not found');
-      }
+      // Get all relevant data
+      const sessions = await this.getSessionsByDateRange(userId, startDate, endDate);
+      const studySessions = (await this.getStudySessions(userId, startDate)).filter(s => s.endedAt);
+      const testHistory = await this.getUserTestHistory(userId);
+      const roleplayHistory = await this.getRoleplayHistory(userId);
+      const userProgress = await this.getUserProgress(userId);
       
-      // Check if user already has progress for this challenge
-      const existingProgress = await db
-        .select()
-        .from(userDailyChallenges)
-        .where(and(
-          eq(userDailyChallenges.userId, userId),
-          eq(userDailyChallenges.challengeId, challengeId)
-        ));
+      // Calculate comprehensive statistics
+      const totalStudyTime = this.sumStudyTime(studySessions);
+      const averageSessionLength = studySessions.length > 0 ? totalStudyTime / studySessions.length : 0;
+      const totalTests = testHistory.length;
+      const totalRoleplays = roleplayHistory.length;
+      const averageTestScore = testHistory.length > 0 
+        ? testHistory.reduce((sum, t) => sum + t.score, 0) / testHistory.length 
+        : 0;
+      const averageRoleplayScore = roleplayHistory.length > 0
+        ? roleplayHistory.reduce((sum, r) => sum + (r.score || 0), 0) / roleplayHistory.length
+        : 0;
       
-      const isCompleted = progress >= challenge.target;
-      
-      if (existingProgress.length > 0) {
-        // Update existing progress
-        const [updatedProgress] = await db
-          .update(userDailyChallenges)
-          .set({
-            progress: Math.max((existingProgress[0].progress ?? 0), progress),
-            isCompleted: isCompleted || existingProgress[0].isCompleted,
-            completedAt: isCompleted && !existingProgress[0].isCompleted ? new Date() : existingProgress[0].completedAt
-          })
-          .where(eq(userDailyChallenges.id, existingProgress[0].id))
-          .returning();
-        
-        // Award points and DECITS if newly completed
-        if (isCompleted && !existingProgress[0].isCompleted) {
-          await this.addExperience(userId, challenge.points);
-          await this.addDecits(userId, challenge.decitsReward);
-          
-          // Check for new achievements
-          await this.checkForNewAchievements(userId);
-        }
-        
-        return updatedProgress;
-      } else {
-        // Create new progress record
-        const [newProgress] = await db
-          .insert(userDailyChallenges)
-          .values({
-            userId,
-            challengeId,
-            progress,
-            isCompleted,
-            completedAt: isCompleted ? new Date() : null,
-            attemptDate: new Date()
-          })
-          .returning();
-        
-        // Award points and DECITS if completed
-        if (isCompleted) {
-          await this.addExperience(userId, challenge.points);
-          await this.addDecits(userId, challenge.decitsReward);
-          
-          // Check for new achievements
-          await this.checkForNewAchievements(userId);
-        }
-        
-        return newProgress;
-      }
-    } catch (error) {
-      console.error('Error completing challenge:', error);
-      throw error;
-    }
-  }
-
-  // Roleplay History Implementation
-  async createRoleplaySession(session: InsertRoleplayHistory): Promise<RoleplayHistory> {
-    try {
-      const [savedRoleplay] = await db
-        .insert(roleplayHistory)
-        .values({
-          userId: session.userId,
-          scenario: session.scenario,
-          cluster: session.cluster,
-          role: session.role,
-          score: session.score,
-          aiGradingFeedback: session.aiGradingFeedback,
-          transcriptUrl: session.transcriptUrl,
-          duration: session.duration,
-          completedAt: session.completedAt || new Date()
-        })
-        .returning();
-      return savedRoleplay;
-    } catch (error) {
-      console.error('Error creating roleplay session:', error);
-      throw error;
-    }
-  }
-
-  async getRoleplayHistory(userId: number): Promise<RoleplayHistory[]> {
-    try {
-      return await db
-        .select()
-        .from(roleplayHistory)
-        .where(eq(roleplayHistory.userId, userId))
-        .orderBy(desc(roleplayHistory.completedAt));
-    } catch (error) {
-      console.error('Error getting roleplay history:', error);
-      return [];
-    }
-  }
-
-  // Comprehensive Analytics Functions
-  async getUserComprehensiveStats(userId: number, timeRange: string): Promise<any> {
-    try {
-      const endDate = new Date();
-      const startDate = new Date();
-      
-      // Calculate date range based on timeRange parameter
-      switch (timeRange) {
-        case 'week':
-          startDate.setDate(endDate.getDate() - 7);
-          break;
-        case 'month':
-          startDate.setMonth(endDate.getMonth() - 1);
-          break;
-        case 'quarter':
-          startDate.setMonth(endDate.getMonth() - 3);
-          break;
-        case 'year':
-          startDate.setFullYear(endDate.getFullYear() - 1);
-          break;
-        default:
-          startDate.setDate(endDate.getDate() - 7); // Default to week
-      }
-      
-      // Get all relevant data
-      const sessions = await this.getSessionsByDateRange(userId, startDate, endDate);
-      const testHistory = await this.getUserTestHistory(userId);
-      const roleplayHistory = await this.getRoleplayHistory(userId);
-      const userProgress = await this.getUserProgress(userId);
-      
-      // Calculate comprehensive statistics
-      // PracticeSession does not have explicit duration; estimate 30 minutes per session
-      const totalStudyTime = sessions.length * 1800;
-      const averageSessionLength = sessions.length > 0 ? totalStudyTime / sessions.length : 0;
-      const totalTests = testHistory.length;
-      const totalRoleplays = roleplayHistory.length;
-      const averageTestScore = testHistory.length > 0 
-        ? testHistory.reduce((sum, t) => sum + t.score, 0) / testHistory.length 
-        : 0;
-      const averageRoleplayScore = roleplayHistory.length > 0
-        ? roleplayHistory.reduce((sum, r) => sum + (r.score || 0), 0) / roleplayHistory.length
-        : 0;
-      
-      // Calculate improvement trends
-      const recentTests = testHistory.slice(-10);
-      const olderTests = testHistory.slice(-20, -10);
-      const recentAvg = recentTests.length > 0 
-        ? recentTests.reduce((sum, t) => sum + t.score, 0) / recentTests.length 
-        : 0;
-      const olderAvg = olderTests.length > 0
-        ? olderTests.reduce((sum, t) => sum + t.score, 0) / olderTests.length
-        : 0;
-      const improvement = recentAvg - olderAvg;
+      // Calculate improvement trends
+      const recentTests = testHistory.slice(-10);
+      const olderTests = testHistory.slice(-20, -10);
+      const recentAvg = recentTests.length > 0 
+        ? recentTests.reduce((sum, t) => sum + t.score, 0) / recentTests.length 
+        : 0;
+      const olderAvg = olderTests.length > 0
+        ? olderTests.reduce((sum, t) => sum + t.score, 0) / olderTests.length
+        : 0;
+      const improvement = recentAvg - olderAvg;
       
       // Calculate consistency score
-      const dailyActivity = this.calculateDailyActivity(sessions, startDate, endDate);
+      const dailyActivity = this.calculateDailyActivity(sessions, studySessions, startDate, endDate);
       const consistencyScore = this.calculateConsistencyScore(dailyActivity);
       
       // Calculate mastery levels
@@ -1635,12 +1331,12 @@ export class DatabaseStorage implements IStorage {
           dailyActivity,
           scoreTrends: this.calculateScoreTrends(testHistory, timeRange),
           categoryProgress: categoryScores,
-          studyPatterns: this.analyzeStudyPatterns(sessions)
+          studyPatterns: this.analyzeStudyPatterns(studySessions)
         },
         insights,
         recommendations: this.generateRecommendations({
           weakCategories: this.identifyWeakCategories(categoryScores),
-          studyPatterns: this.analyzeStudyPatterns(sessions),
+          studyPatterns: this.analyzeStudyPatterns(studySessions),
           userProgress
         })
       };
@@ -1650,7 +1346,26 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  private calculateDailyActivity(sessions: PracticeSession[], startDate: Date, endDate: Date): any[] {
+  // Start of the week, month, quarter or year ending at endDate; a week for any other timeRange
+  private getTimeRangeStart(timeRange: string, endDate: Date): Date {
+    const startDate = new Date(endDate);
+    switch (timeRange) {
+      case 'month':
+        startDate.setMonth(endDate.getMonth() - 1);
+        break;
+      case 'quarter':
+        startDate.setMonth(endDate.getMonth() - 3);
+        break;
+      case 'year':
+        startDate.setFullYear(endDate.getFullYear() - 1);
+        break;
+      default:
+        startDate.setDate(endDate.getDate() - 7);
+    }
+    return startDate;
+  }
+
+  private calculateDailyActivity(sessions: PracticeSession[], studySessions: StudySession[], startDate: Date, endDate: Date): any[] {
     const dailyActivity = [];
     const currentDate = new Date(startDate);
     
@@ -1659,11 +1374,11 @@ export class DatabaseStorage implements IStorage {
         const sessionDate = new Date(s.completedAt);
         return sessionDate.toDateString() === currentDate.toDateString();
       });
+      const dayStudySessions = studySessions.filter(s => s.startedAt.toDateString() === currentDate.toDateString());
       
       dailyActivity.push({
         date: currentDate.toISOString().split('T')[0],
-        // PracticeSession lacks duration; estimate 30 min per session
-        studyTime: daySessions.length * 1800,
+        studyTime: this.sumStudyTime(dayStudySessions),
         sessions: daySessions.length,
         tests: daySessions.filter(s => s.type === 'test').length,
         roleplays: daySessions.filter(s => s.type === 'roleplay').length
@@ -1760,28 +1475,26 @@ export class DatabaseStorage implements IStorage {
       .map(cat => cat.category);
   }
 
-  private analyzeStudyPatterns(sessions: PracticeSession[]): any {
-    // Since practice sessions don't have duration, we'll use a default estimate
-    const averageLength = sessions.length > 0 ? 1800 : 0; // Default 30 minutes
-    
-    const preferredTimes = sessions.map(s => {
-      const date = new Date(s.completedAt);
-      return date.getHours();
-    });
+  // Patterns in ended study sessions; timeDistribution is the seconds studied in sessions started at each hour
+  private analyzeStudyPatterns(sessions: StudySession[]): any {
+    const totalStudyTime = this.sumStudyTime(sessions);
     
-    const timeDistribution = preferredTimes.reduce((acc, hour) => {
-      acc[hour] = (acc[hour] || 0) + 1;
+    const timeDistribution = sessions.reduce((acc, s) => {
+      const hour = s.startedAt.getHours();
+      acc[hour] = (acc[hour] || 0) + (s.duration ?? 0);
       return acc;
     }, {} as Record<number, number>);
     
     const peakHour = Object.entries(timeDistribution)
-      .sort(([,a], [,b]) => b - a)[0]?.[0] || 'Unknown';
+      .sort(([,a], [,b]) => b - a)[0]?.[0];
     
     return {
-      averageSessionLength: averageLength,
+      averageSessionLength: sessions.length > 0 ? totalStudyTime / sessions.length : 0,
       totalSessions: sessions.length,
-      peakStudyHour: parseInt(peakHour),
-      timeDistribution
+      peakStudyHour: peakHour !== undefined ? parseInt(peakHour) : null,
+      timeDistribution,
+      averageFocusScore: this.averageFocusScore(sessions),
+      studyTimeByActivity: this.studyTimeByActivity(sessions)
     };
   }
 
@@ -1844,13 +1557,15 @@ export class DatabaseStorage implements IStorage {
   async getUserStudyPatterns(userId: number, timeRange: string): Promise<any> {
     try {
       const testHistory = await this.getUserTestHistory(userId);
-      const roleplayHistory = await this.getRoleplayHistory(userId);
+      const endDate = new Date();
+      const startDate = this.getTimeRangeStart(timeRange, endDate);
+      const studySessions = (await this.getStudySessions(userId, startDate)).filter(s => s.endedAt);
       
       // Analyze study habits and patterns
       const patterns = {
-        averageSessionLength: this.calculateAverageSessionLength(testHistory),
+        averageSessionLength: this.analyzeStudyPatterns(studySessions).averageSessionLength,
         peakPerformanceWindow: this.findPeakPerformanceWindow(testHistory),
-        studyFrequency: this.calculateStudyFrequency(testHistory),
+        studyFrequency: this.calculateStudyFrequency(studySessions, startDate, endDate),
         preferredDifficulty: this.getPreferredDifficulty(testHistory),
         retentionRate: this.calculateRetentionRate(userId)
       };
@@ -1898,6 +1613,35 @@ export class DatabaseStorage implements IStorage {
 
 
 
+  async getExamReadiness(userId: number, cluster: string, level: string): Promise<ExamReadiness | undefined> {
+    const examCluster = findExamCluster(cluster);
+    const blueprint = getBlueprint(cluster, level);
+    if (!examCluster || !blueprint || !isCompetitionLevel(level)) return undefined;
+
+    const mastery = await this.getTopicMastery(userId);
+    const areas = Object.entries(blueprint)
+      .filter(([, questions]) => questions > 0)
+      .map(([area, questions]) => {
+        const records = mastery.filter(item => item.topic.toLowerCase() === area.toLowerCase());
+        const best = records.sort((a, b) => (b.questionsAnswered || 0) - (a.questionsAnswered || 0))[0];
+        return {
+          area,
+          questions,
+          mastery: Math.round(best?.masteryLevel || 0),
+          practiced: (best?.questionsAnswered || 0) > 0,
+        };
+      });
+
+    return {
+      cluster: examCluster,
+      level,
+      readiness: Math.round(areas.reduce((sum, area) => sum + (area.questions * area.mastery) / 100, 0)),
+      coverage: areas.filter(area => area.practiced).reduce((sum, area) => sum + area.questions, 0),
+      // Areas where the most exam points are still missing come first
+      areas: areas.sort((a, b) => b.questions * (100 - b.mastery) - a.questions * (100 - a.mastery)),
+    };
+  }
+
   // Removed older getPersonalizedRecommendations signature in favor of unified array-based version below
 
   // Helper functions for analytics calculations
@@ -1964,20 +1708,24 @@ export class DatabaseStorage implements IStorage {
     return '20-30 minutes';
   }
 
-  private calculateAverageSessionLength(testHistory: Array<{ timeSpent: number | null }>): number {
-    const totalTime = testHistory.reduce((sum, test) => sum + (test.timeSpent ?? 0), 0);
-    return testHistory.length > 0 ? totalTime / testHistory.length : 0;
-  }
-
   private findPeakPerformanceWindow(testHistory: any[]): string {
     // Analyze when user performs best
     return "6:00 - 8:00 PM";
   }
 
-  private calculateStudyFrequency(testHistory: any[]): any {
+  private calculateStudyFrequency(sessions: StudySession[], startDate: Date, endDate: Date): any {
+    const days = Math.max(1, Math.round((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)));
+    const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+    const timeByWeekday = sessions.reduce((acc, s) => {
+      const weekday = weekdays[s.startedAt.getDay()];
+      acc[weekday] = (acc[weekday] || 0) + (s.duration ?? 0);
+      return acc;
+    }, {} as Record<string, number>);
+
     return {
-      dailyAverage: testHistory.length / 30, // Approximate
-      mostActiveDay: "Saturday"
+      dailyAverage: sessions.length / days, // Sessions per day
+      dailyStudyTime: this.sumStudyTime(sessions) / days, // Seconds per day
+      mostActiveDay: Object.entries(timeByWeekday).sort(([, a], [, b]) => b - a)[0]?.[0] ?? null
     };
   }
 
@@ -2050,167 +1798,6 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  // Enhanced personalized learning methods
-  async getTopicMastery(userId: number): Promise<TopicMastery[]> {
-    try {
-      const mastery = await db
-        .select()
-        .from(topicMastery)
-        .where(eq(topicMastery.userId, userId))
-        .orderBy(desc(topicMastery.masteryLevel));
-      
-      return mastery;
-    } catch (error) {
-      console.error('Error getting topic mastery:', error);
-      return [];
-    }
-  }
-
-  async updateTopicMastery(userId: number, topic: string, cluster: string, performance: {
-    questionsAnswered: number;
-    questionsCorrect: number;
-    timeSpent: number;
-  }): Promise<TopicMastery> {
-    try {
-      // Check if mastery record exists
-      const [existing] = await db
-        .select()
-        .from(topicMastery)
-        .where(and(
-          eq(topicMastery.userId, userId),
-          eq(topicMastery.topic, topic),
-          eq(topicMastery.cluster, cluster)
-        ));
-
-      const newMasteryLevel = Math.min(100, (performance.questionsCorrect / performance.questionsAnswered) * 100);
-      const avgTimePerQuestion = performance.timeSpent / performance.questionsAnswered;
-      
-      if (existing) {
-        // Update existing record
-        const totalQuestions = (existing.questionsAnswered ?? 0) + performance.questionsAnswered;
-        const totalCorrect = (existing.questionsCorrect ?? 0) + performance.questionsCorrect;
-        const overallMastery = (totalCorrect / totalQuestions) * 100;
-        
-        // Calculate trend
-        const baseMastery = existing.masteryLevel ?? 0;
-        const trend = newMasteryLevel > baseMastery ? 'improving' : 
-                     newMasteryLevel < baseMastery ? 'declining' : 'stable';
-        
-        // Calculate learning velocity (improvement rate)
-        const lastPracticed = existing.lastPracticed ? new Date(existing.lastPracticed) : new Date(Date.now() - 24*60*60*1000);
-        const timeDiff = Date.now() - lastPracticed.getTime();
-        const daysDiff = timeDiff / (1000 * 60 * 60 * 24);
-        const masteryChange = newMasteryLevel - baseMastery;
-        const learningVelocity = daysDiff > 0 ? masteryChange / daysDiff : 0;
-        
-        // Calculate next recommended practice using spaced repetition
-        const baseInterval = baseMastery >= 80 ? 7 : baseMastery >= 60 ? 3 : 1;
-        const nextPractice = new Date(Date.now() + baseInterval * 24 * 60 * 60 * 1000);
-        
-        const [updated] = await db
-          .update(topicMastery)
-          .set({
-            masteryLevel: overallMastery,
-            questionsAnswered: totalQuestions,
-            questionsCorrect: totalCorrect,
-            lastPracticed: new Date(),
-            avgTimePerQuestion,
-            masteryTrend: trend,
-            learningVelocity,
-            nextRecommendedPractice: nextPractice,
-            timesRetried: (existing.timesRetried ?? 0) + 1,
-            updatedAt: new Date()
-          })
-          .where(eq(topicMastery.id, existing.id))
-          .returning();
-        
-        return updated;
-      } else {
-        // Create new record
-        const nextPractice = new Date(Date.now() + 1 * 24 * 60 * 60 * 1000); // 1 day for new topics
-        
-        const [created] = await db
-          .insert(topicMastery)
-          .values({
-            userId,
-            topic,
-            cluster,
-            masteryLevel: newMasteryLevel,
-            questionsAnswered: performance.questionsAnswered,
-            questionsCorrect: performance.questionsCorrect,
-            avgTimePerQuestion,
-            nextRecommendedPractice: nextPractice,
-            masteryTrend: 'stable',
-            learningVelocity: 0
-          })
-          .returning();
-        
-        return created;
-      }
-    } catch (error) {
-      console.error('Error updating topic mastery:', error);
-      throw error;
-    }
-  }
-
-  async saveQuizSession(session: InsertQuizSession): Promise<QuizSession> {
-    try {
-      // Calculate improvement from last session
-      const lastSessions = await db
-        .select()
-        .from(quizSessions)
-        .where(and(
-          eq(quizSessions.userId, session.userId),
-          eq(quizSessions.topicFocused, session.topicFocused || '')
-        ))
-        .orderBy(desc(quizSessions.completedAt))
-        .limit(1);
-      
-      const improvement = lastSessions.length > 0 
-        ? session.scorePercentage - lastSessions[0].scorePercentage
-        : 0;
-      
-      // Calculate mastery gain estimate based on performance
-      const masteryGain = Math.min(20, session.scorePercentage >= 80 ? 15 : 
-                                      session.scorePercentage >= 60 ? 10 : 5);
-      
-      // Calculate next recommended session using spaced repetition
-      const baseInterval = session.scorePercentage >= 80 ? 7 : 
-                          session.scorePercentage >= 60 ? 3 : 1;
-      const nextSession = new Date(Date.now() + baseInterval * 24 * 60 * 60 * 1000);
-      
-      const [created] = await db
-        .insert(quizSessions)
-        .values({
-          ...session,
-          improvementFromLastSession: improvement,
-          masteryGainEstimate: masteryGain,
-          nextRecommendedSession: nextSession
-        })
-        .returning();
-      
-      return created;
-    } catch (error) {
-      console.error('Error saving quiz session:', error);
-      throw error;
-    }
-  }
-
-  async getQuizSessions(userId: number): Promise<QuizSession[]> {
-    try {
-      const sessions = await db
-        .select()
-        .from(quizSessions)
-        .where(eq(quizSessions.userId, userId))
-        .orderBy(desc(quizSessions.completedAt));
-      
-      return sessions;
-    } catch (error) {
-      console.error('Error getting quiz sessions:', error);
-      return [];
-    }
-  }
-
   async generateEnhancedInsights(userId: number): Promise<EnhancedLearningInsight[]> {
     try {
       // Get user's topic mastery and quiz sessions
@@ -2280,78 +1867,13 @@ export class DatabaseStorage implements IStorage {
         }
       }
       
-      // Save insights to database
-      const savedInsights: EnhancedLearningInsight[] = [];
-      for (const insight of insights) {
-        const [saved] = await db
-          .insert(enhancedLearningInsights)
-          .values(insight)
-          .returning();
-        savedInsights.push(saved);
-      }
-      
-      return savedInsights;
+      return await this.saveEnhancedInsights(insights);
     } catch (error) {
       console.error('Error generating enhanced insights:', error);
       return [];
     }
   }
 
-  async getAdaptiveDifficulty(userId: number, topic: string): Promise<string> {
-    try {
-      const [mastery] = await db
-        .select()
-        .from(topicMastery)
-        .where(and(
-          eq(topicMastery.userId, userId),
-          eq(topicMastery.topic, topic)
-        ));
-      
-      if (!mastery) return 'medium';
-      
-      const m = mastery.masteryLevel ?? 0;
-      if (m >= 80) return 'hard';
-      if (m >= 60) return 'medium';
-      return 'easy';
-    } catch (error) {
-      console.error('Error getting adaptive difficulty:', error);
-      return 'medium';
-    }
-  }
-
-  async calculateSpacedRepetition(userId: number, topic: string): Promise<Date> {
-    try {
-      const [mastery] = await db
-        .select()
-        .from(topicMastery)
-        .where(and(
-          eq(topicMastery.userId, userId),
-          eq(topicMastery.topic, topic)
-        ));
-      
-      if (!mastery) {
-        return new Date(Date.now() + 1 * 24 * 60 * 60 * 1000); // 1 day for new topics
-      }
-      
-      // Spaced repetition algorithm based on mastery level
-      let intervalDays = 1;
-      const m = mastery.masteryLevel ?? 0;
-      if (m >= 90) intervalDays = 14;
-      else if (m >= 80) intervalDays = 7;
-      else if (m >= 70) intervalDays = 3;
-      else if (m >= 60) intervalDays = 2;
-      
-      // Adjust based on streak
-      const s = mastery.streakCount ?? 0;
-      if (s >= 5) intervalDays = Math.round(intervalDays * 1.5);
-      
-      return new Date(Date.now() + intervalDays * 24 * 60 * 60 * 1000);
-    } catch (error) {
-      console.error('Error calculating spaced repetition:', error);
-      return new Date(Date.now() + 1 * 24 * 60 * 60 * 1000);
-    }
-  }
-
   async getPersonalizedRecommendations(userId: number): Promise<any[]> {
     try {
       const masteryData = await this.getTopicMastery(userId);
@@ -2437,57 +1959,2597 @@ export class DatabaseStorage implements IStorage {
       trend: this.calculateLearningTrend(stats.scores.map(score => ({ score })))
     }));
   }
+}
 
-  // DECA Bloc Game Session methods
-  async createGameSessionDECABloc(session: InsertGameSessionDECABloc): Promise<GameSessionDECABloc> {
+// Database Storage Implementation
+export class DatabaseStorage extends BaseStorage implements IStorage {
+  sessionStore: SessionStore;
+
+  constructor() {
+    super();
+    this.sessionStore = new PostgresSessionStore({
+      pool: pool as any,
+      tableName: 'session'
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
     try {
-      const [gameSession] = await db
-        .insert(gameSessionsDECABloc)
-        .values(session)
+      const [user] = await db.select().from(users).where(eq(users.id, id));
+      return user;
+    } catch (error) {
+      console.error('Error getting user:', error);
+      return undefined;
+    }
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.username, username));
+      return user;
+    } catch (error) {
+      console.error('Error getting user by username:', error);
+      return undefined;
+    }
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.email, email));
+      return user;
+    } catch (error) {
+      console.error('Error getting user by email:', error);
+      return undefined;
+    }
+  }
+
+  async getUserByAuthId(authId: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.authId, authId));
+      return user;
+    } catch (error) {
+      console.error('Error getting user by auth ID:', error);
+      return undefined;
+    }
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values(insertUser)
+      .returning();
+    return user;
+  }
+
+  async updateLastLogin(id: number, date: Date): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set({ lastLogin: date })
+        .where(eq(users.id, id))
         .returning();
-      return gameSession;
+      return user;
     } catch (error) {
-      console.error('Error creating DECA Bloc game session:', error);
-      throw error;
+      console.error('Error updating last login:', error);
+      return undefined;
     }
   }
 
-  async getUserGameSessionsDECABloc(userId: number): Promise<GameSessionDECABloc[]> {
+  async updateUserSettings(id: number, settings: UserSettings): Promise<User | undefined> {
+    const changes = pickUserSettings(settings);
+    if (Object.keys(changes).length === 0) return this.getUser(id);
+
     try {
-      return await db
-        .select()
-        .from(gameSessionsDECABloc)
-        .where(eq(gameSessionsDECABloc.userId, userId))
-        .orderBy(desc(gameSessionsDECABloc.completedAt));
+      const [user] = await db
+        .update(users)
+        .set(changes)
+        .where(eq(users.id, id))
+        .returning();
+      return user;
     } catch (error) {
-      console.error('Error getting user DECA Bloc game sessions:', error);
-      return [];
+      console.error('Error updating user settings:', error);
+      return undefined;
     }
   }
 
-  async updateUserStats(userId: number, updates: { points?: number; experience?: number }): Promise<void> {
+  async updateUserProfile(id: number, profile: UserProfile): Promise<User | undefined> {
     try {
-      const updateData: any = {};
-      
-      if (updates.points !== undefined) {
-        updateData.points = sql`${users.points} + ${updates.points}`;
-      }
-      
-      if (updates.experience !== undefined) {
-        updateData.experience = sql`${users.experience} + ${updates.experience}`;
-      }
+      const [user] = await db
+        .update(users)
+        .set(profile)
+        .where(eq(users.id, id))
+        .returning();
+      return user;
+    } catch (error) {
+      console.error('Error updating user profile:', error);
+      return undefined;
+    }
+  }
 
-      if (Object.keys(updateData).length > 0) {
-        await db
-          .update(users)
-          .set(updateData)
-          .where(eq(users.id, userId));
-      }
+  async updateSubscription(id: number, tier: string): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set({ subscriptionTier: tier })
+        .where(eq(users.id, id))
+        .returning();
+      return user;
     } catch (error) {
-      console.error('Error updating user stats:', error);
-      throw error;
+      console.error('Error updating subscription:', error);
+      return undefined;
+    }
+  }
+
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.select().from(users).where(eq(users.stripeCustomerId, customerId));
+      return user;
+    } catch (error) {
+      console.error('Error getting user by Stripe customer ID:', error);
+      return undefined;
+    }
+  }
+
+  async updateStripeIds(id: number, ids: Partial<Pick<User, 'stripeCustomerId' | 'stripeSubscriptionId'>>): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set(ids)
+        .where(eq(users.id, id))
+        .returning();
+      return user;
+    } catch (error) {
+      console.error('Error updating Stripe IDs:', error);
+      return undefined;
+    }
+  }
+
+  async recordTestCompletion(userId: number, testData: any): Promise<boolean> {
+    try {
+      const user = await this.getUser(userId);
+      if (!user) return false;
+
+      // Update user's test completion count and points
+      const newTestCount = (user.testsCompleted || 0) + 1;
+      const pointsEarned = Math.floor((testData.score || 0) * 0.5);
+      const newPoints = (user.points || 0) + pointsEarned;
+
+      await db
+        .update(users)
+        .set({ 
+          testsCompleted: newTestCount,
+          points: newPoints
+        })
+        .where(eq(users.id, userId));
+      // 10% of points as DECITS
+      await this.addDecits(userId, Math.floor(pointsEarned * 0.1), { type: 'earned', description: 'Practice test completed', relatedId: testData.id });
+
+      return true;
+    } catch (error) {
+      console.error('Error recording test completion:', error);
+      return false;
+    }
+  }
+
+  async recordRoleplayCompletion(userId: number, roleplayData: any, rewarded = true): Promise<boolean> {
+    try {
+      const user = await this.getUser(userId);
+      if (!user) return false;
+
+      // Update user's roleplay completion count and points
+      const newRoleplayCount = (user.roleplaysCompleted || 0) + 1;
+      const pointsEarned = rewarded ? Math.floor((roleplayData.score || 70) * 0.4) : 0; // Default score of 70 if none provided
+      const newPoints = (user.points || 0) + pointsEarned;
+
+      await db
+        .update(users)
+        .set({ 
+          roleplaysCompleted: newRoleplayCount,
+          points: newPoints
+        })
+        .where(eq(users.id, userId));
+      // 15% of points as DECITS
+      await this.addDecits(userId, Math.floor(pointsEarned * 0.15), { type: 'earned', description: 'Roleplay completed', relatedId: roleplayData.id });
+      await this.recordPracticeSession({
+        userId,
+        type: 'roleplay',
+        score: roleplayData.score ?? null,
+        completedAt: new Date(),
+        details: JSON.stringify({ roleplayId: roleplayData.id }),
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error recording roleplay completion:', error);
+      return false;
     }
   }
+
+  // Increment the monthly usage count, starting a new period when the previous one has ended
+  protected async recordUsage(userId: number, kind: UsageKind): Promise<boolean> {
+    const user = await this.getUser(userId);
+    if (!user) return false;
+
+    const columns = USAGE_COLUMNS[kind];
+    const countColumn = users[columns.count];
+    const now = new Date();
+
+    if (isResetDue(user[columns.resetDate], now)) {
+      await db
+        .update(users)
+        .set({ [columns.count]: 1, [columns.resetDate]: getNextResetDate(now) })
+        .where(eq(users.id, userId));
+    } else {
+      await db
+        .update(users)
+        .set({ [columns.count]: sql`coalesce(${countColumn}, 0) + 1` })
+        .where(eq(users.id, userId));
+    }
+    return true;
+  }
+
+  // Each UPDATE checks its own condition, so two requests can't both take the last use
+  async reserveUsage(userId: number, kind: UsageKind): Promise<Allowance> {
+    try {
+      const user = await this.getUser(userId);
+      if (!user) return { allowed: false, remaining: 0, message: 'User not found' };
+
+      const allowance = getAllowance(user, kind);
+      if (!allowance.allowed) return allowance;
+
+      const columns = USAGE_COLUMNS[kind];
+      const countColumn = users[columns.count];
+      const resetColumn = users[columns.resetDate];
+      const limit = getTierLimits(user.subscriptionTier)[kind];
+      const now = new Date();
+
+      // Start a new period when the previous one has ended
+      let [reserved] = await db
+        .update(users)
+        .set({ [columns.count]: 1, [columns.resetDate]: getNextResetDate(now) })
+        .where(and(eq(users.id, userId), or(isNull(resetColumn), lte(resetColumn, now))))
+        .returning();
+
+      // Otherwise count up while the period has uses left
+      if (!reserved) {
+        [reserved] = await db
+          .update(users)
+          .set({ [columns.count]: sql`coalesce(${countColumn}, 0) + 1` })
+          .where(and(
+            eq(users.id, userId),
+            gt(resetColumn, now),
+            limit === -1 ? undefined : lt(sql`coalesce(${countColumn}, 0)`, limit),
+          ))
+          .returning();
+      }
+      if (!reserved) return getLimitReached(kind);
+
+      return { allowed: true, remaining: limit === -1 ? -1 : Math.max(0, limit - (reserved[columns.count] || 0)) };
+    } catch (error) {
+      console.error('Error reserving usage:', error);
+      return { allowed: false, remaining: 0, message: 'Error checking allowance' };
+    }
+  }
+
+  async refundUsage(userId: number, kind: UsageKind): Promise<void> {
+    const columns = USAGE_COLUMNS[kind];
+    const countColumn = users[columns.count];
+    try {
+      await db
+        .update(users)
+        .set({ [columns.count]: sql`${countColumn} - 1` })
+        .where(and(eq(users.id, userId), gt(countColumn, 0)));
+    } catch (error) {
+      console.error('Error refunding usage:', error);
+    }
+  }
+
+  async updateUserSession(userId: number, sessionData: any): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set({ 
+          lastLogin: new Date(),
+          ...sessionData
+        })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    } catch (error) {
+      console.error('Error updating user session:', error);
+      return undefined;
+    }
+  }
+
+  async getUserPIs(userId: number, category?: string): Promise<PerformanceIndicator[]> {
+    try {
+      if (category) {
+        return await db
+          .select()
+          .from(performanceIndicators)
+          .where(and(eq(performanceIndicators.userId, userId), eq(performanceIndicators.category, category)));
+      }
+      
+      return await db
+        .select()
+        .from(performanceIndicators)
+        .where(eq(performanceIndicators.userId, userId));
+    } catch (error) {
+      console.error('Error getting user PIs:', error);
+      return [];
+    }
+  }
+
+  async updatePIStatus(userId: number, piId: number, status: string): Promise<boolean> {
+    try {
+      const updated = await db
+        .update(performanceIndicators)
+        .set({ status, lastPracticed: new Date() })
+        .where(and(eq(performanceIndicators.id, piId), eq(performanceIndicators.userId, userId)))
+        .returning({ id: performanceIndicators.id });
+      return updated.length > 0;
+    } catch (error) {
+      console.error('Error updating PI status:', error);
+      return false;
+    }
+  }
+
+  protected async savePIMastery(pi: InsertPerformanceIndicator): Promise<PerformanceIndicator> {
+    const [saved] = await db
+      .insert(performanceIndicators)
+      .values(pi)
+      .onConflictDoUpdate({
+        target: [performanceIndicators.userId, performanceIndicators.piCode],
+        set: pi,
+      })
+      .returning();
+    return saved;
+  }
+
+  async createSession(insertSession: InsertSession): Promise<PracticeSession> {
+    const [session] = await db
+      .insert(practiceSessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getUserSessions(userId: number, type?: string): Promise<PracticeSession[]> {
+    try {
+      if (type) {
+        return await db
+          .select()
+          .from(practiceSessions)
+          .where(and(eq(practiceSessions.userId, userId), eq(practiceSessions.type, type)))
+          .orderBy(desc(practiceSessions.completedAt));
+      }
+      
+      return await db
+        .select()
+        .from(practiceSessions)
+        .where(eq(practiceSessions.userId, userId))
+        .orderBy(desc(practiceSessions.completedAt));
+    } catch (error) {
+      console.error('Error getting user sessions:', error);
+      return [];
+    }
+  }
+
+  async getSessionsByDateRange(userId: number, startDate: Date, endDate: Date): Promise<PracticeSession[]> {
+    try {
+      return await db
+        .select()
+        .from(practiceSessions)
+        .where(
+          and(
+            eq(practiceSessions.userId, userId),
+            sql`${practiceSessions.completedAt} >= ${startDate}`,
+            sql`${practiceSessions.completedAt} <= ${endDate}`
+          )
+        )
+        .orderBy(desc(practiceSessions.completedAt));
+    } catch (error) {
+      console.error('Error getting sessions by date range:', error);
+      return [];
+    }
+  }
+
+  async recordPracticeSession(insertSession: InsertSession): Promise<PracticeSession> {
+    const [session] = await db
+      .insert(practiceSessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getAchievements(): Promise<Achievement[]> {
+    try {
+      return await db.select().from(achievements).orderBy(asc(achievements.tier), asc(achievements.points));
+    } catch (error) {
+      console.error('Error getting achievements:', error);
+      return [];
+    }
+  }
+
+  async getUserAchievements(userId: number): Promise<UserAchievement[]> {
+    try {
+      return await db
+        .select()
+        .from(userAchievements)
+        .where(eq(userAchievements.userId, userId))
+        .orderBy(desc(userAchievements.earnedAt));
+    } catch (error) {
+      console.error('Error getting user achievements:', error);
+      return [];
+    }
+  }
+
+  async awardAchievement(userId: number, achievementId: number): Promise<UserAchievement> {
+    const [userAchievement] = await db
+      .insert(userAchievements)
+      .values({
+        userId,
+        achievementId,
+        earnedAt: new Date(),
+        progress: 100,
+        isDisplayed: true,
+        seasonEarned: this.getCurrentSeason()
+      })
+      .returning();
+    return userAchievement;
+  }
+
+  async updateAchievementDisplay(userId: number, achievementId: number, displayed: boolean): Promise<boolean> {
+    try {
+      await db
+        .update(userAchievements)
+        .set({ isDisplayed: displayed })
+        .where(and(eq(userAchievements.userId, userId), eq(userAchievements.achievementId, achievementId)));
+      return true;
+    } catch (error) {
+      console.error('Error updating achievement display:', error);
+      return false;
+    }
+  }
+
+  async getDailyChallenges(): Promise<DailyChallenge[]> {
+    try {
+      return await db
+        .select()
+        .from(dailyChallenges)
+        .where(eq(dailyChallenges.isActive, true))
+        .orderBy(desc(dailyChallenges.date));
+    } catch (error) {
+      console.error('Error getting daily challenges:', error);
+      return [];
+    }
+  }
+
+  async getTodayChallenge(): Promise<DailyChallenge | undefined> {
+    try {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      
+      const [challenge] = await db
+        .select()
+        .from(dailyChallenges)
+        .where(
+          and(
+            eq(dailyChallenges.isActive, true),
+            sql`date(${dailyChallenges.date}) = date(${today})`
+          )
+        );
+      return challenge;
+    } catch (error) {
+      console.error('Error getting today\'s challenge:', error);
+      return undefined;
+    }
+  }
+
+  async getUserDailyChallenges(userId: number): Promise<UserDailyChallenge[]> {
+    try {
+      return await db
+        .select()
+        .from(userDailyChallenges)
+        .where(eq(userDailyChallenges.userId, userId))
+        .orderBy(desc(userDailyChallenges.attemptDate));
+    } catch (error) {
+      console.error('Error getting user daily challenges:', error);
+      return [];
+    }
+  }
+
+  async createDailyChallenge(insertChallenge: InsertDailyChallenge): Promise<DailyChallenge> {
+    const [challenge] = await db
+      .insert(dailyChallenges)
+      .values(insertChallenge)
+      .returning();
+    return challenge;
+  }
+
+  async createBreakSession(insertSession: InsertBreakSession): Promise<BreakSession> {
+    const [session] = await db
+      .insert(breakSessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getUserBreakSessions(userId: number): Promise<BreakSession[]> {
+    try {
+      return await db
+        .select()
+        .from(breakSessions)
+        .where(eq(breakSessions.userId, userId))
+        .orderBy(desc(breakSessions.startTime));
+    } catch (error) {
+      console.error('Error getting user break sessions:', error);
+      return [];
+    }
+  }
+
+  protected async insertStudySession(insertSession: InsertStudySession): Promise<StudySession> {
+    const [session] = await db
+      .insert(studySessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  protected async finishStudySession(id: number, changes: Pick<StudySession, 'endedAt' | 'duration' | 'focusScore'>): Promise<StudySession | undefined> {
+    const [session] = await db
+      .update(studySessions)
+      .set(changes)
+      .where(and(eq(studySessions.id, id), isNull(studySessions.endedAt)))
+      .returning();
+    return session;
+  }
+
+  async getStudySession(userId: number, id: number): Promise<StudySession | undefined> {
+    try {
+      const [session] = await db
+        .select()
+        .from(studySessions)
+        .where(and(eq(studySessions.id, id), eq(studySessions.userId, userId)));
+      return session;
+    } catch (error) {
+      console.error('Error getting study session:', error);
+      return undefined;
+    }
+  }
+
+  async getStudySessions(userId: number, since?: Date): Promise<StudySession[]> {
+    try {
+      return await db
+        .select()
+        .from(studySessions)
+        .where(and(
+          eq(studySessions.userId, userId),
+          since ? gte(studySessions.startedAt, since) : undefined
+        ))
+        .orderBy(desc(studySessions.startedAt));
+    } catch (error) {
+      console.error('Error getting study sessions:', error);
+      return [];
+    }
+  }
+
+  async createMiniGameScore(insertScore: InsertMiniGameScore): Promise<MiniGameScore> {
+    const [score] = await db
+      .insert(miniGameScores)
+      .values(insertScore)
+      .returning();
+    return score;
+  }
+
+  async getUserMiniGameScores(userId: number, gameType?: string): Promise<MiniGameScore[]> {
+    try {
+      if (gameType) {
+        return await db
+          .select()
+          .from(miniGameScores)
+          .where(and(eq(miniGameScores.userId, userId), eq(miniGameScores.gameType, gameType)))
+          .orderBy(desc(miniGameScores.playedAt));
+      }
+      
+      return await db
+        .select()
+        .from(miniGameScores)
+        .where(eq(miniGameScores.userId, userId))
+        .orderBy(desc(miniGameScores.playedAt));
+    } catch (error) {
+      console.error('Error getting user mini game scores:', error);
+      return [];
+    }
+  }
+
+  async addDecits(userId: number, amount: number, grant: DecitsGrant): Promise<User | undefined> {
+    if (amount === 0) return this.getUser(userId);
+
+    try {
+      return await db.transaction(async (tx) => {
+        const [user] = await tx
+          .update(users)
+          .set({ decits: sql`coalesce(${users.decits}, 0) + ${amount}` })
+          .where(eq(users.id, userId))
+          .returning();
+        if (!user) return undefined;
+
+        await tx.insert(decitsTransactions).values({ userId, amount, ...grant });
+        return user;
+      });
+    } catch (error) {
+      console.error('Error adding decits:', error);
+      return undefined;
+    }
+  }
+
+  protected async listCosmeticItems(): Promise<CosmeticItem[]> {
+    return await db.select().from(cosmeticItems).orderBy(asc(cosmeticItems.price), asc(cosmeticItems.id));
+  }
+
+  protected async insertCosmeticItems(items: InsertCosmeticItem[]): Promise<void> {
+    await db.insert(cosmeticItems).values(items).onConflictDoNothing({ target: cosmeticItems.name });
+  }
+
+  async getCosmeticItem(id: number): Promise<CosmeticItem | undefined> {
+    const [item] = await db.select().from(cosmeticItems).where(eq(cosmeticItems.id, id));
+    return item;
+  }
+
+  async getUserCosmetics(userId: number): Promise<UserCosmetic[]> {
+    return await db
+      .select()
+      .from(userCosmetics)
+      .where(eq(userCosmetics.userId, userId))
+      .orderBy(asc(userCosmetics.purchasedAt));
+  }
+
+  // Spend the price, grant the item and write the ledger row in one transaction
+  async purchaseCosmetic(userId: number, item: CosmeticItem): Promise<CosmeticPurchase> {
+    try {
+      return await db.transaction(async (tx): Promise<CosmeticPurchase> => {
+        const [owned] = await tx
+          .select({ id: userCosmetics.id })
+          .from(userCosmetics)
+          .where(and(eq(userCosmetics.userId, userId), eq(userCosmetics.cosmeticId, item.id)));
+        if (owned) return { status: 'owned' };
+
+        // Conditional on the balance so concurrent purchases can't overdraw it
+        const [user] = await tx
+          .update(users)
+          .set({ decits: sql`coalesce(${users.decits}, 0) - ${item.price}` })
+          .where(and(eq(users.id, userId), sql`coalesce(${users.decits}, 0) >= ${item.price}`))
+          .returning();
+        if (!user) return { status: 'insufficient-decits' };
+
+        const [cosmetic] = await tx.insert(userCosmetics).values({ userId, cosmeticId: item.id }).returning();
+        await tx.insert(decitsTransactions).values({
+          userId,
+          amount: -item.price,
+          type: 'purchase',
+          description: `Bought ${item.name}`,
+          relatedId: item.id
+        });
+        return { status: 'purchased', user, cosmetic };
+      });
+    } catch (error: any) {
+      // A concurrent purchase of the same item got there first and this one was rolled back
+      if (error?.code === '23505') return { status: 'owned' };
+      console.error('Error purchasing cosmetic:', error);
+      throw error;
+    }
+  }
+
+  async setCosmeticEquipped(userId: number, item: CosmeticItem, equipped: boolean): Promise<UserCosmetic | undefined> {
+    return await db.transaction(async (tx) => {
+      const [owned] = await tx
+        .select()
+        .from(userCosmetics)
+        .where(and(eq(userCosmetics.userId, userId), eq(userCosmetics.cosmeticId, item.id)));
+      if (!owned) return undefined;
+
+      // One item per slot, so equipping replaces whatever of the same type was equipped
+      if (equipped) {
+        const sameSlot = tx.select({ id: cosmeticItems.id }).from(cosmeticItems).where(eq(cosmeticItems.type, item.type));
+        await tx
+          .update(userCosmetics)
+          .set({ isEquipped: false })
+          .where(and(eq(userCosmetics.userId, userId), inArray(userCosmetics.cosmeticId, sameSlot)));
+      }
+
+      const [updated] = await tx
+        .update(userCosmetics)
+        .set({ isEquipped: equipped })
+        .where(eq(userCosmetics.id, owned.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getDecitsTransactions(userId: number): Promise<DecitsTransaction[]> {
+    return await db
+      .select()
+      .from(decitsTransactions)
+      .where(eq(decitsTransactions.userId, userId))
+      .orderBy(desc(decitsTransactions.createdAt), desc(decitsTransactions.id));
+  }
+
+  async addExperience(userId: number, amount: number): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set({ 
+          experience: sql`${users.experience} + ${amount}`,
+          level: sql`CASE WHEN (${users.experience} + ${amount}) >= (${users.level} * 1000) THEN ${users.level} + 1 ELSE ${users.level} END`
+        })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    } catch (error) {
+      console.error('Error adding experience:', error);
+      return undefined;
+    }
+  }
+
+  async updateStreak(userId: number, streak: number): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set({ 
+          streak,
+          streakStartDate: streak === 1 ? new Date() : undefined
+        })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    } catch (error) {
+      console.error('Error updating streak:', error);
+      return undefined;
+    }
+  }
+
+
+
+  // Removed leaderboard to prioritize personalization features
+
+  async getNewUserAchievements(userId: number): Promise<UserAchievement[]> {
+    try {
+      const newOnes = await db
+        .select()
+        .from(userAchievements)
+        .where(and(eq(userAchievements.userId, userId), eq(userAchievements.isDisplayed, false)))
+        .orderBy(desc(userAchievements.earnedAt));
+      return newOnes;
+    } catch (error) {
+      console.error('Error getting new user achievements:', error);
+      return [];
+    }
+  }
+
+  protected async insertQuestionResults(results: InsertQuestionResult[]): Promise<QuestionResult[]> {
+    if (results.length === 0) return [];
+
+    try {
+      return await db
+        .insert(questionResults)
+        .values(results)
+        .returning();
+    } catch (error) {
+      console.error('Error saving question results:', error);
+      throw error;
+    }
+  }
+
+  async getTestQuestionResults(testHistoryId: number): Promise<QuestionResult[]> {
+    try {
+      return await db
+        .select()
+        .from(questionResults)
+        .where(eq(questionResults.testHistoryId, testHistoryId))
+        .orderBy(questionResults.id);
+    } catch (error) {
+      console.error('Error getting test question results:', error);
+      return [];
+    }
+  }
+
+  async createPracticeTest(test: InsertPracticeTest): Promise<PracticeTest> {
+    const [created] = await db
+      .insert(practiceTests)
+      .values(test)
+      .returning();
+    return created;
+  }
+
+  async getPracticeTest(userId: number, id: number): Promise<PracticeTest | undefined> {
+    try {
+      const [test] = await db
+        .select()
+        .from(practiceTests)
+        .where(and(eq(practiceTests.id, id), eq(practiceTests.userId, userId)));
+      return test;
+    } catch (error) {
+      console.error('Error getting practice test:', error);
+      return undefined;
+    }
+  }
+
+  async getInProgressExam(userId: number): Promise<PracticeTest | undefined> {
+    const [test] = await db
+      .select()
+      .from(practiceTests)
+      .where(and(eq(practiceTests.userId, userId), eq(practiceTests.mode, 'exam'), isNull(practiceTests.submittedAt)))
+      .orderBy(desc(practiceTests.createdAt))
+      .limit(1);
+    return test;
+  }
+
+  async getExpiredPracticeTests(deadline: Date): Promise<PracticeTest[]> {
+    return await db
+      .select()
+      .from(practiceTests)
+      .where(and(isNull(practiceTests.submittedAt), lte(practiceTests.expiresAt, deadline)));
+  }
+
+  async saveTestAnswer(id: number, questionId: number, change: TestAnswerChange): Promise<PracticeTest | undefined> {
+    // Locking the row keeps concurrent autosaves from overwriting each other and orders them against submission
+    return await db.transaction(async (tx) => {
+      const [test] = await tx
+        .select()
+        .from(practiceTests)
+        .where(eq(practiceTests.id, id))
+        .for('update');
+      if (!test || test.submittedAt || (test.expiresAt && test.expiresAt <= new Date())) return undefined;
+
+      const [updated] = await tx
+        .update(practiceTests)
+        .set(this.applyTestAnswer(test, questionId, change))
+        .where(eq(practiceTests.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async submitPracticeTest(id: number): Promise<PracticeTest | undefined> {
+    const [test] = await db
+      .update(practiceTests)
+      .set({ submittedAt: new Date() })
+      .where(and(eq(practiceTests.id, id), isNull(practiceTests.submittedAt)))
+      .returning();
+    return test;
+  }
+
+  async releasePracticeTest(id: number, testHistoryId?: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (testHistoryId !== undefined) {
+        await tx.delete(questionResults).where(eq(questionResults.testHistoryId, testHistoryId));
+        await tx.delete(testHistory).where(eq(testHistory.id, testHistoryId));
+      }
+      await tx
+        .update(practiceTests)
+        .set({ submittedAt: null, testHistoryId: null })
+        .where(eq(practiceTests.id, id));
+    });
+  }
+
+  async updatePracticeTest(id: number, changes: Partial<Pick<PracticeTest, 'testHistoryId'>>): Promise<PracticeTest | undefined> {
+    const [test] = await db
+      .update(practiceTests)
+      .set(changes)
+      .where(eq(practiceTests.id, id))
+      .returning();
+    return test;
+  }
+
+  async getUserWeakTopics(userId: number): Promise<{ topic: string, wrongCount: number, totalCount: number }[]> {
+    try {
+      const results = await db
+        .select({
+          topic: questionResults.topic,
+          wrongCount: sql<number>`COUNT(CASE WHEN ${questionResults.isCorrect} = false THEN 1 END)`,
+          totalCount: sql<number>`COUNT(*)`
+        })
+        .from(questionResults)
+        .where(eq(questionResults.userId, userId))
+        .groupBy(questionResults.topic)
+        .having(sql`COUNT(CASE WHEN ${questionResults.isCorrect} = false THEN 1 END) > 0`)
+        .orderBy(sql`COUNT(CASE WHEN ${questionResults.isCorrect} = false THEN 1 END) DESC`);
+
+      // Filter out "General" topic and only include topics with specific names
+      return results.filter(result => 
+        result.topic && 
+        result.topic !== null &&
+        result.wrongCount > 0 && 
+        result.topic !== 'General' &&
+        result.topic.trim().length > 0
+      ).map(result => ({
+        topic: result.topic!,
+        wrongCount: result.wrongCount,
+        totalCount: result.totalCount
+      }));
+    } catch (error) {
+      console.error('Error getting user weak topics:', error);
+      return [];
+    }
+  }
+
+  // Save test history
+  async saveTestHistory(result: InsertTestHistory): Promise<TestHistory> {
+    try {
+      const [testResult] = await db
+        .insert(testHistory)
+        .values(result)
+        .returning();
+      return testResult;
+    } catch (error) {
+      console.error('Error saving test history:', error);
+      throw error;
+    }
+  }
+
+  // Get user test history
+  async getUserTestHistory(userId: number, testType?: string): Promise<TestHistory[]> {
+    try {
+      let query = db
+        .select()
+        .from(testHistory)
+        .where(eq(testHistory.userId, userId))
+        .orderBy(desc(testHistory.completedAt));
+
+
+
+      return await query;
+    } catch (error) {
+      console.error('Error getting user test history:', error);
+      return [];
+    }
+  }
+
+  // Get one of the user's completed tests
+  async getTestHistory(userId: number, id: number): Promise<TestHistory | undefined> {
+    try {
+      const [test] = await db
+        .select()
+        .from(testHistory)
+        .where(and(eq(testHistory.id, id), eq(testHistory.userId, userId)));
+      return test;
+    } catch (error) {
+      console.error('Error getting test history:', error);
+      return undefined;
+    }
+  }
+
+  // Save question result
+  async saveQuestionResult(result: InsertQuestionResult): Promise<QuestionResult> {
+    try {
+      const [questionResult] = await db
+        .insert(questionResults)
+        .values(result)
+        .returning();
+      return questionResult;
+    } catch (error) {
+      console.error('Error saving question result:', error);
+      throw error;
+    }
+  }
+
+  // Get user question results
+  async getUserQuestionResults(userId: number, testHistoryId?: number): Promise<QuestionResult[]> {
+    try {
+      let query = db
+        .select()
+        .from(questionResults)
+        .where(eq(questionResults.userId, userId))
+        .orderBy(desc(questionResults.answeredAt));
+
+
+
+      return await query;
+    } catch (error) {
+      console.error('Error getting user question results:', error);
+      return [];
+    }
+  }
+
+  // Deactivate the user's previous insights and store the new set
+  protected async replaceLearningInsights(userId: number, insights: InsertLearningInsight[]): Promise<LearningInsight[]> {
+    await db
+      .update(learningInsights)
+      .set({ isActive: false })
+      .where(eq(learningInsights.userId, userId));
+
+    if (insights.length > 0) {
+      return await db
+        .insert(learningInsights)
+        .values(insights)
+        .returning();
+    }
+
+    return [];
+  }
+
+  async getUserLearningInsights(userId: number): Promise<LearningInsight[]> {
+    try {
+      return await db
+        .select()
+        .from(learningInsights)
+        .where(and(eq(learningInsights.userId, userId), eq(learningInsights.isActive, true)))
+        .orderBy(desc(learningInsights.priority));
+    } catch (error) {
+      console.error('Error getting user learning insights:', error);
+      return [];
+    }
+  }
+
+  async markAchievementAsDisplayed(userId: number, achievementId: number): Promise<boolean> {
+    try {
+      await db
+        .update(userAchievements)
+        .set({ isDisplayed: true })
+        .where(and(
+          eq(userAchievements.userId, userId),
+          eq(userAchievements.achievementId, achievementId)
+        ));
+      return true;
+    } catch (error) {
+      console.error('Error marking achievement as displayed:', error);
+      return false;
+    }
+  }
+
+  async completeChallenge(userId: number, challengeId: number, progress: number): Promise<UserDailyChallenge> {
+    try {
+      // Get the challenge details
+      const [challenge] = await db
+        .select()
+        .from(dailyChallenges)
+        .where(eq(dailyChallenges.id, challengeId));
+      
+      if (!challenge) {
+        throw new Error('Challenge not found');
+      }
+      // Study time is measured from the day's study sessions, not reported
+      if (challenge.type === 'study_time') {
+        progress = await this.getStudyTimeOn(userId, challenge.date);
+      }
+      
+      // Check if user already has progress for this challenge
+      const existingProgress = await db
+        .select()
+        .from(userDailyChallenges)
+        .where(and(
+          eq(userDailyChallenges.userId, userId),
+          eq(userDailyChallenges.challengeId, challengeId)
+        ));
+      
+      const isCompleted = progress >= challenge.target;
+      
+      if (existingProgress.length > 0) {
+        // Update existing progress
+        const [updatedProgress] = await db
+          .update(userDailyChallenges)
+          .set({
+            progress: Math.max((existingProgress[0].progress ?? 0), progress),
+            isCompleted: isCompleted || existingProgress[0].isCompleted,
+            completedAt: isCompleted && !existingProgress[0].isCompleted ? new Date() : existingProgress[0].completedAt
+          })
+          .where(eq(userDailyChallenges.id, existingProgress[0].id))
+          .returning();
+        
+        // Award points and DECITS if newly completed
+        if (isCompleted && !existingProgress[0].isCompleted) {
+          await this.addExperience(userId, challenge.points);
+          await this.addDecits(userId, challenge.decitsReward, { type: 'reward', description: `Daily challenge: ${challenge.title}`, relatedId: challenge.id });
+          
+          // Check for new achievements
+          await this.checkForNewAchievements(userId);
+        }
+        
+        return updatedProgress;
+      } else {
+        // Create new progress record
+        const [newProgress] = await db
+          .insert(userDailyChallenges)
+          .values({
+            userId,
+            challengeId,
+            progress,
+            isCompleted,
+            completedAt: isCompleted ? new Date() : null,
+            attemptDate: new Date()
+          })
+          .returning();
+        
+        // Award points and DECITS if completed
+        if (isCompleted) {
+          await this.addExperience(userId, challenge.points);
+          await this.addDecits(userId, challenge.decitsReward, { type: 'reward', description: `Daily challenge: ${challenge.title}`, relatedId: challenge.id });
+          
+          // Check for new achievements
+          await this.checkForNewAchievements(userId);
+        }
+        
+        return newProgress;
+      }
+    } catch (error) {
+      console.error('Error completing challenge:', error);
+      throw error;
+    }
+  }
+
+  // Roleplay History Implementation
+  async createRoleplaySession(session: InsertRoleplayHistory): Promise<RoleplayHistory> {
+    try {
+      const [savedRoleplay] = await db
+        .insert(roleplayHistory)
+        .values({
+          userId: session.userId,
+          scenario: session.scenario,
+          cluster: session.cluster,
+          role: session.role,
+          score: session.score,
+          aiGradingFeedback: session.aiGradingFeedback,
+          gradedBy: session.gradedBy,
+          transcriptUrl: session.transcriptUrl,
+          transcript: session.transcript,
+          notes: session.notes,
+          audioKey: session.audioKey,
+          audioType: session.audioType,
+          duration: session.duration,
+          completedAt: session.completedAt || new Date()
+        })
+        .returning();
+      return savedRoleplay;
+    } catch (error) {
+      console.error('Error creating roleplay session:', error);
+      throw error;
+    }
+  }
+
+  async getRoleplayHistory(userId: number): Promise<RoleplayHistory[]> {
+    try {
+      return await db
+        .select()
+        .from(roleplayHistory)
+        .where(eq(roleplayHistory.userId, userId))
+        .orderBy(desc(roleplayHistory.completedAt));
+    } catch (error) {
+      console.error('Error getting roleplay history:', error);
+      return [];
+    }
+  }
+
+  async getRoleplaySession(userId: number, id: number): Promise<RoleplayHistory | undefined> {
+    try {
+      const [session] = await db
+        .select()
+        .from(roleplayHistory)
+        .where(and(eq(roleplayHistory.id, id), eq(roleplayHistory.userId, userId)));
+      return session;
+    } catch (error) {
+      console.error('Error getting roleplay session:', error);
+      return undefined;
+    }
+  }
+
+  async createJudgeSession(session: InsertJudgeSession): Promise<JudgeSession> {
+    const [created] = await db
+      .insert(judgeSessions)
+      .values(session)
+      .returning();
+    return created;
+  }
+
+  async getJudgeSession(userId: number, id: number): Promise<JudgeSession | undefined> {
+    try {
+      const [session] = await db
+        .select()
+        .from(judgeSessions)
+        .where(and(eq(judgeSessions.id, id), eq(judgeSessions.userId, userId)));
+      return session;
+    } catch (error) {
+      console.error('Error getting judge session:', error);
+      return undefined;
+    }
+  }
+
+  async updateJudgeSession(id: number, changes: Partial<Pick<JudgeSession, 'status' | 'messages' | 'closingQuestionsAsked'>>): Promise<JudgeSession | undefined> {
+    const [session] = await db
+      .update(judgeSessions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(judgeSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation> {
+    const [created] = await db
+      .insert(chatConversations)
+      .values(conversation)
+      .returning();
+    return created;
+  }
+
+  async getChatConversation(userId: number, id: number): Promise<ChatConversation | undefined> {
+    try {
+      const [conversation] = await db
+        .select()
+        .from(chatConversations)
+        .where(and(eq(chatConversations.id, id), eq(chatConversations.userId, userId)));
+      return conversation;
+    } catch (error) {
+      console.error('Error getting chat conversation:', error);
+      return undefined;
+    }
+  }
+
+  async getUserChatConversations(userId: number): Promise<ChatConversation[]> {
+    try {
+      return await db
+        .select()
+        .from(chatConversations)
+        .where(eq(chatConversations.userId, userId))
+        .orderBy(desc(chatConversations.updatedAt));
+    } catch (error) {
+      console.error('Error getting chat conversations:', error);
+      return [];
+    }
+  }
+
+  async updateChatConversation(id: number, changes: Partial<Pick<ChatConversation, 'messages' | 'unrelatedCount' | 'closedAt'>>): Promise<ChatConversation | undefined> {
+    const [conversation] = await db
+      .update(chatConversations)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(chatConversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  // Enhanced personalized learning methods
+  async getTopicMastery(userId: number): Promise<TopicMastery[]> {
+    try {
+      const mastery = await db
+        .select()
+        .from(topicMastery)
+        .where(eq(topicMastery.userId, userId))
+        .orderBy(desc(topicMastery.masteryLevel));
+      
+      return mastery;
+    } catch (error) {
+      console.error('Error getting topic mastery:', error);
+      return [];
+    }
+  }
+
+  async updateTopicMastery(userId: number, topic: string, cluster: string, performance: {
+    questionsAnswered: number;
+    questionsCorrect: number;
+    timeSpent: number;
+  }): Promise<TopicMastery> {
+    try {
+      // Check if mastery record exists
+      const [existing] = await db
+        .select()
+        .from(topicMastery)
+        .where(and(
+          eq(topicMastery.userId, userId),
+          eq(topicMastery.topic, topic),
+          eq(topicMastery.cluster, cluster)
+        ));
+
+      const newMasteryLevel = Math.min(100, (performance.questionsCorrect / performance.questionsAnswered) * 100);
+      const avgTimePerQuestion = performance.timeSpent / performance.questionsAnswered;
+      
+      if (existing) {
+        // Update existing record
+        const totalQuestions = (existing.questionsAnswered ?? 0) + performance.questionsAnswered;
+        const totalCorrect = (existing.questionsCorrect ?? 0) + performance.questionsCorrect;
+        const overallMastery = (totalCorrect / totalQuestions) * 100;
+        
+        // Calculate trend
+        const baseMastery = existing.masteryLevel ?? 0;
+        const trend = newMasteryLevel > baseMastery ? 'improving' : 
+                     newMasteryLevel < baseMastery ? 'declining' : 'stable';
+        
+        // Calculate learning velocity (improvement rate)
+        const lastPracticed = existing.lastPracticed ? new Date(existing.lastPracticed) : new Date(Date.now() - 24*60*60*1000);
+        const timeDiff = Date.now() - lastPracticed.getTime();
+        const daysDiff = timeDiff / (1000 * 60 * 60 * 24);
+        const masteryChange = newMasteryLevel - baseMastery;
+        const learningVelocity = daysDiff > 0 ? masteryChange / daysDiff : 0;
+        
+        // Calculate next recommended practice using spaced repetition
+        const baseInterval = baseMastery >= 80 ? 7 : baseMastery >= 60 ? 3 : 1;
+        const nextPractice = new Date(Date.now() + baseInterval * 24 * 60 * 60 * 1000);
+        
+        const [updated] = await db
+          .update(topicMastery)
+          .set({
+            masteryLevel: overallMastery,
+            questionsAnswered: totalQuestions,
+            questionsCorrect: totalCorrect,
+            lastPracticed: new Date(),
+            avgTimePerQuestion,
+            masteryTrend: trend,
+            learningVelocity,
+            nextRecommendedPractice: nextPractice,
+            timesRetried: (existing.timesRetried ?? 0) + 1,
+            updatedAt: new Date()
+          })
+          .where(eq(topicMastery.id, existing.id))
+          .returning();
+        
+        return updated;
+      } else {
+        // Create new record
+        const nextPractice = new Date(Date.now() + 1 * 24 * 60 * 60 * 1000); // 1 day for new topics
+        
+        const [created] = await db
+          .insert(topicMastery)
+          .values({
+            userId,
+            topic,
+            cluster,
+            masteryLevel: newMasteryLevel,
+            questionsAnswered: performance.questionsAnswered,
+            questionsCorrect: performance.questionsCorrect,
+            avgTimePerQuestion,
+            nextRecommendedPractice: nextPractice,
+            masteryTrend: 'stable',
+            learningVelocity: 0
+          })
+          .returning();
+        
+        return created;
+      }
+    } catch (error) {
+      console.error('Error updating topic mastery:', error);
+      throw error;
+    }
+  }
+
+  async saveQuizSession(session: InsertQuizSession): Promise<QuizSession> {
+    try {
+      // Calculate improvement from last session
+      const lastSessions = await db
+        .select()
+        .from(quizSessions)
+        .where(and(
+          eq(quizSessions.userId, session.userId),
+          eq(quizSessions.topicFocused, session.topicFocused || '')
+        ))
+        .orderBy(desc(quizSessions.completedAt))
+        .limit(1);
+      
+      const improvement = lastSessions.length > 0 
+        ? session.scorePercentage - lastSessions[0].scorePercentage
+        : 0;
+      
+      // Calculate mastery gain estimate based on performance
+      const masteryGain = Math.min(20, session.scorePercentage >= 80 ? 15 : 
+                                      session.scorePercentage >= 60 ? 10 : 5);
+      
+      // Calculate next recommended session using spaced repetition
+      const baseInterval = session.scorePercentage >= 80 ? 7 : 
+                          session.scorePercentage >= 60 ? 3 : 1;
+      const nextSession = new Date(Date.now() + baseInterval * 24 * 60 * 60 * 1000);
+      
+      const [created] = await db
+        .insert(quizSessions)
+        .values({
+          ...session,
+          improvementFromLastSession: improvement,
+          masteryGainEstimate: masteryGain,
+          nextRecommendedSession: nextSession
+        })
+        .returning();
+      
+      return created;
+    } catch (error) {
+      console.error('Error saving quiz session:', error);
+      throw error;
+    }
+  }
+
+  async getQuizSessions(userId: number): Promise<QuizSession[]> {
+    try {
+      const sessions = await db
+        .select()
+        .from(quizSessions)
+        .where(eq(quizSessions.userId, userId))
+        .orderBy(desc(quizSessions.completedAt));
+      
+      return sessions;
+    } catch (error) {
+      console.error('Error getting quiz sessions:', error);
+      return [];
+    }
+  }
+
+  protected async saveEnhancedInsights(insights: InsertEnhancedLearningInsight[]): Promise<EnhancedLearningInsight[]> {
+    const savedInsights: EnhancedLearningInsight[] = [];
+    for (const insight of insights) {
+      const [saved] = await db
+        .insert(enhancedLearningInsights)
+        .values(insight)
+        .returning();
+      savedInsights.push(saved);
+    }
+    return savedInsights;
+  }
+
+  async getAdaptiveDifficulty(userId: number, topic: string): Promise<string> {
+    try {
+      const [mastery] = await db
+        .select()
+        .from(topicMastery)
+        .where(and(
+          eq(topicMastery.userId, userId),
+          eq(topicMastery.topic, topic)
+        ));
+      
+      if (!mastery) return 'medium';
+      
+      const m = mastery.masteryLevel ?? 0;
+      if (m >= 80) return 'hard';
+      if (m >= 60) return 'medium';
+      return 'easy';
+    } catch (error) {
+      console.error('Error getting adaptive difficulty:', error);
+      return 'medium';
+    }
+  }
+
+  async calculateSpacedRepetition(userId: number, topic: string): Promise<Date> {
+    try {
+      const [mastery] = await db
+        .select()
+        .from(topicMastery)
+        .where(and(
+          eq(topicMastery.userId, userId),
+          eq(topicMastery.topic, topic)
+        ));
+      
+      if (!mastery) {
+        return new Date(Date.now() + 1 * 24 * 60 * 60 * 1000); // 1 day for new topics
+      }
+      
+      // Spaced repetition algorithm based on mastery level
+      let intervalDays = 1;
+      const m = mastery.masteryLevel ?? 0;
+      if (m >= 90) intervalDays = 14;
+      else if (m >= 80) intervalDays = 7;
+      else if (m >= 70) intervalDays = 3;
+      else if (m >= 60) intervalDays = 2;
+      
+      // Adjust based on streak
+      const s = mastery.streakCount ?? 0;
+      if (s >= 5) intervalDays = Math.round(intervalDays * 1.5);
+      
+      return new Date(Date.now() + intervalDays * 24 * 60 * 60 * 1000);
+    } catch (error) {
+      console.error('Error calculating spaced repetition:', error);
+      return new Date(Date.now() + 1 * 24 * 60 * 60 * 1000);
+    }
+  }
+
+  // DECA Bloc Game Session methods
+  async createGameSessionDECABloc(session: InsertGameSessionDECABloc): Promise<GameSessionDECABloc> {
+    try {
+      const [gameSession] = await db
+        .insert(gameSessionsDECABloc)
+        .values(session)
+        .returning();
+      return gameSession;
+    } catch (error) {
+      console.error('Error creating DECA Bloc game session:', error);
+      throw error;
+    }
+  }
+
+  async getUserGameSessionsDECABloc(userId: number): Promise<GameSessionDECABloc[]> {
+    try {
+      return await db
+        .select()
+        .from(gameSessionsDECABloc)
+        .where(eq(gameSessionsDECABloc.userId, userId))
+        .orderBy(desc(gameSessionsDECABloc.completedAt));
+    } catch (error) {
+      console.error('Error getting user DECA Bloc game sessions:', error);
+      return [];
+    }
+  }
+
+  async updateUserStats(userId: number, updates: { points?: number; experience?: number }): Promise<void> {
+    try {
+      const updateData: any = {};
+      
+      if (updates.points !== undefined) {
+        updateData.points = sql`${users.points} + ${updates.points}`;
+      }
+      
+      if (updates.experience !== undefined) {
+        updateData.experience = sql`${users.experience} + ${updates.experience}`;
+      }
+
+      if (Object.keys(updateData).length > 0) {
+        await db
+          .update(users)
+          .set(updateData)
+          .where(eq(users.id, userId));
+      }
+    } catch (error) {
+      console.error('Error updating user stats:', error);
+      throw error;
+    }
+  }
+
+  // Written event methods
+  async createWrittenEventPrompt(prompt: InsertWrittenEventPrompt): Promise<WrittenEventPrompt> {
+    try {
+      const [savedPrompt] = await db
+        .insert(writtenEventPrompts)
+        .values(prompt)
+        .returning();
+      return savedPrompt;
+    } catch (error) {
+      console.error('Error creating written event prompt:', error);
+      throw error;
+    }
+  }
+
+  async getWrittenEventPrompt(id: number): Promise<WrittenEventPrompt | undefined> {
+    try {
+      const [prompt] = await db
+        .select()
+        .from(writtenEventPrompts)
+        .where(eq(writtenEventPrompts.id, id));
+      return prompt;
+    } catch (error) {
+      console.error('Error getting written event prompt:', error);
+      return undefined;
+    }
+  }
+
+  async createWrittenEventFeedback(feedback: InsertWrittenEventFeedback): Promise<WrittenEventFeedback> {
+    try {
+      const [savedFeedback] = await db
+        .insert(writtenEventFeedback)
+        .values(feedback)
+        .returning();
+      return savedFeedback;
+    } catch (error) {
+      console.error('Error creating written event feedback:', error);
+      throw error;
+    }
+  }
+
+  async getWrittenEventFeedback(id: number): Promise<WrittenEventFeedback | undefined> {
+    try {
+      const [feedback] = await db
+        .select()
+        .from(writtenEventFeedback)
+        .where(eq(writtenEventFeedback.id, id));
+      return feedback;
+    } catch (error) {
+      console.error('Error getting written event feedback:', error);
+      return undefined;
+    }
+  }
+
+  async getUserWrittenEventFeedback(userId: number): Promise<WrittenEventFeedback[]> {
+    try {
+      return await db
+        .select()
+        .from(writtenEventFeedback)
+        .where(eq(writtenEventFeedback.userId, userId))
+        .orderBy(desc(writtenEventFeedback.createdAt));
+    } catch (error) {
+      console.error('Error getting user written event feedback:', error);
+      return [];
+    }
+  }
+}
+
+// In-memory storage for local development and route tests (STORAGE_DRIVER=memory).
+// Nothing is persisted; every table is a Map keyed by id and lost when the process exits.
+export class MemStorage extends BaseStorage implements IStorage {
+  sessionStore: SessionStore;
+
+  private users = new Map<number, User>();
+  private performanceIndicators = new Map<number, PerformanceIndicator>();
+  private practiceSessions = new Map<number, PracticeSession>();
+  private achievements = new Map<number, Achievement>();
+  private userAchievements = new Map<number, UserAchievement>();
+  private dailyChallenges = new Map<number, DailyChallenge>();
+  private userDailyChallenges = new Map<number, UserDailyChallenge>();
+  private breakSessions = new Map<number, BreakSession>();
+  private studySessions = new Map<number, StudySession>();
+  private miniGameScores = new Map<number, MiniGameScore>();
+  private cosmeticItems = new Map<number, CosmeticItem>();
+  private userCosmetics = new Map<number, UserCosmetic>();
+  private decitsTransactions = new Map<number, DecitsTransaction>();
+  private testHistory = new Map<number, TestHistory>();
+  private questionResults = new Map<number, QuestionResult>();
+  private practiceTests = new Map<number, PracticeTest>();
+  private learningInsights = new Map<number, LearningInsight>();
+  private roleplayHistory = new Map<number, RoleplayHistory>();
+  private judgeSessions = new Map<number, JudgeSession>();
+  private chatConversations = new Map<number, ChatConversation>();
+  private topicMastery = new Map<number, TopicMastery>();
+  private quizSessions = new Map<number, QuizSession>();
+  private enhancedLearningInsights = new Map<number, EnhancedLearningInsight>();
+  private gameSessionsDECABloc = new Map<number, GameSessionDECABloc>();
+  private writtenEventPrompts = new Map<number, WrittenEventPrompt>();
+  private writtenEventFeedback = new Map<number, WrittenEventFeedback>();
+
+  constructor() {
+    super();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // Prune expired entries every 24h
+    });
+  }
+
+  // Assign the next serial id for a table and store the row
+  private insertRow<T extends { id: number }>(table: Map<number, T>, values: Omit<T, 'id'>): T {
+    const id = Array.from(table.keys()).reduce((max, key) => Math.max(max, key), 0) + 1;
+    const row = { ...values, id } as T;
+    table.set(id, row);
+    return row;
+  }
+
+  private rowsWhere<T>(table: Map<number, T>, predicate: (row: T) => boolean): T[] {
+    return Array.from(table.values()).filter(predicate);
+  }
+
+  private newestFirst<T>(rows: T[], getDate: (row: T) => Date | null): T[] {
+    return rows.sort((a, b) => (getDate(b)?.getTime() ?? 0) - (getDate(a)?.getTime() ?? 0));
+  }
+
+  private updateUser(id: number, changes: Partial<User>): User | undefined {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated = { ...user, ...changes };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.rowsWhere(this.users, user => user.username === username)[0];
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.rowsWhere(this.users, user => user.email === email)[0];
+  }
+
+  async getUserByAuthId(authId: string): Promise<User | undefined> {
+    return this.rowsWhere(this.users, user => user.authId === authId)[0];
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Mirror the unique constraints on users so callers see the same failure as with Postgres
+    const conflict = Array.from(this.users.values()).find(user =>
+      user.username === insertUser.username || (!!insertUser.authId && user.authId === insertUser.authId)
+    );
+    if (conflict) {
+      const column = conflict.username === insertUser.username ? 'username' : 'auth_id';
+      const constraint = `users_${column}_unique`;
+      throw Object.assign(new Error(`duplicate key value violates unique constraint "${constraint}"`), { code: '23505', constraint });
+    }
+
+    return this.insertRow(this.users, {
+      authId: insertUser.authId ?? null,
+      username: insertUser.username,
+      password: insertUser.password ?? null,
+      email: insertUser.email ?? null,
+      fullName: insertUser.fullName ?? null,
+      googleId: null,
+      eventFormat: insertUser.eventFormat ?? null,
+      eventCode: insertUser.eventCode ?? null,
+      eventType: insertUser.eventType ?? null,
+      instructionalArea: insertUser.instructionalArea ?? null,
+      sessionId: null,
+      uiTheme: insertUser.uiTheme ?? 'aquaBlue',
+      colorScheme: insertUser.colorScheme ?? 'memphis',
+      theme: insertUser.theme ?? 'light',
+      subscriptionTier: 'standard',
+      streak: 0,
+      lastLoginDate: null,
+      points: 0,
+      roleplayCount: 0,
+      testCount: 0,
+      writtenEventCount: 0,
+      roleplayResetDate: null,
+      testResetDate: null,
+      writtenEventResetDate: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      selectedEvent: insertUser.selectedEvent ?? null,
+      selectedCluster: insertUser.selectedCluster ?? null,
+      showTutorial: insertUser.showTutorial ?? true,
+      onboardingCompleted: insertUser.onboardingCompleted ?? false,
+      lastLogin: null,
+      streakStartDate: null,
+      decits: 0,
+      experience: 0,
+      level: 1,
+      testsCompleted: 0,
+      roleplaysCompleted: 0,
+      totalStudyTime: 0,
+      averageTestScore: 0,
+      averageRoleplayScore: 0,
+    });
+  }
+
+  async updateLastLogin(id: number, date: Date): Promise<User | undefined> {
+    return this.updateUser(id, { lastLogin: date });
+  }
+
+  async updateUserSettings(id: number, settings: UserSettings): Promise<User | undefined> {
+    return this.updateUser(id, pickUserSettings(settings));
+  }
+
+  async updateUserProfile(id: number, profile: UserProfile): Promise<User | undefined> {
+    return this.updateUser(id, profile);
+  }
+
+  async updateSubscription(id: number, tier: string): Promise<User | undefined> {
+    return this.updateUser(id, { subscriptionTier: tier });
+  }
+
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    return this.rowsWhere(this.users, user => user.stripeCustomerId === customerId)[0];
+  }
+
+  async updateStripeIds(id: number, ids: Partial<Pick<User, 'stripeCustomerId' | 'stripeSubscriptionId'>>): Promise<User | undefined> {
+    return this.updateUser(id, ids);
+  }
+
+  async recordTestCompletion(userId: number, testData: any): Promise<boolean> {
+    const user = await this.getUser(userId);
+    if (!user) return false;
+
+    const pointsEarned = Math.floor((testData.score || 0) * 0.5);
+    this.updateUser(userId, {
+      testsCompleted: (user.testsCompleted || 0) + 1,
+      points: (user.points || 0) + pointsEarned
+    });
+    await this.addDecits(userId, Math.floor(pointsEarned * 0.1), { type: 'earned', description: 'Practice test completed', relatedId: testData.id });
+    return true;
+  }
+
+  async recordRoleplayCompletion(userId: number, roleplayData: any, rewarded = true): Promise<boolean> {
+    const user = await this.getUser(userId);
+    if (!user) return false;
+
+    const pointsEarned = rewarded ? Math.floor((roleplayData.score || 70) * 0.4) : 0;
+    this.updateUser(userId, {
+      roleplaysCompleted: (user.roleplaysCompleted || 0) + 1,
+      points: (user.points || 0) + pointsEarned
+    });
+    await this.addDecits(userId, Math.floor(pointsEarned * 0.15), { type: 'earned', description: 'Roleplay completed', relatedId: roleplayData.id });
+    await this.recordPracticeSession({
+      userId,
+      type: 'roleplay',
+      score: roleplayData.score ?? null,
+      completedAt: new Date(),
+      details: JSON.stringify({ roleplayId: roleplayData.id }),
+    });
+    return true;
+  }
+
+  protected async recordUsage(userId: number, kind: UsageKind): Promise<boolean> {
+    const user = await this.getUser(userId);
+    if (!user) return false;
+
+    const columns = USAGE_COLUMNS[kind];
+    const now = new Date();
+
+    if (isResetDue(user[columns.resetDate], now)) {
+      this.updateUser(userId, { [columns.count]: 1, [columns.resetDate]: getNextResetDate(now) });
+    } else {
+      this.updateUser(userId, { [columns.count]: (user[columns.count] || 0) + 1 });
+    }
+    return true;
+  }
+
+  // Checked and counted without an await in between, so concurrent requests see each other's uses
+  async reserveUsage(userId: number, kind: UsageKind): Promise<Allowance> {
+    const user = this.users.get(userId);
+    if (!user) return { allowed: false, remaining: 0, message: 'User not found' };
+
+    const allowance = getAllowance(user, kind);
+    if (!allowance.allowed) return allowance;
+
+    const columns = USAGE_COLUMNS[kind];
+    const now = new Date();
+    if (isResetDue(user[columns.resetDate], now)) {
+      this.updateUser(userId, { [columns.count]: 1, [columns.resetDate]: getNextResetDate(now) });
+    } else {
+      this.updateUser(userId, { [columns.count]: (user[columns.count] || 0) + 1 });
+    }
+    return { allowed: true, remaining: allowance.remaining === -1 ? -1 : allowance.remaining - 1 };
+  }
+
+  async refundUsage(userId: number, kind: UsageKind): Promise<void> {
+    const user = this.users.get(userId);
+    const count = USAGE_COLUMNS[kind].count;
+    if (user && (user[count] || 0) > 0) {
+      this.updateUser(userId, { [count]: (user[count] || 0) - 1 });
+    }
+  }
+
+  async updateUserSession(userId: number, sessionData: any): Promise<User | undefined> {
+    return this.updateUser(userId, { lastLogin: new Date(), ...sessionData });
+  }
+
+  async getUserPIs(userId: number, category?: string): Promise<PerformanceIndicator[]> {
+    return this.rowsWhere(this.performanceIndicators, pi =>
+      pi.userId === userId && (!category || pi.category === category)
+    );
+  }
+
+  async updatePIStatus(userId: number, piId: number, status: string): Promise<boolean> {
+    const pi = this.performanceIndicators.get(piId);
+    if (!pi || pi.userId !== userId) return false;
+    this.performanceIndicators.set(piId, { ...pi, status, lastPracticed: new Date() });
+    return true;
+  }
+
+  protected async savePIMastery(pi: InsertPerformanceIndicator): Promise<PerformanceIndicator> {
+    const values = {
+      userId: pi.userId,
+      piCode: pi.piCode,
+      indicator: pi.indicator,
+      category: pi.category,
+      status: pi.status ?? 'not_started',
+      masteryLevel: pi.masteryLevel ?? 0,
+      attempts: pi.attempts ?? 0,
+      lastScore: pi.lastScore ?? null,
+      lastPracticed: pi.lastPracticed ?? null,
+    };
+    const [existing] = this.rowsWhere(this.performanceIndicators, row => row.userId === pi.userId && row.piCode === pi.piCode);
+    if (!existing) return this.insertRow(this.performanceIndicators, values);
+
+    const row = { ...values, id: existing.id };
+    this.performanceIndicators.set(existing.id, row);
+    return row;
+  }
+
+  async createSession(insertSession: InsertSession): Promise<PracticeSession> {
+    return this.insertRow(this.practiceSessions, {
+      userId: insertSession.userId,
+      type: insertSession.type,
+      score: insertSession.score ?? null,
+      completedAt: insertSession.completedAt,
+      details: insertSession.details ?? null,
+    });
+  }
+
+  async getUserSessions(userId: number, type?: string): Promise<PracticeSession[]> {
+    return this.newestFirst(
+      this.rowsWhere(this.practiceSessions, s => s.userId === userId && (!type || s.type === type)),
+      s => s.completedAt
+    );
+  }
+
+  async getSessionsByDateRange(userId: number, startDate: Date, endDate: Date): Promise<PracticeSession[]> {
+    return (await this.getUserSessions(userId)).filter(s => s.completedAt >= startDate && s.completedAt <= endDate);
+  }
+
+  async recordPracticeSession(insertSession: InsertSession): Promise<PracticeSession> {
+    return this.createSession(insertSession);
+  }
+
+  async getAchievements(): Promise<Achievement[]> {
+    return Array.from(this.achievements.values())
+      .sort((a, b) => (a.tier ?? 1) - (b.tier ?? 1) || a.points - b.points);
+  }
+
+  async getUserAchievements(userId: number): Promise<UserAchievement[]> {
+    return this.newestFirst(this.rowsWhere(this.userAchievements, ua => ua.userId === userId), ua => ua.earnedAt);
+  }
+
+  async awardAchievement(userId: number, achievementId: number): Promise<UserAchievement> {
+    return this.insertRow(this.userAchievements, {
+      userId,
+      achievementId,
+      earnedAt: new Date(),
+      progress: 100,
+      isDisplayed: true,
+      seasonEarned: this.getCurrentSeason()
+    });
+  }
+
+  async updateAchievementDisplay(userId: number, achievementId: number, displayed: boolean): Promise<boolean> {
+    this.rowsWhere(this.userAchievements, ua => ua.userId === userId && ua.achievementId === achievementId)
+      .forEach(ua => this.userAchievements.set(ua.id, { ...ua, isDisplayed: displayed }));
+    return true;
+  }
+
+  async getNewUserAchievements(userId: number): Promise<UserAchievement[]> {
+    return (await this.getUserAchievements(userId)).filter(ua => !ua.isDisplayed);
+  }
+
+  async markAchievementAsDisplayed(userId: number, achievementId: number): Promise<boolean> {
+    return this.updateAchievementDisplay(userId, achievementId, true);
+  }
+
+  async getDailyChallenges(): Promise<DailyChallenge[]> {
+    return this.newestFirst(this.rowsWhere(this.dailyChallenges, c => c.isActive !== false), c => c.date);
+  }
+
+  async getTodayChallenge(): Promise<DailyChallenge | undefined> {
+    const today = new Date().toDateString();
+    return (await this.getDailyChallenges()).find(c => c.date.toDateString() === today);
+  }
+
+  async getUserDailyChallenges(userId: number): Promise<UserDailyChallenge[]> {
+    return this.newestFirst(this.rowsWhere(this.userDailyChallenges, p => p.userId === userId), p => p.attemptDate);
+  }
+
+  async createDailyChallenge(insertChallenge: InsertDailyChallenge): Promise<DailyChallenge> {
+    return this.insertRow(this.dailyChallenges, {
+      title: insertChallenge.title,
+      description: insertChallenge.description,
+      type: insertChallenge.type,
+      points: insertChallenge.points,
+      date: insertChallenge.date,
+      details: insertChallenge.details ?? null,
+      target: insertChallenge.target ?? 1,
+      decitsReward: insertChallenge.decitsReward ?? 0,
+      difficulty: insertChallenge.difficulty ?? null,
+      category: insertChallenge.category ?? null,
+      isActive: insertChallenge.isActive ?? true,
+    });
+  }
+
+  async completeChallenge(userId: number, challengeId: number, progress: number): Promise<UserDailyChallenge> {
+    const challenge = this.dailyChallenges.get(challengeId);
+    if (!challenge) {
+      throw new Error('Challenge not found');
+    }
+    // Study time is measured from the day's study sessions, not reported
+    if (challenge.type === 'study_time') {
+      progress = await this.getStudyTimeOn(userId, challenge.date);
+    }
+
+    const existing = this.rowsWhere(this.userDailyChallenges, p => p.userId === userId && p.challengeId === challengeId)[0];
+    const isCompleted = progress >= challenge.target;
+    const newlyCompleted = isCompleted && !existing?.isCompleted;
+
+    let saved: UserDailyChallenge;
+    if (existing) {
+      saved = {
+        ...existing,
+        progress: Math.max(existing.progress ?? 0, progress),
+        isCompleted: isCompleted || existing.isCompleted,
+        completedAt: newlyCompleted ? new Date() : existing.completedAt
+      };
+      this.userDailyChallenges.set(existing.id, saved);
+    } else {
+      saved = this.insertRow(this.userDailyChallenges, {
+        userId,
+        challengeId,
+        progress,
+        isCompleted,
+        completedAt: isCompleted ? new Date() : null,
+        attemptDate: new Date()
+      });
+    }
+
+    // Award points and DECITS the first time the challenge is completed
+    if (newlyCompleted) {
+      await this.addExperience(userId, challenge.points);
+      await this.addDecits(userId, challenge.decitsReward, { type: 'reward', description: `Daily challenge: ${challenge.title}`, relatedId: challenge.id });
+      await this.checkForNewAchievements(userId);
+    }
+
+    return saved;
+  }
+
+  async createBreakSession(insertSession: InsertBreakSession): Promise<BreakSession> {
+    return this.insertRow(this.breakSessions, {
+      userId: insertSession.userId,
+      startTime: insertSession.startTime,
+      endTime: insertSession.endTime ?? null,
+      duration: insertSession.duration ?? null,
+      activityType: insertSession.activityType ?? null,
+      completed: insertSession.completed ?? false,
+    });
+  }
+
+  async getUserBreakSessions(userId: number): Promise<BreakSession[]> {
+    return this.newestFirst(this.rowsWhere(this.breakSessions, s => s.userId === userId), s => s.startTime);
+  }
+
+  protected async insertStudySession(insertSession: InsertStudySession): Promise<StudySession> {
+    return this.insertRow(this.studySessions, {
+      userId: insertSession.userId,
+      activityType: insertSession.activityType,
+      focusScore: insertSession.focusScore ?? null,
+      startedAt: new Date(),
+      endedAt: null,
+      duration: null,
+    });
+  }
+
+  protected async finishStudySession(id: number, changes: Pick<StudySession, 'endedAt' | 'duration' | 'focusScore'>): Promise<StudySession | undefined> {
+    const session = this.studySessions.get(id);
+    if (!session || session.endedAt) return undefined;
+
+    const updated = { ...session, ...changes };
+    this.studySessions.set(id, updated);
+    return updated;
+  }
+
+  async getStudySession(userId: number, id: number): Promise<StudySession | undefined> {
+    const session = this.studySessions.get(id);
+    return session?.userId === userId ? session : undefined;
+  }
+
+  async getStudySessions(userId: number, since?: Date): Promise<StudySession[]> {
+    const sessions = this.rowsWhere(this.studySessions, s => s.userId === userId && (!since || s.startedAt >= since));
+    return this.newestFirst(sessions, s => s.startedAt);
+  }
+
+  async createMiniGameScore(insertScore: InsertMiniGameScore): Promise<MiniGameScore> {
+    return this.insertRow(this.miniGameScores, {
+      userId: insertScore.userId,
+      gameType: insertScore.gameType,
+      score: insertScore.score,
+      playedAt: insertScore.playedAt,
+      duration: insertScore.duration ?? null,
+    });
+  }
+
+  async getUserMiniGameScores(userId: number, gameType?: string): Promise<MiniGameScore[]> {
+    return this.newestFirst(
+      this.rowsWhere(this.miniGameScores, s => s.userId === userId && (!gameType || s.gameType === gameType)),
+      s => s.playedAt
+    );
+  }
+
+  async addDecits(userId: number, amount: number, grant: DecitsGrant): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user || amount === 0) return user;
+
+    this.recordDecits(userId, amount, grant.type, grant.description, grant.relatedId);
+    return this.updateUser(userId, { decits: (user.decits || 0) + amount });
+  }
+
+  private recordDecits(userId: number, amount: number, type: DecitsTransactionType, description: string, relatedId?: number) {
+    this.insertRow(this.decitsTransactions, {
+      userId,
+      amount,
+      type,
+      description,
+      relatedId: relatedId ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  protected async listCosmeticItems(): Promise<CosmeticItem[]> {
+    return Array.from(this.cosmeticItems.values()).sort((a, b) => a.price - b.price || a.id - b.id);
+  }
+
+  protected async insertCosmeticItems(items: InsertCosmeticItem[]): Promise<void> {
+    for (const item of items) {
+      if (this.rowsWhere(this.cosmeticItems, existing => existing.name === item.name).length > 0) continue;
+      this.insertRow(this.cosmeticItems, {
+        name: item.name,
+        description: item.description,
+        type: item.type,
+        rarity: item.rarity ?? 'common',
+        price: item.price,
+        isLimited: item.isLimited ?? false,
+        availableFrom: item.availableFrom ?? null,
+        availableUntil: item.availableUntil ?? null,
+        previewUrl: item.previewUrl ?? null,
+        cssData: item.cssData ?? null,
+        unlockRequirement: item.unlockRequirement ?? null,
+        createdAt: new Date(),
+      });
+    }
+  }
+
+  async getCosmeticItem(id: number): Promise<CosmeticItem | undefined> {
+    return this.cosmeticItems.get(id);
+  }
+
+  async getUserCosmetics(userId: number): Promise<UserCosmetic[]> {
+    return this.rowsWhere(this.userCosmetics, c => c.userId === userId)
+      .sort((a, b) => a.purchasedAt.getTime() - b.purchasedAt.getTime());
+  }
+
+  async purchaseCosmetic(userId: number, item: CosmeticItem): Promise<CosmeticPurchase> {
+    const user = this.users.get(userId);
+    if (this.rowsWhere(this.userCosmetics, c => c.userId === userId && c.cosmeticId === item.id).length > 0) {
+      return { status: 'owned' };
+    }
+    if (!user || (user.decits || 0) < item.price) return { status: 'insufficient-decits' };
+
+    const cosmetic = this.insertRow(this.userCosmetics, {
+      userId,
+      cosmeticId: item.id,
+      isEquipped: false,
+      purchasedAt: new Date(),
+    });
+    this.recordDecits(userId, -item.price, 'purchase', `Bought ${item.name}`, item.id);
+    return { status: 'purchased', user: this.updateUser(userId, { decits: (user.decits || 0) - item.price })!, cosmetic };
+  }
+
+  async setCosmeticEquipped(userId: number, item: CosmeticItem, equipped: boolean): Promise<UserCosmetic | undefined> {
+    const owned = this.rowsWhere(this.userCosmetics, c => c.userId === userId);
+    const target = owned.find(c => c.cosmeticId === item.id);
+    if (!target) return undefined;
+
+    if (equipped) {
+      for (const cosmetic of owned) {
+        if (this.cosmeticItems.get(cosmetic.cosmeticId)?.type === item.type) {
+          this.userCosmetics.set(cosmetic.id, { ...cosmetic, isEquipped: false });
+        }
+      }
+    }
+
+    const updated = { ...target, isEquipped: equipped };
+    this.userCosmetics.set(target.id, updated);
+    return updated;
+  }
+
+  async getDecitsTransactions(userId: number): Promise<DecitsTransaction[]> {
+    return this.rowsWhere(this.decitsTransactions, t => t.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async addExperience(userId: number, amount: number): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const experience = (user.experience || 0) + amount;
+    const level = user.level || 1;
+    return this.updateUser(userId, {
+      experience,
+      level: experience >= level * 1000 ? level + 1 : level
+    });
+  }
+
+  async updateStreak(userId: number, streak: number): Promise<User | undefined> {
+    return this.updateUser(userId, streak === 1 ? { streak, streakStartDate: new Date() } : { streak });
+  }
+
+  protected async insertQuestionResults(results: InsertQuestionResult[]): Promise<QuestionResult[]> {
+    return Promise.all(results.map(result => this.saveQuestionResult(result)));
+  }
+
+  async getTestQuestionResults(testHistoryId: number): Promise<QuestionResult[]> {
+    return this.rowsWhere(this.questionResults, r => r.testHistoryId === testHistoryId).sort((a, b) => a.id - b.id);
+  }
+
+  async createPracticeTest(test: InsertPracticeTest): Promise<PracticeTest> {
+    return this.insertRow(this.practiceTests, {
+      userId: test.userId,
+      cluster: test.cluster,
+      level: test.level,
+      mode: test.mode ?? 'practice',
+      questions: test.questions,
+      answers: '{}',
+      flaggedQuestions: '[]',
+      testHistoryId: null,
+      createdAt: new Date(),
+      expiresAt: test.expiresAt ?? null,
+      submittedAt: null
+    });
+  }
+
+  async getPracticeTest(userId: number, id: number): Promise<PracticeTest | undefined> {
+    const test = this.practiceTests.get(id);
+    return test?.userId === userId ? test : undefined;
+  }
+
+  async getInProgressExam(userId: number): Promise<PracticeTest | undefined> {
+    const exams = this.rowsWhere(this.practiceTests, t => t.userId === userId && t.mode === 'exam' && !t.submittedAt);
+    return this.newestFirst(exams, t => t.createdAt)[0];
+  }
+
+  async getExpiredPracticeTests(deadline: Date): Promise<PracticeTest[]> {
+    return this.rowsWhere(this.practiceTests, t => !t.submittedAt && !!t.expiresAt && t.expiresAt <= deadline);
+  }
+
+  async saveTestAnswer(id: number, questionId: number, change: TestAnswerChange): Promise<PracticeTest | undefined> {
+    const test = this.practiceTests.get(id);
+    if (!test || test.submittedAt || (test.expiresAt && test.expiresAt <= new Date())) return undefined;
+
+    const updated = { ...test, ...this.applyTestAnswer(test, questionId, change) };
+    this.practiceTests.set(id, updated);
+    return updated;
+  }
+
+  async submitPracticeTest(id: number): Promise<PracticeTest | undefined> {
+    const test = this.practiceTests.get(id);
+    if (!test || test.submittedAt) return undefined;
+
+    const updated = { ...test, submittedAt: new Date() };
+    this.practiceTests.set(id, updated);
+    return updated;
+  }
+
+  async releasePracticeTest(id: number, testHistoryId?: number): Promise<void> {
+    if (testHistoryId !== undefined) {
+      for (const result of this.rowsWhere(this.questionResults, r => r.testHistoryId === testHistoryId)) {
+        this.questionResults.delete(result.id);
+      }
+      this.testHistory.delete(testHistoryId);
+    }
+
+    const test = this.practiceTests.get(id);
+    if (test) this.practiceTests.set(id, { ...test, submittedAt: null, testHistoryId: null });
+  }
+
+  async updatePracticeTest(id: number, changes: Partial<Pick<PracticeTest, 'testHistoryId'>>): Promise<PracticeTest | undefined> {
+    const test = this.practiceTests.get(id);
+    if (!test) return undefined;
+
+    const updated = { ...test, ...changes };
+    this.practiceTests.set(id, updated);
+    return updated;
+  }
+
+  async getUserWeakTopics(userId: number): Promise<{ topic: string, wrongCount: number, totalCount: number }[]> {
+    const topics = new Map<string, { wrongCount: number, totalCount: number }>();
+
+    for (const result of this.rowsWhere(this.questionResults, r => r.userId === userId)) {
+      if (!result.topic || result.topic === 'General' || result.topic.trim().length === 0) continue;
+
+      const stats = topics.get(result.topic) || { wrongCount: 0, totalCount: 0 };
+      stats.totalCount++;
+      if (!result.isCorrect) stats.wrongCount++;
+      topics.set(result.topic, stats);
+    }
+
+    return Array.from(topics.entries())
+      .filter(([, stats]) => stats.wrongCount > 0)
+      .map(([topic, stats]) => ({ topic, ...stats }))
+      .sort((a, b) => b.wrongCount - a.wrongCount);
+  }
+
+  protected async replaceLearningInsights(userId: number, insights: InsertLearningInsight[]): Promise<LearningInsight[]> {
+    this.rowsWhere(this.learningInsights, i => i.userId === userId)
+      .forEach(i => this.learningInsights.set(i.id, { ...i, isActive: false }));
+
+    return insights.map(insight => this.insertRow(this.learningInsights, {
+      userId: insight.userId,
+      insightType: insight.insightType,
+      topic: insight.topic ?? null,
+      currentScore: insight.currentScore ?? null,
+      targetScore: insight.targetScore ?? null,
+      priority: insight.priority ?? 0,
+      recommendedActions: insight.recommendedActions ?? null,
+      isActive: insight.isActive ?? true,
+      createdAt: new Date(),
+    }));
+  }
+
+  async saveTestHistory(result: InsertTestHistory): Promise<TestHistory> {
+    return this.insertRow(this.testHistory, {
+      userId: result.userId,
+      testTitle: result.testTitle,
+      cluster: result.cluster,
+      level: result.level,
+      totalQuestions: result.totalQuestions,
+      correctAnswers: result.correctAnswers,
+      score: result.score,
+      timeSpent: result.timeSpent ?? null,
+      topicPerformance: result.topicPerformance ?? null,
+      completedAt: result.completedAt ?? new Date(),
+    });
+  }
+
+  async getUserTestHistory(userId: number, testType?: string): Promise<TestHistory[]> {
+    return this.newestFirst(this.rowsWhere(this.testHistory, t => t.userId === userId), t => t.completedAt);
+  }
+
+  async getTestHistory(userId: number, id: number): Promise<TestHistory | undefined> {
+    const test = this.testHistory.get(id);
+    return test?.userId === userId ? test : undefined;
+  }
+
+  async saveQuestionResult(result: InsertQuestionResult): Promise<QuestionResult> {
+    return this.insertRow(this.questionResults, {
+      testHistoryId: result.testHistoryId,
+      userId: result.userId,
+      questionText: result.questionText,
+      correctAnswer: result.correctAnswer,
+      userAnswer: result.userAnswer ?? null,
+      isCorrect: result.isCorrect,
+      topic: result.topic ?? null,
+      piCodes: result.piCodes ?? null,
+      explanation: result.explanation ?? null,
+      answeredAt: result.answeredAt ?? new Date(),
+    });
+  }
+
+  async getUserQuestionResults(userId: number, testHistoryId?: number): Promise<QuestionResult[]> {
+    return this.newestFirst(this.rowsWhere(this.questionResults, r => r.userId === userId), r => r.answeredAt);
+  }
+
+  async getUserLearningInsights(userId: number): Promise<LearningInsight[]> {
+    return this.rowsWhere(this.learningInsights, i => i.userId === userId && i.isActive !== false)
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  }
+
+  async createRoleplaySession(session: InsertRoleplayHistory): Promise<RoleplayHistory> {
+    return this.insertRow(this.roleplayHistory, {
+      userId: session.userId,
+      scenario: session.scenario,
+      cluster: session.cluster,
+      role: session.role ?? null,
+      score: session.score ?? null,
+      aiGradingFeedback: session.aiGradingFeedback ?? null,
+      gradedBy: session.gradedBy ?? null,
+      transcriptUrl: session.transcriptUrl ?? null,
+      transcript: session.transcript ?? null,
+      notes: session.notes ?? null,
+      audioKey: session.audioKey ?? null,
+      audioType: session.audioType ?? null,
+      duration: session.duration ?? null,
+      completedAt: session.completedAt || new Date()
+    });
+  }
+
+  async getRoleplayHistory(userId: number): Promise<RoleplayHistory[]> {
+    return this.newestFirst(this.rowsWhere(this.roleplayHistory, r => r.userId === userId), r => r.completedAt);
+  }
+
+  async getRoleplaySession(userId: number, id: number): Promise<RoleplayHistory | undefined> {
+    const session = this.roleplayHistory.get(id);
+    return session?.userId === userId ? session : undefined;
+  }
+
+  async createJudgeSession(session: InsertJudgeSession): Promise<JudgeSession> {
+    const now = new Date();
+    return this.insertRow(this.judgeSessions, {
+      userId: session.userId,
+      scenario: session.scenario,
+      includeObjections: session.includeObjections ?? false,
+      status: session.status ?? 'presenting',
+      messages: session.messages,
+      closingQuestionsAsked: session.closingQuestionsAsked ?? 0,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async getJudgeSession(userId: number, id: number): Promise<JudgeSession | undefined> {
+    const session = this.judgeSessions.get(id);
+    return session?.userId === userId ? session : undefined;
+  }
+
+  async updateJudgeSession(id: number, changes: Partial<Pick<JudgeSession, 'status' | 'messages' | 'closingQuestionsAsked'>>): Promise<JudgeSession | undefined> {
+    const session = this.judgeSessions.get(id);
+    if (!session) return undefined;
+
+    const updated = { ...session, ...changes, updatedAt: new Date() };
+    this.judgeSessions.set(id, updated);
+    return updated;
+  }
+
+  async createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation> {
+    const now = new Date();
+    return this.insertRow(this.chatConversations, {
+      userId: conversation.userId,
+      messages: conversation.messages,
+      unrelatedCount: conversation.unrelatedCount ?? 0,
+      closedAt: null,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async getChatConversation(userId: number, id: number): Promise<ChatConversation | undefined> {
+    const conversation = this.chatConversations.get(id);
+    return conversation?.userId === userId ? conversation : undefined;
+  }
+
+  async getUserChatConversations(userId: number): Promise<ChatConversation[]> {
+    return this.newestFirst(this.rowsWhere(this.chatConversations, c => c.userId === userId), c => c.updatedAt);
+  }
+
+  async updateChatConversation(id: number, changes: Partial<Pick<ChatConversation, 'messages' | 'unrelatedCount' | 'closedAt'>>): Promise<ChatConversation | undefined> {
+    const conversation = this.chatConversations.get(id);
+    if (!conversation) return undefined;
+
+    const updated = { ...conversation, ...changes, updatedAt: new Date() };
+    this.chatConversations.set(id, updated);
+    return updated;
+  }
+
+  async getTopicMastery(userId: number): Promise<TopicMastery[]> {
+    return this.rowsWhere(this.topicMastery, t => t.userId === userId)
+      .sort((a, b) => (b.masteryLevel ?? 0) - (a.masteryLevel ?? 0));
+  }
+
+  private findTopicMastery(userId: number, topic: string): TopicMastery | undefined {
+    return this.rowsWhere(this.topicMastery, t => t.userId === userId && t.topic === topic)[0];
+  }
+
+  async updateTopicMastery(userId: number, topic: string, cluster: string, performance: {
+    questionsAnswered: number;
+    questionsCorrect: number;
+    timeSpent: number;
+  }): Promise<TopicMastery> {
+    const existing = this.rowsWhere(this.topicMastery, t =>
+      t.userId === userId && t.topic === topic && t.cluster === cluster
+    )[0];
+
+    const newMasteryLevel = Math.min(100, (performance.questionsCorrect / performance.questionsAnswered) * 100);
+    const avgTimePerQuestion = performance.timeSpent / performance.questionsAnswered;
+
+    if (existing) {
+      const totalQuestions = (existing.questionsAnswered ?? 0) + performance.questionsAnswered;
+      const totalCorrect = (existing.questionsCorrect ?? 0) + performance.questionsCorrect;
+      const baseMastery = existing.masteryLevel ?? 0;
+      const lastPracticed = existing.lastPracticed ?? new Date(Date.now() - 24*60*60*1000);
+      const daysDiff = (Date.now() - lastPracticed.getTime()) / (1000 * 60 * 60 * 24);
+      const baseInterval = baseMastery >= 80 ? 7 : baseMastery >= 60 ? 3 : 1;
+
+      const updated: TopicMastery = {
+        ...existing,
+        masteryLevel: (totalCorrect / totalQuestions) * 100,
+        questionsAnswered: totalQuestions,
+        questionsCorrect: totalCorrect,
+        lastPracticed: new Date(),
+        avgTimePerQuestion,
+        masteryTrend: newMasteryLevel > baseMastery ? 'improving' : newMasteryLevel < baseMastery ? 'declining' : 'stable',
+        learningVelocity: daysDiff > 0 ? (newMasteryLevel - baseMastery) / daysDiff : 0,
+        nextRecommendedPractice: new Date(Date.now() + baseInterval * 24 * 60 * 60 * 1000),
+        timesRetried: (existing.timesRetried ?? 0) + 1,
+        updatedAt: new Date()
+      };
+      this.topicMastery.set(existing.id, updated);
+      return updated;
+    }
+
+    return this.insertRow(this.topicMastery, {
+      userId,
+      topic,
+      cluster,
+      masteryLevel: newMasteryLevel,
+      questionsAnswered: performance.questionsAnswered,
+      questionsCorrect: performance.questionsCorrect,
+      lastPracticed: new Date(),
+      avgTimePerQuestion,
+      masteryTrend: 'stable',
+      learningVelocity: 0,
+      nextRecommendedPractice: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000),
+      timesRetried: 0,
+      streakCount: 0,
+      updatedAt: new Date()
+    });
+  }
+
+  async saveQuizSession(session: InsertQuizSession): Promise<QuizSession> {
+    const [lastSession] = (await this.getQuizSessions(session.userId))
+      .filter(q => q.topicFocused === (session.topicFocused || ''));
+    const baseInterval = session.scorePercentage >= 80 ? 7 : session.scorePercentage >= 60 ? 3 : 1;
+
+    return this.insertRow(this.quizSessions, {
+      userId: session.userId,
+      topicFocused: session.topicFocused ?? null,
+      cluster: session.cluster ?? null,
+      questionsCount: session.questionsCount,
+      correctAnswers: session.correctAnswers,
+      scorePercentage: session.scorePercentage,
+      timeSpent: session.timeSpent ?? null,
+      improvementFromLastSession: lastSession ? session.scorePercentage - lastSession.scorePercentage : 0,
+      masteryGainEstimate: session.scorePercentage >= 80 ? 15 : session.scorePercentage >= 60 ? 10 : 5,
+      nextRecommendedSession: new Date(Date.now() + baseInterval * 24 * 60 * 60 * 1000),
+      completedAt: new Date()
+    });
+  }
+
+  async getQuizSessions(userId: number): Promise<QuizSession[]> {
+    return this.newestFirst(this.rowsWhere(this.quizSessions, q => q.userId === userId), q => q.completedAt);
+  }
+
+  protected async saveEnhancedInsights(insights: InsertEnhancedLearningInsight[]): Promise<EnhancedLearningInsight[]> {
+    return insights.map(insight => this.insertRow(this.enhancedLearningInsights, {
+      userId: insight.userId,
+      insightType: insight.insightType,
+      topic: insight.topic ?? null,
+      insight: insight.insight,
+      actionRecommendation: insight.actionRecommendation ?? null,
+      confidenceScore: insight.confidenceScore ?? null,
+      priority: insight.priority ?? 'medium',
+      validUntil: insight.validUntil ?? null,
+      timesSeen: insight.timesSeen ?? 0,
+      timesActedUpon: insight.timesActedUpon ?? 0,
+      effectivenessScore: insight.effectivenessScore ?? 0,
+      createdAt: new Date(),
+    }));
+  }
+
+  async getAdaptiveDifficulty(userId: number, topic: string): Promise<string> {
+    const mastery = this.findTopicMastery(userId, topic);
+    if (!mastery) return 'medium';
+
+    const m = mastery.masteryLevel ?? 0;
+    if (m >= 80) return 'hard';
+    if (m >= 60) return 'medium';
+    return 'easy';
+  }
+
+  async calculateSpacedRepetition(userId: number, topic: string): Promise<Date> {
+    const mastery = this.findTopicMastery(userId, topic);
+    if (!mastery) {
+      return new Date(Date.now() + 1 * 24 * 60 * 60 * 1000);
+    }
+
+    let intervalDays = 1;
+    const m = mastery.masteryLevel ?? 0;
+    if (m >= 90) intervalDays = 14;
+    else if (m >= 80) intervalDays = 7;
+    else if (m >= 70) intervalDays = 3;
+    else if (m >= 60) intervalDays = 2;
+
+    if ((mastery.streakCount ?? 0) >= 5) intervalDays = Math.round(intervalDays * 1.5);
+
+    return new Date(Date.now() + intervalDays * 24 * 60 * 60 * 1000);
+  }
+
+  async createGameSessionDECABloc(session: InsertGameSessionDECABloc): Promise<GameSessionDECABloc> {
+    return this.insertRow(this.gameSessionsDECABloc, {
+      ...session,
+      completedAt: new Date(),
+    });
+  }
+
+  async getUserGameSessionsDECABloc(userId: number): Promise<GameSessionDECABloc[]> {
+    return this.newestFirst(this.rowsWhere(this.gameSessionsDECABloc, s => s.userId === userId), s => s.completedAt);
+  }
+
+  async updateUserStats(userId: number, updates: { points?: number; experience?: number }): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) return;
+
+    this.updateUser(userId, {
+      points: (user.points || 0) + (updates.points ?? 0),
+      experience: (user.experience || 0) + (updates.experience ?? 0)
+    });
+  }
+
+  async createWrittenEventPrompt(prompt: InsertWrittenEventPrompt): Promise<WrittenEventPrompt> {
+    return this.insertRow(this.writtenEventPrompts, { ...prompt, createdAt: new Date() });
+  }
+
+  async getWrittenEventPrompt(id: number): Promise<WrittenEventPrompt | undefined> {
+    return this.writtenEventPrompts.get(id);
+  }
+
+  async createWrittenEventFeedback(feedback: InsertWrittenEventFeedback): Promise<WrittenEventFeedback> {
+    return this.insertRow(this.writtenEventFeedback, {
+      ...feedback,
+      promptId: feedback.promptId ?? null,
+      createdAt: new Date()
+    });
+  }
+
+  async getWrittenEventFeedback(id: number): Promise<WrittenEventFeedback | undefined> {
+    return this.writtenEventFeedback.get(id);
+  }
+
+  async getUserWrittenEventFeedback(userId: number): Promise<WrittenEventFeedback[]> {
+    return this.newestFirst(this.rowsWhere(this.writtenEventFeedback, f => f.userId === userId), f => f.createdAt);
+  }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// STORAGE_DRIVER=memory runs the server without a database
+export const storage: IStorage = process.env.STORAGE_DRIVER === 'memory'
+  ? new MemStorage()
+  : new DatabaseStorage();
@@ -0,0 +1,176 @@
+import type { Request, Response, NextFunction } from "express";
+import { createRemoteJWKSet, errors, jwtVerify, SignJWT, type JWTPayload } from "jose";
+
+// How bearer tokens are issued and checked. Both modes put the same identity on req.user.
+export type AuthMode = "supabase" | "local";
+
+export interface AuthIdentity {
+  id: string; // Token subject, stored as users.authId
+  email?: string;
+  role?: string;
+}
+
+declare global {
+  namespace Express {
+    // Look the account up with storage.getUserByAuthId(req.user.id)
+    interface User extends AuthIdentity {}
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+// Cookie holding the self-hosted token, so browser requests authenticate without an Authorization header
+export const AUTH_COOKIE = "decaide_token";
+const SUPABASE_COOKIE = "sb-access-token";
+
+const LOCAL_ISSUER = "decaide";
+const DEFAULT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Get the configured auth mode
+ * AUTH_MODE selects it: "supabase" (default) verifies Supabase JWTs, "local" issues and verifies the app's own JWTs
+ */
+export function getAuthMode(): AuthMode {
+  const mode = process.env.AUTH_MODE || "supabase";
+  if (mode !== "supabase" && mode !== "local") {
+    throw new Error(`Unknown AUTH_MODE "${mode}"`);
+  }
+  return mode;
+}
+
+export function getTokenTTLSeconds(): number {
+  return parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || "") || DEFAULT_TOKEN_TTL_SECONDS;
+}
+
+function getLocalSecret(): Uint8Array {
+  if (!process.env.AUTH_JWT_SECRET) {
+    throw new Error("AUTH_JWT_SECRET environment variable is required when AUTH_MODE=local");
+  }
+  return new TextEncoder().encode(process.env.AUTH_JWT_SECRET);
+}
+
+let supabaseJWKS: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+/**
+ * Verify a Supabase access token
+ * Uses environment variables for configuration:
+ * - SUPABASE_JWKS_URL: JWKS endpoint for asymmetric signing keys (defaults to the project's endpoint when SUPABASE_URL is set)
+ * - SUPABASE_JWT_SECRET: Legacy HS256 secret, used when no JWKS endpoint is configured
+ * - SUPABASE_URL: Project URL; also pins the token issuer
+ */
+async function verifySupabaseJWT(token: string): Promise<JWTPayload> {
+  const projectUrl = process.env.SUPABASE_URL?.replace(/\/$/, "");
+  const jwksUrl = process.env.SUPABASE_JWKS_URL || (projectUrl && `${projectUrl}/auth/v1/.well-known/jwks.json`);
+  const options = {
+    audience: "authenticated",
+    issuer: projectUrl ? `${projectUrl}/auth/v1` : undefined,
+  };
+
+  if (process.env.SUPABASE_JWT_SECRET && !process.env.SUPABASE_JWKS_URL) {
+    const { payload } = await jwtVerify(token, new TextEncoder().encode(process.env.SUPABASE_JWT_SECRET), options);
+    return payload;
+  }
+
+  if (!jwksUrl) {
+    throw new Error("SUPABASE_JWKS_URL, SUPABASE_URL or SUPABASE_JWT_SECRET environment variable is required");
+  }
+
+  if (!supabaseJWKS) {
+    supabaseJWKS = createRemoteJWKSet(new URL(jwksUrl));
+  }
+  const { payload } = await jwtVerify(token, supabaseJWKS, options);
+  return payload;
+}
+
+async function verifyLocalJWT(token: string): Promise<JWTPayload> {
+  const { payload } = await jwtVerify(token, getLocalSecret(), { issuer: LOCAL_ISSUER, algorithms: ["HS256"] });
+  return payload;
+}
+
+/**
+ * Sign a self-hosted access token for a user
+ * @returns A JWT whose subject is the user's authId
+ */
+export async function issueLocalToken(identity: AuthIdentity): Promise<string> {
+  return new SignJWT({ email: identity.email, role: identity.role || "authenticated" })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(identity.id)
+    .setIssuer(LOCAL_ISSUER)
+    .setIssuedAt()
+    .setExpirationTime(`${getTokenTTLSeconds()}s`)
+    .sign(getLocalSecret());
+}
+
+/**
+ * Verify an access token with the configured auth mode
+ * @throws A jose error when the token is malformed, expired or not signed by the configured issuer
+ */
+export async function verifyAccessToken(token: string): Promise<AuthIdentity> {
+  const payload = getAuthMode() === "local" ? await verifyLocalJWT(token) : await verifySupabaseJWT(token);
+  if (!payload.sub) {
+    throw new errors.JWTClaimValidationFailed('missing required "sub" claim', payload, "sub", "missing");
+  }
+
+  return {
+    id: payload.sub,
+    email: typeof payload.email === "string" ? payload.email : undefined,
+    role: typeof payload.role === "string" ? payload.role : undefined,
+  };
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+// Bearer header first, then the auth cookie of the active mode
+function readToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim() || undefined;
+  }
+  return readCookie(req, getAuthMode() === "local" ? AUTH_COOKIE : SUPABASE_COOKIE);
+}
+
+/**
+ * Require a valid access token and put its identity on req.user
+ * Responds 401 when the token is missing or invalid, 500 when auth is misconfigured
+ */
+export async function verifySupabaseToken(req: Request, res: Response, next: NextFunction) {
+  const token = readToken(req);
+  if (!token) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+
+  try {
+    req.user = await verifyAccessToken(token);
+    next();
+  } catch (error) {
+    if (error instanceof errors.JOSEError) {
+      return res.status(401).json({ error: "Invalid or expired token" });
+    }
+    console.error("Error verifying access token:", error);
+    res.status(500).json({ error: "Failed to verify access token" });
+  }
+}
+
+/**
+ * Put the token's identity on req.user when a valid token is present; anonymous requests continue without one
+ */
+export async function optionalSupabaseAuth(req: Request, _res: Response, next: NextFunction) {
+  const token = readToken(req);
+  if (token) {
+    try {
+      req.user = await verifyAccessToken(token);
+    } catch (error) {
+      if (!(error instanceof errors.JOSEError)) {
+        console.error("Error verifying access token:", error);
+      }
+    }
+  }
+  next();
+}
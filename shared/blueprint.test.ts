@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { BLUEPRINTS, BLUEPRINT_QUESTION_COUNT, COMPETITION_LEVELS, DIFFICULTY_MIX, EXAM_CLUSTERS } from './blueprint';
+
+describe('exam blueprints', () => {
+  for (const cluster of EXAM_CLUSTERS) {
+    for (const level of COMPETITION_LEVELS) {
+      it(`${cluster} (${level}) describes a full 100-question exam`, () => {
+        const total = Object.values(BLUEPRINTS[cluster][level]).reduce((sum, count) => sum + count, 0);
+        expect(total).toBe(BLUEPRINT_QUESTION_COUNT);
+      });
+    }
+  }
+
+  it('difficulty mixes cover every question', () => {
+    for (const level of COMPETITION_LEVELS) {
+      const share = Object.values(DIFFICULTY_MIX[level]).reduce((sum, value) => sum + value, 0);
+      expect(share).toBeCloseTo(1);
+    }
+  });
+});
@@ -0,0 +1,224 @@
+// Official 2024-25 DECA exam blueprints: how many of the 100 exam questions come from each instructional area,
+// per career cluster and competition level. Prompt builders, the exam validator and readiness views all read these.
+
+export const COMPETITION_LEVELS = ['District', 'Association', 'ICDC'] as const;
+export type CompetitionLevel = typeof COMPETITION_LEVELS[number];
+
+export const EXAM_CLUSTERS = [
+  'Business Administration Core',
+  'Business Management + Administration',
+  'Finance',
+  'Marketing',
+  'Hospitality + Tourism',
+  'Personal Financial Literacy',
+  'Entrepreneurship',
+] as const;
+export type ExamCluster = typeof EXAM_CLUSTERS[number];
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const BLUEPRINT_QUESTION_COUNT = 100;
+// Time allowed for the full exam, which exam-condition mock tests are held to
+export const EXAM_TIME_LIMIT_MINUTES = 90;
+
+// Question counts per instructional area as [District, Association, ICDC]
+const BLUEPRINT_ROWS: Record<ExamCluster, Record<string, [number, number, number]>> = {
+  'Business Administration Core': {
+    'Business Law': [1, 1, 4],
+    'Communications': [15, 15, 11],
+    'Customer Relations': [5, 5, 4],
+    'Economics': [7, 7, 12],
+    'Emotional Intelligence': [22, 22, 19],
+    'Entrepreneurship': [0, 0, 1],
+    'Financial Analysis': [16, 16, 13],
+    'Human Resources Management': [1, 1, 1],
+    'Information Management': [10, 10, 11],
+    'Marketing': [1, 1, 1],
+    'Operations': [11, 11, 13],
+    'Professional Development': [11, 11, 9],
+    'Strategic Management': [0, 0, 1],
+  },
+  'Business Management + Administration': {
+    'Business Law': [5, 5, 5],
+    'Communications': [7, 6, 6],
+    'Customer Relations': [2, 2, 1],
+    'Economics': [6, 5, 4],
+    'Emotional Intelligence': [9, 8, 6],
+    'Entrepreneurship': [1, 0, 0],
+    'Financial Analysis': [7, 6, 5],
+    'Human Resources Management': [1, 0, 0],
+    'Information Management': [7, 6, 6],
+    'Knowledge Management': [6, 7, 8],
+    'Marketing': [1, 1, 1],
+    'Operations': [21, 24, 26],
+    'Professional Development': [6, 5, 4],
+    'Project Management': [6, 7, 8],
+    'Quality Management': [3, 4, 5],
+    'Risk Management': [4, 5, 5],
+    'Strategic Management': [8, 9, 10],
+  },
+  'Finance': {
+    'Business Law': [7, 8, 7],
+    'Communications': [5, 4, 3],
+    'Customer Relations': [5, 5, 4],
+    'Economics': [6, 5, 4],
+    'Emotional Intelligence': [9, 8, 6],
+    'Entrepreneurship': [1, 0, 0],
+    'Financial Analysis': [24, 28, 30],
+    'Financial-Information Management': [9, 10, 12],
+    'Human Resources Management': [1, 0, 0],
+    'Information Management': [6, 5, 5],
+    'Marketing': [1, 1, 1],
+    'Operations': [6, 5, 4],
+    'Professional Development': [13, 14, 15],
+    'Risk Management': [6, 7, 9],
+    'Strategic Management': [1, 0, 0],
+  },
+  'Marketing': {
+    'Business Law': [2, 2, 1],
+    'Channel Management': [5, 6, 7],
+    'Communications': [5, 4, 3],
+    'Customer Relations': [2, 2, 1],
+    'Economics': [6, 5, 4],
+    'Emotional Intelligence': [9, 8, 6],
+    'Entrepreneurship': [1, 0, 0],
+    'Financial Analysis': [6, 5, 4],
+    'Human Resources Management': [1, 0, 0],
+    'Information Management': [5, 4, 3],
+    'Market Planning': [4, 4, 5],
+    'Marketing': [1, 1, 1],
+    'Marketing-Information Management': [11, 14, 16],
+    'Operations': [6, 5, 4],
+    'Pricing': [3, 4, 4],
+    'Product/Service Management': [11, 13, 15],
+    'Professional Development': [6, 5, 5],
+    'Promotion': [9, 11, 13],
+    'Selling': [6, 7, 8],
+    'Strategic Management': [1, 0, 0],
+  },
+  'Hospitality + Tourism': {
+    'Business Law': [3, 3, 2],
+    'Communications': [5, 4, 3],
+    'Customer Relations': [8, 9, 9],
+    'Economics': [6, 6, 5],
+    'Emotional Intelligence': [9, 9, 7],
+    'Entrepreneurship': [1, 0, 0],
+    'Financial Analysis': [8, 7, 7],
+    'Human Resources Management': [2, 1, 1],
+    'Information Management': [14, 15, 15],
+    'Knowledge Management': [0, 1, 1],
+    'Market Planning': [1, 1, 2],
+    'Marketing': [1, 1, 2],
+    'Operations': [13, 13, 13],
+    'Pricing': [1, 1, 1],
+    'Product/Service Management': [6, 7, 9],
+    'Professional Development': [8, 7, 6],
+    'Promotion': [2, 3, 3],
+    'Quality Management': [1, 1, 1],
+    'Risk Management': [1, 1, 2],
+    'Selling': [7, 8, 9],
+    'Strategic Management': [3, 2, 2],
+  },
+  'Personal Financial Literacy': {
+    'Earning Income': [25, 20, 16],
+    'Spending': [14, 14, 14],
+    'Saving': [15, 14, 13],
+    'Investing': [15, 19, 21],
+    'Managing Credit': [16, 19, 21],
+    'Managing Risk': [15, 14, 15],
+  },
+  'Entrepreneurship': {
+    'Business Law': [4, 4, 3],
+    'Channel Management': [3, 3, 3],
+    'Communications': [1, 0, 1],
+    'Customer Relations': [1, 1, 1],
+    'Economics': [3, 3, 2],
+    'Emotional Intelligence': [6, 6, 4],
+    'Entrepreneurship': [14, 13, 14],
+    'Financial Analysis': [10, 9, 11],
+    'Human Resources Management': [5, 4, 4],
+    'Information Management': [4, 3, 2],
+    'Market Planning': [5, 6, 6],
+    'Marketing': [1, 1, 1],
+    'Marketing-Information Management': [2, 3, 2],
+    'Operations': [13, 13, 14],
+    'Pricing': [2, 3, 2],
+    'Product/Service Management': [4, 4, 4],
+    'Professional Development': [5, 5, 4],
+    'Promotion': [6, 7, 8],
+    'Quality Management': [1, 1, 1],
+    'Risk Management': [2, 3, 4],
+    'Selling': [1, 1, 1],
+    'Strategic Management': [7, 7, 8],
+  },
+};
+
+export type Blueprint = Record<string, number>;
+
+// Blueprints keyed by cluster, then level, then instructional area
+export const BLUEPRINTS = Object.fromEntries(
+  EXAM_CLUSTERS.map(cluster => [
+    cluster,
+    Object.fromEntries(
+      COMPETITION_LEVELS.map((level, index) => [
+        level,
+        Object.fromEntries(Object.entries(BLUEPRINT_ROWS[cluster]).map(([area, counts]) => [area, counts[index]])),
+      ])
+    ),
+  ])
+) as Record<ExamCluster, Record<CompetitionLevel, Blueprint>>;
+
+// Share of easy, medium and hard questions at each competition level
+export const DIFFICULTY_MIX: Record<CompetitionLevel, Record<Difficulty, number>> = {
+  District: { easy: 0.5, medium: 0.35, hard: 0.15 },
+  Association: { easy: 0.4, medium: 0.4, hard: 0.2 },
+  ICDC: { easy: 0.3, medium: 0.4, hard: 0.3 },
+};
+
+export function isCompetitionLevel(level: string | null | undefined): level is CompetitionLevel {
+  return !!level && (COMPETITION_LEVELS as readonly string[]).includes(level);
+}
+
+// Cluster names appear as "Hospitality and Tourism", "Hospitality & Tourism", "Hospitality Career Cluster"
+// or "Marketing Career Cluster" across the app
+function normalizeClusterName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/career cluster/g, '')
+    .replace(/\s+(and|&|\+)\s+/g, ' + ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^hospitality$/, 'hospitality + tourism');
+}
+
+export function findExamCluster(name: string | null | undefined): ExamCluster | undefined {
+  if (!name) return undefined;
+  const normalized = normalizeClusterName(name);
+  return EXAM_CLUSTERS.find(cluster => normalizeClusterName(cluster) === normalized);
+}
+
+export function getBlueprint(cluster: string, level: string): Blueprint | undefined {
+  const examCluster = findExamCluster(cluster);
+  return examCluster && isCompetitionLevel(level) ? BLUEPRINTS[examCluster][level] : undefined;
+}
+
+export function getClusterAreas(cluster: string): string[] {
+  const examCluster = findExamCluster(cluster);
+  return examCluster ? Object.keys(BLUEPRINT_ROWS[examCluster]) : [];
+}
+
+export interface AreaReadiness {
+  area: string;
+  questions: number; // Questions on the exam from this area
+  mastery: number; // 0-100
+  practiced: boolean;
+}
+
+// How prepared a student is for one exam: mastery of each area weighted by its share of the blueprint
+export interface ExamReadiness {
+  cluster: ExamCluster;
+  level: CompetitionLevel;
+  readiness: number; // Expected score out of 100
+  coverage: number; // Share of exam questions from areas the student has practiced
+  areas: AreaReadiness[];
+}
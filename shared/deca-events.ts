@@ -0,0 +1,203 @@
+// The DECA event catalog: every event a member can select at signup or in settings, with its format, type
+// group and career cluster. The server, the client and the PI registry all resolve events from this list.
+import { findExamCluster } from './blueprint';
+
+export type EventFormat = 'roleplay' | 'written';
+
+// DECA event types for grouping
+export const EVENT_TYPE_GROUPS = [
+  'Principles',
+  'Team Decision Making',
+  'Individual Series',
+  'Professional Selling and Consulting',
+  'Business Operations Research',
+  'Project Management',
+  'Entrepreneurship',
+  'Integrated Marketing Campaign',
+  'Personal Financial Literacy',
+  'Online Events',
+] as const;
+export type EventTypeGroup = typeof EVENT_TYPE_GROUPS[number];
+
+// Career clusters with color codes
+export const DECA_CATEGORIES = {
+  'Business Management & Administration': {
+    color: '#F9D949', // Yellow
+    colorClass: 'bg-yellow-400'
+  },
+  'Entrepreneurship': {
+    color: '#A9A9A9', // Grey
+    colorClass: 'bg-gray-400'
+  },
+  'Finance': {
+    color: '#4CAF50', // Green
+    colorClass: 'bg-green-500'
+  },
+  'Hospitality & Tourism': {
+    color: '#2196F3', // Blue
+    colorClass: 'bg-blue-500'
+  },
+  'Marketing': {
+    color: '#F44336', // Red
+    colorClass: 'bg-red-500'
+  },
+  'Personal Financial Literacy': {
+    color: '#8BC34A', // Light Green
+    colorClass: 'bg-green-400'
+  }
+};
+export type DecaCluster = keyof typeof DECA_CATEGORIES;
+
+// DECA Event configurations
+export interface DecaEvent {
+  name: string;
+  code: string;
+  cluster: DecaCluster;
+  format: EventFormat;
+  group: EventTypeGroup;
+  type: 'individual' | 'team';
+  description: string;
+}
+
+// Team Decision Making events (require 7 PIs instead of 5) and Project Management projects are competed as teams
+const TEAM_GROUPS: EventTypeGroup[] = ['Team Decision Making', 'Project Management'];
+
+function decaEvent(
+  format: EventFormat,
+  group: EventTypeGroup,
+  code: string,
+  name: string,
+  cluster: DecaCluster,
+  description: string,
+): DecaEvent {
+  return { name, code, cluster, format, group, type: TEAM_GROUPS.includes(group) ? 'team' : 'individual', description };
+}
+
+// Full DECA event list
+export const DECA_EVENTS: DecaEvent[] = [
+  // Principles
+  decaEvent('roleplay', 'Principles', 'PBM', 'Principles of Business Management and Administration', 'Business Management & Administration', 'Role-play format for first-year members'),
+  decaEvent('roleplay', 'Principles', 'PFN', 'Principles of Finance', 'Finance', 'Role-play format'),
+  decaEvent('roleplay', 'Principles', 'PMK', 'Principles of Marketing', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Principles', 'PHT', 'Principles of Hospitality and Tourism', 'Hospitality & Tourism', 'Role-play format'),
+  decaEvent('roleplay', 'Principles', 'PEN', 'Principles of Entrepreneurship', 'Entrepreneurship', 'Role-play format'),
+
+  // Individual Series
+  decaEvent('roleplay', 'Individual Series', 'ACT', 'Accounting Applications Series', 'Finance', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'AAM', 'Apparel and Accessories Marketing Series', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'ASM', 'Automotive Services Marketing Series', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'BFS', 'Business Finance Series', 'Finance', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'BSM', 'Business Services Marketing Series', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'ENT', 'Entrepreneurship Series', 'Entrepreneurship', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'FMS', 'Food Marketing Series', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'HLM', 'Hotel and Lodging Management Series', 'Hospitality & Tourism', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'HRM', 'Human Resources Management Series', 'Business Management & Administration', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'MCS', 'Marketing Communications Series', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'QSRM', 'Quick Serve Restaurant Management Series', 'Hospitality & Tourism', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'RFSM', 'Restaurant and Food Service Management Series', 'Hospitality & Tourism', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'RMS', 'Retail Merchandising Series', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Individual Series', 'SEM', 'Sports and Entertainment Marketing Series', 'Marketing', 'Role-play format'),
+
+  // Team Decision Making
+  decaEvent('roleplay', 'Team Decision Making', 'BLTDM', 'Business Law and Ethics Team Decision Making', 'Business Management & Administration', 'Role-play case study'),
+  decaEvent('roleplay', 'Team Decision Making', 'BTDM', 'Buying and Merchandising Team Decision Making', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Team Decision Making', 'ETDM', 'Entrepreneurship Team Decision Making', 'Entrepreneurship', 'Role-play format'),
+  decaEvent('roleplay', 'Team Decision Making', 'FTDM', 'Financial Services Team Decision Making', 'Finance', 'Role-play format'),
+  decaEvent('roleplay', 'Team Decision Making', 'HTDM', 'Hospitality Services Team Decision Making', 'Hospitality & Tourism', 'Role-play format'),
+  decaEvent('roleplay', 'Team Decision Making', 'MTDM', 'Marketing Management Team Decision Making', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Team Decision Making', 'STDM', 'Sports and Entertainment Marketing Team Decision Making', 'Marketing', 'Role-play format'),
+  decaEvent('roleplay', 'Team Decision Making', 'TTDM', 'Travel and Tourism Team Decision Making', 'Hospitality & Tourism', 'Role-play format'),
+
+  // Professional Selling and Consulting
+  decaEvent('roleplay', 'Professional Selling and Consulting', 'FCE', 'Financial Consulting', 'Finance', 'Role-play format'),
+  decaEvent('roleplay', 'Professional Selling and Consulting', 'HTPS', 'Hospitality and Tourism Professional Selling', 'Hospitality & Tourism', 'Role-play format'),
+  decaEvent('roleplay', 'Professional Selling and Consulting', 'PSE', 'Professional Selling', 'Marketing', 'Role-play format'),
+
+  // Entrepreneurship
+  decaEvent('written', 'Entrepreneurship', 'EBG', 'Business Growth Plan', 'Entrepreneurship', 'Prepared/written project'),
+  decaEvent('written', 'Entrepreneurship', 'EFB', 'Franchise Business Plan', 'Entrepreneurship', 'Written business plan'),
+  decaEvent('written', 'Entrepreneurship', 'EIB', 'Independent Business Plan', 'Entrepreneurship', 'Written business plan'),
+  decaEvent('written', 'Entrepreneurship', 'EIP', 'Innovation Plan', 'Entrepreneurship', 'Written project'),
+  decaEvent('written', 'Entrepreneurship', 'ESB', 'Start-Up Business Plan', 'Entrepreneurship', 'Written business plan'),
+  decaEvent('written', 'Entrepreneurship', 'IBP', 'International Business Plan', 'Entrepreneurship', 'Written business plan'),
+
+  // Business Operations Research
+  decaEvent('written', 'Business Operations Research', 'BOR', 'Business Services Operations Research', 'Business Management & Administration', 'Written report'),
+  decaEvent('written', 'Business Operations Research', 'BMOR', 'Buying and Merchandising Operations Research', 'Marketing', 'Written report'),
+  decaEvent('written', 'Business Operations Research', 'FOR', 'Finance Operations Research', 'Finance', 'Written report'),
+  decaEvent('written', 'Business Operations Research', 'HTOR', 'Hospitality and Tourism Operations Research', 'Hospitality & Tourism', 'Written report'),
+  decaEvent('written', 'Business Operations Research', 'SEOR', 'Sports and Entertainment Marketing Operations Research', 'Marketing', 'Written report'),
+
+  // Project Management
+  decaEvent('written', 'Project Management', 'PMBS', 'Business Solutions Project', 'Business Management & Administration', 'Written project'),
+  decaEvent('written', 'Project Management', 'PMCD', 'Career Development Project', 'Business Management & Administration', 'Written project'),
+  decaEvent('written', 'Project Management', 'PMCA', 'Community Awareness Project', 'Business Management & Administration', 'Written project'),
+  decaEvent('written', 'Project Management', 'PMCG', 'Community Giving Project', 'Business Management & Administration', 'Written project'),
+  decaEvent('written', 'Project Management', 'PMFL', 'Financial Literacy Project', 'Finance', 'Written project'),
+  decaEvent('written', 'Project Management', 'PMSP', 'Sales Project', 'Marketing', 'Written project'),
+
+  // Integrated Marketing Campaign
+  decaEvent('written', 'Integrated Marketing Campaign', 'IMCE', 'Integrated Marketing Campaign-Event', 'Marketing', 'Prepared/written project'),
+  decaEvent('written', 'Integrated Marketing Campaign', 'IMCP', 'Integrated Marketing Campaign-Product', 'Marketing', 'Prepared/written project'),
+  decaEvent('written', 'Integrated Marketing Campaign', 'IMCS', 'Integrated Marketing Campaign-Service', 'Marketing', 'Prepared/written project'),
+
+  // Personal Financial Literacy
+  decaEvent('written', 'Personal Financial Literacy', 'PFL', 'Personal Financial Literacy', 'Personal Financial Literacy', 'Exam based/written'),
+
+  // Online Events
+  decaEvent('written', 'Online Events', 'SMG', 'Stock Market Game', 'Finance', 'Simulation'),
+  decaEvent('written', 'Online Events', 'VBCAC', 'Virtual Business Challenge-Accounting', 'Finance', 'Simulation'),
+  decaEvent('written', 'Online Events', 'VBCEN', 'Virtual Business Challenge-Entrepreneurship', 'Entrepreneurship', 'Simulation'),
+  decaEvent('written', 'Online Events', 'VBCFA', 'Virtual Business Challenge-Fashion', 'Marketing', 'Simulation'),
+  decaEvent('written', 'Online Events', 'VBCHM', 'Virtual Business Challenge-Hotel Management', 'Hospitality & Tourism', 'Simulation'),
+  decaEvent('written', 'Online Events', 'VBCPF', 'Virtual Business Challenge-Personal Finance', 'Personal Financial Literacy', 'Simulation'),
+  decaEvent('written', 'Online Events', 'VBCRS', 'Virtual Business Challenge-Restaurant', 'Hospitality & Tourism', 'Simulation'),
+  decaEvent('written', 'Online Events', 'VBCRT', 'Virtual Business Challenge-Retail', 'Marketing', 'Simulation'),
+  decaEvent('written', 'Online Events', 'VBCSP', 'Virtual Business Challenge-Sports', 'Marketing', 'Simulation'),
+];
+
+// Events of each format, in catalog order
+export const EVENTS_BY_FORMAT: Record<EventFormat, DecaEvent[]> = {
+  roleplay: DECA_EVENTS.filter(event => event.format === 'roleplay'),
+  written: DECA_EVENTS.filter(event => event.format === 'written'),
+};
+
+// Get event by name
+export function getEventByName(eventName: string): DecaEvent | undefined {
+  return DECA_EVENTS.find(event => event.name === eventName);
+}
+
+// Get event by its DECA code (e.g. "HTDM")
+export function getEventByCode(code: string): DecaEvent | undefined {
+  const normalized = code.trim().toUpperCase();
+  return DECA_EVENTS.find(event => event.code === normalized);
+}
+
+// Resolve an event from its name, its code or a "Name (CODE)" label as stored in users.selectedEvent
+export function findEvent(value: string | null | undefined): DecaEvent | undefined {
+  if (!value) return undefined;
+  const labelCode = value.match(/\(([A-Z]+)\)\s*$/)?.[1];
+  return getEventByName(value) || getEventByCode(value) || (labelCode ? getEventByCode(labelCode) : undefined);
+}
+
+// Resolve a career cluster from any of its spellings ("Hospitality and Tourism", "Marketing Career Cluster")
+export function findCluster(name: string | null | undefined): DecaCluster | undefined {
+  const examCluster = findExamCluster(name);
+  return examCluster ? (Object.keys(DECA_CATEGORIES) as DecaCluster[]).find(cluster => findExamCluster(cluster) === examCluster) : undefined;
+}
+
+// A selected event the catalog does not list, such as one saved before the catalog had it, competed in the given cluster
+export function toUncatalogedEvent(name: string, cluster: DecaCluster): DecaEvent {
+  const code = name.match(/\(([A-Z]+)\)\s*$/)?.[1] ?? '';
+  return decaEvent('roleplay', 'Individual Series', code, name, cluster, 'Role-play format');
+}
+
+// Get cluster name from event
+export function getClusterFromEvent(event: string): string {
+  return findEvent(event)?.cluster ?? 'Business Management & Administration';
+}
+
+// Check if event is team-based
+export function isTeamEvent(event: string | null | undefined): boolean {
+  return findEvent(event)?.type === 'team';
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DECA_EVENTS } from './deca-events';
+import { filterPIs, listPIs } from './pi-registry';
+
+describe('PI registry', () => {
+  it('links every PI to at least one event', () => {
+    expect(listPIs().filter(entry => entry.events.length === 0)).toEqual([]);
+  });
+
+  it('has PIs for every selectable event', () => {
+    const empty = DECA_EVENTS.filter(event => filterPIs({ event: event.code }).length === 0).map(event => event.code);
+    expect(empty).toEqual([]);
+  });
+
+  it('resolves events by name, code and "Name (CODE)" label', () => {
+    const byCode = filterPIs({ event: 'BLTDM' });
+    expect(filterPIs({ event: 'Business Law and Ethics Team Decision Making' })).toEqual(byCode);
+    expect(filterPIs({ event: 'Business Law and Ethics Team Decision Making (BLTDM)' })).toEqual(byCode);
+  });
+});
@@ -0,0 +1,219 @@
+// One normalized catalog of DECA performance indicators, built from deca-pis.json. Every PI appears once
+// with its code, text, instructional area, the clusters and events that use it and its curriculum level,
+// so callers look PIs up here instead of parsing "CODE – text" strings themselves.
+import decaPIs from './deca-pis.json';
+import { findExamCluster, type ExamCluster } from './blueprint';
+import { DECA_EVENTS, findEvent, type DecaEvent } from './deca-events';
+
+// DECA curriculum planning levels, from prerequisite knowledge (PQ) up to business owner (ON)
+export const COGNITIVE_LEVELS = ['PQ', 'CS', 'SP', 'MN', 'ON'] as const;
+export type CognitiveLevel = typeof COGNITIVE_LEVELS[number];
+
+export interface PerformanceIndicatorEntry {
+  code: string; // "BL:001"; Personal Financial Literacy standards are prefixed by area, e.g. "PFL-SP:4-1a"
+  text: string;
+  instructionalArea: string;
+  clusters: ExamCluster[];
+  events: string[]; // Codes of the DECA events in the clusters that use this PI
+  cognitiveLevel: CognitiveLevel | null;
+}
+
+export interface PIFilter {
+  cluster?: string;
+  instructionalArea?: string;
+  event?: string; // Event code, full event name or "Name (CODE)" label
+  cognitiveLevel?: CognitiveLevel;
+}
+
+// Personal Financial Literacy reuses standard numbers ("4-1a") in every area, so its codes carry an area prefix
+const PFL_AREA_PREFIXES: Record<string, string> = {
+  'Income and Careers': 'PFL-IC',
+  'Spending': 'PFL-SP',
+  'Saving': 'PFL-SV',
+  'Borrowing': 'PFL-BR',
+  'Managing Risk': 'PFL-MR',
+};
+
+const AREA_PATTERN = /^(.+?)\s*\(([A-Z]{2})\)$/;
+const PI_PATTERN = /^([A-Z]{2}):?(\d{3})\s*–\s*(.+?)(?:\s*\((PQ|CS|SP|MN|ON)\))?$/;
+const PFL_PATTERN = /^(\d+-\d+[a-z])\s*–\s*(.+)$/;
+const CODE_PATTERN = /^(?:([A-Z]{2}):?(\d{3})|(PFL-[A-Z]{2}):(\d+-\d+[A-Z]))\b/i;
+
+function toTitleCase(value: string): string {
+  return value.toLowerCase().replace(/(^|[\s/-])([a-z])/g, (_match, separator, letter) => separator + letter.toUpperCase());
+}
+
+/**
+ * Normalize a PI code or a "CODE – text" string to the registry's code format
+ * @returns The code, e.g. "BL:001" for "BL001" or "bl:001 – Explain…", or an empty string when there is none
+ */
+export function parsePICode(value: string): string {
+  const match = value.trim().match(CODE_PATTERN);
+  if (!match) return '';
+  return match[1]
+    ? `${match[1].toUpperCase()}:${match[2]}`
+    : `${match[3].toUpperCase()}:${match[4].toLowerCase()}`;
+}
+
+// The source file spells areas differently per cluster ("HUMAN RESOURCES (HR)" vs "Human Resources Management (HR)"),
+// so each area code takes the first mixed-case spelling found
+function collectAreaNames(): Map<string, string> {
+  const names = new Map<string, string>();
+  const upperCaseNames = new Map<string, string>();
+  for (const areas of Object.values(decaPIs)) {
+    for (const areaKey of Object.keys(areas)) {
+      const match = areaKey.match(AREA_PATTERN);
+      if (!match) continue;
+      const [, name, areaCode] = match;
+      const spellings = name === name.toUpperCase() ? upperCaseNames : names;
+      if (!spellings.has(areaCode)) spellings.set(areaCode, name);
+    }
+  }
+  for (const [areaCode, name] of Array.from(upperCaseNames)) {
+    if (!names.has(areaCode)) names.set(areaCode, toTitleCase(name));
+  }
+  return names;
+}
+
+// An event draws its PIs from the whole curriculum of its career cluster
+function eventsInCluster(cluster: ExamCluster): DecaEvent[] {
+  return DECA_EVENTS.filter(event => findExamCluster(event.cluster) === cluster);
+}
+
+function buildRegistry(): Map<string, PerformanceIndicatorEntry> {
+  const areaNames = collectAreaNames();
+  const entries = new Map<string, PerformanceIndicatorEntry>();
+
+  for (const [clusterKey, areas] of Object.entries(decaPIs)) {
+    const cluster = findExamCluster(clusterKey);
+    if (!cluster) throw new Error(`Unknown cluster "${clusterKey}" in deca-pis.json`);
+    const events = eventsInCluster(cluster).map(event => event.code);
+
+    for (const [areaKey, pis] of Object.entries(areas as Record<string, string[]>)) {
+      const areaCode = areaKey.match(AREA_PATTERN)?.[2];
+      const instructionalArea = (areaCode && areaNames.get(areaCode)) || areaKey;
+
+      for (const pi of pis) {
+        const standard = pi.match(PI_PATTERN);
+        const pfl = standard ? null : pi.match(PFL_PATTERN);
+        if (!standard && !(pfl && PFL_AREA_PREFIXES[areaKey])) {
+          throw new Error(`Unrecognized PI "${pi}" in ${clusterKey} / ${areaKey}`);
+        }
+
+        const code = standard ? `${standard[1]}:${standard[2]}` : `${PFL_AREA_PREFIXES[areaKey]}:${pfl![1]}`;
+        const existing = entries.get(code);
+        if (existing) {
+          if (!existing.clusters.includes(cluster)) existing.clusters.push(cluster);
+          existing.events.push(...events.filter(event => !existing.events.includes(event)));
+          existing.cognitiveLevel ??= (standard?.[4] as CognitiveLevel | undefined) ?? null;
+          continue;
+        }
+
+        entries.set(code, {
+          code,
+          text: standard ? standard[3] : pfl![2],
+          instructionalArea,
+          clusters: [cluster],
+          events: [...events],
+          cognitiveLevel: (standard?.[4] as CognitiveLevel | undefined) ?? null,
+        });
+      }
+    }
+  }
+
+  return entries;
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[.\s]+$/, '').replace(/\s+/g, ' ').trim();
+}
+
+const REGISTRY = buildRegistry();
+const ENTRIES = Array.from(REGISTRY.values());
+const BY_TEXT = new Map(ENTRIES.map(entry => [normalizeText(entry.text), entry]));
+
+export function listPIs(): readonly PerformanceIndicatorEntry[] {
+  return ENTRIES;
+}
+
+// Accepts a bare code ("BL:001", "BL001"), a full "CODE – text" string or the exact PI text without a code
+export function getPI(codeOrText: string): PerformanceIndicatorEntry | undefined {
+  const code = parsePICode(codeOrText);
+  return code ? REGISTRY.get(code) : BY_TEXT.get(normalizeText(codeOrText));
+}
+
+// The "CODE – text" form used in prompts and on roleplay cards
+export function formatPIEntry(entry: PerformanceIndicatorEntry): string {
+  return `${entry.code} – ${entry.text}`;
+}
+
+/**
+ * Filter the registry by cluster, instructional area, event and curriculum level
+ * Clusters and events are matched by any of their spellings; an unknown cluster or event matches nothing
+ */
+export function filterPIs(filter: PIFilter = {}): PerformanceIndicatorEntry[] {
+  const cluster = filter.cluster ? findExamCluster(filter.cluster) : undefined;
+  const event = filter.event ? findEvent(filter.event) : undefined;
+  const area = filter.instructionalArea?.toLowerCase();
+
+  if ((filter.cluster && !cluster) || (filter.event && !event)) return [];
+
+  return ENTRIES.filter(entry =>
+    (!cluster || entry.clusters.includes(cluster)) &&
+    (!event || entry.events.includes(event.code)) &&
+    (!area || entry.instructionalArea.toLowerCase() === area) &&
+    (!filter.cognitiveLevel || entry.cognitiveLevel === filter.cognitiveLevel)
+  );
+}
+
+/**
+ * Search PI codes and text; every word of the query has to match
+ * @returns Matches within the filter, exact code matches first
+ */
+export function searchPIs(query: string, filter: PIFilter = {}): PerformanceIndicatorEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const exactCode = parsePICode(query);
+
+  return filterPIs(filter)
+    .filter(entry => {
+      const haystack = `${entry.code} ${entry.text}`.toLowerCase();
+      return entry.code === exactCode || terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) => Number(b.code === exactCode) - Number(a.code === exactCode));
+}
+
+// Instructional areas that have PIs under the filter, alphabetically
+export function getInstructionalAreas(filter: Omit<PIFilter, 'instructionalArea'> = {}): string[] {
+  return Array.from(new Set(filterPIs(filter).map(entry => entry.instructionalArea))).sort();
+}
+
+// Mastery (0-100) at which a practiced PI counts as mastered, and below which it counts as weak
+export const PI_MASTERY_THRESHOLD = 80;
+export const PI_WEAK_THRESHOLD = 60;
+
+export type PICoverageStatus = 'unpracticed' | 'weak' | 'practiced' | 'mastered';
+
+export function getPICoverageStatus(masteryLevel: number, attempts: number): PICoverageStatus {
+  if (attempts === 0) return 'unpracticed';
+  if (masteryLevel >= PI_MASTERY_THRESHOLD) return 'mastered';
+  if (masteryLevel < PI_WEAK_THRESHOLD) return 'weak';
+  return 'practiced';
+}
+
+export interface PICoverageEntry {
+  code: string;
+  text: string;
+  instructionalArea: string;
+  status: PICoverageStatus;
+  masteryLevel: number;
+  attempts: number;
+  lastPracticed: Date | null;
+}
+
+export interface PICoverage {
+  event: string; // Event code
+  eventName: string;
+  total: number;
+  counts: Record<PICoverageStatus, number>;
+  pis: PICoverageEntry[];
+}
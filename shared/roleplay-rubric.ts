@@ -0,0 +1,41 @@
+// The official DECA role-play evaluation form: every performance indicator is scored 0-17 and every
+// 21st Century Skill 0-7. The AI grader, the printable judge sheet and hand-entered judge scores all use it.
+
+export const PI_MAX_SCORE = 17;
+export const SKILL_MAX_SCORE = 7;
+
+export const TWENTY_FIRST_CENTURY_SKILLS = [
+  'Reason effectively and use systems thinking?',
+  'Communicate clearly?',
+  'Show evidence of creativity?',
+  "Overall impression and responses to the judge's questions?",
+] as const;
+
+export interface ScoreLevel {
+  label: string;
+  min: number;
+  max: number;
+}
+
+export const PI_SCORE_LEVELS: ScoreLevel[] = [
+  { label: 'Little/No Value', min: 0, max: 5 },
+  { label: 'Below Expectations', min: 6, max: 10 },
+  { label: 'Meets Expectations', min: 11, max: 14 },
+  { label: 'Exceeds Expectations', min: 15, max: 17 },
+];
+
+export const SKILL_SCORE_LEVELS: ScoreLevel[] = [
+  { label: 'Little/No Value', min: 0, max: 1 },
+  { label: 'Below Expectations', min: 2, max: 3 },
+  { label: 'Meets Expectations', min: 4, max: 5 },
+  { label: 'Exceeds Expectations', min: 6, max: 7 },
+];
+
+// Highest total on the form for a role-play with this many PIs
+export function getRoleplayMaxScore(piCount: number): number {
+  return piCount * PI_MAX_SCORE + TWENTY_FIRST_CENTURY_SKILLS.length * SKILL_MAX_SCORE;
+}
+
+export function formatScoreLevels(levels: ScoreLevel[]): string {
+  return levels.map(level => `${level.min}-${level.max} ${level.label}`).join(', ');
+}
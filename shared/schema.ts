@@ -1,13 +1,15 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, real, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // User model
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
+  authId: text("auth_id").unique(), // Subject of the auth provider's token
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password"), // Only set for self-hosted accounts
   email: text("email"),
+  fullName: text("full_name"),
   googleId: text("google_id").unique(),
   eventFormat: text("event_format"), // roleplay or written
   eventCode: text("event_code"),     // event code like PBM, ACT, etc.
@@ -31,12 +33,28 @@ export const users = pgTable("users", {
   stripeSubscriptionId: text("stripe_subscription_id"),
   selectedEvent: text("selected_event"), // Full event name and abbrev
   selectedCluster: text("selected_cluster"), // Career cluster name
+  showTutorial: boolean("show_tutorial").default(true),
+  onboardingCompleted: boolean("onboarding_completed").default(false),
+  lastLogin: timestamp("last_login"),
+  streakStartDate: timestamp("streak_start_date"),
+  decits: integer("decits").default(0), // In-app currency
+  experience: integer("experience").default(0),
+  level: integer("level").default(1),
+  testsCompleted: integer("tests_completed").default(0),
+  roleplaysCompleted: integer("roleplays_completed").default(0),
+  totalStudyTime: integer("total_study_time").default(0), // In seconds
+  averageTestScore: real("average_test_score").default(0),
+  averageRoleplayScore: real("average_roleplay_score").default(0),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
+  authId: true,
   username: true,
   password: true,
   email: true,
+  fullName: true,
+  showTutorial: true,
+  onboardingCompleted: true,
   eventFormat: true,
   eventCode: true,
   eventType: true,
@@ -48,23 +66,37 @@ export const insertUserSchema = createInsertSchema(users).pick({
   selectedCluster: true,
 });
 
-// Performance Indicators model
+// Performance Indicators model: one row per user and PI, updated from test answers and roleplay grading
 export const performanceIndicators = pgTable("performance_indicators", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
+  piCode: text("pi_code").notNull(), // PI registry code, e.g. "BL:001"
   indicator: text("indicator").notNull(),
-  category: text("category").notNull(),
+  category: text("category").notNull(), // Instructional area
   status: text("status").default("not_started"), // not_started, in_progress, completed
+  masteryLevel: real("mastery_level").default(0), // 0-100
+  attempts: integer("attempts").default(0),
+  lastScore: real("last_score"), // 0-100
   lastPracticed: timestamp("last_practiced"),
-});
+}, (table) => [
+  uniqueIndex("performance_indicators_user_pi_code_idx").on(table.userId, table.piCode),
+]);
 
 export const insertPISchema = createInsertSchema(performanceIndicators).pick({
   userId: true,
+  piCode: true,
   indicator: true,
   category: true,
   status: true,
+  masteryLevel: true,
+  attempts: true,
+  lastScore: true,
+  lastPracticed: true,
 });
 
+// Study statuses a user can set on a performance indicator
+export const PI_STATUSES = ["not_started", "in_progress", "completed"];
+
 // Practice Sessions model
 export const practiceSessions = pgTable("practice_sessions", {
   id: serial("id").primaryKey(),
@@ -143,497 +175,6 @@ export const SUBSCRIPTION_LIMITS = {
   }
 };
 
-// DECA categories with color codes
-export const DECA_CATEGORIES = {
-  "Business Management and Administration": {
-    color: "#F9D949", // Yellow
-    colorClass: "bg-yellow-400"
-  },
-  "Entrepreneurship": {
-    color: "#A9A9A9", // Grey
-    colorClass: "bg-gray-400"
-  },
-  "Finance": {
-    color: "#4CAF50", // Green
-    colorClass: "bg-green-500"
-  },
-  "Hospitality and Tourism": {
-    color: "#2196F3", // Blue
-    colorClass: "bg-blue-500"
-  },
-  "Marketing": {
-    color: "#F44336", // Red
-    colorClass: "bg-red-500"
-  },
-  "Personal Financial Literacy": {
-    color: "#8BC34A", // Light Green
-    colorClass: "bg-green-400"
-  }
-};
-
-// DECA event types for grouping
-export const EVENT_TYPE_GROUPS = [
-  "Principles",
-  "Team Decision Making",
-  "Individual Series",
-  "Professional Selling and Consulting",
-  "Business Operations Research",
-  "Project Management",
-  "Entrepreneurship",
-  "Integrated Marketing Campaign",
-  "Personal Financial Literacy",
-  "Online Events"
-];
-
-// All DECA events organized by type
-export const DECA_EVENTS = {
-  // Role-play events
-  roleplay: [
-    // Principles Events
-    {
-      code: "PBM",
-      name: "Principles of Business Management and Administration",
-      category: "Business Management and Administration",
-      type: "Principles",
-      description: "Role-play format for first-year members"
-    },
-    {
-      code: "PFN",
-      name: "Principles of Finance",
-      category: "Finance",
-      type: "Principles",
-      description: "Role-play format"
-    },
-    {
-      code: "PMK",
-      name: "Principles of Marketing",
-      category: "Marketing",
-      type: "Principles",
-      description: "Role-play format"
-    },
-    {
-      code: "PHT",
-      name: "Principles of Hospitality and Tourism",
-      category: "Hospitality and Tourism",
-      type: "Principles",
-      description: "Role-play format"
-    },
-    {
-      code: "PEN",
-      name: "Principles of Entrepreneurship",
-      category: "Entrepreneurship",
-      type: "Principles",
-      description: "Role-play format"
-    },
-    
-    // Individual Series
-    {
-      code: "ACT",
-      name: "Accounting Applications Series",
-      category: "Finance",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "AAM",
-      name: "Apparel and Accessories Marketing Series",
-      category: "Marketing",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "ASM",
-      name: "Automotive Services Marketing Series",
-      category: "Marketing",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "BFS",
-      name: "Business Finance Series",
-      category: "Finance",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "BSM",
-      name: "Business Services Marketing Series",
-      category: "Marketing",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "ENT",
-      name: "Entrepreneurship Series",
-      category: "Entrepreneurship",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "FMS",
-      name: "Food Marketing Series",
-      category: "Marketing",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "HLM",
-      name: "Hotel and Lodging Management Series",
-      category: "Hospitality and Tourism",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "HRM",
-      name: "Human Resources Management Series",
-      category: "Business Management and Administration",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "MCS",
-      name: "Marketing Communications Series",
-      category: "Marketing",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "QSRM",
-      name: "Quick Serve Restaurant Management Series",
-      category: "Hospitality and Tourism",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "RFSM",
-      name: "Restaurant and Food Service Management Series",
-      category: "Hospitality and Tourism",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "RMS",
-      name: "Retail Merchandising Series",
-      category: "Marketing",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    {
-      code: "SEM",
-      name: "Sports and Entertainment Marketing Series",
-      category: "Marketing",
-      type: "Individual Series",
-      description: "Role-play format"
-    },
-    
-    // Team Decision Making
-    {
-      code: "BLTDM",
-      name: "Business Law and Ethics Team Decision Making",
-      category: "Business Management and Administration",
-      type: "Team Decision Making",
-      description: "Role-play case study"
-    },
-    {
-      code: "BTDM",
-      name: "Buying and Merchandising Team Decision Making",
-      category: "Marketing",
-      type: "Team Decision Making",
-      description: "Role-play format"
-    },
-    {
-      code: "ETDM",
-      name: "Entrepreneurship Team Decision Making",
-      category: "Entrepreneurship",
-      type: "Team Decision Making",
-      description: "Role-play format"
-    },
-    {
-      code: "FTDM",
-      name: "Financial Services Team Decision Making",
-      category: "Finance",
-      type: "Team Decision Making",
-      description: "Role-play format"
-    },
-    {
-      code: "HTDM",
-      name: "Hospitality Services Team Decision Making",
-      category: "Hospitality and Tourism",
-      type: "Team Decision Making",
-      description: "Role-play format"
-    },
-    {
-      code: "MTDM",
-      name: "Marketing Management Team Decision Making",
-      category: "Marketing",
-      type: "Team Decision Making",
-      description: "Role-play format"
-    },
-    {
-      code: "STDM",
-      name: "Sports and Entertainment Marketing Team Decision Making",
-      category: "Marketing",
-      type: "Team Decision Making",
-      description: "Role-play format"
-    },
-    {
-      code: "TTDM",
-      name: "Travel and Tourism Team Decision Making",
-      category: "Hospitality and Tourism",
-      type: "Team Decision Making",
-      description: "Role-play format"
-    },
-    
-    // Professional Selling and Consulting
-    {
-      code: "FCE",
-      name: "Financial Consulting",
-      category: "Finance",
-      type: "Professional Selling and Consulting",
-      description: "Role-play format"
-    },
-    {
-      code: "HTPS",
-      name: "Hospitality and Tourism Professional Selling",
-      category: "Hospitality and Tourism",
-      type: "Professional Selling and Consulting",
-      description: "Role-play format"
-    },
-    {
-      code: "PSE",
-      name: "Professional Selling",
-      category: "Marketing",
-      type: "Professional Selling and Consulting",
-      description: "Role-play format"
-    }
-  ],
-  
-  // Written events
-  written: [
-    // Entrepreneurship
-    {
-      code: "EBG",
-      name: "Business Growth Plan",
-      category: "Entrepreneurship",
-      type: "Entrepreneurship",
-      description: "Prepared/written project"
-    },
-    {
-      code: "EFB",
-      name: "Franchise Business Plan",
-      category: "Entrepreneurship",
-      type: "Entrepreneurship",
-      description: "Written business plan"
-    },
-    {
-      code: "EIB",
-      name: "Independent Business Plan",
-      category: "Entrepreneurship",
-      type: "Entrepreneurship",
-      description: "Written business plan"
-    },
-    {
-      code: "EIP",
-      name: "Innovation Plan",
-      category: "Entrepreneurship",
-      type: "Entrepreneurship",
-      description: "Written project"
-    },
-    {
-      code: "ESB",
-      name: "Start-Up Business Plan",
-      category: "Entrepreneurship",
-      type: "Entrepreneurship",
-      description: "Written business plan"
-    },
-    {
-      code: "IBP",
-      name: "International Business Plan",
-      category: "Entrepreneurship",
-      type: "Entrepreneurship",
-      description: "Written business plan"
-    },
-    
-    // Business Operations Research
-    {
-      code: "BOR",
-      name: "Business Services Operations Research",
-      category: "Business Management and Administration",
-      type: "Business Operations Research",
-      description: "Written report"
-    },
-    {
-      code: "BMOR",
-      name: "Buying and Merchandising Operations Research",
-      category: "Marketing",
-      type: "Business Operations Research",
-      description: "Written report"
-    },
-    {
-      code: "FOR",
-      name: "Finance Operations Research",
-      category: "Finance",
-      type: "Business Operations Research",
-      description: "Written report"
-    },
-    {
-      code: "HTOR",
-      name: "Hospitality and Tourism Operations Research",
-      category: "Hospitality and Tourism",
-      type: "Business Operations Research",
-      description: "Written report"
-    },
-    {
-      code: "SEOR",
-      name: "Sports and Entertainment Marketing Operations Research",
-      category: "Marketing",
-      type: "Business Operations Research",
-      description: "Written report"
-    },
-    
-    // Project Management
-    {
-      code: "PMBS",
-      name: "Business Solutions Project",
-      category: "Business Management and Administration",
-      type: "Project Management",
-      description: "Written project"
-    },
-    {
-      code: "PMCD",
-      name: "Career Development Project",
-      category: "Business Management and Administration",
-      type: "Project Management",
-      description: "Written project"
-    },
-    {
-      code: "PMCA",
-      name: "Community Awareness Project",
-      category: "Business Management and Administration",
-      type: "Project Management",
-      description: "Written project"
-    },
-    {
-      code: "PMCG",
-      name: "Community Giving Project",
-      category: "Business Management and Administration",
-      type: "Project Management",
-      description: "Written project"
-    },
-    {
-      code: "PMFL",
-      name: "Financial Literacy Project",
-      category: "Finance",
-      type: "Project Management",
-      description: "Written project"
-    },
-    {
-      code: "PMSP",
-      name: "Sales Project",
-      category: "Marketing",
-      type: "Project Management",
-      description: "Written project"
-    },
-    
-    // Integrated Marketing Campaign
-    {
-      code: "IMCE",
-      name: "Integrated Marketing Campaign-Event",
-      category: "Marketing",
-      type: "Integrated Marketing Campaign",
-      description: "Prepared/written project"
-    },
-    {
-      code: "IMCP",
-      name: "Integrated Marketing Campaign-Product",
-      category: "Marketing",
-      type: "Integrated Marketing Campaign",
-      description: "Prepared/written project"
-    },
-    {
-      code: "IMCS",
-      name: "Integrated Marketing Campaign-Service",
-      category: "Marketing",
-      type: "Integrated Marketing Campaign",
-      description: "Prepared/written project"
-    },
-    
-    // Personal Financial Literacy
-    {
-      code: "PFL",
-      name: "Personal Financial Literacy",
-      category: "Personal Financial Literacy",
-      type: "Personal Financial Literacy",
-      description: "Exam based/written"
-    },
-    
-    // Online Events
-    {
-      code: "SMG",
-      name: "Stock Market Game",
-      category: "Finance",
-      type: "Online Events",
-      description: "Simulation"
-    },
-    {
-      code: "VBCAC",
-      name: "Virtual Business Challenge-Accounting",
-      category: "Finance",
-      type: "Online Events",
-      description: "Simulation"
-    },
-    {
-      code: "VBCEN",
-      name: "Virtual Business Challenge-Entrepreneurship",
-      category: "Entrepreneurship",
-      type: "Online Events",
-      description: "Simulation"
-    },
-    {
-      code: "VBCFA",
-      name: "Virtual Business Challenge-Fashion",
-      category: "Marketing",
-      type: "Online Events",
-      description: "Simulation"
-    },
-    {
-      code: "VBCHM",
-      name: "Virtual Business Challenge-Hotel Management",
-      category: "Hospitality and Tourism",
-      type: "Online Events",
-      description: "Simulation"
-    },
-    {
-      code: "VBCPF",
-      name: "Virtual Business Challenge-Personal Finance",
-      category: "Personal Financial Literacy",
-      type: "Online Events",
-      description: "Simulation"
-    },
-    {
-      code: "VBCRS",
-      name: "Virtual Business Challenge-Restaurant",
-      category: "Hospitality and Tourism",
-      type: "Online Events",
-      description: "Simulation"
-    },
-    {
-      code: "VBCRT",
-      name: "Virtual Business Challenge-Retail",
-      category: "Marketing",
-      type: "Online Events",
-      description: "Simulation"
-    },
-    {
-      code: "VBCSP",
-      name: "Virtual Business Challenge-Sports",
-      category: "Marketing",
-      type: "Online Events",
-      description: "Simulation"
-    }
-  ]
-};
-
 // Performance Indicator categories
 // Achievement types and categories enum
 export const achievementTypeEnum = pgEnum('achievement_type', [
@@ -643,7 +184,15 @@ export const achievementTypeEnum = pgEnum('achievement_type', [
   'roleplay_complete', 
   'written_event',
   'performance_indicator',
-  'daily_challenge'
+  'daily_challenge',
+  'study_time',
+  'perfect_score',
+  'improvement',
+  'consistency',
+  'exploration',
+  'mastery',
+  'level',
+  'points'
 ]);
 
 // Achievement model for gamification
@@ -676,14 +225,18 @@ export const userAchievements = pgTable("user_achievements", {
   userId: integer("user_id").notNull(),
   achievementId: integer("achievement_id").notNull(),
   earnedAt: timestamp("earned_at").notNull(),
-  displayed: boolean("displayed").default(false), // For showing new achievement notifications
+  isDisplayed: boolean("displayed").default(false), // For showing new achievement notifications
+  progress: integer("progress").default(0), // Percentage towards the threshold
+  seasonEarned: text("season_earned"), // e.g. "Fall 2025"
 });
 
 export const insertUserAchievementSchema = createInsertSchema(userAchievements).pick({
   userId: true,
   achievementId: true,
   earnedAt: true,
-  displayed: true,
+  isDisplayed: true,
+  progress: true,
+  seasonEarned: true,
 });
 
 // Daily Challenge model
@@ -695,6 +248,11 @@ export const dailyChallenges = pgTable("daily_challenges", {
   points: integer("points").notNull(),
   date: timestamp("date").notNull(),
   details: text("details"), // JSON string with challenge-specific data
+  target: integer("target").notNull().default(1), // Progress needed to complete the challenge
+  decitsReward: integer("decits_reward").notNull().default(0),
+  difficulty: text("difficulty"), // easy, medium, hard
+  category: text("category"),
+  isActive: boolean("is_active").default(true),
 });
 
 export const insertDailyChallengeSchema = createInsertSchema(dailyChallenges).pick({
@@ -704,6 +262,11 @@ export const insertDailyChallengeSchema = createInsertSchema(dailyChallenges).pi
   points: true,
   date: true,
   details: true,
+  target: true,
+  decitsReward: true,
+  difficulty: true,
+  category: true,
+  isActive: true,
 });
 
 // User Daily Challenge progress
@@ -711,15 +274,19 @@ export const userDailyChallenges = pgTable("user_daily_challenges", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   challengeId: integer("challenge_id").notNull(),
-  completed: boolean("completed").default(false),
+  progress: integer("progress").default(0),
+  isCompleted: boolean("completed").default(false),
   completedAt: timestamp("completed_at"),
+  attemptDate: timestamp("attempt_date").defaultNow().notNull(),
 });
 
 export const insertUserDailyChallengeSchema = createInsertSchema(userDailyChallenges).pick({
   userId: true,
   challengeId: true,
-  completed: true,
+  progress: true,
+  isCompleted: true,
   completedAt: true,
+  attemptDate: true,
 });
 
 // Break Timer sessions
@@ -742,6 +309,26 @@ export const insertBreakSessionSchema = createInsertSchema(breakSessions).pick({
   completed: true,
 });
 
+// Study sessions, timed from start to end; every study-time statistic, achievement and challenge is summed from these
+export const STUDY_ACTIVITY_TYPES = ["practice_test", "roleplay", "written_event", "pi_review", "chat", "game", "other"] as const;
+export type StudyActivityType = typeof STUDY_ACTIVITY_TYPES[number];
+
+export const studySessions = pgTable("study_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  activityType: text("activity_type").notNull(),
+  focusScore: real("focus_score"), // 0-100
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  endedAt: timestamp("ended_at"), // null while the session is running
+  duration: integer("duration"), // In seconds, set when the session ends
+});
+
+export const insertStudySessionSchema = createInsertSchema(studySessions).pick({
+  userId: true,
+  activityType: true,
+  focusScore: true,
+});
+
 // Mini-game scores
 export const miniGameScores = pgTable("mini_game_scores", {
   id: serial("id").primaryKey(),
@@ -771,16 +358,471 @@ export type UserDailyChallenge = typeof userDailyChallenges.$inferSelect;
 export type InsertUserDailyChallenge = z.infer<typeof insertUserDailyChallengeSchema>;
 export type BreakSession = typeof breakSessions.$inferSelect;
 export type InsertBreakSession = z.infer<typeof insertBreakSessionSchema>;
+export type StudySession = typeof studySessions.$inferSelect;
+export type InsertStudySession = z.infer<typeof insertStudySessionSchema>;
 export type MiniGameScore = typeof miniGameScores.$inferSelect;
 export type InsertMiniGameScore = z.infer<typeof insertMiniGameScoreSchema>;
 
-// Performance indicator categories
-export const PI_CATEGORIES = [
-  "Financial Analysis",
-  "Business Law",
-  "Marketing",
-  "Management",
-  "Entrepreneurship",
-  "Hospitality & Tourism",
-  "Business Administration"
-];
+// Test history for completed practice tests
+export const testHistory = pgTable("test_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  testTitle: text("test_title").notNull(),
+  cluster: text("cluster").notNull(),
+  level: text("level").notNull(), // District, Association, ICDC
+  totalQuestions: integer("total_questions").notNull(),
+  correctAnswers: integer("correct_answers").notNull(),
+  score: integer("score").notNull(), // Percentage 0-100
+  timeSpent: integer("time_spent"), // In seconds
+  topicPerformance: text("topic_performance"), // JSON string of topic -> score (0-1)
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+});
+
+export const insertTestHistorySchema = createInsertSchema(testHistory).pick({
+  userId: true,
+  testTitle: true,
+  cluster: true,
+  level: true,
+  totalQuestions: true,
+  correctAnswers: true,
+  score: true,
+  timeSpent: true,
+  topicPerformance: true,
+  completedAt: true,
+});
+
+// Per-question results for each completed test
+export const questionResults = pgTable("question_results", {
+  id: serial("id").primaryKey(),
+  testHistoryId: integer("test_history_id").notNull(),
+  userId: integer("user_id").notNull(),
+  questionText: text("question_text").notNull(),
+  correctAnswer: text("correct_answer").notNull(),
+  userAnswer: text("user_answer"),
+  isCorrect: boolean("is_correct").notNull(),
+  topic: text("topic"), // Instructional area
+  piCodes: text("pi_codes").array(), // PI registry codes the question tests
+  explanation: text("explanation"),
+  answeredAt: timestamp("answered_at").defaultNow().notNull(),
+});
+
+export const insertQuestionResultSchema = createInsertSchema(questionResults).pick({
+  testHistoryId: true,
+  userId: true,
+  questionText: true,
+  correctAnswer: true,
+  userAnswer: true,
+  isCorrect: true,
+  topic: true,
+  piCodes: true,
+  explanation: true,
+  answeredAt: true,
+});
+
+// Generated practice tests, kept on the server so the answer key stays hidden until the test is submitted and scored.
+// An exam-mode test runs under exam conditions: a server-side deadline, with each answer autosaved so it can be resumed.
+export const PRACTICE_TEST_MODES = ["practice", "exam"] as const;
+export type PracticeTestMode = typeof PRACTICE_TEST_MODES[number];
+
+export const practiceTests = pgTable("practice_tests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  cluster: text("cluster").notNull(),
+  level: text("level").notNull(),
+  mode: text("mode").default("practice").notNull(), // practice or exam
+  questions: text("questions").notNull(), // JSON array of generated questions, answers and rationales included
+  answers: text("answers").default("{}").notNull(), // JSON object of autosaved answers, question id -> option letter
+  flaggedQuestions: text("flagged_questions").default("[]").notNull(), // JSON array of question ids marked for review
+  testHistoryId: integer("test_history_id"), // Set once the submission is scored
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"), // Exam deadline; the test is submitted automatically when it passes
+  submittedAt: timestamp("submitted_at"),
+});
+
+export const insertPracticeTestSchema = createInsertSchema(practiceTests).pick({
+  userId: true,
+  cluster: true,
+  level: true,
+  mode: true,
+  questions: true,
+  expiresAt: true,
+});
+
+// Learning insights derived from test history
+export const learningInsights = pgTable("learning_insights", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  insightType: text("insight_type").notNull(), // weak_topic, strong_topic
+  topic: text("topic"),
+  currentScore: real("current_score"), // 0-1
+  targetScore: real("target_score"), // 0-1
+  priority: integer("priority").default(0), // 0-5, higher is more urgent
+  recommendedActions: text("recommended_actions"), // JSON string array
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertLearningInsightSchema = createInsertSchema(learningInsights).pick({
+  userId: true,
+  insightType: true,
+  topic: true,
+  currentScore: true,
+  targetScore: true,
+  priority: true,
+  recommendedActions: true,
+  isActive: true,
+});
+
+// Roleplay history for completed roleplay practice
+export const roleplayHistory = pgTable("roleplay_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  scenario: text("scenario").notNull(), // JSON string or title of the scenario
+  cluster: text("cluster").notNull(),
+  role: text("role"),
+  score: integer("score"), // Percentage 0-100
+  aiGradingFeedback: text("ai_grading_feedback"), // JSON string from the grader
+  gradedBy: text("graded_by"), // "ai" or "judge" when the session was scored
+  transcriptUrl: text("transcript_url"),
+  transcript: text("transcript"),
+  notes: text("notes"), // Prep notes taken before the response
+  audioKey: text("audio_key"), // Recording store key of the recorded response
+  audioType: text("audio_type"), // MIME type of the recording
+  duration: integer("duration"), // In seconds
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+});
+
+export const insertRoleplayHistorySchema = createInsertSchema(roleplayHistory).pick({
+  userId: true,
+  scenario: true,
+  cluster: true,
+  role: true,
+  score: true,
+  aiGradingFeedback: true,
+  gradedBy: true,
+  transcriptUrl: true,
+  transcript: true,
+  notes: true,
+  audioKey: true,
+  audioType: true,
+  duration: true,
+  completedAt: true,
+});
+
+// Live roleplay conversations with an AI judge playing the scenario's character
+export const JUDGE_SESSION_STATUSES = ["presenting", "closing", "completed"] as const;
+export type JudgeSessionStatus = typeof JUDGE_SESSION_STATUSES[number];
+
+export interface JudgeMessage {
+  role: "judge" | "student";
+  content: string;
+}
+
+export const judgeSessions = pgTable("judge_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  scenario: text("scenario").notNull(), // JSON string of the roleplay scenario
+  includeObjections: boolean("include_objections").default(false).notNull(),
+  status: text("status").default("presenting").notNull(), // presenting, closing or completed
+  messages: text("messages").notNull(), // JSON array of JudgeMessage
+  closingQuestionsAsked: integer("closing_questions_asked").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertJudgeSessionSchema = createInsertSchema(judgeSessions).pick({
+  userId: true,
+  scenario: true,
+  includeObjections: true,
+  status: true,
+  messages: true,
+  closingQuestionsAsked: true,
+});
+
+// Conversations with Diego, kept on the server so every reply has the earlier turns as context
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  isUnrelated?: boolean; // Off-topic questions and Diego's replies to them, left out of his context
+  createdAt: string;
+}
+
+export const chatConversations = pgTable("chat_conversations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  messages: text("messages").notNull(), // JSON array of ChatMessage
+  unrelatedCount: integer("unrelated_count").default(0).notNull(), // Off-topic questions in a row
+  closedAt: timestamp("closed_at"), // Set when Diego leaves after too many off-topic questions
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertChatConversationSchema = createInsertSchema(chatConversations).pick({
+  userId: true,
+  messages: true,
+  unrelatedCount: true,
+});
+
+// Topic mastery per user, topic and cluster
+export const topicMastery = pgTable("topic_mastery", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  topic: text("topic").notNull(),
+  cluster: text("cluster").notNull(),
+  masteryLevel: real("mastery_level").default(0), // 0-100
+  questionsAnswered: integer("questions_answered").default(0),
+  questionsCorrect: integer("questions_correct").default(0),
+  lastPracticed: timestamp("last_practiced").defaultNow(),
+  avgTimePerQuestion: real("avg_time_per_question"), // In seconds
+  masteryTrend: text("mastery_trend").default("stable"), // improving, declining, stable
+  learningVelocity: real("learning_velocity").default(0), // Mastery points per day
+  nextRecommendedPractice: timestamp("next_recommended_practice"),
+  timesRetried: integer("times_retried").default(0),
+  streakCount: integer("streak_count").default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertTopicMasterySchema = createInsertSchema(topicMastery).pick({
+  userId: true,
+  topic: true,
+  cluster: true,
+  masteryLevel: true,
+  questionsAnswered: true,
+  questionsCorrect: true,
+  avgTimePerQuestion: true,
+  masteryTrend: true,
+  learningVelocity: true,
+  nextRecommendedPractice: true,
+});
+
+// Focused quiz sessions
+export const quizSessions = pgTable("quiz_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  topicFocused: text("topic_focused"),
+  cluster: text("cluster"),
+  questionsCount: integer("questions_count").notNull(),
+  correctAnswers: integer("correct_answers").notNull(),
+  scorePercentage: real("score_percentage").notNull(),
+  timeSpent: integer("time_spent"), // In seconds
+  improvementFromLastSession: real("improvement_from_last_session"),
+  masteryGainEstimate: real("mastery_gain_estimate"),
+  nextRecommendedSession: timestamp("next_recommended_session"),
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+});
+
+export const insertQuizSessionSchema = createInsertSchema(quizSessions).pick({
+  userId: true,
+  topicFocused: true,
+  cluster: true,
+  questionsCount: true,
+  correctAnswers: true,
+  scorePercentage: true,
+  timeSpent: true,
+});
+
+// Enhanced learning insights derived from topic mastery and quiz sessions
+export const enhancedLearningInsights = pgTable("enhanced_learning_insights", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  insightType: text("insight_type").notNull(), // weakness_pattern, strength_area, timing_optimization
+  topic: text("topic"),
+  insight: text("insight").notNull(),
+  actionRecommendation: text("action_recommendation"),
+  confidenceScore: real("confidence_score"), // 0-1
+  priority: text("priority").default("medium"), // high, medium, low
+  validUntil: timestamp("valid_until"),
+  timesSeen: integer("times_seen").default(0),
+  timesActedUpon: integer("times_acted_upon").default(0),
+  effectivenessScore: real("effectiveness_score").default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEnhancedLearningInsightSchema = createInsertSchema(enhancedLearningInsights).pick({
+  userId: true,
+  insightType: true,
+  topic: true,
+  insight: true,
+  actionRecommendation: true,
+  confidenceScore: true,
+  priority: true,
+  validUntil: true,
+  timesSeen: true,
+  timesActedUpon: true,
+  effectivenessScore: true,
+});
+
+// Cosmetic items available in the store
+export const COSMETIC_RARITIES = ["common", "rare", "epic", "legendary"] as const;
+export type CosmeticRarity = typeof COSMETIC_RARITIES[number];
+
+// Item types that can be equipped, one item per slot: Diego's skin, the app theme and the badge frame
+export const COSMETIC_SLOTS = ["skin", "theme", "badge"] as const;
+export type CosmeticSlot = typeof COSMETIC_SLOTS[number];
+
+export const cosmeticItems = pgTable("cosmetic_items", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description").notNull(),
+  type: text("type").notNull(), // skin, theme, badge, avatar, background, cursor
+  rarity: text("rarity").notNull().default("common"), // One of COSMETIC_RARITIES
+  price: integer("price").notNull(), // In Decits
+  isLimited: boolean("is_limited").default(false),
+  availableFrom: timestamp("available_from"),
+  availableUntil: timestamp("available_until"),
+  previewUrl: text("preview_url"),
+  cssData: text("css_data"), // JSON string with styling data
+  unlockRequirement: text("unlock_requirement"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCosmeticItemSchema = createInsertSchema(cosmeticItems).pick({
+  name: true,
+  description: true,
+  type: true,
+  rarity: true,
+  price: true,
+  isLimited: true,
+  availableFrom: true,
+  availableUntil: true,
+  previewUrl: true,
+  cssData: true,
+  unlockRequirement: true,
+});
+
+// Cosmetic items owned by users
+export const userCosmetics = pgTable("user_cosmetics", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  cosmeticId: integer("cosmetic_id").notNull(),
+  isEquipped: boolean("is_equipped").default(false),
+  purchasedAt: timestamp("purchased_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("user_cosmetics_user_cosmetic_idx").on(table.userId, table.cosmeticId),
+]);
+
+export const insertUserCosmeticSchema = createInsertSchema(userCosmetics).pick({
+  userId: true,
+  cosmeticId: true,
+  isEquipped: true,
+});
+
+// Decits ledger, one row per balance change
+export const DECITS_TRANSACTION_TYPES = ["earned", "purchase", "reward"] as const;
+export type DecitsTransactionType = typeof DECITS_TRANSACTION_TYPES[number];
+
+export const decitsTransactions = pgTable("decits_transactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  amount: integer("amount").notNull(), // Positive for grants, negative for spending
+  type: text("type").notNull(), // One of DECITS_TRANSACTION_TYPES
+  description: text("description"),
+  relatedId: integer("related_id"), // Cosmetic item, challenge, etc.
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertDecitsTransactionSchema = createInsertSchema(decitsTransactions).pick({
+  userId: true,
+  amount: true,
+  type: true,
+  description: true,
+  relatedId: true,
+});
+
+// DECA Bloc game sessions
+export const gameSessionsDECABloc = pgTable("game_sessions_deca_bloc", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  finalScore: integer("final_score").notNull(),
+  linesCleared: integer("lines_cleared").notNull(),
+  questionsAnswered: integer("questions_answered").notNull(),
+  questionsCorrect: integer("questions_correct").notNull(),
+  streakBest: integer("streak_best").notNull(),
+  totalPlayTime: integer("total_play_time").notNull(), // In seconds
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+});
+
+export const insertGameSessionDECABlocSchema = createInsertSchema(gameSessionsDECABloc).pick({
+  userId: true,
+  finalScore: true,
+  linesCleared: true,
+  questionsAnswered: true,
+  questionsCorrect: true,
+  streakBest: true,
+  totalPlayTime: true,
+});
+
+export type TestHistory = typeof testHistory.$inferSelect;
+export type InsertTestHistory = z.infer<typeof insertTestHistorySchema>;
+export type QuestionResult = typeof questionResults.$inferSelect;
+export type InsertQuestionResult = z.infer<typeof insertQuestionResultSchema>;
+export type PracticeTest = typeof practiceTests.$inferSelect;
+export type InsertPracticeTest = z.infer<typeof insertPracticeTestSchema>;
+export type LearningInsight = typeof learningInsights.$inferSelect;
+export type InsertLearningInsight = z.infer<typeof insertLearningInsightSchema>;
+export type RoleplayHistory = typeof roleplayHistory.$inferSelect;
+export type InsertRoleplayHistory = z.infer<typeof insertRoleplayHistorySchema>;
+export type JudgeSession = typeof judgeSessions.$inferSelect;
+export type InsertJudgeSession = z.infer<typeof insertJudgeSessionSchema>;
+export type ChatConversation = typeof chatConversations.$inferSelect;
+export type InsertChatConversation = z.infer<typeof insertChatConversationSchema>;
+export type TopicMastery = typeof topicMastery.$inferSelect;
+export type InsertTopicMastery = z.infer<typeof insertTopicMasterySchema>;
+export type QuizSession = typeof quizSessions.$inferSelect;
+export type InsertQuizSession = z.infer<typeof insertQuizSessionSchema>;
+export type EnhancedLearningInsight = typeof enhancedLearningInsights.$inferSelect;
+export type InsertEnhancedLearningInsight = z.infer<typeof insertEnhancedLearningInsightSchema>;
+export type CosmeticItem = typeof cosmeticItems.$inferSelect;
+export type InsertCosmeticItem = z.infer<typeof insertCosmeticItemSchema>;
+export type UserCosmetic = typeof userCosmetics.$inferSelect;
+export type InsertUserCosmetic = z.infer<typeof insertUserCosmeticSchema>;
+export type DecitsTransaction = typeof decitsTransactions.$inferSelect;
+export type InsertDecitsTransaction = z.infer<typeof insertDecitsTransactionSchema>;
+export type GameSessionDECABloc = typeof gameSessionsDECABloc.$inferSelect;
+export type InsertGameSessionDECABloc = z.infer<typeof insertGameSessionDECABlocSchema>;
+
+// Written event prompts generated for students
+export const writtenEventPrompts = pgTable("written_event_prompts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  eventCode: text("event_code").notNull(), // IBP, PMBS, IMCE, etc.
+  difficulty: text("difficulty").notNull(), // beginner, intermediate, advanced, competition
+  title: text("title").notNull(),
+  prompt: text("prompt").notNull(), // JSON string with the full generated prompt
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWrittenEventPromptSchema = createInsertSchema(writtenEventPrompts).pick({
+  userId: true,
+  eventCode: true,
+  difficulty: true,
+  title: true,
+  prompt: true,
+});
+
+export type WrittenEventPrompt = typeof writtenEventPrompts.$inferSelect;
+export type InsertWrittenEventPrompt = z.infer<typeof insertWrittenEventPromptSchema>;
+
+// Rubric-based feedback on written event submissions
+export const writtenEventFeedback = pgTable("written_event_feedback", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  promptId: integer("prompt_id"), // Written event prompt the submission answers, if any
+  eventCode: text("event_code").notNull(),
+  overallScore: integer("overall_score").notNull(), // 0-100
+  submission: text("submission").notNull(), // Submitted text, kept so cited passages can be shown again
+  feedback: text("feedback").notNull(), // JSON string with per-section scores, comments and citations
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWrittenEventFeedbackSchema = createInsertSchema(writtenEventFeedback).pick({
+  userId: true,
+  promptId: true,
+  eventCode: true,
+  overallScore: true,
+  submission: true,
+  feedback: true,
+});
+
+export type WrittenEventFeedback = typeof writtenEventFeedback.$inferSelect;
+export type InsertWrittenEventFeedback = z.infer<typeof insertWrittenEventFeedbackSchema>;
@@ -0,0 +1,44 @@
+import { COSMETIC_SLOTS, type CosmeticItem, type CosmeticRarity, type CosmeticSlot, type InsertCosmeticItem } from './schema';
+
+// Decits price of each rarity in the starter catalog
+export const RARITY_PRICES: Record<CosmeticRarity, number> = {
+  common: 100,
+  rare: 250,
+  epic: 500,
+  legendary: 1000,
+};
+
+function catalogItem(
+  type: CosmeticSlot,
+  rarity: CosmeticRarity,
+  name: string,
+  description: string,
+  style: Record<string, string>,
+): InsertCosmeticItem {
+  return { name, description, type, rarity, price: RARITY_PRICES[rarity], cssData: JSON.stringify(style) };
+}
+
+// The store is stocked with these items the first time the catalog is read. cssData holds the colors each slot applies.
+export const STORE_CATALOG: InsertCosmeticItem[] = [
+  catalogItem('skin', 'common', 'Ocean Blue Diego', 'Diego in his classic deep-sea blue.', { primary: '#1d6fa5', accent: '#8fd3f4' }),
+  catalogItem('skin', 'rare', 'Coral Reef Diego', 'A warm coral coat for a dolphin who loves the shallows.', { primary: '#ff7f6b', accent: '#ffd3c9' }),
+  catalogItem('skin', 'epic', 'Midnight Diego', 'Diego after dark, with bioluminescent fins.', { primary: '#1b1f3b', accent: '#58f0d2' }),
+  catalogItem('skin', 'legendary', 'Golden Gavel Diego', 'Reserved for dolphins who have seen the ICDC stage.', { primary: '#d4a017', accent: '#fff4c2' }),
+  catalogItem('theme', 'common', 'Chalkboard', 'A calm green study theme.', { background: '#1f3a2e', foreground: '#f2f5ef', accent: '#9fd8a4' }),
+  catalogItem('theme', 'rare', 'Boardroom', 'Navy and silver, like the room where the judge is waiting.', { background: '#14213d', foreground: '#e5e5e5', accent: '#a3b1c6' }),
+  catalogItem('theme', 'epic', 'Memphis Pop', 'Loud shapes and louder colors.', { background: '#fff5e1', foreground: '#222222', accent: '#ff4f9a' }),
+  catalogItem('theme', 'legendary', 'Trophy Case', 'Black and gold for champions.', { background: '#0d0d0d', foreground: '#f5f0e1', accent: '#e6b422' }),
+  catalogItem('badge', 'common', 'Bronze Frame', 'A simple bronze border for your badges.', { border: '#b08d57' }),
+  catalogItem('badge', 'rare', 'Silver Frame', 'A polished silver border.', { border: '#c0c0c0' }),
+  catalogItem('badge', 'epic', 'Diamond Frame', 'A faceted border that catches the light.', { border: '#7fdbff', glow: '#d6f5ff' }),
+  catalogItem('badge', 'legendary', 'Glass Trophy Frame', 'The frame of an international finalist.', { border: '#e6b422', glow: '#fff1b8' }),
+];
+
+export function isCosmeticSlot(type: string): type is CosmeticSlot {
+  return (COSMETIC_SLOTS as readonly string[]).includes(type);
+}
+
+// Limited items can only be bought between their availability dates
+export function isCosmeticAvailable(item: CosmeticItem, now: Date = new Date()): boolean {
+  return (!item.availableFrom || item.availableFrom <= now) && (!item.availableUntil || now < item.availableUntil);
+}
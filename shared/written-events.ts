@@ -0,0 +1,145 @@
+import { EVENTS_BY_FORMAT } from './deca-events';
+
+// Written event guideline configurations
+export interface WrittenEventSection {
+  name: string;
+  guidance: string;
+  points: number; // Maximum points for the section on the written entry rubric
+}
+
+export interface WrittenEventGuideline {
+  code: string;
+  name: string;
+  family: 'business-plan' | 'innovation-plan' | 'operations-research' | 'project-management' | 'integrated-marketing-campaign';
+  pageLimit: number;
+  presentationMinutes: number;
+  sections: WrittenEventSection[];
+}
+
+// Shared section outlines and rubric points, following the official DECA written entry guidelines.
+// Each outline totals 60 points; the remaining 40 come from the presentation.
+const BUSINESS_PLAN_SECTIONS: WrittenEventSection[] = [
+  { name: 'Executive Summary', guidance: 'One-page description of the business, its target market and the key financial highlights of the plan', points: 5 },
+  { name: 'Introduction', guidance: 'Business concept, ownership structure and the products or services offered', points: 5 },
+  { name: 'Analysis of the Business Situation', guidance: 'Self-analysis of the owner, trading area, market segment and competitive analysis', points: 15 },
+  { name: 'Planning and Organization', guidance: 'Proposed organization, marketing plan, location and staffing needs', points: 15 },
+  { name: 'Financial Plan', guidance: 'Start-up costs, projected income statement, cash flow and capital required', points: 15 },
+  { name: 'Conclusion', guidance: 'Summary of the plan and a specific request for financing or next steps', points: 5 },
+  { name: 'Bibliography', guidance: 'Sources cited in the plan', points: 0 },
+];
+
+const OPERATIONS_RESEARCH_SECTIONS: WrittenEventSection[] = [
+  { name: 'Executive Summary', guidance: 'One-page description of the research project, findings and the proposed strategic plan', points: 5 },
+  { name: 'Introduction', guidance: 'Description of the business or organization and the problem being researched', points: 5 },
+  { name: 'Research Methods Used', guidance: 'Description and rationale for each primary and secondary research method', points: 10 },
+  { name: 'Findings and Conclusions', guidance: 'Findings of the research study and the conclusions drawn from them', points: 15 },
+  { name: 'Proposed Strategic Plan', guidance: 'Goals, objectives and proposed activities with a timeline', points: 15 },
+  { name: 'Proposed Budget', guidance: 'Costs of implementing the strategic plan', points: 10 },
+  { name: 'Bibliography', guidance: 'Sources cited in the report', points: 0 },
+];
+
+const PROJECT_MANAGEMENT_SECTIONS: WrittenEventSection[] = [
+  { name: 'Executive Summary', guidance: 'One-page description of the project and its outcomes', points: 5 },
+  { name: 'Initiation', guidance: 'Project goal, scope, stakeholders and the need the project addresses', points: 10 },
+  { name: 'Planning and Organization', guidance: 'Project plan, timeline, work breakdown structure, budget and risk management', points: 15 },
+  { name: 'Execution', guidance: 'Implementation of the plan, monitoring and quality control', points: 10 },
+  { name: 'Monitoring and Controlling', guidance: 'Tracking of progress against the plan and corrective actions taken', points: 10 },
+  { name: 'Closing the Project', guidance: 'Project results, evaluation and recommendations for future projects', points: 10 },
+  { name: 'Bibliography', guidance: 'Sources cited in the project', points: 0 },
+];
+
+const INTEGRATED_MARKETING_CAMPAIGN_SECTIONS: WrittenEventSection[] = [
+  { name: 'Executive Summary', guidance: 'One-page description of the campaign', points: 5 },
+  { name: 'Campaign Objectives', guidance: 'Measurable objectives for the campaign', points: 10 },
+  { name: 'Target Market Analysis', guidance: 'Description of the target market and customer profile', points: 10 },
+  { name: 'Campaign Activities and Timeline', guidance: 'Advertising, public relations, digital and sales promotion activities with a schedule', points: 20 },
+  { name: 'Budget', guidance: 'Itemized costs of the campaign activities', points: 10 },
+  { name: 'Key Metrics', guidance: 'How the success of the campaign will be measured', points: 5 },
+];
+
+const INNOVATION_PLAN_SECTIONS: WrittenEventSection[] = [
+  { name: 'Executive Summary', guidance: 'One-page description of the innovation and the opportunity it addresses', points: 5 },
+  { name: 'Opportunity Recognition', guidance: 'The problem or need, and evidence that it exists', points: 10 },
+  { name: 'Market Analysis', guidance: 'Target customers, market size and competing solutions', points: 15 },
+  { name: 'Innovation Description', guidance: 'How the product or service works and what makes it new', points: 15 },
+  { name: 'Implementation and Financials', guidance: 'Resources, milestones and projected costs and revenues', points: 15 },
+  { name: 'Bibliography', guidance: 'Sources cited in the plan', points: 0 },
+];
+
+const FAMILY_DEFAULTS: Record<WrittenEventGuideline['family'], Pick<WrittenEventGuideline, 'pageLimit' | 'presentationMinutes' | 'sections'>> = {
+  'business-plan': { pageLimit: 20, presentationMinutes: 15, sections: BUSINESS_PLAN_SECTIONS },
+  'innovation-plan': { pageLimit: 10, presentationMinutes: 15, sections: INNOVATION_PLAN_SECTIONS },
+  'operations-research': { pageLimit: 20, presentationMinutes: 15, sections: OPERATIONS_RESEARCH_SECTIONS },
+  'project-management': { pageLimit: 20, presentationMinutes: 15, sections: PROJECT_MANAGEMENT_SECTIONS },
+  'integrated-marketing-campaign': { pageLimit: 10, presentationMinutes: 15, sections: INTEGRATED_MARKETING_CAMPAIGN_SECTIONS },
+};
+
+const EVENT_FAMILIES: Record<string, WrittenEventGuideline['family']> = {
+  EBG: 'business-plan',
+  EFB: 'business-plan',
+  EIB: 'business-plan',
+  ESB: 'business-plan',
+  IBP: 'business-plan',
+  EIP: 'innovation-plan',
+  BOR: 'operations-research',
+  BMOR: 'operations-research',
+  FOR: 'operations-research',
+  HTOR: 'operations-research',
+  SEOR: 'operations-research',
+  PMBS: 'project-management',
+  PMCD: 'project-management',
+  PMCA: 'project-management',
+  PMCG: 'project-management',
+  PMFL: 'project-management',
+  PMSP: 'project-management',
+  IMCE: 'integrated-marketing-campaign',
+  IMCP: 'integrated-marketing-campaign',
+  IMCS: 'integrated-marketing-campaign',
+};
+
+// Event-specific overrides where the official guidelines differ from the family outline
+const EVENT_OVERRIDES: Record<string, Partial<WrittenEventGuideline>> = {
+  ESB: { pageLimit: 10 },
+  IBP: {
+    sections: [
+      { name: 'Executive Summary', guidance: 'One-page description of the international business and its expansion strategy', points: 5 },
+      { name: 'Introduction', guidance: 'Business concept and the products or services to be offered abroad', points: 5 },
+      { name: 'Country Analysis', guidance: 'Political, economic, socio-cultural and technological factors of the target country', points: 15 },
+      { name: 'Market Analysis and Entry Strategy', guidance: 'Target market, competition and the chosen mode of market entry', points: 15 },
+      { name: 'Operations and Marketing Plan', guidance: 'Location, logistics, staffing and the marketing mix for the target country', points: 10 },
+      { name: 'Financial Plan', guidance: 'Start-up costs, currency considerations, projected income statement and cash flow', points: 10 },
+      { name: 'Bibliography', guidance: 'Sources cited in the plan', points: 0 },
+    ],
+  },
+};
+
+export const WRITTEN_EVENT_GUIDELINES: Record<string, WrittenEventGuideline> = Object.fromEntries(
+  EVENTS_BY_FORMAT.written
+    .filter(event => EVENT_FAMILIES[event.code])
+    .map(event => {
+      const family = EVENT_FAMILIES[event.code];
+      return [event.code, {
+        code: event.code,
+        name: event.name,
+        family,
+        ...FAMILY_DEFAULTS[family],
+        ...EVENT_OVERRIDES[event.code],
+      }];
+    })
+);
+
+export function getWrittenEventGuideline(code: string): WrittenEventGuideline | undefined {
+  return WRITTEN_EVENT_GUIDELINES[code.toUpperCase()];
+}
+
+export function isWrittenEventCode(code: string | null | undefined): boolean {
+  return !!code && !!getWrittenEventGuideline(code);
+}
+
+export function getRubricSections(guideline: WrittenEventGuideline): WrittenEventSection[] {
+  return guideline.sections.filter(section => section.points > 0);
+}
+
+export function getWrittenEntryPoints(guideline: WrittenEventGuideline): number {
+  return guideline.sections.reduce((total, section) => total + section.points, 0);
+}